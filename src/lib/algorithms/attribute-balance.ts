@@ -0,0 +1,179 @@
+/**
+ * Helpers for "balance by attribute" objectives.
+ *
+ * Scores how unevenly student attributes (gender, grade level, meta fields)
+ * are spread across groups, and improves an arrangement by swapping students
+ * between groups while the caller-supplied rules allow it.
+ *
+ * @module algorithms/attribute-balance
+ */
+
+import type { AttributeBalanceSpec, Group, Student } from '$lib/domain';
+import { getStudentAttributeValue, getStudentNumericAttribute } from '$lib/domain';
+
+/**
+ * Default cap on full passes over all student pairs in rebalanceAttributes.
+ */
+const MAX_REBALANCE_PASSES = 10;
+
+/**
+ * Compute an imbalance cost for an arrangement (lower is better, 0 is perfect).
+ *
+ * - Categorical: sum of squared differences between each group's count of a
+ *   value and its proportional share of that value.
+ * - Numeric: size-weighted squared distance of each group mean from the class
+ *   mean, normalized by the class variance so attributes on different scales
+ *   contribute comparably.
+ *
+ * Students missing a value are ignored for that attribute.
+ */
+export function measureAttributeImbalance(
+  groups: Pick<Group, 'memberIds'>[],
+  studentsById: Record<string, Student>,
+  specs: AttributeBalanceSpec[]
+): number {
+  let cost = 0;
+  for (const spec of specs) {
+    const weight = spec.weight ?? 1;
+    if (weight <= 0) continue;
+    cost +=
+      weight *
+      (spec.mode === 'numeric'
+        ? numericImbalance(groups, studentsById, spec.attribute)
+        : categoricalImbalance(groups, studentsById, spec.attribute));
+  }
+  return cost;
+}
+
+function categoricalImbalance(
+  groups: Pick<Group, 'memberIds'>[],
+  studentsById: Record<string, Student>,
+  attribute: string
+): number {
+  const groupCounts = groups.map((group) => {
+    const counts = new Map<string, number>();
+    for (const id of group.memberIds) {
+      const student = studentsById[id];
+      const value = student ? getStudentAttributeValue(student, attribute) : undefined;
+      if (value !== undefined) counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  const totals = new Map<string, number>();
+  let total = 0;
+  for (const counts of groupCounts) {
+    for (const [value, n] of counts) {
+      totals.set(value, (totals.get(value) ?? 0) + n);
+      total += n;
+    }
+  }
+  if (total === 0) return 0;
+
+  let cost = 0;
+  for (const counts of groupCounts) {
+    let size = 0;
+    for (const n of counts.values()) size += n;
+    for (const [value, n] of totals) {
+      const diff = (counts.get(value) ?? 0) - (size * n) / total;
+      cost += diff * diff;
+    }
+  }
+  return cost;
+}
+
+function numericImbalance(
+  groups: Pick<Group, 'memberIds'>[],
+  studentsById: Record<string, Student>,
+  attribute: string
+): number {
+  const groupValues = groups.map((group) =>
+    group.memberIds
+      .map((id) =>
+        studentsById[id] ? getStudentNumericAttribute(studentsById[id], attribute) : undefined
+      )
+      .filter((value): value is number => value !== undefined)
+  );
+
+  const all = groupValues.flat();
+  if (all.length < 2) return 0;
+  const mean = all.reduce((sum, v) => sum + v, 0) / all.length;
+  const variance = all.reduce((sum, v) => sum + (v - mean) ** 2, 0) / all.length;
+  if (variance === 0) return 0;
+
+  let cost = 0;
+  for (const values of groupValues) {
+    if (values.length === 0) continue;
+    const groupMean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    cost += (values.length * (groupMean - mean) ** 2) / variance;
+  }
+  return cost;
+}
+
+/**
+ * Improve attribute balance by swapping pairs of students between groups.
+ *
+ * Greedy hill-climbing: every pair of movable students in different groups is
+ * tried, and a swap is kept whenever it lowers the imbalance cost and
+ * `canSwap` allows it. Stops when a full pass makes no improvement.
+ * Group sizes never change. Groups are modified in place.
+ *
+ * @param options.movableIds - Students that may be swapped (others stay put)
+ * @param options.canSwap - Veto for a swap where `studentA` moves to `groupB` and `studentB` to `groupA`
+ * @returns Number of swaps made
+ */
+export function rebalanceAttributes(options: {
+  groups: Group[];
+  studentsById: Record<string, Student>;
+  specs: AttributeBalanceSpec[];
+  movableIds: Set<string>;
+  canSwap: (studentA: string, groupA: Group, studentB: string, groupB: Group) => boolean;
+  maxPasses?: number;
+}): number {
+  const { groups, studentsById, specs, movableIds, canSwap } = options;
+  if (specs.length === 0 || groups.length < 2) return 0;
+
+  let cost = measureAttributeImbalance(groups, studentsById, specs);
+  let swaps = 0;
+
+  for (let pass = 0; pass < (options.maxPasses ?? MAX_REBALANCE_PASSES); pass++) {
+    let improved = false;
+
+    for (let gi = 0; gi < groups.length; gi++) {
+      for (let gj = gi + 1; gj < groups.length; gj++) {
+        const groupA = groups[gi];
+        const groupB = groups[gj];
+
+        for (let ai = 0; ai < groupA.memberIds.length; ai++) {
+          const studentA = groupA.memberIds[ai];
+          if (!movableIds.has(studentA)) continue;
+
+          for (let bi = 0; bi < groupB.memberIds.length; bi++) {
+            const studentB = groupB.memberIds[bi];
+            if (!movableIds.has(studentB)) continue;
+
+            groupA.memberIds[ai] = studentB;
+            groupB.memberIds[bi] = studentA;
+            const swappedCost = measureAttributeImbalance(groups, studentsById, specs);
+            groupA.memberIds[ai] = studentA;
+            groupB.memberIds[bi] = studentB;
+
+            if (swappedCost >= cost - 1e-9) continue;
+            if (!canSwap(studentA, groupA, studentB, groupB)) continue;
+
+            groupA.memberIds[ai] = studentB;
+            groupB.memberIds[bi] = studentA;
+            cost = swappedCost;
+            swaps++;
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return swaps;
+}
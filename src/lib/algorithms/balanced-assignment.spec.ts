@@ -380,6 +380,241 @@ describe('assignBalanced', () => {
     });
   });
 
+  describe('keep-together constraints', () => {
+    const students: Student[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `s${i}`,
+      firstName: `Student ${i}`
+    }));
+    const noPreferences: StudentPreference[] = students.map((s) => ({
+      studentId: s.id,
+      avoidStudentIds: [],
+      likeGroupIds: [],
+      avoidGroupIds: []
+    }));
+
+    function groupOf(groups: Group[], studentId: string): string | undefined {
+      return groups.find((g) => g.memberIds.includes(studentId))?.id;
+    }
+
+    it('places keep-together sets in the same group across seeds', () => {
+      for (const seed of [1, 2, 3, 42, 99]) {
+        const groups: Group[] = [
+          { id: 'g1', name: 'Group 1', capacity: 4, memberIds: [] },
+          { id: 'g2', name: 'Group 2', capacity: 4, memberIds: [] }
+        ];
+
+        const result = assignBalanced(
+          buildOptions(
+            groups,
+            students,
+            noPreferences,
+            students.map((s) => s.id),
+            { seed, constraints: { keepTogether: [['s0', 's5', 's7']] } }
+          )
+        );
+
+        expect(result.unassignedStudentIds).toHaveLength(0);
+        expect(groupOf(result.groups, 's5')).toBe(groupOf(result.groups, 's0'));
+        expect(groupOf(result.groups, 's7')).toBe(groupOf(result.groups, 's0'));
+        expect(result.constraintViolations).toBeUndefined();
+      }
+    });
+
+    it('sends the whole set to a preferred group that has room for all of them', () => {
+      const groups: Group[] = [
+        { id: 'g1', name: 'Robotics', capacity: 4, memberIds: [] },
+        { id: 'g2', name: 'Art', capacity: 4, memberIds: [] }
+      ];
+      const preferences = noPreferences.map((p) =>
+        p.studentId === 's1' ? { ...p, likeGroupIds: ['Art'] } : p
+      );
+
+      const result = assignBalanced(
+        buildOptions(
+          groups,
+          students,
+          preferences,
+          students.map((s) => s.id),
+          { seed: 7, constraints: { keepTogether: [['s1', 's2']] } }
+        )
+      );
+
+      expect(groupOf(result.groups, 's1')).toBe('g2');
+      expect(groupOf(result.groups, 's2')).toBe('g2');
+    });
+
+    it('joins partners already placed in fill mode', () => {
+      const groups: Group[] = [
+        { id: 'g1', name: 'Group 1', capacity: 4, memberIds: [] },
+        { id: 'g2', name: 'Group 2', capacity: 4, memberIds: ['s0'] }
+      ];
+
+      const result = assignBalanced(
+        buildOptions(
+          groups,
+          students,
+          noPreferences,
+          students.filter((s) => s.id !== 's0').map((s) => s.id),
+          { seed: 3, constraints: { keepTogether: [['s0', 's3']] } }
+        )
+      );
+
+      expect(groupOf(result.groups, 's3')).toBe('g2');
+    });
+
+    it('splits a set and reports KEEP_TOGETHER violations when no group can hold it', () => {
+      const groups: Group[] = [
+        { id: 'g1', name: 'Group 1', capacity: 2, memberIds: [] },
+        { id: 'g2', name: 'Group 2', capacity: 2, memberIds: [] }
+      ];
+      const four = students.slice(0, 4);
+
+      const result = assignBalanced(
+        buildOptions(
+          groups,
+          four,
+          noPreferences,
+          four.map((s) => s.id),
+          { seed: 5, constraints: { keepTogether: [['s0', 's1', 's2']] } }
+        )
+      );
+
+      expect(result.unassignedStudentIds).toHaveLength(0);
+      const keepTogetherViolations = (result.constraintViolations ?? []).filter(
+        (v) => v.type === 'KEEP_TOGETHER'
+      );
+      expect(keepTogetherViolations.length).toBeGreaterThan(0);
+    });
+
+    it('keeps the set together even when a member has an avoid pair in the only roomy group', () => {
+      const groups: Group[] = [
+        { id: 'g1', name: 'Group 1', capacity: 3, memberIds: [] },
+        { id: 'g2', name: 'Group 2', capacity: 5, memberIds: [] }
+      ];
+
+      const result = assignBalanced(
+        buildOptions(
+          groups,
+          students,
+          noPreferences,
+          students.map((s) => s.id),
+          {
+            seed: 11,
+            constraints: {
+              keepTogether: [['s0', 's1', 's2', 's3']],
+              avoidPairs: [['s0', 's4']]
+            }
+          }
+        )
+      );
+
+      const setGroup = groupOf(result.groups, 's0');
+      expect(setGroup).toBe('g2');
+      expect(['s1', 's2', 's3'].every((id) => groupOf(result.groups, id) === setGroup)).toBe(true);
+    });
+  });
+
+  describe('attribute balancing', () => {
+    const emptyPreference = (studentId: string): StudentPreference => ({
+      studentId,
+      avoidStudentIds: [],
+      likeGroupIds: [],
+      avoidGroupIds: []
+    });
+
+    const threeGroupsOfFour = (): Group[] => [
+      { id: 'g1', name: 'Group 1', capacity: 4, memberIds: [] },
+      { id: 'g2', name: 'Group 2', capacity: 4, memberIds: [] },
+      { id: 'g3', name: 'Group 3', capacity: 4, memberIds: [] }
+    ];
+
+    it('spreads a categorical attribute proportionally across groups', () => {
+      const students: Student[] = Array.from({ length: 12 }, (_, i) => ({
+        id: `s${i}`,
+        firstName: `Student ${i}`,
+        gender: i < 6 ? 'F' : 'M'
+      }));
+
+      for (const seed of [1, 7, 42]) {
+        const result = assignBalanced(
+          buildOptions(
+            threeGroupsOfFour(),
+            students,
+            students.map((s) => emptyPreference(s.id)),
+            students.map((s) => s.id),
+            { seed, attributeBalance: [{ attribute: 'gender', mode: 'categorical' }] }
+          )
+        );
+
+        for (const group of result.groups) {
+          const girls = group.memberIds.filter((id) => Number(id.slice(1)) < 6);
+          expect(girls).toHaveLength(2);
+        }
+      }
+    });
+
+    it('keeps group means of a numeric meta field close to the class mean', () => {
+      const students: Student[] = Array.from({ length: 12 }, (_, i) => ({
+        id: `s${i}`,
+        firstName: `Student ${i}`,
+        meta: { readingLevel: i + 1 }
+      }));
+
+      const result = assignBalanced(
+        buildOptions(
+          threeGroupsOfFour(),
+          students,
+          students.map((s) => emptyPreference(s.id)),
+          students.map((s) => s.id),
+          { seed: 3, attributeBalance: [{ attribute: 'readingLevel', mode: 'numeric' }] }
+        )
+      );
+
+      for (const group of result.groups) {
+        const mean =
+          group.memberIds.reduce((sum, id) => sum + Number(id.slice(1)) + 1, 0) /
+          group.memberIds.length;
+        expect(Math.abs(mean - 6.5)).toBeLessThanOrEqual(0.5);
+      }
+    });
+
+    it('does not move students away from a requested group or break avoid pairs', () => {
+      const students: Student[] = Array.from({ length: 8 }, (_, i) => ({
+        id: `s${i}`,
+        firstName: `Student ${i}`,
+        gender: i < 4 ? 'F' : 'M'
+      }));
+      const preferences = students.map((s) => emptyPreference(s.id));
+      // Three girls request Group 1, so Group 1 cannot be perfectly balanced
+      for (const id of ['s0', 's1', 's2']) {
+        preferences.find((p) => p.studentId === id)!.likeGroupIds = ['g1'];
+      }
+      const groups: Group[] = [
+        { id: 'g1', name: 'Group 1', capacity: 4, memberIds: [] },
+        { id: 'g2', name: 'Group 2', capacity: 4, memberIds: [] }
+      ];
+
+      const result = assignBalanced(
+        buildOptions(
+          groups,
+          students,
+          preferences,
+          students.map((s) => s.id),
+          {
+            seed: 5,
+            constraints: { avoidPairs: [['s3', 's4']] },
+            attributeBalance: [{ attribute: 'gender', mode: 'categorical' }]
+          }
+        )
+      );
+
+      const g1 = result.groups.find((g) => g.id === 'g1')!;
+      expect(g1.memberIds).toEqual(expect.arrayContaining(['s0', 's1', 's2']));
+      const groupOf = (id: string) => result.groups.find((g) => g.memberIds.includes(id))?.id;
+      expect(groupOf('s3')).not.toBe(groupOf('s4'));
+    });
+  });
+
   describe('edge cases', () => {
     it('handles empty student list', () => {
       const groups: Group[] = [{ id: 'g1', name: 'Group 1', capacity: 5, memberIds: [] }];
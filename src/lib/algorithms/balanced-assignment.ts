@@ -7,9 +7,11 @@
  * 3. Falls back to balanced distribution for students without preferences
  *
  * The algorithm prioritizes:
+ * - Keeping "keep together" sets in one group
  * - First choice requests (when capacity allows)
  * - Second/third choice as fallbacks
  * - Balanced distribution for remaining students
+ * - Optional attribute balancing (gender, grade level, meta fields)
  *
  * @module algorithms/balanced-assignment
  */
@@ -21,6 +23,12 @@ import type {
   GroupingConstraints,
   ConstraintViolation
 } from './types';
+import {
+  buildKeepTogetherIndex,
+  findKeepTogetherViolations,
+  mergeKeepTogetherSets
+} from './keep-together';
+import { rebalanceAttributes } from './attribute-balance';
 
 /**
  * Simple seeded random number generator for deterministic results.
@@ -152,14 +160,47 @@ function collectViolations(
   return violations;
 }
 
+/**
+ * A placement unit: a single student, or a keep-together set that must be
+ * placed into one group as a block.
+ */
+interface PlacementUnit {
+  ids: string[];
+  choices: string[];
+}
+
+/**
+ * Order units by size, largest first, preserving relative order within a size.
+ */
+function largestFirst(units: PlacementUnit[]): PlacementUnit[] {
+  return [...units].sort((a, b) => b.ids.length - a.ids.length);
+}
+
+/**
+ * Check whether any member of a unit would violate constraints in a group.
+ */
+function unitWouldViolateConstraints(
+  unit: PlacementUnit,
+  groupMemberIds: string[],
+  constraints: GroupingConstraints | undefined
+): boolean {
+  return unit.ids.some((id) => wouldViolateConstraints(id, groupMemberIds, constraints));
+}
+
 /**
  * Assign students to groups with request-aware optimization.
  *
  * This algorithm:
  * 1. Builds a map from group names to group objects (for name-based matching)
- * 2. Processes students with preferences first, trying to satisfy their requests
- * 3. Assigns remaining students using balanced distribution
- * 4. Returns any students that couldn't be assigned due to capacity limits
+ * 2. Collapses keep-together sets into placement units that move as a block
+ * 3. Processes units with preferences first, trying to satisfy their requests
+ * 4. Assigns remaining units using balanced distribution
+ * 5. Optionally swaps students between groups to even out attributes
+ * 6. Returns any students that couldn't be assigned due to capacity limits
+ *
+ * Keep-together sets are hard constraints: a set is only split when no group
+ * has room for all of its members, and each split is reported as a
+ * KEEP_TOGETHER violation.
  *
  * @param options - Assignment configuration
  * @returns Groups with assigned students and any unassigned student IDs
@@ -173,6 +214,8 @@ export function assignBalanced(options: AssignmentOptions): AssignmentResult {
     memberIds: [...group.memberIds]
   }));
 
+  const prePlacedIds = new Set(workingGroups.flatMap((group) => group.memberIds));
+
   // Build maps for group lookup (by ID and by name)
   const groupById = new Map<string, Group>();
   const groupByName = new Map<string, Group>();
@@ -181,44 +224,73 @@ export function assignBalanced(options: AssignmentOptions): AssignmentResult {
     groupByName.set(group.name.toLowerCase(), group);
   }
 
-  // Separate students into those with and without preferences
-  const studentsWithPrefs: Array<{ id: string; choices: string[] }> = [];
-  const studentsWithoutPrefs: string[] = [];
+  const keepTogetherSets = mergeKeepTogetherSets(options.constraints?.keepTogether);
+  const keepTogetherIndex = buildKeepTogetherIndex(keepTogetherSets);
+  const pendingIds = new Set(options.studentOrder);
+
+  const assigned = new Set<string>();
+  const unassigned: string[] = [];
+  const constraintViolations: ConstraintViolation[] = [];
+
+  const placeUnit = (unit: PlacementUnit, group: Group) => {
+    for (const id of unit.ids) {
+      group.memberIds.push(id);
+      assigned.add(id);
+    }
+  };
+
+  // Separate units into those with and without preferences
+  const unitsWithPrefs: PlacementUnit[] = [];
+  const unitsWithoutPrefs: PlacementUnit[] = [];
+  const seenSets = new Set<string[]>();
 
   for (const studentId of options.studentOrder) {
-    const pref = options.preferencesById[studentId];
-    const choices = pref?.likeGroupIds ?? [];
+    const set = keepTogetherIndex.get(studentId);
+    let ids = [studentId];
+    if (set) {
+      if (seenSets.has(set)) continue;
+      seenSets.add(set);
+      ids = set.filter((id) => pendingIds.has(id));
+      if (ids.length === 0) continue;
+
+      // Fill mode: partners already placed anchor the rest of the set to their group
+      const anchorGroup = workingGroups.find((g) => set.some((id) => g.memberIds.includes(id)));
+      if (anchorGroup && remainingCapacity(anchorGroup) >= ids.length) {
+        placeUnit({ ids, choices: [] }, anchorGroup);
+        continue;
+      }
+    }
+
+    const choices =
+      ids.map((id) => options.preferencesById[id]?.likeGroupIds ?? []).find((c) => c.length > 0) ??
+      [];
 
     if (choices.length > 0) {
-      studentsWithPrefs.push({ id: studentId, choices });
+      unitsWithPrefs.push({ ids, choices });
     } else {
-      studentsWithoutPrefs.push(studentId);
+      unitsWithoutPrefs.push({ ids, choices });
     }
   }
 
-  // Shuffle both lists for fairness when requests conflict
-  const shuffledWithPrefs = shuffleArray(studentsWithPrefs, random);
-  const shuffledWithoutPrefs = shuffleArray(studentsWithoutPrefs, random);
+  // Shuffle both lists for fairness when requests conflict.
+  // Larger keep-together units go first (stable sort) so singles can't crowd them out.
+  const shuffledWithPrefs = largestFirst(shuffleArray(unitsWithPrefs, random));
+  const shuffledWithoutPrefs = shuffleArray(unitsWithoutPrefs, random);
 
-  const assigned = new Set<string>();
-  const unassigned: string[] = [];
-  const constraintViolations: ConstraintViolation[] = [];
-
-  // Phase 1: Process students with preferences
-  // Try to assign each student to one of their preferred groups
-  for (const { id: studentId, choices } of shuffledWithPrefs) {
+  // Phase 1: Process units with preferences
+  // Try to assign each unit to one of its preferred groups
+  for (const unit of shuffledWithPrefs) {
     let assignedToGroup = false;
 
     // Try each choice in order of preference
-    for (const choice of choices) {
+    for (const choice of unit.choices) {
       const group = findGroup(choice, groupById, groupByName);
       if (
         group &&
-        remainingCapacity(group) > 0 &&
-        !wouldViolateConstraints(studentId, group.memberIds, options.constraints)
+        remainingCapacity(group) >= unit.ids.length &&
+        !unitWouldViolateConstraints(unit, group.memberIds, options.constraints)
       ) {
-        group.memberIds.push(studentId);
-        assigned.add(studentId);
+        placeUnit(unit, group);
         assignedToGroup = true;
         break;
       }
@@ -226,30 +298,35 @@ export function assignBalanced(options: AssignmentOptions): AssignmentResult {
 
     // If no preferred group has space or all violate constraints, add to fallback list
     if (!assignedToGroup) {
-      studentsWithoutPrefs.push(studentId);
+      unitsWithoutPrefs.push(unit);
     }
   }
 
-  // Re-shuffle fallback list (includes students whose preferences couldn't be met)
-  const fallbackStudents = shuffleArray(
-    studentsWithoutPrefs.filter((id) => !assigned.has(id)),
-    random
+  // Re-shuffle fallback list (includes units whose preferences couldn't be met)
+  const fallbackUnits = largestFirst(
+    shuffleArray(
+      unitsWithoutPrefs.filter((unit) => !unit.ids.some((id) => assigned.has(id))),
+      random
+    )
   );
 
-  // Phase 2: Balanced assignment for remaining students
-  for (const studentId of fallbackStudents) {
+  // Phase 2: Balanced assignment for remaining units
+  for (let i = 0; i < fallbackUnits.length; i++) {
+    const unit = fallbackUnits[i];
+    const size = unit.ids.length;
+
     // Find group with most remaining capacity that doesn't violate constraints
     let bestGroup: Group | null = null;
     let bestRemaining = 0;
 
     for (const group of workingGroups) {
       const remaining = remainingCapacity(group);
-      const passesConstraints = !wouldViolateConstraints(
-        studentId,
+      const passesConstraints = !unitWouldViolateConstraints(
+        unit,
         group.memberIds,
         options.constraints
       );
-      if (!passesConstraints || remaining <= 0) continue;
+      if (!passesConstraints || remaining < size) continue;
 
       if (bestGroup === null) {
         bestGroup = group;
@@ -257,16 +334,18 @@ export function assignBalanced(options: AssignmentOptions): AssignmentResult {
       } else if (remaining > bestRemaining) {
         bestGroup = group;
         bestRemaining = remaining;
-      } else if (remaining === bestRemaining && group.memberIds.length < bestGroup.memberIds.length) {
+      } else if (
+        remaining === bestRemaining &&
+        group.memberIds.length < bestGroup.memberIds.length
+      ) {
         // Equal capacity (e.g. both Infinity) — prefer the group with fewer members
         bestGroup = group;
         bestRemaining = remaining;
       }
     }
 
-    if (bestGroup && bestRemaining > 0) {
-      bestGroup.memberIds.push(studentId);
-      assigned.add(studentId);
+    if (bestGroup && bestRemaining >= size) {
+      placeUnit(unit, bestGroup);
     } else {
       // No group available without violating constraints - try to find any group with capacity
       // This is a fallback to avoid leaving students unassigned when constraints are too strict
@@ -274,7 +353,7 @@ export function assignBalanced(options: AssignmentOptions): AssignmentResult {
       let fallbackRemaining = 0;
       for (const group of workingGroups) {
         const remaining = remainingCapacity(group);
-        if (remaining <= 0) continue;
+        if (remaining < size) continue;
 
         if (fallbackGroup === null) {
           fallbackGroup = group;
@@ -282,31 +361,77 @@ export function assignBalanced(options: AssignmentOptions): AssignmentResult {
         } else if (remaining > fallbackRemaining) {
           fallbackRemaining = remaining;
           fallbackGroup = group;
-        } else if (remaining === fallbackRemaining && group.memberIds.length < fallbackGroup.memberIds.length) {
+        } else if (
+          remaining === fallbackRemaining &&
+          group.memberIds.length < fallbackGroup.memberIds.length
+        ) {
           fallbackGroup = group;
           fallbackRemaining = remaining;
         }
       }
 
-      if (fallbackGroup && fallbackRemaining > 0) {
+      if (fallbackGroup && fallbackRemaining >= size) {
         // Collect violations before assigning
-        const violations = collectViolations(
-          studentId,
-          fallbackGroup.id,
-          fallbackGroup.memberIds,
-          options.constraints
-        );
-        constraintViolations.push(...violations);
+        for (const studentId of unit.ids) {
+          const violations = collectViolations(
+            studentId,
+            fallbackGroup.id,
+            fallbackGroup.memberIds,
+            options.constraints
+          );
+          constraintViolations.push(...violations);
+        }
 
         // Assign anyway despite constraint violations
-        fallbackGroup.memberIds.push(studentId);
-        assigned.add(studentId);
+        placeUnit(unit, fallbackGroup);
+      } else if (size > 1) {
+        // No group can hold the whole keep-together set; place members individually.
+        // The split is reported as a KEEP_TOGETHER violation below.
+        fallbackUnits.push(...unit.ids.map((id) => ({ ids: [id], choices: [] })));
       } else {
-        unassigned.push(studentId);
+        unassigned.push(...unit.ids);
       }
     }
   }
 
+  // Phase 3: Even out attributes by swapping single students between groups.
+  // Pre-placed students, keep-together members and students already placed
+  // despite a constraint violation stay where they are.
+  if (options.attributeBalance && options.attributeBalance.length > 0) {
+    const violatingIds = new Set(constraintViolations.map((v) => v.studentId));
+    const movableIds = new Set(
+      [...assigned].filter(
+        (id) => !prePlacedIds.has(id) && !keepTogetherIndex.has(id) && !violatingIds.has(id)
+      )
+    );
+    const choiceRank = (studentId: string, group: Group): number => {
+      const choices = options.preferencesById[studentId]?.likeGroupIds ?? [];
+      const rank = choices.findIndex(
+        (choice) => findGroup(choice, groupById, groupByName) === group
+      );
+      return rank === -1 ? Infinity : rank;
+    };
+
+    rebalanceAttributes({
+      groups: workingGroups,
+      studentsById: options.studentsById,
+      specs: options.attributeBalance,
+      movableIds,
+      canSwap: (studentA, groupA, studentB, groupB) => {
+        const othersInA = groupA.memberIds.filter((id) => id !== studentA);
+        const othersInB = groupB.memberIds.filter((id) => id !== studentB);
+        return (
+          choiceRank(studentA, groupB) <= choiceRank(studentA, groupA) &&
+          choiceRank(studentB, groupA) <= choiceRank(studentB, groupB) &&
+          !wouldViolateConstraints(studentA, othersInB, options.constraints) &&
+          !wouldViolateConstraints(studentB, othersInA, options.constraints)
+        );
+      }
+    });
+  }
+
+  constraintViolations.push(...findKeepTogetherViolations(workingGroups, keepTogetherSets));
+
   return {
     groups: workingGroups,
     unassignedStudentIds: unassigned,
@@ -226,4 +226,20 @@ describe('buildGroupingConstraints', () => {
 
     expect(constraints.avoidPairs).toBeUndefined();
   });
+
+  it('should merge keep-together sets and drop students outside the grouping', () => {
+    const constraints = buildGroupingConstraints({
+      preferences: [],
+      placements: [],
+      studentIds: ['alice', 'bob', 'carol'],
+      avoidRecentGroupmates: false,
+      keepTogether: [
+        ['alice', 'bob'],
+        ['bob', 'carol'],
+        ['dave', 'erin']
+      ]
+    });
+
+    expect(constraints.keepTogether).toEqual([['alice', 'bob', 'carol']]);
+  });
 });
@@ -6,7 +6,8 @@
 
 import type { Placement, Preference, StudentPreference } from '$lib/domain';
 import { extractStudentPreference } from '$lib/domain';
-import type { AvoidPair, GroupingConstraints } from './types';
+import type { AvoidPair, GroupingConstraints, KeepTogetherSet } from './types';
+import { mergeKeepTogetherSets } from './keep-together';
 
 /**
  * Build avoid pairs from student preferences.
@@ -117,8 +118,10 @@ export function buildGroupingConstraints(options: {
   studentIds: string[];
   avoidRecentGroupmates: boolean;
   lookbackSessions?: number;
+  keepTogether?: KeepTogetherSet[];
 }): GroupingConstraints {
   const avoidPairs = buildAvoidPairsFromPreferences(options.preferences);
+  const keepTogether = mergeKeepTogetherSets(options.keepTogether, options.studentIds);
   const recentGroupmates = options.avoidRecentGroupmates
     ? buildRecentGroupmatesMap(
         options.placements,
@@ -129,6 +132,7 @@ export function buildGroupingConstraints(options: {
 
   return {
     avoidPairs: avoidPairs.length > 0 ? avoidPairs : undefined,
+    keepTogether: keepTogether.length > 0 ? keepTogether : undefined,
     recentGroupmates,
     avoidRecentGroupmates: options.avoidRecentGroupmates
   };
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { findConstraintViolations } from './constraint-violations';
+
+describe('findConstraintViolations', () => {
+  const groups = [
+    { id: 'g1', memberIds: ['alice', 'bob'] },
+    { id: 'g2', memberIds: ['carol', 'dave'] }
+  ];
+
+  it('returns no violations when no constraints are given', () => {
+    expect(findConstraintViolations(groups, {})).toEqual([]);
+  });
+
+  it('reports avoid pairs placed in the same group', () => {
+    const violations = findConstraintViolations(groups, {
+      avoidPairs: [
+        ['alice', 'bob'],
+        ['alice', 'carol']
+      ]
+    });
+
+    expect(violations).toEqual([
+      { type: 'AVOID_PAIR', studentId: 'alice', groupId: 'g1', conflictingStudentIds: ['bob'] }
+    ]);
+  });
+
+  it('reports keep-together sets split across groups', () => {
+    const violations = findConstraintViolations(groups, {
+      keepTogether: [['bob', 'carol']]
+    });
+
+    expect(violations.map((v) => v.type)).toEqual(['KEEP_TOGETHER', 'KEEP_TOGETHER']);
+    expect(violations.map((v) => v.studentId).sort()).toEqual(['bob', 'carol']);
+  });
+});
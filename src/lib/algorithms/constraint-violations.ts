@@ -0,0 +1,50 @@
+/**
+ * Detect hard-constraint violations in an existing arrangement.
+ *
+ * Unlike the violations reported by assignBalanced (which describe compromises
+ * made during assignment), these are computed from the groups as they stand,
+ * so they stay accurate after manual drag-and-drop edits.
+ *
+ * @module algorithms/constraint-violations
+ */
+
+import type { ConstraintViolation, GroupingConstraints } from './types';
+import { findKeepTogetherViolations, mergeKeepTogetherSets } from './keep-together';
+
+/**
+ * Find avoid-pair and keep-together violations in a set of groups.
+ *
+ * Avoid pairs produce one violation per pair placed in the same group.
+ * Keep-together sets produce one violation per member separated from the rest of its set.
+ */
+export function findConstraintViolations(
+  groups: Array<{ id: string; memberIds: string[] }>,
+  constraints: Pick<GroupingConstraints, 'avoidPairs' | 'keepTogether'>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  const groupByStudent = new Map<string, string>();
+  for (const group of groups) {
+    for (const memberId of group.memberIds) {
+      groupByStudent.set(memberId, group.id);
+    }
+  }
+
+  for (const [idA, idB] of constraints.avoidPairs ?? []) {
+    const groupId = groupByStudent.get(idA);
+    if (groupId && groupByStudent.get(idB) === groupId) {
+      violations.push({
+        type: 'AVOID_PAIR',
+        studentId: idA,
+        groupId,
+        conflictingStudentIds: [idB]
+      });
+    }
+  }
+
+  violations.push(
+    ...findKeepTogetherViolations(groups, mergeKeepTogetherSets(constraints.keepTogether))
+  );
+
+  return violations;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import {
+  solveExactAssignment,
+  solveMinCostAssignment,
+  type ExactAssignmentInput,
+  type ExactAssignmentResult
+} from './exact-assignment';
+import type { Group } from '$lib/domain';
+
+function makeGroups(capacities: Array<number | null>): Group[] {
+  return capacities.map((capacity, i) => ({
+    id: `g${i + 1}`,
+    name: `Group ${i + 1}`,
+    capacity,
+    memberIds: []
+  }));
+}
+
+/** Solve, failing the test if the time budget runs out first. */
+function solve(input: ExactAssignmentInput): ExactAssignmentResult | null {
+  const result = solveExactAssignment(input);
+  if (result && 'timedOut' in result) throw new Error('Exact search timed out');
+  return result;
+}
+
+function groupOf(groups: Group[], studentId: string): string | undefined {
+  return groups.find((g) => g.memberIds.includes(studentId))?.id;
+}
+
+describe('solveExactAssignment', () => {
+  it('should find the minimum total rank where greedy first-come placement would not', () => {
+    // a and b both want g1 first, but b's second choice is g2 while a never listed it
+    const result = solve({
+      groups: makeGroups([1, 1]),
+      studentIds: ['b', 'a'],
+      choicesByStudent: { a: ['g1', 'g3', 'g4'], b: ['g1', 'g2'] }
+    });
+
+    expect(result).not.toBeNull();
+    expect(groupOf(result!.groups, 'a')).toBe('g1');
+    expect(groupOf(result!.groups, 'b')).toBe('g2');
+    expect(result!.cost).toBe(1);
+    expect(result!.provenOptimal).toBe(true);
+  });
+
+  it('should honor avoid pairs and keep-together sets', () => {
+    const result = solve({
+      groups: makeGroups([2, 2]),
+      studentIds: ['a', 'b', 'c', 'd'],
+      choicesByStudent: { a: ['g1'], b: ['g1'], c: ['g1'], d: ['g1'] },
+      avoidPairs: [['a', 'b']],
+      keepTogether: [['a', 'c']]
+    });
+
+    expect(result).not.toBeNull();
+    expect(groupOf(result!.groups, 'a')).toBe(groupOf(result!.groups, 'c'));
+    expect(groupOf(result!.groups, 'a')).not.toBe(groupOf(result!.groups, 'b'));
+    expect(result!.provenOptimal).toBe(true);
+  });
+
+  it('should return null when no assignment satisfies the constraints', () => {
+    expect(
+      solve({
+        groups: makeGroups([2, 2]),
+        studentIds: ['a', 'b', 'c'],
+        choicesByStudent: {},
+        keepTogether: [['a', 'b', 'c']]
+      })
+    ).toBeNull();
+
+    expect(
+      solve({
+        groups: makeGroups([1]),
+        studentIds: ['a', 'b'],
+        choicesByStudent: {}
+      })
+    ).toBeNull();
+  });
+
+  it('should keep pre-placed members and split null capacities evenly', () => {
+    const groups = makeGroups([null, null]);
+    groups[0].memberIds = ['x'];
+
+    const result = solve({
+      groups,
+      studentIds: ['a', 'b', 'c'],
+      choicesByStudent: { a: ['g1'], b: ['g1'], c: ['g1'] }
+    });
+
+    expect(result!.groups[0].memberIds).toContain('x');
+    expect(result!.groups.map((g) => g.memberIds.length)).toEqual([2, 2]);
+  });
+
+  it('should solve plain ranked choices by min-cost flow without searching', () => {
+    const studentIds = Array.from({ length: 40 }, (_, i) => `s${i}`);
+    const choicesByStudent = Object.fromEntries(studentIds.map((id) => [id, ['g1', 'g2']]));
+
+    const result = solve({
+      groups: makeGroups([8, 8, 8, 8, 8]),
+      studentIds,
+      choicesByStudent
+    });
+
+    // 8 get g1, 8 get g2, the other 24 miss both choices
+    expect(result!.cost).toBe(8 * 1 + 24 * 2);
+    expect(result!.provenOptimal).toBe(true);
+    expect(result!.nodesExplored).toBe(0);
+  });
+
+  it('should report an unproven result when the time budget runs out', () => {
+    let tick = 0;
+    const studentIds = Array.from({ length: 40 }, (_, i) => `s${i}`);
+    // Staggered choices plus keep-apart rules: the flow bound alone cannot settle it
+    const choicesByStudent = Object.fromEntries(
+      studentIds.map((id, i) => [id, [`g${(i % 5) + 1}`, `g${((i * 2 + 1) % 5) + 1}`]])
+    );
+    const avoidPairs = studentIds
+      .slice(0, 8)
+      .map((id, i): [string, string] => [id, studentIds[i + 5]]);
+
+    const result = solve({
+      groups: makeGroups([8, 8, 8, 8, 8]),
+      studentIds,
+      choicesByStudent,
+      avoidPairs,
+      keepTogether: [['s1', 's2']],
+      timeLimitMs: 0,
+      now: () => tick++
+    });
+
+    expect(result).not.toBeNull();
+    expect(result!.provenOptimal).toBe(false);
+    expect(result!.groups.flatMap((g) => g.memberIds)).toHaveLength(40);
+  });
+
+  it('should report a timeout, not infeasibility, when no assignment was found in time', () => {
+    let tick = 0;
+    const studentIds = Array.from({ length: 40 }, (_, i) => `s${i}`);
+    // The last three students keep apart from each other, which two groups cannot
+    // satisfy; the search only finds out after trying the others' placements
+    const avoidPairs: Array<[string, string]> = [
+      ['s37', 's38'],
+      ['s38', 's39'],
+      ['s37', 's39']
+    ];
+
+    const result = solveExactAssignment({
+      groups: makeGroups([20, 20]),
+      studentIds,
+      choicesByStudent: {},
+      avoidPairs,
+      timeLimitMs: 0,
+      now: () => tick++
+    });
+
+    expect(result).toMatchObject({ timedOut: true });
+  });
+});
+
+describe('solveMinCostAssignment', () => {
+  it('should move earlier students aside when that lowers the total cost', () => {
+    // Student 0 is indifferent; student 1 only fits group 0 cheaply
+    const result = solveMinCostAssignment(
+      [
+        [0, 0],
+        [0, 5]
+      ],
+      [1, 1]
+    );
+
+    expect(result).toEqual({ assignment: [1, 0], cost: 0 });
+  });
+
+  it('should return null when there are fewer seats than students', () => {
+    expect(solveMinCostAssignment([[0], [0]], [1])).toBeNull();
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Exact assignment by min-cost flow and branch and bound.
+ *
+ * Finds the assignment with the lowest total choice rank that respects group
+ * capacities, keep-together sets and avoid pairs. Ranked choices with
+ * capacities alone are a min-cost flow problem, solved directly. When
+ * keep-together sets or avoid pairs rule out the flow solution, a
+ * branch-and-bound search takes over, using the flow cost as its lower bound.
+ * When the search finishes within its time budget the result is proven
+ * optimal; otherwise the best assignment found so far is returned and marked
+ * as unproven, or a timeout is reported when none was found yet.
+ *
+ * Intended for small classes (see EXACT_SOLVER_MAX_STUDENTS); the search is
+ * exponential in the worst case.
+ *
+ * @module algorithms/exact-assignment
+ */
+
+import type { Group } from '$lib/domain';
+import type { AvoidPair, KeepTogetherSet } from './types';
+import { mergeKeepTogetherSets } from './keep-together';
+
+/**
+ * Largest class the exact solver is offered for. Beyond this, proving
+ * optimality rarely finishes within an interactive time budget.
+ */
+export const EXACT_SOLVER_MAX_STUDENTS = 40;
+
+/**
+ * Default time budget for the search, in milliseconds.
+ */
+const DEFAULT_TIME_LIMIT_MS = 2000;
+
+/**
+ * How many search nodes to expand between clock checks.
+ */
+const CLOCK_CHECK_INTERVAL = 256;
+
+/**
+ * Below this many units left to place, the cheap bound prunes well enough
+ * that a min-cost flow per node costs more than it saves.
+ */
+const FLOW_BOUND_MIN_UNITS = 8;
+
+export interface ExactAssignmentInput {
+  /** Groups to fill. Existing memberIds stay where they are. */
+  groups: Group[];
+
+  /** Students to place. */
+  studentIds: string[];
+
+  /**
+   * Ranked group IDs per student (first = most wanted). A student placed in
+   * their n-th choice costs n − 1; outside their list costs the list length.
+   * Students without choices cost nothing anywhere.
+   */
+  choicesByStudent: Record<string, string[]>;
+
+  /** Pairs that must not share a group. */
+  avoidPairs?: AvoidPair[];
+
+  /** Sets that must share a group. */
+  keepTogether?: KeepTogetherSet[];
+
+  /** Search budget in milliseconds. Default: 2000. */
+  timeLimitMs?: number;
+
+  /** Clock used for the time budget (injectable for tests). */
+  now?: () => number;
+}
+
+export interface ExactAssignmentResult {
+  /** Groups with memberIds populated. */
+  groups: Group[];
+
+  /** Sum of choice ranks (0 = everyone got their first choice). */
+  cost: number;
+
+  /** True when the search finished, so no assignment has a lower cost. */
+  provenOptimal: boolean;
+
+  /** Search nodes expanded (for diagnostics). */
+  nodesExplored: number;
+}
+
+/**
+ * Returned when the time budget ran out before any assignment was found. Unlike
+ * null, this says nothing about whether an assignment exists.
+ */
+export interface ExactAssignmentTimeout {
+  timedOut: true;
+
+  /** Search nodes expanded (for diagnostics). */
+  nodesExplored: number;
+}
+
+interface PlacementUnit {
+  memberIds: string[];
+  /** Cost of placing the whole unit in each group, by group index. */
+  costs: number[];
+  /** Students any member must not share a group with. */
+  avoided: Set<string>;
+}
+
+/**
+ * Find a minimum-cost assignment of students to groups.
+ *
+ * Null capacities are treated as an even share of the class so the solver
+ * cannot pile everyone into one group. Returns null when no assignment
+ * exists, and an {@link ExactAssignmentTimeout} when the time budget ran out
+ * before one was found.
+ */
+export function solveExactAssignment(
+  input: ExactAssignmentInput
+): ExactAssignmentResult | ExactAssignmentTimeout | null {
+  const now = input.now ?? (() => Date.now());
+  const deadline = now() + (input.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS);
+  const groups = input.groups;
+
+  const prePlaced = groups.reduce((sum, g) => sum + g.memberIds.length, 0);
+  const evenShare = Math.ceil((prePlaced + input.studentIds.length) / Math.max(1, groups.length));
+  const remaining = groups.map((g) => (g.capacity ?? evenShare) - g.memberIds.length);
+  const members = groups.map((g) => [...g.memberIds]);
+  if (remaining.reduce((sum, n) => sum + Math.max(0, n), 0) < input.studentIds.length) return null;
+
+  const avoidMap = new Map<string, Set<string>>();
+  for (const [a, b] of input.avoidPairs ?? []) {
+    if (!avoidMap.has(a)) avoidMap.set(a, new Set());
+    if (!avoidMap.has(b)) avoidMap.set(b, new Set());
+    avoidMap.get(a)!.add(b);
+    avoidMap.get(b)!.add(a);
+  }
+
+  const units = buildUnits(input, avoidMap);
+  if (units.some((unit) => unit.memberIds.some((id) => unit.avoided.has(id)))) {
+    // A keep-together set contains an avoid pair: no assignment can satisfy both
+    return null;
+  }
+
+  // Relaxation: every student on their own, no avoid pairs. Its optimum bounds the real one.
+  const studentCosts = new Map(
+    input.studentIds.map((id) => [
+      id,
+      groups.map((g) => choiceCost(input.choicesByStudent[id], g.id))
+    ])
+  );
+  const relaxed = solveMinCostAssignment(
+    input.studentIds.map((id) => studentCosts.get(id)!),
+    remaining.map((n) => Math.max(0, n))
+  );
+  if (!relaxed) return null;
+  const relaxedGroupOf = new Map(input.studentIds.map((id, i) => [id, relaxed.assignment[i]]));
+
+  const relaxedFits = units.every((unit) => {
+    const gi = relaxedGroupOf.get(unit.memberIds[0])!;
+    return unit.memberIds.every((id) => relaxedGroupOf.get(id) === gi);
+  });
+  if (relaxedFits) {
+    const result = groups.map((group) => ({ ...group, memberIds: [...group.memberIds] }));
+    input.studentIds.forEach((id, i) => result[relaxed.assignment[i]].memberIds.push(id));
+    if (result.every((group) => !hasAvoidConflict(group.memberIds, avoidMap))) {
+      return { groups: result, cost: relaxed.cost, provenOptimal: true, nodesExplored: 0 };
+    }
+  }
+
+  // Place big, picky units first: they are the hardest to fit and prune the most
+  units.sort((a, b) => b.memberIds.length - a.memberIds.length || regret(b) - regret(a));
+
+  // Lower bound on the cost still to come after unit i: each unit at its cheapest group
+  const boundAfter = new Array<number>(units.length + 1).fill(0);
+  for (let i = units.length - 1; i >= 0; i--) {
+    boundAfter[i] = boundAfter[i + 1] + Math.min(...units[i].costs);
+  }
+  const lowerBound = Math.max(boundAfter[0], relaxed.cost);
+
+  // Groups that look identical to every unit are interchangeable while empty
+  const signatures = groups.map(
+    (group, gi) =>
+      `${remaining[gi]}|${group.memberIds.length}|${units.map((u) => u.costs[gi]).join(',')}`
+  );
+
+  const assignment = new Array<number>(units.length).fill(-1);
+  let best: { assignment: number[]; cost: number } | null = null;
+  let nodesExplored = 0;
+  let timedOut = false;
+
+  const conflicts = (unit: PlacementUnit, gi: number): boolean =>
+    unit.avoided.size > 0 && members[gi].some((id) => unit.avoided.has(id));
+
+  const search = (index: number, cost: number): void => {
+    if (timedOut) return;
+    nodesExplored++;
+    if (nodesExplored % CLOCK_CHECK_INTERVAL === 0 && now() > deadline) {
+      timedOut = true;
+      return;
+    }
+
+    if (index === units.length) {
+      if (!best || cost < best.cost) best = { assignment: [...assignment], cost };
+      return;
+    }
+
+    // Tighter bound for the rest: place the remaining students by min-cost flow, ignoring
+    // avoid pairs and keep-together. Costly, so only near the top of the tree where it pays off.
+    if (best && index < units.length - FLOW_BOUND_MIN_UNITS) {
+      const rest = units.slice(index).flatMap((u) => u.memberIds);
+      const flow = solveMinCostAssignment(
+        rest.map((id) => studentCosts.get(id)!),
+        remaining.map((n) => Math.max(0, n))
+      );
+      if (!flow || cost + flow.cost >= best.cost) return;
+    }
+
+    const unit = units[index];
+    // Cheapest first; on ties, try the relaxed solution's group first
+    const hint = relaxedGroupOf.get(unit.memberIds[0]);
+    const order = unit.costs
+      .map((_, gi) => gi)
+      .sort((a, b) => unit.costs[a] - unit.costs[b] || Number(b === hint) - Number(a === hint));
+    const triedEmpty = new Set<string>();
+
+    for (const gi of order) {
+      const nextCost = cost + unit.costs[gi];
+      if (best && nextCost + boundAfter[index + 1] >= best.cost) break;
+      if (remaining[gi] < unit.memberIds.length || conflicts(unit, gi)) continue;
+
+      if (members[gi].length === 0) {
+        if (triedEmpty.has(signatures[gi])) continue;
+        triedEmpty.add(signatures[gi]);
+      }
+
+      assignment[index] = gi;
+      remaining[gi] -= unit.memberIds.length;
+      members[gi].push(...unit.memberIds);
+
+      search(index + 1, nextCost);
+
+      members[gi].length -= unit.memberIds.length;
+      remaining[gi] += unit.memberIds.length;
+      assignment[index] = -1;
+
+      // Nothing can beat the lower bound, so stop as soon as it is reached
+      if (timedOut || (best && best.cost <= lowerBound)) return;
+    }
+  };
+
+  search(0, 0);
+
+  const found = best as { assignment: number[]; cost: number } | null;
+  if (!found) return timedOut ? { timedOut: true, nodesExplored } : null;
+
+  const result = groups.map((group) => ({ ...group, memberIds: [...group.memberIds] }));
+  found.assignment.forEach((gi, ui) => result[gi].memberIds.push(...units[ui].memberIds));
+
+  return {
+    groups: result,
+    cost: found.cost,
+    provenOptimal: !timedOut,
+    nodesExplored
+  };
+}
+
+function hasAvoidConflict(memberIds: string[], avoidMap: Map<string, Set<string>>): boolean {
+  return memberIds.some((id) => memberIds.some((other) => avoidMap.get(id)?.has(other)));
+}
+
+/**
+ * Min-cost assignment of students to capacitated groups (a transportation
+ * problem), by successive shortest augmenting paths.
+ *
+ * @param costs - costs[student][group]
+ * @param capacities - seats per group
+ * @returns Group index per student and the total cost, or null if seats run out
+ */
+export function solveMinCostAssignment(
+  costs: number[][],
+  capacities: number[]
+): { assignment: number[]; cost: number } | null {
+  const studentCount = costs.length;
+  const groupCount = capacities.length;
+  const assignment = new Array<number>(studentCount).fill(-1);
+  const load = new Array<number>(groupCount).fill(0);
+
+  for (let next = 0; next < studentCount; next++) {
+    // Bellman-Ford over groups: dist[g] = cheapest cost of making room for `next` in g,
+    // possibly by moving already-placed students along a chain of groups
+    const dist = costs[next].map((c) => c);
+    const via = new Array<number>(groupCount).fill(-1);
+    for (let round = 0; round < groupCount; round++) {
+      let changed = false;
+      for (let s = 0; s < next; s++) {
+        const from = assignment[s];
+        for (let to = 0; to < groupCount; to++) {
+          if (to === from) continue;
+          // Student s leaves `from` (freeing a seat there) and takes a seat in `to`
+          const candidate = dist[from] + costs[s][to] - costs[s][from];
+          if (candidate < dist[to] - 1e-9) {
+            dist[to] = candidate;
+            via[to] = s;
+            changed = true;
+          }
+        }
+      }
+      if (!changed) break;
+    }
+
+    let target = -1;
+    for (let g = 0; g < groupCount; g++) {
+      if (load[g] < capacities[g] && (target === -1 || dist[g] < dist[target])) target = g;
+    }
+    if (target === -1) return null;
+
+    // Walk the chain back: each moved student shifts into the seat freed ahead of them
+    load[target]++;
+    let g = target;
+    while (via[g] !== -1) {
+      const s = via[g];
+      const from = assignment[s];
+      assignment[s] = g;
+      g = from;
+    }
+    assignment[next] = g;
+  }
+
+  const cost = assignment.reduce((sum, g, s) => sum + costs[s][g], 0);
+  return { assignment, cost };
+}
+
+function buildUnits(
+  input: ExactAssignmentInput,
+  avoidMap: Map<string, Set<string>>
+): PlacementUnit[] {
+  const sets = mergeKeepTogetherSets(input.keepTogether, input.studentIds);
+  const inSet = new Set(sets.flat());
+  const unitMembers = [
+    ...sets,
+    ...input.studentIds.filter((id) => !inSet.has(id)).map((id) => [id])
+  ];
+
+  return unitMembers.map((memberIds) => {
+    const avoided = new Set<string>();
+    for (const id of memberIds) {
+      for (const other of avoidMap.get(id) ?? []) avoided.add(other);
+    }
+    return {
+      memberIds,
+      costs: input.groups.map((group) =>
+        memberIds.reduce((sum, id) => sum + choiceCost(input.choicesByStudent[id], group.id), 0)
+      ),
+      avoided
+    };
+  });
+}
+
+function choiceCost(choices: string[] | undefined, groupId: string): number {
+  if (!choices || choices.length === 0) return 0;
+  const rank = choices.indexOf(groupId);
+  return rank >= 0 ? rank : choices.length;
+}
+
+/**
+ * Gap between a unit's cheapest and second-cheapest group.
+ */
+function regret(unit: PlacementUnit): number {
+  const sorted = [...unit.costs].sort((a, b) => a - b);
+  return sorted.length > 1 ? sorted[1] - sorted[0] : 0;
+}
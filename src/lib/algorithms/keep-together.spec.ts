@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countSplitKeepTogetherSets,
+  findKeepTogetherViolations,
+  mergeKeepTogetherSets
+} from './keep-together';
+
+describe('mergeKeepTogetherSets', () => {
+  it('returns empty array for no sets', () => {
+    expect(mergeKeepTogetherSets(undefined)).toEqual([]);
+    expect(mergeKeepTogetherSets([])).toEqual([]);
+  });
+
+  it('merges overlapping sets transitively', () => {
+    const merged = mergeKeepTogetherSets([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['b', 'c']
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect([...merged[0]].sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('keeps disjoint sets separate', () => {
+    const merged = mergeKeepTogetherSets([
+      ['a', 'b'],
+      ['c', 'd']
+    ]);
+
+    expect(merged).toEqual([
+      ['a', 'b'],
+      ['c', 'd']
+    ]);
+  });
+
+  it('drops members outside the provided student list and sets that become too small', () => {
+    const merged = mergeKeepTogetherSets(
+      [
+        ['a', 'b', 'x'],
+        ['c', 'y']
+      ],
+      ['a', 'b', 'c']
+    );
+
+    expect(merged).toEqual([['a', 'b']]);
+  });
+
+  it('ignores duplicate ids within a set', () => {
+    expect(mergeKeepTogetherSets([['a', 'a']])).toEqual([]);
+  });
+});
+
+describe('findKeepTogetherViolations', () => {
+  it('returns no violations when each set shares a group', () => {
+    const groups = [
+      { id: 'g1', memberIds: ['a', 'b', 'c'] },
+      { id: 'g2', memberIds: ['d'] }
+    ];
+
+    expect(findKeepTogetherViolations(groups, [['a', 'b']])).toEqual([]);
+  });
+
+  it('reports each separated member with the partners placed elsewhere', () => {
+    const groups = [
+      { id: 'g1', memberIds: ['a', 'b'] },
+      { id: 'g2', memberIds: ['c'] }
+    ];
+
+    const violations = findKeepTogetherViolations(groups, [['a', 'b', 'c']]);
+
+    expect(violations).toHaveLength(3);
+    expect(violations).toContainEqual({
+      type: 'KEEP_TOGETHER',
+      studentId: 'c',
+      groupId: 'g2',
+      conflictingStudentIds: ['a', 'b']
+    });
+    expect(violations).toContainEqual({
+      type: 'KEEP_TOGETHER',
+      studentId: 'a',
+      groupId: 'g1',
+      conflictingStudentIds: ['c']
+    });
+  });
+
+  it('treats an unassigned member as a split', () => {
+    const groups = [{ id: 'g1', memberIds: ['a'] }];
+
+    const violations = findKeepTogetherViolations(groups, [['a', 'b']]);
+
+    expect(violations).toEqual([
+      { type: 'KEEP_TOGETHER', studentId: 'a', groupId: 'g1', conflictingStudentIds: ['b'] }
+    ]);
+  });
+});
+
+describe('countSplitKeepTogetherSets', () => {
+  it('counts each split set once', () => {
+    const groups = [{ memberIds: ['a', 'c'] }, { memberIds: ['b', 'd'] }];
+
+    expect(
+      countSplitKeepTogetherSets(groups, [
+        ['a', 'b'],
+        ['c', 'd'],
+        ['a', 'c']
+      ])
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Helpers for "keep together" constraints.
+ *
+ * A keep-together set lists students who must end up in the same group.
+ * Algorithms treat each merged set as a single placement unit, and these
+ * helpers report any set that still ends up split across groups.
+ *
+ * @module algorithms/keep-together
+ */
+
+import type { ConstraintViolation, KeepTogetherSet } from './types';
+
+/**
+ * Merge overlapping keep-together sets and drop sets that cannot constrain anything.
+ *
+ * If A must be with B and B must be with C, all three must share a group, so
+ * the two sets collapse into one. When `studentIds` is provided, members
+ * outside that list are ignored (e.g., inactive students or students from
+ * another pool). Sets with fewer than two remaining members are dropped.
+ */
+export function mergeKeepTogetherSets(
+  sets: KeepTogetherSet[] | undefined,
+  studentIds?: string[]
+): KeepTogetherSet[] {
+  if (!sets || sets.length === 0) return [];
+
+  const allowed = studentIds ? new Set(studentIds) : null;
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    // Path compression
+    let current = id;
+    while (current !== root) {
+      const next = parent.get(current)!;
+      parent.set(current, root);
+      current = next;
+    }
+    return root;
+  };
+
+  for (const set of sets) {
+    const members = Array.from(new Set(set)).filter((id) => !allowed || allowed.has(id));
+    for (const id of members) {
+      if (!parent.has(id)) parent.set(id, id);
+    }
+    for (let i = 1; i < members.length; i++) {
+      const rootA = find(members[0]);
+      const rootB = find(members[i]);
+      if (rootA !== rootB) parent.set(rootB, rootA);
+    }
+  }
+
+  // Preserve first-seen order so results are deterministic
+  const byRoot = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    const members = byRoot.get(root) ?? [];
+    members.push(id);
+    byRoot.set(root, members);
+  }
+
+  return [...byRoot.values()].filter((members) => members.length >= 2);
+}
+
+/**
+ * Build a lookup from student ID to the (merged) keep-together set they belong to.
+ */
+export function buildKeepTogetherIndex(sets: KeepTogetherSet[]): Map<string, KeepTogetherSet> {
+  const index = new Map<string, KeepTogetherSet>();
+  for (const set of sets) {
+    for (const id of set) {
+      index.set(id, set);
+    }
+  }
+  return index;
+}
+
+/**
+ * Find keep-together sets that were split across groups.
+ *
+ * Produces one violation per split member, pointing at the set members that
+ * ended up elsewhere (including students left unassigned).
+ */
+export function findKeepTogetherViolations(
+  groups: Array<{ id: string; memberIds: string[] }>,
+  sets: KeepTogetherSet[] | undefined
+): ConstraintViolation[] {
+  if (!sets || sets.length === 0) return [];
+
+  const groupByStudent = new Map<string, string>();
+  for (const group of groups) {
+    for (const memberId of group.memberIds) {
+      groupByStudent.set(memberId, group.id);
+    }
+  }
+
+  const violations: ConstraintViolation[] = [];
+  for (const set of sets) {
+    const placedGroupIds = new Set(set.map((id) => groupByStudent.get(id) ?? null));
+    if (placedGroupIds.size <= 1) continue;
+
+    for (const studentId of set) {
+      const groupId = groupByStudent.get(studentId);
+      if (!groupId) continue;
+      violations.push({
+        type: 'KEEP_TOGETHER',
+        studentId,
+        groupId,
+        conflictingStudentIds: set.filter(
+          (otherId) => otherId !== studentId && groupByStudent.get(otherId) !== groupId
+        )
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Count keep-together sets that were split across groups.
+ * Used as a penalty term by the optimizing algorithms.
+ */
+export function countSplitKeepTogetherSets(
+  groups: Array<{ memberIds: string[] }>,
+  sets: KeepTogetherSet[] | undefined
+): number {
+  if (!sets || sets.length === 0) return 0;
+
+  const groupIndexByStudent = new Map<string, number>();
+  groups.forEach((group, index) => {
+    for (const memberId of group.memberIds) {
+      groupIndexByStudent.set(memberId, index);
+    }
+  });
+
+  let split = 0;
+  for (const set of sets) {
+    const indices = new Set(set.map((id) => groupIndexByStudent.get(id) ?? -1));
+    if (indices.size > 1) split++;
+  }
+  return split;
+}
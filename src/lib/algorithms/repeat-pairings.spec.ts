@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { countRepeatPairings } from './repeat-pairings';
+
+describe('countRepeatPairings', () => {
+  const groups = [{ memberIds: ['alice', 'bob', 'carol'] }, { memberIds: ['dave', 'erin'] }];
+
+  it('returns 0 without pairing history', () => {
+    expect(countRepeatPairings(groups, [])).toBe(0);
+  });
+
+  it('counts each past pair placed together once, in either order', () => {
+    expect(
+      countRepeatPairings(groups, [
+        { studentAId: 'bob', studentBId: 'alice', count: 3 },
+        { studentAId: 'dave', studentBId: 'erin', count: 1 },
+        { studentAId: 'alice', studentBId: 'dave', count: 2 }
+      ])
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Count how many pairs in an arrangement have already worked together.
+ *
+ * Used to compare candidate arrangements on rotation: fewer repeat pairings
+ * means students meet more new classmates.
+ *
+ * @module algorithms/repeat-pairings
+ */
+
+/**
+ * How often two students have shared a group in past sessions.
+ */
+export interface PastPairing {
+  studentAId: string;
+  studentBId: string;
+  count: number;
+}
+
+/**
+ * Order-independent key for a pair of students.
+ */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Count the pairs of groupmates in `groups` who have shared a group before.
+ * Each pair is counted once, however many past sessions they shared.
+ */
+export function countRepeatPairings(
+  groups: Array<{ memberIds: string[] }>,
+  pastPairings: PastPairing[]
+): number {
+  const seen = new Set<string>();
+  for (const pairing of pastPairings) {
+    if (pairing.count > 0) seen.add(pairKey(pairing.studentAId, pairing.studentBId));
+  }
+  if (seen.size === 0) return 0;
+
+  let repeats = 0;
+  for (const group of groups) {
+    for (let i = 0; i < group.memberIds.length; i++) {
+      for (let j = i + 1; j < group.memberIds.length; j++) {
+        if (seen.has(pairKey(group.memberIds[i], group.memberIds[j]))) repeats++;
+      }
+    }
+  }
+  return repeats;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { buildPairCoverage, planRotation } from './rotation-planner';
+import { pairKey } from './repeat-pairings';
+
+const students = (n: number) => Array.from({ length: n }, (_, i) => `s${i + 1}`);
+
+describe('planRotation', () => {
+  it('should place every student once per round in evenly sized groups', () => {
+    const studentIds = students(10);
+    const plan = planRotation({ studentIds, capacities: [4, 4, 4], rounds: 3, seed: 1 });
+
+    expect(plan.rounds).toHaveLength(3);
+    for (const groups of plan.rounds) {
+      expect(groups.flat().sort()).toEqual([...studentIds].sort());
+      expect(groups.map((g) => g.length)).toEqual([4, 3, 3]);
+    }
+  });
+
+  it('should have everyone meet everyone without repeats when a perfect schedule exists', () => {
+    // 9 students in threes over 4 rounds can cover all 36 pairs exactly once
+    const plan = planRotation({
+      studentIds: students(9),
+      capacities: [3, 3, 3],
+      rounds: 4,
+      seed: 7
+    });
+
+    expect(plan.coverage.repeatPairings).toBe(0);
+    expect(plan.coverage.plannedDistinctPairs).toBe(36);
+    expect(plan.coverage.coveredPairs).toBe(plan.coverage.possiblePairs);
+  });
+
+  it('should steer clear of past pairings and avoid pairs', () => {
+    const plan = planRotation({
+      studentIds: students(6),
+      capacities: [3, 3],
+      rounds: 1,
+      pastPairings: [{ studentAId: 's1', studentBId: 's2', count: 3 }],
+      avoidPairs: [['s3', 's4']],
+      seed: 3
+    });
+
+    const together = (a: string, b: string) =>
+      plan.rounds[0].some((g) => g.includes(a) && g.includes(b));
+    expect(together('s1', 's2')).toBe(false);
+    expect(together('s3', 's4')).toBe(false);
+    expect(plan.coverage.past[pairKey('s1', 's2')]).toBe(3);
+  });
+
+  it('should throw when there are fewer seats than students', () => {
+    expect(() =>
+      planRotation({ studentIds: students(5), capacities: [2, 2], rounds: 1 })
+    ).toThrow();
+  });
+});
+
+describe('buildPairCoverage', () => {
+  it('should count repeats across rounds and past sessions', () => {
+    const coverage = buildPairCoverage(
+      ['a', 'b', 'c', 'd'],
+      [
+        [
+          ['a', 'b'],
+          ['c', 'd']
+        ],
+        [
+          ['a', 'b'],
+          ['c', 'd']
+        ]
+      ],
+      [{ studentAId: 'c', studentBId: 'd', count: 1 }]
+    );
+
+    expect(coverage.planned[pairKey('a', 'b')]).toBe(2);
+    expect(coverage.plannedDistinctPairs).toBe(2);
+    // a–b again in round 2; c–d in both rounds after meeting before
+    expect(coverage.repeatPairings).toBe(3);
+    expect(coverage.coveredPairs).toBe(2);
+    expect(coverage.possiblePairs).toBe(6);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Rotation planning: a series of arrangements in which students meet as many
+ * different classmates as possible.
+ *
+ * A heuristic take on the social golfer problem. Rounds are planned one after
+ * another; each round starts from a greedy deal and is improved by swapping
+ * students between groups while that lowers the cost of pairs who have already
+ * met. A pair that has met k times costs k² to meet again, so repeats spread out
+ * instead of piling onto the same pairs. Avoid pairs cost far more than any
+ * repeat.
+ *
+ * @module algorithms/rotation-planner
+ */
+
+import type { AvoidPair } from './types';
+import { pairKey, type PastPairing } from './repeat-pairings';
+
+/** Cost of placing an avoid pair together, far above any repeat. */
+const AVOID_PAIR_COST = 1_000;
+
+/** Fresh starting deals tried per round; the cheapest result is kept. */
+const RESTARTS_PER_ROUND = 4;
+
+/** Passes over the whole plan re-solving each round against all the others. */
+const REFINEMENT_SWEEPS = 3;
+
+/** Upper bound on full improvement passes per start. */
+const MAX_SWAP_PASSES = 25;
+
+export interface RotationPlanInput {
+  /** Students to place in every round. */
+  studentIds: string[];
+
+  /** Seats per group. Groups are filled as evenly as these allow. */
+  capacities: number[];
+
+  /** Number of rounds (sessions) to plan. */
+  rounds: number;
+
+  /** Pairings from published sessions, counted as meetings already made. */
+  pastPairings?: PastPairing[];
+
+  /** Pairs that should never share a group. */
+  avoidPairs?: AvoidPair[];
+
+  /** Seed for reproducible plans. */
+  seed?: number;
+}
+
+/**
+ * Who has worked with whom, before and across the planned rounds.
+ * Keyed by pairKey(a, b); pairs that never met are absent.
+ */
+export interface PairCoverage {
+  /** Times each pair shared a group in past sessions. */
+  past: Record<string, number>;
+
+  /** Times each pair shares a group in the planned rounds. */
+  planned: Record<string, number>;
+
+  /** Pairs possible among the students: n(n − 1) / 2. */
+  possiblePairs: number;
+
+  /** Pairs who share a group at least once in the plan. */
+  plannedDistinctPairs: number;
+
+  /** Pairs who have met at least once, counting past sessions and the plan. */
+  coveredPairs: number;
+
+  /** Planned pairings of students who had already met (earlier in the plan or before). */
+  repeatPairings: number;
+}
+
+export interface RotationPlan {
+  /** Member IDs per group, per round: rounds[r][g] = members of group g in round r. */
+  rounds: string[][][];
+
+  coverage: PairCoverage;
+}
+
+/**
+ * Plan `rounds` arrangements of the students into groups of the given
+ * capacities, maximizing how many distinct pairs share a group.
+ *
+ * @throws {Error} If there are fewer seats than students
+ */
+export function planRotation(input: RotationPlanInput): RotationPlan {
+  const { studentIds, capacities } = input;
+  const seats = capacities.reduce((sum, c) => sum + Math.max(0, c), 0);
+  if (seats < studentIds.length) {
+    throw new Error(`Not enough seats: ${seats} seats for ${studentIds.length} students`);
+  }
+
+  const sizes = targetSizes(studentIds.length, capacities);
+  const rng = createRng(input.seed ?? Date.now());
+  const metCounts = new Map<string, number>();
+  for (const pairing of input.pastPairings ?? []) {
+    if (pairing.count <= 0) continue;
+    metCounts.set(pairKey(pairing.studentAId, pairing.studentBId), pairing.count);
+  }
+  const avoided = new Set((input.avoidPairs ?? []).map(([a, b]) => pairKey(a, b)));
+
+  const pairCost = (a: string, b: string): number => {
+    const key = pairKey(a, b);
+    const met = metCounts.get(key) ?? 0;
+    return met * met + (avoided.has(key) ? AVOID_PAIR_COST : 0);
+  };
+
+  const addRound = (groups: string[][], delta: number) =>
+    forEachPair(groups, (a, b) => {
+      const key = pairKey(a, b);
+      metCounts.set(key, (metCounts.get(key) ?? 0) + delta);
+    });
+
+  const solveRound = (current: string[][] | null): string[][] => {
+    let best = current ? { groups: current, cost: arrangementCost(current, pairCost) } : null;
+    for (let attempt = 0; attempt < RESTARTS_PER_ROUND; attempt++) {
+      if (best?.cost === 0) break;
+      const start = dealGreedy(shuffle(studentIds, rng), sizes, pairCost);
+      const groups = improveBySwaps(start, pairCost);
+      const cost = arrangementCost(groups, pairCost);
+      if (!best || cost < best.cost) best = { groups, cost };
+    }
+    return best!.groups;
+  };
+
+  // Plan rounds in order, each against the ones before it
+  const rounds: string[][][] = [];
+  for (let r = 0; r < input.rounds; r++) {
+    const groups = solveRound(null);
+    rounds.push(groups);
+    addRound(groups, 1);
+  }
+
+  // Then re-solve each round against all the others: early rounds were planned blind
+  for (let sweep = 0; sweep < REFINEMENT_SWEEPS && rounds.length > 1; sweep++) {
+    for (let r = 0; r < rounds.length; r++) {
+      addRound(rounds[r], -1);
+      rounds[r] = solveRound(
+        improveBySwaps(
+          rounds[r].map((g) => [...g]),
+          pairCost
+        )
+      );
+      addRound(rounds[r], 1);
+    }
+  }
+
+  return { rounds, coverage: buildPairCoverage(studentIds, rounds, input.pastPairings) };
+}
+
+/**
+ * Tally pair meetings across planned rounds, on top of past pairings.
+ */
+export function buildPairCoverage(
+  studentIds: string[],
+  rounds: Array<Array<string[]>>,
+  pastPairings: PastPairing[] = []
+): PairCoverage {
+  const inClass = new Set(studentIds);
+  const past: Record<string, number> = {};
+  for (const pairing of pastPairings) {
+    if (pairing.count <= 0) continue;
+    if (!inClass.has(pairing.studentAId) || !inClass.has(pairing.studentBId)) continue;
+    past[pairKey(pairing.studentAId, pairing.studentBId)] = pairing.count;
+  }
+
+  const planned: Record<string, number> = {};
+  let repeatPairings = 0;
+  for (const groups of rounds) {
+    forEachPair(groups, (a, b) => {
+      const key = pairKey(a, b);
+      if ((past[key] ?? 0) + (planned[key] ?? 0) > 0) repeatPairings++;
+      planned[key] = (planned[key] ?? 0) + 1;
+    });
+  }
+
+  const covered = new Set([...Object.keys(past), ...Object.keys(planned)]);
+  return {
+    past,
+    planned,
+    possiblePairs: (studentIds.length * (studentIds.length - 1)) / 2,
+    plannedDistinctPairs: Object.keys(planned).length,
+    coveredPairs: covered.size,
+    repeatPairings
+  };
+}
+
+/**
+ * Group sizes as even as the capacities allow, in group order.
+ */
+function targetSizes(studentCount: number, capacities: number[]): number[] {
+  const sizes = capacities.map(() => 0);
+  for (let placed = 0; placed < studentCount; placed++) {
+    // Next student goes to the smallest group that still has a seat
+    let target = -1;
+    for (let g = 0; g < capacities.length; g++) {
+      if (sizes[g] >= capacities[g]) continue;
+      if (target === -1 || sizes[g] < sizes[target]) target = g;
+    }
+    sizes[target]++;
+  }
+  return sizes;
+}
+
+/**
+ * Place students one at a time into the open group where they add the least cost.
+ */
+function dealGreedy(
+  order: string[],
+  sizes: number[],
+  pairCost: (a: string, b: string) => number
+): string[][] {
+  const groups: string[][] = sizes.map(() => []);
+  for (const student of order) {
+    let target = -1;
+    let targetCost = Infinity;
+    for (let g = 0; g < groups.length; g++) {
+      if (groups[g].length >= sizes[g]) continue;
+      const cost = groups[g].reduce((sum, member) => sum + pairCost(student, member), 0);
+      if (cost < targetCost) {
+        target = g;
+        targetCost = cost;
+      }
+    }
+    groups[target].push(student);
+  }
+  return groups;
+}
+
+/**
+ * Swap students between groups while any swap lowers the total cost.
+ */
+function improveBySwaps(
+  groups: string[][],
+  pairCost: (a: string, b: string) => number
+): string[][] {
+  const costWith = (student: string, group: string[], except: string): number =>
+    group.reduce((sum, member) => (member === except ? sum : sum + pairCost(student, member)), 0);
+
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (let g = 0; g < groups.length; g++) {
+      for (let h = g + 1; h < groups.length; h++) {
+        for (let i = 0; i < groups[g].length; i++) {
+          for (let j = 0; j < groups[h].length; j++) {
+            const a = groups[g][i];
+            const b = groups[h][j];
+            const before = costWith(a, groups[g], a) + costWith(b, groups[h], b);
+            const after = costWith(a, groups[h], b) + costWith(b, groups[g], a);
+            if (after < before) {
+              groups[g][i] = b;
+              groups[h][j] = a;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return groups;
+}
+
+function arrangementCost(groups: string[][], pairCost: (a: string, b: string) => number): number {
+  let cost = 0;
+  forEachPair(groups, (a, b) => {
+    cost += pairCost(a, b);
+  });
+  return cost;
+}
+
+function forEachPair(groups: string[][], visit: (a: string, b: string) => void): void {
+  for (const group of groups) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) visit(group[i], group[j]);
+    }
+  }
+}
+
+function shuffle(items: string[], rng: () => number): string[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Small seeded PRNG (mulberry32).
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
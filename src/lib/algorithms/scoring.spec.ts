@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { scoreArrangement } from './scoring';
+import type { Preference, StudentPreference } from '$lib/domain';
+
+function groupPreference(studentId: string, likeGroupIds: string[]): Preference {
+  return {
+    id: `pref-${studentId}`,
+    programId: 'p',
+    studentId,
+    payload: {
+      studentId,
+      avoidStudentIds: [],
+      likeGroupIds,
+      avoidGroupIds: []
+    } satisfies StudentPreference
+  };
+}
+
+const groups = [
+  { id: 'g1', name: 'Group 1', memberIds: ['a', 'b'] },
+  { id: 'g2', name: 'Group 2', memberIds: ['c', 'd'] }
+];
+const participantIds = ['a', 'b', 'c', 'd'];
+
+describe('scoreArrangement', () => {
+  it('should reward satisfied preferences and report each objective', () => {
+    const score = scoreArrangement(groups, {
+      preferences: [groupPreference('a', ['g1']), groupPreference('c', ['g1', 'g2'])],
+      participantIds
+    });
+
+    expect(score.objectives.topChoice.value).toBe(50);
+    expect(score.objectives.topTwo.value).toBe(100);
+    expect(score.objectives.averageRank.value).toBe(1.5);
+    // 50 × 2 + 100 × 1 − 1.5 × 10
+    expect(score.total).toBe(185);
+  });
+
+  it('should penalize broken rules, repeat groupmates and uneven sizes', () => {
+    const score = scoreArrangement(
+      [
+        { id: 'g1', name: 'Group 1', memberIds: ['a', 'b', 'c'] },
+        { id: 'g2', name: 'Group 2', memberIds: ['d'] }
+      ],
+      {
+        preferences: [],
+        participantIds,
+        avoidPairs: [['a', 'b']],
+        keepTogether: [['c', 'd']],
+        recentGroupmates: new Map([['a', new Set(['c'])]])
+      }
+    );
+
+    expect(score.objectives.avoidPairs.value).toBe(1);
+    expect(score.objectives.keepTogether.value).toBe(1);
+    expect(score.objectives.repeatGroupmates.value).toBe(1);
+    expect(score.objectives.groupSizeVariance.value).toBe(1);
+    expect(score.objectives.avoidPairs.contribution).toBe(-1000);
+  });
+
+  it('should apply teacher weights and skip objectives weighted 0', () => {
+    const recentGroupmates = new Map([['a', new Set(['b'])]]);
+    const base = scoreArrangement(groups, { preferences: [], participantIds, recentGroupmates });
+    const weighted = scoreArrangement(groups, {
+      preferences: [],
+      participantIds,
+      recentGroupmates,
+      weights: { repeatGroupmates: 50, averageRank: 0 }
+    });
+
+    expect(base.objectives.repeatGroupmates.contribution).toBe(-5);
+    expect(weighted.objectives.repeatGroupmates.contribution).toBe(-50);
+    expect(weighted.objectives.averageRank.contribution).toBe(-0);
+    expect(weighted.total).toBe(-50);
+  });
+
+  it('should measure attribute balance when students and attributes are given', () => {
+    const studentsById = {
+      a: { id: 'a', firstName: 'A', gender: 'F' },
+      b: { id: 'b', firstName: 'B', gender: 'F' },
+      c: { id: 'c', firstName: 'C', gender: 'M' },
+      d: { id: 'd', firstName: 'D', gender: 'M' }
+    };
+    const score = scoreArrangement(groups, {
+      preferences: [],
+      participantIds,
+      studentsById,
+      balanceAttributes: [{ attribute: 'gender', mode: 'categorical' }]
+    });
+
+    expect(score.objectives.attributeBalance.value).toBeGreaterThan(0);
+  });
+});
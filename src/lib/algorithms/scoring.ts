@@ -0,0 +1,164 @@
+/**
+ * Weighted multi-objective score for a group arrangement.
+ *
+ * Shared by the optimizing algorithms (genetic, simulated annealing) and by
+ * candidate ranking. Each objective is measured on its own scale, multiplied
+ * by its weight, and added to (or subtracted from) the total.
+ *
+ * @module algorithms/scoring
+ */
+
+import type {
+  AttributeBalanceSpec,
+  Group,
+  Preference,
+  ScoreBreakdown,
+  ScoringObjective,
+  ScoringWeights,
+  Student
+} from '$lib/domain';
+import {
+  computeScenarioSatisfaction,
+  resolveScoringWeights,
+  SCORING_OBJECTIVES
+} from '$lib/domain';
+import { measureAttributeImbalance } from '$lib/algorithms/attribute-balance';
+import { countSplitKeepTogetherSets } from '$lib/algorithms/keep-together';
+
+/**
+ * Rank used for average rank when no student has a usable preference.
+ */
+const NO_PREFERENCE_RANK = 10;
+
+/**
+ * Everything besides the groups that the objectives are measured against.
+ * Objectives whose inputs are missing measure as 0.
+ */
+export interface ScoringContext {
+  preferences: Preference[];
+  participantIds: string[];
+  keepTogether?: string[][];
+  avoidPairs?: Array<[string, string]>;
+  /** Student ID → students they were grouped with in recent sessions. */
+  recentGroupmates?: Map<string, Set<string>>;
+  /** Needed for `attributeBalance`. */
+  studentsById?: Record<string, Student>;
+  balanceAttributes?: AttributeBalanceSpec[];
+  weights?: ScoringWeights;
+}
+
+/**
+ * Objectives where a higher measurement is better; all others are penalties.
+ */
+const REWARD_OBJECTIVES = new Set<ScoringObjective>(['topChoice', 'topTwo']);
+
+/**
+ * Score an arrangement (higher is better) with a per-objective breakdown.
+ */
+export function scoreArrangement(
+  groups: Pick<Group, 'id' | 'name' | 'memberIds'>[],
+  context: ScoringContext
+): ScoreBreakdown {
+  const weights = resolveScoringWeights(context.weights);
+  const values = measureObjectives(groups, context, weights);
+
+  let total = 0;
+  const objectives = {} as ScoreBreakdown['objectives'];
+  for (const objective of SCORING_OBJECTIVES) {
+    const value = values[objective];
+    const weight = weights[objective];
+    const contribution = (REWARD_OBJECTIVES.has(objective) ? 1 : -1) * value * weight;
+    objectives[objective] = { value, weight, contribution };
+    total += contribution;
+  }
+
+  return { total, objectives };
+}
+
+function measureObjectives(
+  groups: Pick<Group, 'id' | 'name' | 'memberIds'>[],
+  context: ScoringContext,
+  weights: Record<ScoringObjective, number>
+): Record<ScoringObjective, number> {
+  const now = new Date();
+  const satisfaction = computeScenarioSatisfaction({
+    scenario: {
+      id: 'transient',
+      programId: 'transient',
+      groups: groups.map((g) => ({ ...g, capacity: null })),
+      participantSnapshot: context.participantIds,
+      status: 'DRAFT',
+      createdAt: now,
+      lastModifiedAt: now
+    },
+    preferences: context.preferences,
+    students: []
+  });
+
+  return {
+    topChoice: satisfaction.percentAssignedTopChoice,
+    topTwo: satisfaction.percentAssignedTop2 ?? 0,
+    averageRank: Number.isNaN(satisfaction.averagePreferenceRankAssigned)
+      ? NO_PREFERENCE_RANK
+      : satisfaction.averagePreferenceRankAssigned,
+    avoidPairs: countAvoidPairViolations(groups, context.avoidPairs),
+    keepTogether: countSplitKeepTogetherSets(groups, context.keepTogether),
+    repeatGroupmates: countRepeatGroupmates(groups, context.recentGroupmates),
+    groupSizeVariance: measureGroupSizeVariance(groups),
+    // Skip measuring imbalance when it would not count anyway
+    attributeBalance:
+      weights.attributeBalance > 0 && context.studentsById && context.balanceAttributes?.length
+        ? measureAttributeImbalance(groups, context.studentsById, context.balanceAttributes)
+        : 0
+  };
+}
+
+function countAvoidPairViolations(
+  groups: Pick<Group, 'memberIds'>[],
+  avoidPairs: Array<[string, string]> | undefined
+): number {
+  if (!avoidPairs || avoidPairs.length === 0) return 0;
+
+  const groupIndexByStudent = new Map<string, number>();
+  groups.forEach((group, index) => {
+    for (const memberId of group.memberIds) {
+      groupIndexByStudent.set(memberId, index);
+    }
+  });
+
+  let violations = 0;
+  for (const [a, b] of avoidPairs) {
+    const groupIndex = groupIndexByStudent.get(a);
+    if (groupIndex !== undefined && groupIndexByStudent.get(b) === groupIndex) violations++;
+  }
+  return violations;
+}
+
+/**
+ * Count pairs of groupmates who were also groupmates in a recent session.
+ */
+function countRepeatGroupmates(
+  groups: Pick<Group, 'memberIds'>[],
+  recentGroupmates: Map<string, Set<string>> | undefined
+): number {
+  if (!recentGroupmates || recentGroupmates.size === 0) return 0;
+
+  let repeats = 0;
+  for (const group of groups) {
+    for (let i = 0; i < group.memberIds.length; i++) {
+      const recent = recentGroupmates.get(group.memberIds[i]);
+      if (!recent || recent.size === 0) continue;
+      for (let j = i + 1; j < group.memberIds.length; j++) {
+        if (recent.has(group.memberIds[j])) repeats++;
+      }
+    }
+  }
+  return repeats;
+}
+
+function measureGroupSizeVariance(groups: Pick<Group, 'memberIds'>[]): number {
+  if (groups.length < 2) return 0;
+  const sizes = groups.map((g) => g.memberIds.length);
+  const mean = sizes.reduce((sum, n) => sum + n, 0) / sizes.length;
+  return sizes.reduce((sum, n) => sum + (n - mean) ** 2, 0) / sizes.length;
+}
@@ -4,13 +4,19 @@
  * @module algorithms/types
  */
 
-import type { Group, Student, StudentPreference } from '$lib/domain';
+import type { AttributeBalanceSpec, Group, Student, StudentPreference } from '$lib/domain';
 
 /**
  * A pair of student IDs that should not be placed in the same group.
  */
 export type AvoidPair = [studentId1: string, studentId2: string];
 
+/**
+ * A set of student IDs that must all be placed in the same group
+ * (e.g., an ELL student and their translator buddy).
+ */
+export type KeepTogetherSet = string[];
+
 /**
  * Constraints for the grouping algorithm.
  */
@@ -21,6 +27,12 @@ export interface GroupingConstraints {
    */
   avoidPairs?: AvoidPair[];
 
+  /**
+   * Sets of students that must be placed in the same group.
+   * Overlapping sets are merged before assignment (see mergeKeepTogetherSets).
+   */
+  keepTogether?: KeepTogetherSet[];
+
   /**
    * Map from student ID to set of student IDs they were grouped with in recent sessions.
    * Used for "no repeat groupmates" and "completely different group" rules.
@@ -61,6 +73,13 @@ export interface AssignmentOptions {
    * Optional - if not provided, no constraints are applied.
    */
   constraints?: GroupingConstraints;
+
+  /**
+   * Attributes to spread evenly across groups (e.g., gender, reading level).
+   * Optional - balancing never breaks constraints or moves a student to a
+   * less-preferred group.
+   */
+  attributeBalance?: AttributeBalanceSpec[];
 }
 
 /**
@@ -68,7 +87,7 @@ export interface AssignmentOptions {
  */
 export interface ConstraintViolation {
   /** Type of constraint that was violated. */
-  type: 'AVOID_PAIR' | 'RECENT_GROUPMATE';
+  type: 'AVOID_PAIR' | 'RECENT_GROUPMATE' | 'KEEP_TOGETHER';
   /** The student being assigned. */
   studentId: string;
   /** The group they were assigned to despite the violation. */
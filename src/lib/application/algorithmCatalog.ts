@@ -1,11 +1,18 @@
+import { EXACT_SOLVER_MAX_STUDENTS } from '$lib/algorithms/exact-assignment';
+
 export interface AlgorithmCatalogEntry {
   id: string;
   label: string;
   isSlow?: boolean;
+  /** Skip this algorithm for classes larger than this. */
+  maxStudents?: number;
+  /** Keeps students pre-placed in the group shells (locks) where they are. */
+  keepsPrePlaced?: boolean;
 }
 
 export const candidateAlgorithmCatalog: AlgorithmCatalogEntry[] = [
-  { id: 'balanced', label: 'Balanced' },
+  { id: 'balanced', label: 'Balanced', keepsPrePlaced: true },
+  { id: 'exact', label: 'Exact (Optimal)', isSlow: true, maxStudents: EXACT_SOLVER_MAX_STUDENTS },
   { id: 'first-choice-only', label: 'First Choice Only' },
   { id: 'random', label: 'Random Shuffle' },
   { id: 'round-robin', label: 'Round Robin' },
@@ -0,0 +1,75 @@
+/**
+ * Automatic backup service port.
+ *
+ * Takes snapshots of all local data on a schedule or after a number of edits,
+ * keeping a rolling set of versions on this device so data can be recovered
+ * without a manually downloaded backup file.
+ *
+ * @module application/ports/AutoBackupService
+ */
+
+/**
+ * What caused a snapshot.
+ */
+export type AutoBackupTrigger = 'schedule' | 'edits' | 'manual';
+
+/**
+ * Snapshot content: the same shape as a backup file.
+ */
+export interface AutoBackupData {
+  version: number;
+  dbVersion: number;
+  exportedAt: string;
+  stores: Record<string, unknown[]>;
+}
+
+/**
+ * A stored snapshot, without its data.
+ */
+export interface AutoBackupSnapshot {
+  id: string;
+  createdAt: Date;
+  trigger: AutoBackupTrigger;
+  /** Number of records per store, e.g. `{ programs: 3, students: 72 }`. */
+  recordCounts: Record<string, number>;
+}
+
+export interface AutoBackupConfig {
+  enabled: boolean;
+  /** Take a snapshot at most this often while data keeps changing. */
+  intervalMinutes: number;
+  /** Take a snapshot after this many edits, without waiting for the interval. */
+  editThreshold: number;
+  /** Snapshots to keep; older ones are deleted. */
+  keep: number;
+}
+
+export interface AutoBackupService {
+  getConfig(): AutoBackupConfig;
+  setConfig(config: Partial<AutoBackupConfig>): Promise<void>;
+
+  /**
+   * Snapshots on this device, newest first.
+   */
+  listSnapshots(): Promise<AutoBackupSnapshot[]>;
+
+  /**
+   * Data of a snapshot, or null if it no longer exists.
+   */
+  getSnapshotData(id: string): Promise<AutoBackupData | null>;
+
+  /**
+   * Take a snapshot now, even if nothing changed since the last one.
+   */
+  backupNow(): Promise<AutoBackupSnapshot>;
+
+  /**
+   * Note that local data changed. Called by repositories on every write.
+   */
+  recordEdit(): void;
+
+  /**
+   * Subscribe to new and deleted snapshots. Returns an unsubscribe function.
+   */
+  onSnapshotsChange(listener: () => void): () => void;
+}
@@ -0,0 +1,39 @@
+import type { ConflictRule } from '$lib/domain';
+
+/**
+ * Repository interface for ConflictRule entities.
+ *
+ * Conflict rules are teacher-defined "keep apart" / "keep together" rules,
+ * scoped either to a Program or to a Pool.
+ */
+export interface ConflictRuleRepository {
+  /**
+   * Get a rule by its ID.
+   */
+  getById(id: string): Promise<ConflictRule | null>;
+
+  /**
+   * List rules scoped to a specific program.
+   */
+  listByProgramId(programId: string): Promise<ConflictRule[]>;
+
+  /**
+   * List rules scoped to a specific pool.
+   */
+  listByPoolId(poolId: string): Promise<ConflictRule[]>;
+
+  /**
+   * Save a rule (create or update).
+   */
+  save(rule: ConflictRule): Promise<void>;
+
+  /**
+   * Delete a rule by ID.
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * List all rules, optionally filtered by user ID.
+   */
+  listAll(userId?: string): Promise<ConflictRule[]>;
+}
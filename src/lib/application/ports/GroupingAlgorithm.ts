@@ -8,6 +8,8 @@
  * @module application/ports/GroupingAlgorithm
  */
 
+import type { ScoreBreakdown } from '$lib/domain';
+
 /**
  * Result of a successful grouping operation.
  */
@@ -19,6 +21,15 @@ export interface GroupingResult {
     capacity: number | null;
     memberIds: string[];
   }>;
+
+  /** Per-objective score of the groups, from algorithms that optimize a score. */
+  scoreBreakdown?: ScoreBreakdown;
+
+  /**
+   * From exact solvers: true when no better arrangement exists, false when the
+   * time budget ran out before optimality was proven.
+   */
+  provenOptimal?: boolean;
 }
 
 /**
@@ -27,6 +38,26 @@ export interface GroupingResult {
 export interface GroupingFailure {
   /** Human-readable error message. */
   message: string;
+
+  /**
+   * True when the algorithm ran out of time before finding any arrangement,
+   * as opposed to the groups and rules having no arrangement at all.
+   */
+  timedOut?: boolean;
+}
+
+/**
+ * Progress report from a running grouping algorithm.
+ */
+export interface GroupingProgress {
+  /** Iterations (or generations) completed so far. */
+  iteration: number;
+
+  /** Total iterations the run will take. */
+  totalIterations: number;
+
+  /** Best score found so far, from algorithms that optimize a score. */
+  bestScore?: number;
 }
 
 /**
@@ -44,6 +75,15 @@ export interface GroupingParams {
    * Shape depends on the implementation (e.g., swap budget, group definitions).
    */
   algorithmConfig?: unknown;
+
+  /** Called as iterative algorithms make progress. Quick algorithms may never call it. */
+  onProgress?: (progress: GroupingProgress) => void;
+
+  /**
+   * Cancels the run when aborted. Implementations resolve with a failure
+   * instead of groups; callers check `signal.aborted` to tell it apart.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -62,7 +102,5 @@ export interface GroupingAlgorithm {
    */
   generateGroups(
     params: GroupingParams
-  ): Promise<
-    { success: true; groups: GroupingResult['groups'] } | { success: false; message: string }
-  >;
+  ): Promise<({ success: true } & GroupingResult) | ({ success: false } & GroupingFailure)>;
 }
@@ -4,6 +4,7 @@ export interface PoolRepository {
   getById(id: string): Promise<Pool | null>;
   save(pool: Pool): Promise<void>;
   update(pool: Pool): Promise<void>;
+  delete(id: string): Promise<void>;
 
   /**
    * List all pools.
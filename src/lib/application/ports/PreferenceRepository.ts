@@ -11,6 +11,11 @@ export interface PreferenceRepository {
    */
   save(preference: Preference): Promise<void>;
 
+  /**
+   * Remove a student's preference in a Program, if any.
+   */
+  deleteForStudent(programId: string, studentId: string): Promise<void>;
+
   /**
    * Optional bulk helper for tests or batch imports.
    */
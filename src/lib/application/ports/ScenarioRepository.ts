@@ -2,7 +2,13 @@ import type { Scenario } from '$lib/domain';
 
 export interface ScenarioRepository {
   getById(id: string): Promise<Scenario | null>;
+  /**
+   * The program's working scenario: the adopted one if any, otherwise the most
+   * recently modified draft (see `pickWorkingScenario`).
+   */
   getByProgramId(programId: string): Promise<Scenario | null>;
+  /** All scenarios saved for a program, oldest first. */
+  listByProgramId(programId: string): Promise<Scenario[]>;
   save(scenario: Scenario): Promise<void>;
   update(scenario: Scenario): Promise<void>;
   delete(id: string): Promise<void>;
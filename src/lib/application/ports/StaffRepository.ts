@@ -3,4 +3,6 @@ import type { Staff } from '$lib/domain';
 export interface StaffRepository {
   getById(id: string): Promise<Staff | null>;
   getByIds?(ids: string[]): Promise<Staff[]>;
+  /** Create or replace a staff record (e.g. teachers from an SIS import). */
+  save(staff: Staff): Promise<void>;
 }
@@ -15,6 +15,11 @@ export interface StudentRepository {
   getByIds(ids: string[]): Promise<Student[]>;
   saveMany(students: Student[]): Promise<void>;
 
+  /**
+   * Permanently remove student records (e.g. when forgetting a student).
+   */
+  deleteMany(ids: string[]): Promise<void>;
+
   /**
    * List all students with a given canonical ID.
    * Used to find all import instances of the same student identity.
@@ -19,15 +19,45 @@ export type SyncEntityType =
   | 'sessions'
   | 'placements'
   | 'preferences'
-  | 'groupTemplates';
+  | 'observations'
+  | 'groupTemplates'
+  | 'studentIdentities'
+  | 'conflictRules';
+
+/**
+ * An entity edited on this device and on another one in ways that could not be
+ * merged automatically. Resolved by keeping one side.
+ */
+export interface SyncConflict {
+  entityType: SyncEntityType;
+  entityId: string;
+  /** This device's version. */
+  local: unknown;
+  /** The version saved from another device. */
+  remote: unknown;
+  /** Fields edited differently on both sides, e.g. `name` or `groups[g1].memberIds`. */
+  fields: string[];
+}
+
+/**
+ * Outcome of a push:
+ * - SYNCED: every entity was saved as-is
+ * - MERGED: some entities were changed elsewhere and merged automatically
+ * - CONFLICT: some entities need the user to pick a version (see `conflicts`)
+ * - FAILED: nothing could be pushed (offline, not signed in, server error)
+ */
+export type SyncPushOutcome = 'SYNCED' | 'MERGED' | 'CONFLICT' | 'FAILED';
 
 /**
  * Result of a sync push operation.
  */
 export interface SyncPushResult {
   success: boolean;
+  outcome: SyncPushOutcome;
   syncedCount: number;
   failedCount: number;
+  /** Entities that could not be merged automatically (outcome CONFLICT). */
+  conflicts?: SyncConflict[];
   errors?: string[];
 }
 
@@ -74,6 +104,11 @@ export interface SyncStatus {
    * Last sync error message, or null if no error.
    */
   lastError: string | null;
+
+  /**
+   * Conflicts waiting for the user to pick a version.
+   */
+  conflicts: SyncConflict[];
 }
 
 /**
@@ -133,4 +168,14 @@ export interface SyncService {
     operation: 'save' | 'delete',
     entityId: string
   ): Promise<void>;
+
+  /**
+   * Resolve a conflict by keeping this device's version (pushed over the other
+   * one) or the other device's version (saved locally).
+   */
+  resolveConflict(
+    entityType: SyncEntityType,
+    entityId: string,
+    keep: 'local' | 'remote'
+  ): Promise<void>;
 }
@@ -19,6 +19,7 @@ export * from './PlacementRepository';
 export * from './PreferenceRepository';
 export * from './GroupTemplateRepository';
 export * from './ObservationRepository';
+export * from './ConflictRuleRepository';
 
 // Service ports
 export * from './IdGenerator';
@@ -30,6 +31,9 @@ export * from './AuthService';
 export * from './SyncService';
 export * from './GoogleSheetsSync';
 
+// Backup ports
+export * from './AutoBackupService';
+
 // Infrastructure ports
 export * from './StoragePort';
 export * from './NetworkStatusPort';
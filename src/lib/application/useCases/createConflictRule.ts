@@ -0,0 +1,68 @@
+import type { ConflictRule, ConflictRuleKind } from '$lib/domain';
+import { createConflictRule as createConflictRuleEntity } from '$lib/domain';
+import type { ConflictRuleRepository, IdGenerator, Clock } from '$lib/application/ports';
+import type { Result } from '$lib/types/result';
+import { ok, err } from '$lib/types/result';
+
+/**
+ * Input for creating a conflict rule.
+ * Provide programId to scope the rule to one activity, or poolId to apply it
+ * to every activity that uses the roster.
+ */
+export interface CreateConflictRuleInput {
+  kind: ConflictRuleKind;
+  studentIds: string[];
+  programId?: string;
+  poolId?: string;
+  note?: string;
+  userId?: string;
+}
+
+/**
+ * Error types for conflict rule creation.
+ */
+export type CreateConflictRuleError =
+  | { type: 'VALIDATION_ERROR'; message: string }
+  | { type: 'INTERNAL_ERROR'; message: string };
+
+/**
+ * Create a teacher-defined "keep apart" or "keep together" rule.
+ */
+export async function createConflictRule(
+  deps: {
+    conflictRuleRepo: ConflictRuleRepository;
+    idGenerator: IdGenerator;
+    clock: Clock;
+  },
+  input: CreateConflictRuleInput
+): Promise<Result<ConflictRule, CreateConflictRuleError>> {
+  let rule: ConflictRule;
+  try {
+    rule = createConflictRuleEntity({
+      id: deps.idGenerator.generateId(),
+      kind: input.kind,
+      studentIds: input.studentIds,
+      programId: input.programId,
+      poolId: input.poolId,
+      note: input.note,
+      createdAt: deps.clock.now(),
+      userId: input.userId
+    });
+  } catch (error) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      message: error instanceof Error ? error.message : 'Invalid conflict rule'
+    });
+  }
+
+  try {
+    await deps.conflictRuleRepo.save(rule);
+  } catch {
+    return err({
+      type: 'INTERNAL_ERROR',
+      message: 'Failed to save conflict rule'
+    });
+  }
+
+  return ok(rule);
+}
@@ -58,6 +58,8 @@ export interface ParsedPreference {
   likeGroupIds?: string[];
   /** List of student IDs to avoid (optional constraint) */
   avoidStudentIds?: string[];
+  /** Group names or IDs the student should not be placed in */
+  avoidGroupIds?: string[];
 }
 
 /**
@@ -275,7 +277,7 @@ export async function createGroupingActivity(
           studentId: studentId,
           avoidStudentIds: validAvoidIds,
           likeGroupIds: parsedPref.likeGroupIds ? [...parsedPref.likeGroupIds] : [],
-          avoidGroupIds: []
+          avoidGroupIds: parsedPref.avoidGroupIds ? [...parsedPref.avoidGroupIds] : []
         } satisfies StudentPreference
       };
 
@@ -319,12 +321,14 @@ export async function createGroupingActivity(
       const updatedPreferences: Preference[] = [];
       for (const pref of preferencesToSave) {
         const payload = pref.payload as StudentPreference;
-        const mappedIds = payload.likeGroupIds.map(
-          (nameOrId) => groupNameToId.get(nameOrId) ?? nameOrId
-        );
+        const toId = (nameOrId: string) => groupNameToId.get(nameOrId) ?? nameOrId;
         updatedPreferences.push({
           ...pref,
-          payload: { ...payload, likeGroupIds: mappedIds }
+          payload: {
+            ...payload,
+            likeGroupIds: payload.likeGroupIds.map(toId),
+            avoidGroupIds: payload.avoidGroupIds.map(toId)
+          }
         });
       }
       preferencesToSave.length = 0;
@@ -62,6 +62,8 @@ export interface CreateNewIdentityInput {
   student: StudentToImport;
   /** Source of this import (e.g., activity name) for variant tracking */
   source: string;
+  /** ID for the new identity, such as a SIS sourcedId (generated when omitted) */
+  identityId?: string;
   /** User ID for multi-tenant isolation */
   userId?: string;
 }
@@ -177,7 +179,7 @@ async function createNewStudentWithIdentity(
   const { student: studentData, source, userId } = input;
 
   // Generate IDs
-  const identityId = idGenerator.generateId();
+  const identityId = input.identityId ?? idGenerator.generateId();
   const studentId = idGenerator.generateId();
 
   // Create the identity
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createScenarioFromGroups } from './createScenarioFromGroups';
+import {
+  InMemoryProgramRepository,
+  InMemoryPoolRepository,
+  InMemoryScenarioRepository
+} from '$lib/infrastructure/repositories/inMemory';
+import type { Group, Program, Pool, Scenario } from '$lib/domain';
+
+const program: Program = {
+  id: 'program-1',
+  name: 'Test Activity',
+  type: 'CLASS_ACTIVITY',
+  timeSpan: { termLabel: 'Fall 2024' },
+  poolIds: ['pool-1'],
+  primaryPoolId: 'pool-1'
+};
+
+const pool: Pool = {
+  id: 'pool-1',
+  name: 'All Students',
+  type: 'CLASS',
+  status: 'ACTIVE',
+  memberIds: ['s1', 's2']
+};
+
+function scenario(id: string, status: Scenario['status'], lastModifiedAt: string): Scenario {
+  return {
+    id,
+    programId: 'program-1',
+    status,
+    groups: [{ id: 'g1', name: 'Group 1', memberIds: ['s1', 's2'], capacity: null }],
+    participantSnapshot: ['s1', 's2'],
+    createdAt: new Date('2024-10-01'),
+    lastModifiedAt: new Date(lastModifiedAt)
+  };
+}
+
+const groups: Group[] = [
+  { id: 'g-a', name: 'Group A', memberIds: ['s1'], capacity: null },
+  { id: 'g-b', name: 'Group B', memberIds: ['s2'], capacity: null }
+];
+
+describe('createScenarioFromGroups', () => {
+  let scenarioRepo: InMemoryScenarioRepository;
+  const deps = () => ({
+    programRepo: new InMemoryProgramRepository([program]),
+    poolRepo: new InMemoryPoolRepository([pool]),
+    scenarioRepo,
+    idGenerator: { generateId: () => 'scenario-new' },
+    clock: { now: () => new Date('2024-10-05') }
+  });
+
+  beforeEach(() => {
+    scenarioRepo = new InMemoryScenarioRepository([
+      scenario('adopted', 'ADOPTED', '2024-10-02'),
+      scenario('draft', 'DRAFT', '2024-10-03')
+    ]);
+  });
+
+  it('should save another draft when no scenario is replaced', async () => {
+    const result = await createScenarioFromGroups(deps(), { programId: 'program-1', groups });
+
+    expect(result.status).toBe('ok');
+    const stored = await scenarioRepo.listByProgramId('program-1');
+    expect(stored.map((s) => s.id).sort()).toEqual(['adopted', 'draft', 'scenario-new']);
+  });
+
+  it('should replace only the named scenario', async () => {
+    const result = await createScenarioFromGroups(deps(), {
+      programId: 'program-1',
+      groups,
+      replaceScenarioId: 'draft'
+    });
+
+    expect(result.status).toBe('ok');
+    const stored = await scenarioRepo.listByProgramId('program-1');
+    expect(stored.map((s) => s.id).sort()).toEqual(['adopted', 'scenario-new']);
+  });
+
+  it('should return SCENARIO_NOT_FOUND for a scenario of another program', async () => {
+    await scenarioRepo.save({
+      ...scenario('other', 'DRAFT', '2024-10-01'),
+      programId: 'program-2'
+    });
+
+    const result = await createScenarioFromGroups(deps(), {
+      programId: 'program-1',
+      groups,
+      replaceScenarioId: 'other'
+    });
+
+    expect(result.status === 'err' && result.error.type).toBe('SCENARIO_NOT_FOUND');
+    expect(await scenarioRepo.getById('other')).not.toBeNull();
+  });
+});
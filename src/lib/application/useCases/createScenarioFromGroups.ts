@@ -18,7 +18,8 @@ export interface CreateScenarioFromGroupsInput {
   groups: Group[];
   createdByStaffId?: string;
   algorithmConfig?: unknown;
-  replaceExisting?: boolean;
+  /** Scenario of this Program to replace; otherwise the new one is saved as another draft. */
+  replaceScenarioId?: string;
 }
 
 /**
@@ -28,7 +29,7 @@ export type CreateScenarioFromGroupsError =
   | { type: 'PROGRAM_NOT_FOUND'; programId: string }
   | { type: 'POOL_NOT_FOUND'; poolId: string }
   | { type: 'POOL_HAS_NO_MEMBERS'; poolId: string }
-  | { type: 'SCENARIO_ALREADY_EXISTS_FOR_PROGRAM'; programId: string; scenarioId: string }
+  | { type: 'SCENARIO_NOT_FOUND'; scenarioId: string }
   | { type: 'DOMAIN_VALIDATION_FAILED'; message: string }
   | { type: 'INTERNAL_ERROR'; message: string };
 
@@ -65,12 +66,13 @@ export async function createScenarioFromGroups(
     });
   }
 
-  const existingScenario = await deps.scenarioRepo.getByProgramId(program.id);
-  if (existingScenario && !input.replaceExisting) {
+  const replacedScenario = input.replaceScenarioId
+    ? await deps.scenarioRepo.getById(input.replaceScenarioId)
+    : null;
+  if (input.replaceScenarioId && replacedScenario?.programId !== program.id) {
     return err({
-      type: 'SCENARIO_ALREADY_EXISTS_FOR_PROGRAM',
-      programId: program.id,
-      scenarioId: existingScenario.id
+      type: 'SCENARIO_NOT_FOUND',
+      scenarioId: input.replaceScenarioId
     });
   }
 
@@ -116,10 +118,10 @@ export async function createScenarioFromGroups(
   }
 
   try {
-    if (existingScenario) {
-      await deps.scenarioRepo.delete(existingScenario.id);
-    }
     await deps.scenarioRepo.save(scenario);
+    if (replacedScenario) {
+      await deps.scenarioRepo.delete(replacedScenario.id);
+    }
   } catch (e) {
     const message = e instanceof Error ? e.message : 'Unknown persistence error';
     return err({
@@ -0,0 +1,22 @@
+/**
+ * Delete a conflict rule.
+ */
+
+import type { ConflictRuleRepository } from '$lib/application/ports';
+import { ok, type Result } from '$lib/types/result';
+
+export interface DeleteConflictRuleInput {
+  ruleId: string;
+}
+
+export type DeleteConflictRuleError = never; // Can never fail currently (idempotent delete)
+
+export async function deleteConflictRule(
+  deps: {
+    conflictRuleRepo: ConflictRuleRepository;
+  },
+  input: DeleteConflictRuleInput
+): Promise<Result<void, DeleteConflictRuleError>> {
+  await deps.conflictRuleRepo.delete(input.ruleId);
+  return ok(undefined);
+}
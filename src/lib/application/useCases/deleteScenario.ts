@@ -0,0 +1,42 @@
+import type { ScenarioRepository } from '$lib/application/ports';
+import type { Result } from '$lib/types/result';
+import { ok, err } from '$lib/types/result';
+
+export interface DeleteScenarioInput {
+  scenarioId: string;
+}
+
+export type DeleteScenarioError =
+  | { type: 'SCENARIO_NOT_FOUND'; scenarioId: string }
+  | { type: 'LAST_SCENARIO'; scenarioId: string }
+  | { type: 'INTERNAL_ERROR'; message: string };
+
+/**
+ * Delete one of a program's scenarios. The last remaining scenario cannot be
+ * deleted; clear its groups instead.
+ */
+export async function deleteScenario(
+  deps: {
+    scenarioRepo: ScenarioRepository;
+  },
+  input: DeleteScenarioInput
+): Promise<Result<{ scenarioId: string }, DeleteScenarioError>> {
+  const scenario = await deps.scenarioRepo.getById(input.scenarioId);
+  if (!scenario) {
+    return err({ type: 'SCENARIO_NOT_FOUND', scenarioId: input.scenarioId });
+  }
+
+  const siblings = await deps.scenarioRepo.listByProgramId(scenario.programId);
+  if (siblings.length <= 1) {
+    return err({ type: 'LAST_SCENARIO', scenarioId: input.scenarioId });
+  }
+
+  try {
+    await deps.scenarioRepo.delete(input.scenarioId);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    return err({ type: 'INTERNAL_ERROR', message });
+  }
+
+  return ok({ scenarioId: input.scenarioId });
+}
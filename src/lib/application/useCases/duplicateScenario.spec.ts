@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { duplicateScenario } from './duplicateScenario';
+import { InMemoryScenarioRepository } from '$lib/infrastructure/repositories/inMemory/InMemoryScenarioRepository';
+import type { Scenario } from '$lib/domain';
+
+const source: Scenario = {
+  id: 'scenario-1',
+  programId: 'program-1',
+  name: 'Plan A',
+  status: 'ADOPTED',
+  groups: [
+    { id: 'g1', name: 'Robotics', memberIds: ['sam', 'ana'], capacity: 4 },
+    { id: 'g2', name: 'Art', memberIds: ['bea'], capacity: 4 }
+  ],
+  participantSnapshot: ['sam', 'ana', 'bea'],
+  createdAt: new Date('2024-10-01'),
+  lastModifiedAt: new Date('2024-10-02'),
+  lockedStudentIds: ['sam']
+};
+
+describe('duplicateScenario', () => {
+  let scenarioRepo: InMemoryScenarioRepository;
+  const deps = () => ({
+    scenarioRepo,
+    idGenerator: { generateId: () => 'scenario-2' },
+    clock: { now: () => new Date('2024-10-05') }
+  });
+
+  beforeEach(() => {
+    scenarioRepo = new InMemoryScenarioRepository([source]);
+  });
+
+  it('should save an independent draft copy alongside the source', async () => {
+    const result = await duplicateScenario(deps(), { scenarioId: 'scenario-1' });
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.value).toMatchObject({
+      id: 'scenario-2',
+      programId: 'program-1',
+      name: 'Plan A (copy)',
+      status: 'DRAFT',
+      lockedStudentIds: ['sam'],
+      createdAt: new Date('2024-10-05')
+    });
+    expect(result.value.groups).toEqual(source.groups);
+
+    result.value.groups[0].memberIds.push('bea');
+    const stored = await scenarioRepo.listByProgramId('program-1');
+    expect(stored.map((s) => s.id)).toEqual(['scenario-1', 'scenario-2']);
+    expect(stored[0].groups[0].memberIds).toEqual(['sam', 'ana']);
+  });
+
+  it('should use the given name', async () => {
+    const result = await duplicateScenario(deps(), { scenarioId: 'scenario-1', name: ' Plan B ' });
+
+    expect(result.status === 'ok' && result.value.name).toBe('Plan B');
+  });
+
+  it('should return SCENARIO_NOT_FOUND for unknown scenarios', async () => {
+    const result = await duplicateScenario(deps(), { scenarioId: 'missing' });
+
+    expect(result.status).toBe('err');
+    if (result.status === 'err') {
+      expect(result.error.type).toBe('SCENARIO_NOT_FOUND');
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import type { Scenario } from '$lib/domain';
+import type { Clock, IdGenerator, ScenarioRepository } from '$lib/application/ports';
+import type { Result } from '$lib/types/result';
+import { ok, err } from '$lib/types/result';
+
+/**
+ * Input for duplicating a scenario.
+ */
+export interface DuplicateScenarioInput {
+  scenarioId: string;
+  /** Name for the copy. Defaults to "<source name> (copy)". */
+  name?: string;
+}
+
+export type DuplicateScenarioError =
+  | { type: 'SCENARIO_NOT_FOUND'; scenarioId: string }
+  | { type: 'INTERNAL_ERROR'; message: string };
+
+/**
+ * Save a copy of a scenario as a new draft in the same program.
+ *
+ * Groups, participants, locks and algorithm config are copied; the copy keeps
+ * the source's group IDs so preferences that reference groups still match.
+ */
+export async function duplicateScenario(
+  deps: {
+    scenarioRepo: ScenarioRepository;
+    idGenerator: IdGenerator;
+    clock: Clock;
+  },
+  input: DuplicateScenarioInput
+): Promise<Result<Scenario, DuplicateScenarioError>> {
+  const source = await deps.scenarioRepo.getById(input.scenarioId);
+  if (!source) {
+    return err({ type: 'SCENARIO_NOT_FOUND', scenarioId: input.scenarioId });
+  }
+
+  const now = deps.clock.now();
+  const copy: Scenario = {
+    ...source,
+    id: deps.idGenerator.generateId(),
+    name: input.name?.trim() || `${source.name?.trim() || 'Scenario'} (copy)`,
+    status: 'DRAFT',
+    groups: source.groups.map((g) => ({ ...g, memberIds: [...g.memberIds] })),
+    participantSnapshot: [...source.participantSnapshot],
+    lockedStudentIds: source.lockedStudentIds ? [...source.lockedStudentIds] : undefined,
+    lockedGroupIds: source.lockedGroupIds ? [...source.lockedGroupIds] : undefined,
+    createdAt: now,
+    lastModifiedAt: now
+  };
+
+  try {
+    await deps.scenarioRepo.save(copy);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown persistence error';
+    return err({ type: 'INTERNAL_ERROR', message });
+  }
+
+  return ok(copy);
+}
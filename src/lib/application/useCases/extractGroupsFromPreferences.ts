@@ -9,7 +9,8 @@
  */
 
 import type { PreferenceRepository } from '$lib/application/ports';
-import type { RawSheetData, ColumnMapping, MappedField } from '$lib/domain/import';
+import type { RawSheetData, ColumnMapping } from '$lib/domain/import';
+import { getChoiceRank, isChoiceField } from '$lib/domain/import';
 import { isStudentPreference } from '$lib/domain/preference';
 import type { Result } from '$lib/types/result';
 import { ok, err } from '$lib/types/result';
@@ -133,12 +134,11 @@ function extractFromSheet(
   const { rawData, columnMappings } = input;
 
   // Build mapping from choice field to column index
-  const choiceFields: MappedField[] = ['choice1', 'choice2', 'choice3', 'choice4', 'choice5'];
   const choiceColumnMap = new Map<number, number>(); // choice rank -> column index
 
   for (const mapping of columnMappings) {
-    if (mapping.mappedTo && choiceFields.includes(mapping.mappedTo)) {
-      const rank = parseInt(mapping.mappedTo.replace('choice', ''));
+    const rank = mapping.mappedTo ? getChoiceRank(mapping.mappedTo) : null;
+    if (rank !== null) {
       choiceColumnMap.set(rank, mapping.columnIndex);
     }
   }
@@ -375,10 +375,7 @@ export function detectPreferenceFormat(
 
   // Try standard format detection (if mappings provided)
   if (columnMappings && columnMappings.length > 0) {
-    const choiceFields: MappedField[] = ['choice1', 'choice2', 'choice3', 'choice4', 'choice5'];
-    const choiceMappings = columnMappings.filter(
-      (m) => m.mappedTo && choiceFields.includes(m.mappedTo)
-    );
+    const choiceMappings = columnMappings.filter((m) => m.mappedTo && isChoiceField(m.mappedTo));
 
     if (choiceMappings.length > 0) {
       // Sample some group names from the data
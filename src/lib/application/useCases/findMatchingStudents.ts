@@ -206,11 +206,12 @@ export interface FindMatchingStudentsDeps {
 
 /**
  * Calculate match score between imported name and an identity.
+ * Only the names are compared, so any named record can be scored.
  */
-function calculateMatchScore(
+export function calculateMatchScore(
   firstName: string,
   lastName: string | undefined,
-  identity: StudentIdentity
+  identity: Pick<StudentIdentity, 'displayName' | 'knownVariants'>
 ): { score: number; reasons: string[] } {
   let score = 0;
   const reasons: string[] = [];
@@ -338,7 +339,7 @@ function calculateMatchScore(
 /**
  * Determine confidence level from score.
  */
-function getConfidence(score: number): MatchConfidence {
+export function getConfidence(score: number): MatchConfidence {
   if (score >= 90) return 'HIGH';
   if (score >= 60) return 'MEDIUM';
   if (score >= 30) return 'LOW';
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { forgetStudent } from './forgetStudent';
+import {
+  createInMemoryEnvironment,
+  type InMemoryEnvironment
+} from '$lib/infrastructure/inMemoryEnvironment';
+import type { Observation, Placement, Program, Pool } from '$lib/domain';
+
+const NOW = new Date('2025-01-10T09:00:00Z');
+
+function pool(id: string, memberIds: string[]): Pool {
+  return { id, name: id, type: 'CLASS', memberIds, status: 'ACTIVE' };
+}
+
+function program(id: string, poolId: string): Program {
+  return {
+    id,
+    name: id,
+    type: 'CLASS_ACTIVITY',
+    timeSpan: { termLabel: 'Fall' },
+    poolIds: [poolId]
+  };
+}
+
+function observation(id: string, programId: string, content: string): Observation {
+  return { id, programId, groupId: 'g1', groupName: 'Red', content, createdAt: NOW };
+}
+
+function placement(id: string, studentId: string): Placement {
+  return {
+    id,
+    sessionId: 'session-1',
+    studentId,
+    groupId: 'g1',
+    groupName: 'Red',
+    preferenceRank: null,
+    assignedAt: NOW,
+    startDate: NOW,
+    type: 'INITIAL'
+  };
+}
+
+function deps(env: InMemoryEnvironment) {
+  return {
+    studentRepo: env.studentRepo,
+    studentIdentityRepo: env.studentIdentityRepo,
+    poolRepo: env.poolRepo,
+    programRepo: env.programRepo,
+    scenarioRepo: env.scenarioRepo,
+    preferenceRepo: env.preferenceRepo,
+    placementRepo: env.placementRepo,
+    observationRepo: env.observationRepo,
+    conflictRuleRepo: env.conflictRuleRepo
+  };
+}
+
+describe('forgetStudent', () => {
+  let env: InMemoryEnvironment;
+
+  beforeEach(async () => {
+    // Ana was imported into two activities (s1, s2); Ben is in the first and third
+    env = createInMemoryEnvironment({
+      students: [
+        { id: 's1', firstName: 'Ana', lastName: 'Lima', canonicalId: 'ana' },
+        { id: 's2', firstName: 'Ana', lastName: 'Lima', canonicalId: 'ana' },
+        { id: 's3', firstName: 'Ben', lastName: 'Okafor' }
+      ],
+      pools: [
+        { ...pool('p1', ['s1', 's3']), memberStatuses: { s1: 'inactive' } },
+        pool('p2', ['s2']),
+        pool('p3', ['s3'])
+      ],
+      programs: [program('prog1', 'p1'), program('prog2', 'p2'), program('prog3', 'p3')],
+      scenarios: [
+        {
+          id: 'sc1',
+          programId: 'prog1',
+          status: 'ADOPTED',
+          groups: [{ id: 'g1', name: 'Red', capacity: null, memberIds: ['s1', 's3'] }],
+          participantSnapshot: ['s1', 's3'],
+          lockedStudentIds: ['s1'],
+          createdAt: NOW,
+          lastModifiedAt: NOW
+        }
+      ],
+      preferences: [
+        {
+          id: 'pref1',
+          programId: 'prog1',
+          studentId: 's1',
+          payload: { studentId: 's1', avoidStudentIds: [], likeGroupIds: ['g1'], avoidGroupIds: [] }
+        },
+        {
+          id: 'pref3',
+          programId: 'prog1',
+          studentId: 's3',
+          payload: { studentId: 's3', avoidStudentIds: ['s1'], likeGroupIds: [], avoidGroupIds: [] }
+        }
+      ],
+      placements: [placement('pl1', 's1'), placement('pl2', 's2'), placement('pl3', 's3')],
+      observations: [
+        observation('o1', 'prog1', 'Ana led the discussion'),
+        observation('o2', 'prog1', 'Ben was focused'),
+        observation('o3', 'prog3', 'Ana helped Ben at lunch'),
+        observation('o4', 'prog3', 'Ana Lima visited the group')
+      ],
+      conflictRules: [
+        { id: 'r1', kind: 'AVOID', studentIds: ['s1', 's3'], programId: 'prog1', createdAt: NOW }
+      ]
+    });
+    await env.studentIdentityRepo.save({
+      id: 'ana',
+      displayName: 'Ana Lima',
+      knownVariants: [{ firstName: 'Ana', lastName: 'Lima', source: 'prog1' }],
+      createdAt: NOW
+    });
+  });
+
+  it('reports what would be removed without changing anything on a dry run', async () => {
+    const result = await forgetStudent(deps(env), { studentId: 's1', dryRun: true });
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.value).toEqual({
+      dryRun: true,
+      studentName: 'Ana Lima',
+      studentIds: ['s1', 's2'],
+      identityDeleted: true,
+      poolsUpdated: 2,
+      scenariosUpdated: 1,
+      preferencesDeleted: 1,
+      preferencesUpdated: 1,
+      placementsDeleted: 2,
+      observationsDeleted: 2,
+      ambiguousObservations: [],
+      conflictRulesDeleted: 1,
+      conflictRulesUpdated: 0
+    });
+    expect(await env.studentRepo.getById('s1')).not.toBeNull();
+    expect(await env.observationRepo.getById('o1')).not.toBeNull();
+  });
+
+  it('removes the student and every linked record', async () => {
+    const result = await forgetStudent(deps(env), { studentId: 's2' });
+    expect(result.status).toBe('ok');
+
+    expect(await env.studentRepo.getByIds(['s1', 's2', 's3'])).toHaveLength(1);
+    expect(await env.studentIdentityRepo.getById('ana')).toBeNull();
+
+    const p1 = await env.poolRepo.getById('p1');
+    expect(p1?.memberIds).toEqual(['s3']);
+    expect(p1?.memberStatuses).toEqual({});
+    expect((await env.poolRepo.getById('p2'))?.memberIds).toEqual([]);
+
+    const scenario = await env.scenarioRepo.getById('sc1');
+    expect(scenario?.groups[0].memberIds).toEqual(['s3']);
+    expect(scenario?.participantSnapshot).toEqual(['s3']);
+    expect(scenario?.lockedStudentIds).toEqual([]);
+
+    const preferences = await env.preferenceRepo.listByProgramId('prog1');
+    expect(preferences.map((p) => p.studentId)).toEqual(['s3']);
+    expect(preferences[0].payload).toMatchObject({ avoidStudentIds: [] });
+
+    expect(await env.placementRepo.listByStudentId('s1')).toEqual([]);
+    expect(await env.placementRepo.getById('pl3')).not.toBeNull();
+    expect(await env.conflictRuleRepo.listAll()).toEqual([]);
+  });
+
+  it('keeps rules that still name two other students', async () => {
+    await env.conflictRuleRepo.save({
+      id: 'r2',
+      kind: 'KEEP_TOGETHER',
+      studentIds: ['s1', 's3', 's4'],
+      programId: 'prog1',
+      createdAt: NOW
+    });
+
+    const result = await forgetStudent(deps(env), { studentId: 's1' });
+
+    expect(result.status === 'ok' && result.value).toMatchObject({
+      conflictRulesDeleted: 1,
+      conflictRulesUpdated: 1
+    });
+    const rules = await env.conflictRuleRepo.listAll();
+    expect(rules.map((r) => [r.id, r.studentIds])).toEqual([['r2', ['s3', 's4']]]);
+  });
+
+  it('only deletes first-name mentions in activities the student was part of', async () => {
+    await forgetStudent(deps(env), { studentId: 's1' });
+
+    const remaining = (await env.observationRepo.listAll()).map((o) => o.id).sort();
+    // o1: first name in Ana's activity; o4: full name elsewhere
+    expect(remaining).toEqual(['o2', 'o3']);
+  });
+
+  it('keeps first-name mentions another active classmate shares and reports them', async () => {
+    await env.studentRepo.saveMany([{ id: 's4', firstName: 'Ana', lastName: 'Souza' }]);
+    const p1 = await env.poolRepo.getById('p1');
+    await env.poolRepo.update({ ...p1!, memberIds: [...p1!.memberIds, 's4'] });
+
+    const dryRun = await forgetStudent(deps(env), { studentId: 's1', dryRun: true });
+    expect(dryRun.status === 'ok' && dryRun.value).toMatchObject({
+      observationsDeleted: 1,
+      ambiguousObservations: [{ id: 'o1', programId: 'prog1', content: 'Ana led the discussion' }]
+    });
+
+    await forgetStudent(deps(env), { studentId: 's1' });
+    const remaining = (await env.observationRepo.listAll()).map((o) => o.id).sort();
+    expect(remaining).toEqual(['o1', 'o2', 'o3']);
+  });
+
+  it('returns STUDENT_NOT_FOUND for unknown students', async () => {
+    const result = await forgetStudent(deps(env), { studentId: 'missing' });
+
+    expect(result.status).toBe('err');
+    if (result.status !== 'err') return;
+    expect(result.error.type).toBe('STUDENT_NOT_FOUND');
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * forgetStudent use case.
+ *
+ * Permanently removes one student's data everywhere ("right to delete"):
+ * every Student record linked to the same identity, the StudentIdentity,
+ * pool membership, scenario groups, preferences (their own, and mentions in
+ * other students' avoid lists), placements, conflict rules (or just their
+ * place in rules that still cover two others) and observations that mention
+ * them by name.
+ *
+ * Writes go through the repositories, so synced repositories queue the
+ * matching server deletes. With `dryRun`, nothing is changed and the report
+ * says what would be removed. Observations that name the student only by a
+ * first name another rostered student shares are kept and listed in the
+ * report for the teacher to review.
+ *
+ * @module application/useCases/forgetStudent
+ */
+
+import type {
+  ConflictRuleRepository,
+  ObservationRepository,
+  PlacementRepository,
+  PoolRepository,
+  PreferenceRepository,
+  ProgramRepository,
+  ScenarioRepository,
+  StudentIdentityRepository,
+  StudentRepository
+} from '$lib/application/ports';
+import type { Observation, Pool, Scenario, Student } from '$lib/domain';
+import { getActiveMemberIds } from '$lib/domain/pool';
+import { extractStudentPreference } from '$lib/domain/preference';
+import { getCanonicalId } from '$lib/domain/student';
+import { ok, err, type Result } from '$lib/types/result';
+
+// =============================================================================
+// Input/Output Types
+// =============================================================================
+
+export interface ForgetStudentInput {
+  studentId: string;
+  /** Report what would be removed without changing anything. */
+  dryRun?: boolean;
+}
+
+/**
+ * An observation that may mention the student, kept because the first name
+ * it uses also belongs to someone else on the roster.
+ */
+export interface AmbiguousObservation {
+  id: string;
+  programId: string;
+  content: string;
+}
+
+export interface ForgetStudentReport {
+  dryRun: boolean;
+  /** Display name of the forgotten student. */
+  studentName: string;
+  /** Student records removed (one per import linked to the same identity). */
+  studentIds: string[];
+  identityDeleted: boolean;
+  poolsUpdated: number;
+  scenariosUpdated: number;
+  preferencesDeleted: number;
+  /** Other students' preferences that listed this student. */
+  preferencesUpdated: number;
+  placementsDeleted: number;
+  observationsDeleted: number;
+  /** Observations left alone because the first name they use is shared. */
+  ambiguousObservations: AmbiguousObservation[];
+  conflictRulesDeleted: number;
+  /** Rules that still name at least two other students. */
+  conflictRulesUpdated: number;
+}
+
+export type ForgetStudentError =
+  | { type: 'STUDENT_NOT_FOUND'; studentId: string }
+  | { type: 'INTERNAL_ERROR'; message: string };
+
+// =============================================================================
+// Dependencies
+// =============================================================================
+
+export interface ForgetStudentDeps {
+  studentRepo: StudentRepository;
+  studentIdentityRepo: StudentIdentityRepository;
+  poolRepo: PoolRepository;
+  programRepo: ProgramRepository;
+  scenarioRepo: ScenarioRepository;
+  preferenceRepo: PreferenceRepository;
+  placementRepo: PlacementRepository;
+  observationRepo: ObservationRepository;
+  conflictRuleRepo: ConflictRuleRepository;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Case-insensitive whole-word matcher for any of the given names.
+ */
+function nameMatcher(names: Iterable<string>): (text: string) => boolean {
+  const terms = [...new Set([...names].map((n) => n.trim().toLowerCase()))].filter(
+    (n) => n.length >= 2
+  );
+  if (terms.length === 0) return () => false;
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+    'iu'
+  );
+  return (text) => pattern.test(text);
+}
+
+function fullName(firstName: string, lastName?: string): string {
+  return [firstName, lastName].filter(Boolean).join(' ');
+}
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+/**
+ * Forget a student everywhere.
+ *
+ * Observations are matched on the student's full name (any known variant)
+ * in every activity, and on their first name alone in activities whose
+ * roster included them and no other active member shares that first name.
+ */
+export async function forgetStudent(
+  deps: ForgetStudentDeps,
+  input: ForgetStudentInput
+): Promise<Result<ForgetStudentReport, ForgetStudentError>> {
+  const dryRun = input.dryRun ?? false;
+
+  const student = await deps.studentRepo.getById(input.studentId);
+  if (!student) {
+    return err({ type: 'STUDENT_NOT_FOUND', studentId: input.studentId });
+  }
+
+  try {
+    // All import records of the same person
+    const canonicalId = getCanonicalId(student);
+    const linked = await deps.studentRepo.listByCanonicalId(canonicalId);
+    const records: Student[] = [student, ...linked.filter((s) => s.id !== student.id)];
+    const ids = new Set(records.map((s) => s.id));
+    const identity = await deps.studentIdentityRepo.getById(canonicalId);
+
+    const fullNames = new Set(records.map((s) => fullName(s.firstName, s.lastName)));
+    const firstNames = new Set(records.map((s) => s.firstName));
+    if (identity) {
+      fullNames.add(identity.displayName);
+      for (const variant of identity.knownVariants) {
+        fullNames.add(fullName(variant.firstName, variant.lastName));
+        firstNames.add(variant.firstName);
+      }
+    }
+    const mentionsFullName = nameMatcher(fullNames);
+
+    const report: ForgetStudentReport = {
+      dryRun,
+      studentName: identity?.displayName ?? fullName(student.firstName, student.lastName),
+      studentIds: [...ids],
+      identityDeleted: identity !== null,
+      poolsUpdated: 0,
+      scenariosUpdated: 0,
+      preferencesDeleted: 0,
+      preferencesUpdated: 0,
+      placementsDeleted: 0,
+      observationsDeleted: 0,
+      ambiguousObservations: [],
+      conflictRulesDeleted: 0,
+      conflictRulesUpdated: 0
+    };
+
+    // Pools (rosters), as they were before the student is removed
+    const memberPools = new Map<string, Pool>();
+    for (const pool of await deps.poolRepo.listAll()) {
+      if (!pool.memberIds.some((id) => ids.has(id))) continue;
+      memberPools.set(pool.id, pool);
+      report.poolsUpdated++;
+      if (dryRun) continue;
+
+      const memberStatuses = pool.memberStatuses
+        ? Object.fromEntries(Object.entries(pool.memberStatuses).filter(([id]) => !ids.has(id)))
+        : undefined;
+      await deps.poolRepo.update({
+        ...pool,
+        memberIds: pool.memberIds.filter((id) => !ids.has(id)),
+        ...(memberStatuses ? { memberStatuses } : {})
+      });
+    }
+
+    // Per-activity data
+    for (const program of await deps.programRepo.listAll()) {
+      for (const scenario of await deps.scenarioRepo.listByProgramId(program.id)) {
+        const involved =
+          scenario.participantSnapshot.some((id) => ids.has(id)) ||
+          scenario.groups.some((g) => g.memberIds.some((id) => ids.has(id))) ||
+          (scenario.lockedStudentIds ?? []).some((id) => ids.has(id));
+        if (!involved) continue;
+        report.scenariosUpdated++;
+        if (dryRun) continue;
+
+        const updated: Scenario = {
+          ...scenario,
+          groups: scenario.groups.map((g) => ({
+            ...g,
+            memberIds: g.memberIds.filter((id) => !ids.has(id))
+          })),
+          participantSnapshot: scenario.participantSnapshot.filter((id) => !ids.has(id)),
+          ...(scenario.lockedStudentIds
+            ? { lockedStudentIds: scenario.lockedStudentIds.filter((id) => !ids.has(id)) }
+            : {})
+        };
+        await deps.scenarioRepo.update(updated);
+      }
+
+      for (const preference of await deps.preferenceRepo.listByProgramId(program.id)) {
+        if (ids.has(preference.studentId)) {
+          report.preferencesDeleted++;
+          if (!dryRun) {
+            await deps.preferenceRepo.deleteForStudent(program.id, preference.studentId);
+          }
+          continue;
+        }
+
+        const payload = extractStudentPreference(preference);
+        if (!payload.avoidStudentIds.some((id) => ids.has(id))) continue;
+        report.preferencesUpdated++;
+        if (dryRun) continue;
+
+        await deps.preferenceRepo.save({
+          ...preference,
+          payload: {
+            ...payload,
+            avoidStudentIds: payload.avoidStudentIds.filter((id) => !ids.has(id))
+          }
+        });
+      }
+
+      // First names alone are only trusted where the student was on the roster
+      // and nobody else active on it goes by the same name
+      const rosters = program.poolIds.flatMap((poolId) => memberPools.get(poolId) ?? []);
+      const classmateIds = rosters.flatMap(getActiveMemberIds).filter((id) => !ids.has(id));
+      const sharedNames = new Set(
+        (await deps.studentRepo.getByIds(classmateIds)).map((s) => s.firstName.trim().toLowerCase())
+      );
+      const ownFirstNames = rosters.length > 0 ? [...firstNames] : [];
+      const mentionsFirstName = nameMatcher(
+        ownFirstNames.filter((name) => !sharedNames.has(name.trim().toLowerCase()))
+      );
+      const mentionsSharedName = nameMatcher(
+        ownFirstNames.filter((name) => sharedNames.has(name.trim().toLowerCase()))
+      );
+
+      const observations: Observation[] = await deps.observationRepo.listByProgramId(program.id);
+      for (const observation of observations) {
+        if (mentionsFullName(observation.content) || mentionsFirstName(observation.content)) {
+          report.observationsDeleted++;
+          if (!dryRun) await deps.observationRepo.delete(observation.id);
+        } else if (mentionsSharedName(observation.content)) {
+          report.ambiguousObservations.push({
+            id: observation.id,
+            programId: program.id,
+            content: observation.content
+          });
+        }
+      }
+    }
+
+    // Conflict rules naming the student; a rule needs two students to mean anything
+    for (const rule of await deps.conflictRuleRepo.listAll()) {
+      if (!rule.studentIds.some((id) => ids.has(id))) continue;
+      const studentIds = rule.studentIds.filter((id) => !ids.has(id));
+      if (studentIds.length < 2) {
+        report.conflictRulesDeleted++;
+        if (!dryRun) await deps.conflictRuleRepo.delete(rule.id);
+      } else {
+        report.conflictRulesUpdated++;
+        if (!dryRun) await deps.conflictRuleRepo.save({ ...rule, studentIds });
+      }
+    }
+
+    // Placement history
+    for (const id of ids) {
+      for (const placement of await deps.placementRepo.listByStudentId(id)) {
+        report.placementsDeleted++;
+        if (!dryRun) await deps.placementRepo.delete(placement.id);
+      }
+    }
+
+    if (!dryRun) {
+      if (identity) await deps.studentIdentityRepo.delete(identity.id);
+      await deps.studentRepo.deleteMany([...ids]);
+    }
+
+    return ok(report);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error while forgetting student';
+    return err({ type: 'INTERNAL_ERROR', message });
+  }
+}
@@ -6,12 +6,18 @@ import type {
   PreferenceRepository,
   IdGenerator,
   Clock,
-  GroupingAlgorithm
+  GroupingAlgorithm,
+  GroupingProgress,
+  ConflictRuleRepository
 } from '$lib/application/ports';
 import type { Result } from '$lib/types/result';
 import { err, ok } from '$lib/types/result';
 import { computeGroupsAnalytics } from '$lib/application/useCases/computeGroupsAnalytics';
 import { getAlgorithmLabel } from '$lib/application/algorithmCatalog';
+import {
+  applyConflictRulesToConfig,
+  collectConflictRulesForProgram
+} from '$lib/application/useCases/listConflictRules';
 
 /**
  * Input for generating a single candidate grouping for a Program.
@@ -21,6 +27,10 @@ export interface GenerateCandidateInput {
   algorithmId: string;
   algorithmConfig?: unknown;
   seed?: number;
+  /** Progress reports from iterative algorithms. */
+  onProgress?: (progress: GroupingProgress) => void;
+  /** Aborting cancels the run with a GENERATION_CANCELLED error. */
+  signal?: AbortSignal;
 }
 
 /**
@@ -44,6 +54,8 @@ export type GenerateCandidateError =
   | { type: 'POOL_NOT_FOUND'; poolId: string }
   | { type: 'POOL_HAS_NO_MEMBERS'; poolId: string }
   | { type: 'GROUPING_ALGORITHM_FAILED'; message: string }
+  | { type: 'GROUPING_TIMED_OUT'; message: string }
+  | { type: 'GENERATION_CANCELLED' }
   | { type: 'INTERNAL_ERROR'; message: string };
 
 function sanitizeAlgorithmConfig(config?: unknown): unknown {
@@ -69,6 +81,8 @@ export async function generateCandidate(
     idGenerator: IdGenerator;
     clock: Clock;
     groupingAlgorithm: GroupingAlgorithm;
+    /** When provided, teacher-defined conflict rules are passed to the algorithm. */
+    conflictRuleRepo?: ConflictRuleRepository;
   },
   input: GenerateCandidateInput
 ): Promise<Result<CandidateGrouping, GenerateCandidateError>> {
@@ -113,17 +127,28 @@ export async function generateCandidate(
   const preferences = await deps.preferenceRepo.listByProgramId(program.id);
   const sanitizedConfig = sanitizeAlgorithmConfig(input.algorithmConfig);
   const seed = input.seed ?? Date.now();
-  const candidateConfig = applySeedToConfig(sanitizedConfig, seed, input.algorithmId);
+  const conflictRules = deps.conflictRuleRepo
+    ? await collectConflictRulesForProgram(deps.conflictRuleRepo, program)
+    : [];
+  const candidateConfig = applyConflictRulesToConfig(
+    applySeedToConfig(sanitizedConfig, seed, input.algorithmId),
+    conflictRules
+  );
 
   const groupingResult = await deps.groupingAlgorithm.generateGroups({
     programId: program.id,
     studentIds: activeStudentIds,
-    algorithmConfig: candidateConfig
+    algorithmConfig: candidateConfig,
+    onProgress: input.onProgress,
+    signal: input.signal
   });
 
+  if (input.signal?.aborted) {
+    return err({ type: 'GENERATION_CANCELLED' });
+  }
   if (!groupingResult.success) {
     return err({
-      type: 'GROUPING_ALGORITHM_FAILED',
+      type: groupingResult.timedOut ? 'GROUPING_TIMED_OUT' : 'GROUPING_ALGORITHM_FAILED',
       message: groupingResult.message
     });
   }
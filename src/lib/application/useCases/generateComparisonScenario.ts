@@ -6,7 +6,8 @@ import type {
   PreferenceRepository,
   IdGenerator,
   Clock,
-  GroupingAlgorithm
+  GroupingAlgorithm,
+  ConflictRuleRepository
 } from '$lib/application/ports';
 import type { Result } from '$lib/types/result';
 import { err, isErr, ok } from '$lib/types/result';
@@ -43,6 +44,7 @@ type GenerateComparisonDeps = {
   idGenerator: IdGenerator;
   clock: Clock;
   groupingAlgorithm: GroupingAlgorithm;
+  conflictRuleRepo?: ConflictRuleRepository;
 };
 
 /**
@@ -104,7 +106,8 @@ export async function generateComparisonScenario(
       preferenceRepo: deps.preferenceRepo,
       idGenerator: deps.idGenerator,
       clock: deps.clock,
-      groupingAlgorithm: deps.groupingAlgorithm
+      groupingAlgorithm: deps.groupingAlgorithm,
+      conflictRuleRepo: deps.conflictRuleRepo
     },
     {
       programId,
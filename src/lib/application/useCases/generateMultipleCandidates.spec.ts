@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { generateMultipleCandidates } from './generateMultipleCandidates';
+import {
+  InMemoryProgramRepository,
+  InMemoryPoolRepository,
+  InMemoryPreferenceRepository
+} from '$lib/infrastructure/repositories/inMemory';
+import type { Program, Pool } from '$lib/domain';
+import type { GroupingAlgorithm } from '$lib/application/ports';
+
+const program: Program = {
+  id: 'program-1',
+  name: 'Test Activity',
+  type: 'CLASS_ACTIVITY',
+  timeSpan: { termLabel: 'Fall 2024' },
+  poolIds: ['pool-1'],
+  primaryPoolId: 'pool-1'
+};
+
+const pool: Pool = {
+  id: 'pool-1',
+  name: 'All Students',
+  type: 'CLASS',
+  status: 'ACTIVE',
+  memberIds: ['s1', 's2', 's3', 's4']
+};
+
+/** Records the algorithm of every call and puts everyone in the first group. */
+function recordingAlgorithm(calls: string[]): GroupingAlgorithm {
+  return {
+    async generateGroups({ studentIds, algorithmConfig }) {
+      const config = algorithmConfig as {
+        algorithm: string;
+        groups: Array<{ id: string; name: string; capacity: number | null }>;
+      };
+      calls.push(config.algorithm);
+      return {
+        success: true as const,
+        groups: config.groups.map((g, i) => ({ ...g, memberIds: i === 0 ? studentIds : [] }))
+      };
+    }
+  };
+}
+
+function deps(calls: string[]) {
+  let nextId = 0;
+  return {
+    programRepo: new InMemoryProgramRepository([program]),
+    poolRepo: new InMemoryPoolRepository([pool]),
+    preferenceRepo: new InMemoryPreferenceRepository(),
+    idGenerator: { generateId: () => `candidate-${++nextId}` },
+    clock: { now: () => new Date('2024-10-05') },
+    groupingAlgorithm: recordingAlgorithm(calls)
+  };
+}
+
+describe('generateMultipleCandidates', () => {
+  it('should cycle through algorithms for empty group shells', async () => {
+    const calls: string[] = [];
+    await generateMultipleCandidates(deps(calls), {
+      programId: 'program-1',
+      algorithmConfig: { groups: [{ id: 'g1', name: 'Group 1', capacity: null, memberIds: [] }] },
+      count: 3
+    });
+
+    expect(new Set(calls).size).toBe(3);
+  });
+
+  it('should only use algorithms that keep pre-placed students', async () => {
+    const calls: string[] = [];
+    await generateMultipleCandidates(deps(calls), {
+      programId: 'program-1',
+      algorithmConfig: {
+        groups: [
+          { id: 'g1', name: 'Group 1', capacity: null, memberIds: ['s1'] },
+          { id: 'g2', name: 'Group 2', capacity: null, memberIds: [] }
+        ]
+      },
+      count: 3
+    });
+
+    expect(calls).toEqual(['balanced', 'balanced', 'balanced']);
+  });
+
+  it('should skip an algorithm that runs out of time', async () => {
+    const calls: string[] = [];
+    const algorithm = recordingAlgorithm(calls);
+    const result = await generateMultipleCandidates(
+      {
+        ...deps(calls),
+        groupingAlgorithm: {
+          async generateGroups(params) {
+            const { algorithm: id } = params.algorithmConfig as { algorithm: string };
+            return id === 'exact'
+              ? { success: false as const, timedOut: true, message: 'Out of time' }
+              : algorithm.generateGroups(params);
+          }
+        }
+      },
+      {
+        programId: 'program-1',
+        algorithmConfig: { groups: [{ id: 'g1', name: 'Group 1', capacity: null }] },
+        count: 3
+      }
+    );
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.value.map((c) => c.algorithmId).sort()).toEqual([
+      'balanced',
+      'first-choice-only'
+    ]);
+  });
+});
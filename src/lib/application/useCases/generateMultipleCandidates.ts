@@ -1,16 +1,33 @@
-import type { Group, ScenarioSatisfaction } from '$lib/domain';
+import type {
+  AttributeBalanceSpec,
+  Group,
+  ScenarioSatisfaction,
+  ScoreBreakdown,
+  ScoringWeights,
+  Student
+} from '$lib/domain';
 import type {
   ProgramRepository,
   PoolRepository,
   PreferenceRepository,
   IdGenerator,
   Clock,
-  GroupingAlgorithm
+  GroupingAlgorithm,
+  GroupingProgress,
+  ConflictRuleRepository,
+  StudentRepository,
+  PlacementRepository
 } from '$lib/application/ports';
 import type { Result } from '$lib/types/result';
 import { err, ok } from '$lib/types/result';
 import { computeGroupsAnalytics } from '$lib/application/useCases/computeGroupsAnalytics';
 import { candidateAlgorithmCatalog } from '$lib/application/algorithmCatalog';
+import {
+  applyConflictRulesToConfig,
+  collectConflictRulesForProgram
+} from '$lib/application/useCases/listConflictRules';
+import { scoreArrangement } from '$lib/algorithms/scoring';
+import { buildRecentGroupmatesMap } from '$lib/algorithms/buildConstraints';
 
 /**
  * Input for generating multiple candidate groupings for a Program.
@@ -19,6 +36,10 @@ export interface GenerateMultipleCandidatesInput {
   programId: string;
   algorithmConfig?: unknown;
   count?: number;
+  /** Called after each candidate, with the best total score so far. */
+  onProgress?: (progress: GroupingProgress) => void;
+  /** Aborting stops generation with a GENERATION_CANCELLED error. */
+  signal?: AbortSignal;
 }
 
 /**
@@ -32,6 +53,23 @@ export interface CandidateGrouping {
   algorithmId: string;
   algorithmLabel: string;
   algorithmConfig: unknown;
+  /** Weighted score used to rank candidates (best first). */
+  scoreBreakdown: ScoreBreakdown;
+  /** Set by exact solvers: whether the arrangement is proven to be the best possible. */
+  provenOptimal?: boolean;
+}
+
+/**
+ * The parts of an algorithm config that feed candidate scoring.
+ */
+interface CandidateScoringConfig {
+  scoringWeights?: ScoringWeights;
+  balanceAttributes?: AttributeBalanceSpec[];
+  avoidRecentGroupmates?: boolean;
+  lookbackSessions?: number;
+  keepTogether?: string[][];
+  avoidPairs?: Array<[string, string]>;
+  groups?: Array<{ memberIds?: string[] }>;
 }
 
 /**
@@ -42,6 +80,8 @@ export type GenerateMultipleCandidatesError =
   | { type: 'POOL_NOT_FOUND'; poolId: string }
   | { type: 'POOL_HAS_NO_MEMBERS'; poolId: string }
   | { type: 'GROUPING_ALGORITHM_FAILED'; message: string }
+  | { type: 'GROUPING_TIMED_OUT'; message: string }
+  | { type: 'GENERATION_CANCELLED' }
   | { type: 'INTERNAL_ERROR'; message: string };
 
 function sanitizeAlgorithmConfig(config?: unknown): unknown {
@@ -58,6 +98,7 @@ function applySeedToConfig(config: unknown, seed: number, algorithmId: string):
 
 /**
  * Generate multiple grouping candidates for a Program without persisting them.
+ * Candidates are scored with the shared weighted objectives and returned best first.
  */
 export async function generateMultipleCandidates(
   deps: {
@@ -67,6 +108,12 @@ export async function generateMultipleCandidates(
     idGenerator: IdGenerator;
     clock: Clock;
     groupingAlgorithm: GroupingAlgorithm;
+    /** When provided, teacher-defined conflict rules are passed to the algorithms. */
+    conflictRuleRepo?: ConflictRuleRepository;
+    /** When provided, attribute balance counts toward candidate ranking. */
+    studentRepo?: StudentRepository;
+    /** When provided, repeat groupmates count toward candidate ranking. */
+    placementRepo?: PlacementRepository;
   },
   input: GenerateMultipleCandidatesInput
 ): Promise<Result<CandidateGrouping[], GenerateMultipleCandidatesError>> {
@@ -101,12 +148,36 @@ export async function generateMultipleCandidates(
   }
 
   const preferences = await deps.preferenceRepo.listByProgramId(program.id);
-  const sanitizedConfig = sanitizeAlgorithmConfig(input.algorithmConfig);
+  const conflictRules = deps.conflictRuleRepo
+    ? await collectConflictRulesForProgram(deps.conflictRuleRepo, program)
+    : [];
+  const sanitizedConfig = applyConflictRulesToConfig(
+    sanitizeAlgorithmConfig(input.algorithmConfig),
+    conflictRules
+  );
+  const scoringConfig = (sanitizedConfig ?? {}) as CandidateScoringConfig;
+  const scoringContext = {
+    preferences,
+    participantIds: pool.memberIds,
+    keepTogether: scoringConfig.keepTogether,
+    avoidPairs: scoringConfig.avoidPairs,
+    balanceAttributes: scoringConfig.balanceAttributes,
+    weights: scoringConfig.scoringWeights,
+    studentsById: await loadStudentsById(deps.studentRepo, pool.memberIds, scoringConfig),
+    recentGroupmates: await loadRecentGroupmates(deps.placementRepo, pool.memberIds, scoringConfig)
+  };
   const desiredCount = Math.max(1, Math.floor(input.count ?? 5));
   const seedBase = Date.now();
-  const algorithms = candidateAlgorithmCatalog;
+  // Locked students arrive pre-placed in the group shells; only some algorithms keep them
+  const hasPrePlaced = scoringConfig.groups?.some((g) => (g.memberIds?.length ?? 0) > 0) ?? false;
+  const algorithms = candidateAlgorithmCatalog.filter(
+    (entry) =>
+      (entry.maxStudents === undefined || pool.memberIds.length <= entry.maxStudents) &&
+      (!hasPrePlaced || entry.keepsPrePlaced)
+  );
 
   const candidates: CandidateGrouping[] = [];
+  let timeoutMessage: string | null = null;
 
   for (let i = 0; i < desiredCount; i++) {
     const seed = seedBase + i * 9973;
@@ -115,9 +186,18 @@ export async function generateMultipleCandidates(
     const groupingResult = await deps.groupingAlgorithm.generateGroups({
       programId: program.id,
       studentIds: pool.memberIds,
-      algorithmConfig: candidateConfig
+      algorithmConfig: candidateConfig,
+      signal: input.signal
     });
 
+    if (input.signal?.aborted) {
+      return err({ type: 'GENERATION_CANCELLED' });
+    }
+    if (!groupingResult.success && groupingResult.timedOut) {
+      // A slow solver running out of time should not cost the other candidates
+      timeoutMessage = groupingResult.message;
+      continue;
+    }
     if (!groupingResult.success) {
       return err({
         type: 'GROUPING_ALGORITHM_FAILED',
@@ -145,9 +225,43 @@ export async function generateMultipleCandidates(
       generatedAt: deps.clock.now(),
       algorithmId: algorithm.id,
       algorithmLabel: algorithm.label,
-      algorithmConfig: candidateConfig
+      algorithmConfig: candidateConfig,
+      scoreBreakdown: scoreArrangement(groups, scoringContext),
+      ...(groupingResult.provenOptimal !== undefined
+        ? { provenOptimal: groupingResult.provenOptimal }
+        : {})
     });
+    input.onProgress?.({
+      iteration: candidates.length,
+      totalIterations: desiredCount,
+      bestScore: Math.max(...candidates.map((c) => c.scoreBreakdown.total))
+    });
+  }
+
+  if (candidates.length === 0 && timeoutMessage) {
+    return err({ type: 'GROUPING_TIMED_OUT', message: timeoutMessage });
   }
 
+  candidates.sort((a, b) => b.scoreBreakdown.total - a.scoreBreakdown.total);
   return ok(candidates);
 }
+
+async function loadStudentsById(
+  studentRepo: StudentRepository | undefined,
+  studentIds: string[],
+  config: CandidateScoringConfig
+): Promise<Record<string, Student> | undefined> {
+  if (!studentRepo || !config.balanceAttributes?.length) return undefined;
+  const students = await studentRepo.getByIds(studentIds);
+  return Object.fromEntries(students.map((s) => [s.id, s]));
+}
+
+async function loadRecentGroupmates(
+  placementRepo: PlacementRepository | undefined,
+  studentIds: string[],
+  config: CandidateScoringConfig
+): Promise<Map<string, Set<string>> | undefined> {
+  if (!placementRepo || !config.avoidRecentGroupmates) return undefined;
+  const placements = await Promise.all(studentIds.map((id) => placementRepo.listByStudentId(id)));
+  return buildRecentGroupmatesMap(placements.flat(), studentIds, config.lookbackSessions ?? 1);
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateScenarioForProgram } from './generateScenario';
+import {
+  InMemoryProgramRepository,
+  InMemoryPoolRepository,
+  InMemoryScenarioRepository,
+  InMemoryStudentRepository
+} from '$lib/infrastructure/repositories/inMemory';
+import type { Program, Pool, Scenario } from '$lib/domain';
+import type { GroupingAlgorithm } from '$lib/application/ports';
+
+const program: Program = {
+  id: 'program-1',
+  name: 'Test Activity',
+  type: 'CLASS_ACTIVITY',
+  timeSpan: { termLabel: 'Fall 2024' },
+  poolIds: ['pool-1'],
+  primaryPoolId: 'pool-1'
+};
+
+const pool: Pool = {
+  id: 'pool-1',
+  name: 'All Students',
+  type: 'CLASS',
+  status: 'ACTIVE',
+  memberIds: ['s1', 's2', 's3', 's4']
+};
+
+const adopted: Scenario = {
+  id: 'scenario-1',
+  programId: 'program-1',
+  name: 'Plan A',
+  status: 'ADOPTED',
+  groups: [{ id: 'g1', name: 'Group 1', memberIds: ['s1', 's2', 's3', 's4'], capacity: null }],
+  participantSnapshot: ['s1', 's2', 's3', 's4'],
+  createdAt: new Date('2024-10-01'),
+  lastModifiedAt: new Date('2024-10-01')
+};
+
+const pairs: GroupingAlgorithm = {
+  async generateGroups({ studentIds }) {
+    return {
+      success: true as const,
+      groups: [
+        { id: 'g-a', name: 'Group A', capacity: null, memberIds: studentIds.slice(0, 2) },
+        { id: 'g-b', name: 'Group B', capacity: null, memberIds: studentIds.slice(2) }
+      ]
+    };
+  }
+};
+
+describe('generateScenarioForProgram', () => {
+  let scenarioRepo: InMemoryScenarioRepository;
+  let nextId: number;
+  const deps = () => ({
+    programRepo: new InMemoryProgramRepository([program]),
+    poolRepo: new InMemoryPoolRepository([pool]),
+    studentRepo: new InMemoryStudentRepository(),
+    scenarioRepo,
+    idGenerator: { generateId: () => `scenario-${++nextId}` },
+    clock: { now: () => new Date('2024-10-05') },
+    groupingAlgorithm: pairs
+  });
+
+  beforeEach(() => {
+    scenarioRepo = new InMemoryScenarioRepository([adopted]);
+    nextId = 1;
+  });
+
+  it('should save a new draft alongside existing scenarios', async () => {
+    const result = await generateScenarioForProgram(deps(), { programId: 'program-1' });
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.value).toMatchObject({ id: 'scenario-2', status: 'DRAFT' });
+    expect(result.value.groups.map((g) => g.memberIds)).toEqual([
+      ['s1', 's2'],
+      ['s3', 's4']
+    ]);
+
+    const stored = await scenarioRepo.listByProgramId('program-1');
+    expect(stored.map((s) => [s.id, s.status])).toEqual([
+      ['scenario-1', 'ADOPTED'],
+      ['scenario-2', 'DRAFT']
+    ]);
+  });
+
+  it('should return PROGRAM_NOT_FOUND for unknown programs', async () => {
+    const result = await generateScenarioForProgram(deps(), { programId: 'missing' });
+
+    expect(result.status === 'err' && result.error.type).toBe('PROGRAM_NOT_FOUND');
+  });
+});
@@ -8,8 +8,14 @@ import type {
   ScenarioRepository,
   IdGenerator,
   Clock,
-  GroupingAlgorithm
+  GroupingAlgorithm,
+  GroupingProgress,
+  ConflictRuleRepository
 } from '$lib/application/ports';
+import {
+  applyConflictRulesToConfig,
+  collectConflictRulesForProgram
+} from '$lib/application/useCases/listConflictRules';
 import type { Result } from '$lib/types/result';
 import { err, ok } from '$lib/types/result';
 
@@ -20,6 +26,10 @@ export interface GenerateScenarioInput {
   programId: string;
   createdByStaffId?: string;
   algorithmConfig?: unknown;
+  /** Progress reports from iterative algorithms. */
+  onProgress?: (progress: GroupingProgress) => void;
+  /** Aborting cancels generation before anything is saved. */
+  signal?: AbortSignal;
 }
 
 /**
@@ -29,19 +39,19 @@ export type GenerateScenarioError =
   | { type: 'PROGRAM_NOT_FOUND'; programId: string }
   | { type: 'POOL_NOT_FOUND'; poolId: string }
   | { type: 'POOL_HAS_NO_MEMBERS'; poolId: string }
-  | { type: 'SCENARIO_ALREADY_EXISTS_FOR_PROGRAM'; programId: string; scenarioId: string }
   | { type: 'GROUPING_ALGORITHM_FAILED'; message: string }
+  | { type: 'GROUPING_TIMED_OUT'; message: string }
+  | { type: 'GENERATION_CANCELLED' }
   | { type: 'DOMAIN_VALIDATION_FAILED'; message: string }
   | { type: 'INTERNAL_ERROR'; message: string };
 
 /**
- * MVP use case: generate a single Scenario for a Program.
+ * Generate a new draft Scenario for a Program.
  *
  * From docs/use_cases.md:
  * - Resolve Pool memberIds and write Scenario.participantSnapshot.
  * - Produce groups via the grouping algorithm.
- * - Persist Scenario.
- * - Enforce single scenario per Program in MVP.
+ * - Persist Scenario alongside any the Program already has.
  */
 export async function generateScenarioForProgram(
   deps: {
@@ -52,6 +62,8 @@ export async function generateScenarioForProgram(
     idGenerator: IdGenerator;
     clock: Clock;
     groupingAlgorithm: GroupingAlgorithm;
+    /** When provided, teacher-defined conflict rules are passed to the algorithm. */
+    conflictRuleRepo?: ConflictRuleRepository;
   },
   input: GenerateScenarioInput
 ): Promise<Result<Scenario, GenerateScenarioError>> {
@@ -72,16 +84,6 @@ export async function generateScenarioForProgram(
     });
   }
 
-  // Enforce single scenario per Program for MVP.
-  const existingScenario = await deps.scenarioRepo.getByProgramId(program.id);
-  if (existingScenario) {
-    return err({
-      type: 'SCENARIO_ALREADY_EXISTS_FOR_PROGRAM',
-      programId: program.id,
-      scenarioId: existingScenario.id
-    });
-  }
-
   const pool = await deps.poolRepo.getById(primaryPoolId);
   if (!pool) {
     return err({
@@ -109,16 +111,25 @@ export async function generateScenarioForProgram(
     ? JSON.parse(JSON.stringify(input.algorithmConfig))
     : undefined;
 
+  const conflictRules = deps.conflictRuleRepo
+    ? await collectConflictRulesForProgram(deps.conflictRuleRepo, program)
+    : [];
+
   // Call grouping algorithm.
   const groupingResult = await deps.groupingAlgorithm.generateGroups({
     programId: program.id,
     studentIds: activeStudentIds,
-    algorithmConfig: sanitizedConfig
+    algorithmConfig: applyConflictRulesToConfig(sanitizedConfig, conflictRules),
+    onProgress: input.onProgress,
+    signal: input.signal
   });
 
+  if (input.signal?.aborted) {
+    return err({ type: 'GENERATION_CANCELLED' });
+  }
   if (!groupingResult.success) {
     return err({
-      type: 'GROUPING_ALGORITHM_FAILED',
+      type: groupingResult.timedOut ? 'GROUPING_TIMED_OUT' : 'GROUPING_ALGORITHM_FAILED',
       message: groupingResult.message
     });
   }
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { importOneRosterClasses } from './importOneRosterClasses';
+import {
+  createInMemoryEnvironment,
+  type InMemoryEnvironment
+} from '$lib/infrastructure/inMemoryEnvironment';
+import type { OneRosterBundle } from '$lib/services/oneRosterImport';
+import { isOk } from '$lib/types/result';
+
+const BUNDLE: OneRosterBundle = {
+  classes: [
+    {
+      sourcedId: 'c1',
+      title: 'Biology - P2',
+      teachers: [
+        { sourcedId: 't2', name: 'Lee Park', primary: false },
+        { sourcedId: 't1', name: 'Dana Kim', primary: true }
+      ],
+      students: [
+        { sourcedId: 'u1', firstName: 'Ana', lastName: 'Lopez', gradeLevel: '9', gender: 'F' },
+        { sourcedId: 'u2', firstName: 'Ben', email: 'ben@school.test' }
+      ]
+    },
+    {
+      sourcedId: 'c2',
+      title: 'Homeroom 9A',
+      teachers: [],
+      students: [{ sourcedId: 'u1', firstName: 'Ana', lastName: 'Lopez' }]
+    },
+    { sourcedId: 'c3', title: 'Empty', teachers: [], students: [] }
+  ],
+  warnings: []
+};
+
+describe('importOneRosterClasses', () => {
+  let env: InMemoryEnvironment;
+
+  beforeEach(() => {
+    env = createInMemoryEnvironment();
+  });
+
+  it('creates a pool per class owned by its primary teacher', async () => {
+    const result = await importOneRosterClasses(env, {
+      bundle: BUNDLE,
+      classIds: ['c1', 'c2'],
+      ownerStaffId: 'owner-1'
+    });
+
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+    const [biology, homeroom] = result.value.classes;
+    expect(biology.pool).toMatchObject({
+      name: 'Biology - P2',
+      type: 'CLASS',
+      primaryStaffOwnerId: 't1'
+    });
+    expect(homeroom.pool.primaryStaffOwnerId).toBe('owner-1');
+    expect(result.value.staff.map((s) => s.id)).toEqual(['t2', 't1']);
+    expect(await env.staffRepo.getById('t1')).toEqual({
+      id: 't1',
+      name: 'Dana Kim',
+      roles: ['TEACHER']
+    });
+
+    const students = await env.studentRepo.getByIds(biology.pool.memberIds);
+    expect(students).toMatchObject([
+      { canonicalId: 'u1', firstName: 'Ana', lastName: 'Lopez', gradeLevel: '9', gender: 'F' },
+      { canonicalId: 'u2', firstName: 'Ben', meta: { email: 'ben@school.test' } }
+    ]);
+  });
+
+  it('links students enrolled in several classes to one identity', async () => {
+    const result = await importOneRosterClasses(env, {
+      bundle: BUNDLE,
+      classIds: ['c1', 'c2'],
+      ownerStaffId: 'owner-1'
+    });
+
+    if (!isOk(result)) throw new Error('import failed');
+    expect(result.value.classes.map((c) => c.linkedStudentCount)).toEqual([0, 1]);
+    const [homeroomStudent] = await env.studentRepo.getByIds(
+      result.value.classes[1].pool.memberIds
+    );
+    expect(homeroomStudent.canonicalId).toBe('u1');
+    expect((await env.studentIdentityRepo.getById('u1'))?.displayName).toBe('Ana Lopez');
+  });
+
+  it('returns the classes already imported when a later class fails', async () => {
+    const result = await importOneRosterClasses(env, {
+      bundle: BUNDLE,
+      classIds: ['c1', 'c2'],
+      ownerStaffId: 'missing-owner'
+    });
+
+    expect(result).toMatchObject({
+      status: 'err',
+      error: { type: 'IMPORT_FAILED', classId: 'c2' }
+    });
+    if (result.status !== 'err' || result.error.type !== 'IMPORT_FAILED') return;
+    expect(result.error.importedClasses.map((c) => c.classId)).toEqual(['c1']);
+    expect((await env.poolRepo.listAll()).map((p) => p.name)).toEqual(['Biology - P2']);
+  });
+
+  it('rejects empty selections and classes without students before writing', async () => {
+    const none = await importOneRosterClasses(env, {
+      bundle: BUNDLE,
+      classIds: [],
+      ownerStaffId: 'owner-1'
+    });
+    const empty = await importOneRosterClasses(env, {
+      bundle: BUNDLE,
+      classIds: ['c1', 'c3'],
+      ownerStaffId: 'owner-1'
+    });
+
+    expect(none).toMatchObject({ status: 'err', error: { type: 'NO_CLASSES_SELECTED' } });
+    expect(empty).toMatchObject({ status: 'err', error: { type: 'EMPTY_CLASS', classId: 'c3' } });
+    expect(await env.poolRepo.listAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Use case: import classes from a parsed OneRoster bundle.
+ *
+ * Creates one Pool per selected class. Students are created through
+ * `createOrLinkStudent` with their OneRoster sourcedId as the identity ID, so
+ * a student enrolled in several classes (or imported again next term) links
+ * to one identity. Teachers become Staff and own their class's pool.
+ *
+ * Classes are written one at a time. If one fails, the classes imported before
+ * it stay saved and are returned with the error, so the caller can report them
+ * and leave them out of a retry.
+ *
+ * @module application/useCases/importOneRosterClasses
+ */
+
+import type { Pool, Staff, Student } from '$lib/domain';
+import type {
+  PoolRepository,
+  StudentRepository,
+  StaffRepository,
+  StudentIdentityRepository,
+  IdGenerator,
+  Clock
+} from '$lib/application/ports';
+import type { RosterData } from '$lib/services/rosterImport';
+import type { OneRosterBundle, OneRosterClass } from '$lib/services/oneRosterImport';
+import { ok, err, isErr, type Result } from '$lib/types/result';
+import { batchCreateOrLinkStudents, type CreateOrLinkStudentInput } from './createOrLinkStudent';
+import { createPoolFromRosterData } from './createPoolFromRosterData';
+
+// =============================================================================
+// Input/Output Types
+// =============================================================================
+
+export interface ImportOneRosterClassesInput {
+  bundle: OneRosterBundle;
+  /** sourcedIds of the classes to import */
+  classIds: string[];
+  /** Owner for classes without a teacher in the bundle */
+  ownerStaffId: string;
+  /** ID of the authenticated user (for multi-tenant data isolation) */
+  userId?: string;
+}
+
+export interface ImportedOneRosterClass {
+  classId: string;
+  pool: Pool;
+  /** Students linked to an identity that already existed */
+  linkedStudentCount: number;
+}
+
+export interface ImportOneRosterClassesResult {
+  classes: ImportedOneRosterClass[];
+  /** Teachers saved as Staff */
+  staff: Staff[];
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+export type ImportOneRosterClassesError =
+  | { type: 'NO_CLASSES_SELECTED'; message: string }
+  | { type: 'CLASS_NOT_FOUND'; classId: string; message: string }
+  | { type: 'EMPTY_CLASS'; classId: string; message: string }
+  | {
+      type: 'IMPORT_FAILED';
+      classId: string;
+      message: string;
+      /** Classes saved before this one failed */
+      importedClasses: ImportedOneRosterClass[];
+    };
+
+// =============================================================================
+// Dependencies
+// =============================================================================
+
+export interface ImportOneRosterClassesDeps {
+  poolRepo: PoolRepository;
+  studentRepo: StudentRepository;
+  staffRepo: StaffRepository;
+  studentIdentityRepo: StudentIdentityRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+}
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export async function importOneRosterClasses(
+  deps: ImportOneRosterClassesDeps,
+  input: ImportOneRosterClassesInput
+): Promise<Result<ImportOneRosterClassesResult, ImportOneRosterClassesError>> {
+  if (input.classIds.length === 0) {
+    return err({ type: 'NO_CLASSES_SELECTED', message: 'Select at least one class to import' });
+  }
+
+  // Validate the whole selection before writing anything; later failures are
+  // storage errors and leave the classes before them imported
+  const selected: OneRosterClass[] = [];
+  for (const classId of input.classIds) {
+    const oneRosterClass = input.bundle.classes.find((c) => c.sourcedId === classId);
+    if (!oneRosterClass) {
+      return err({ type: 'CLASS_NOT_FOUND', classId, message: `Class ${classId} not found` });
+    }
+    if (oneRosterClass.students.length === 0) {
+      return err({
+        type: 'EMPTY_CLASS',
+        classId,
+        message: `"${oneRosterClass.title}" has no enrolled students`
+      });
+    }
+    selected.push(oneRosterClass);
+  }
+
+  const classes: ImportedOneRosterClass[] = [];
+  const staff: Staff[] = [];
+  const importFailed = (classId: string, message: string) =>
+    err<ImportOneRosterClassesError>({
+      type: 'IMPORT_FAILED',
+      classId,
+      message,
+      importedClasses: [...classes]
+    });
+
+  for (const oneRosterClass of selected) {
+    const classId = oneRosterClass.sourcedId;
+
+    try {
+      for (const teacher of oneRosterClass.teachers) {
+        if (staff.some((s) => s.id === teacher.sourcedId)) continue;
+        const existing = await deps.staffRepo.getById(teacher.sourcedId);
+        const roles = existing?.roles ?? [];
+        const saved: Staff = {
+          id: teacher.sourcedId,
+          name: teacher.name,
+          roles: roles.includes('TEACHER') ? roles : [...roles, 'TEACHER']
+        };
+        await deps.staffRepo.save(saved);
+        staff.push(saved);
+      }
+    } catch (e) {
+      return importFailed(classId, e instanceof Error ? e.message : 'Failed to save teachers');
+    }
+
+    const decisions: CreateOrLinkStudentInput[] = [];
+    for (const student of oneRosterClass.students) {
+      const studentData = {
+        firstName: student.firstName,
+        lastName: student.lastName,
+        gradeLevel: student.gradeLevel,
+        gender: student.gender,
+        meta: student.email ? { email: student.email } : undefined
+      };
+      const existing = await deps.studentIdentityRepo.getById(student.sourcedId);
+      decisions.push(
+        existing
+          ? {
+              type: 'LINK_TO_EXISTING',
+              student: studentData,
+              existingIdentityId: student.sourcedId,
+              source: oneRosterClass.title,
+              userId: input.userId
+            }
+          : {
+              type: 'CREATE_NEW',
+              student: studentData,
+              identityId: student.sourcedId,
+              source: oneRosterClass.title,
+              userId: input.userId
+            }
+      );
+    }
+
+    const batch = await batchCreateOrLinkStudents(deps, { decisions });
+    if (isErr(batch)) return batch;
+    if (batch.value.failed.length > 0) {
+      return importFailed(classId, batch.value.failed[0].error.message);
+    }
+
+    const students: Student[] = batch.value.successful.map((s) => s.student);
+    const rosterData: RosterData = {
+      studentsById: Object.fromEntries(students.map((s) => [s.id, s])),
+      preferencesById: {},
+      studentOrder: students.map((s) => s.id),
+      unknownFriendIds: new Set()
+    };
+
+    const teacher = oneRosterClass.teachers.find((t) => t.primary) ?? oneRosterClass.teachers[0];
+    const poolResult = await createPoolFromRosterData(deps, {
+      rosterData,
+      poolName: oneRosterClass.title,
+      poolType: 'CLASS',
+      ownerStaffId: teacher?.sourcedId ?? input.ownerStaffId,
+      source: 'IMPORT',
+      userId: input.userId
+    });
+    if (isErr(poolResult)) {
+      const error = poolResult.error;
+      return importFailed(
+        classId,
+        'message' in error ? error.message : `Staff ${error.staffId} not found`
+      );
+    }
+
+    classes.push({
+      classId,
+      pool: poolResult.value,
+      linkedStudentCount: batch.value.successful.filter((s) => !s.isNewIdentity).length
+    });
+  }
+
+  return ok({ classes, staff });
+}
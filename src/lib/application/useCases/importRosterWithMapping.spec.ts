@@ -209,6 +209,60 @@ describe('importRosterWithMapping', () => {
     }
   });
 
+  it('imports avoid columns, resolving classmates by name', async () => {
+    const data: RawSheetData = {
+      headers: ['First', 'Last', 'Choice 1', 'Avoid Group', 'Avoid Student'],
+      rows: [
+        { rowIndex: 2, cells: ['Alice', 'Smith', 'Art', 'Chess', 'Bob Jones; Zed'] },
+        { rowIndex: 3, cells: ['Bob', 'Jones', '', '', 'alice'] },
+        { rowIndex: 4, cells: ['Bob', 'Lee', '', '', 'Bob'] }
+      ]
+    };
+    const mappings: ColumnMapping[] = [
+      { columnIndex: 0, headerName: 'First', mappedTo: 'firstName' },
+      { columnIndex: 1, headerName: 'Last', mappedTo: 'lastName' },
+      { columnIndex: 2, headerName: 'Choice 1', mappedTo: 'choice1' },
+      { columnIndex: 3, headerName: 'Avoid Group', mappedTo: 'avoidGroup' },
+      { columnIndex: 4, headerName: 'Avoid Student', mappedTo: 'avoidStudent' }
+    ];
+
+    const result = await importRosterWithMapping(
+      {
+        poolRepo: env.poolRepo,
+        studentRepo: env.studentRepo,
+        preferenceRepo: env.preferenceRepo,
+        idGenerator: env.idGenerator
+      },
+      {
+        rawData: data,
+        columnMappings: mappings,
+        poolName: 'Club Fair',
+        poolType: 'CLASS',
+        ownerStaffId: 'owner-1',
+        programId: 'test-program'
+      }
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+    const [alice, bob] = result.value.students;
+    const prefs = await env.preferenceRepo.listByProgramId('test-program');
+    const payloadFor = (id: string) => prefs.find((p) => p.studentId === id)?.payload;
+
+    expect(payloadFor(alice.id)).toEqual({
+      studentId: alice.id,
+      likeGroupIds: ['Art'],
+      avoidGroupIds: ['Chess'],
+      avoidStudentIds: [bob.id]
+    });
+    expect(payloadFor(bob.id)).toMatchObject({ avoidStudentIds: [alice.id] });
+    expect(result.value.preferencesImported).toBe(2);
+    expect(result.value.warnings).toEqual([
+      'Row 2: Unknown student "Zed" in avoid list',
+      'Row 4: "Bob" matches 2 students; add a last name or student ID'
+    ]);
+  });
+
   it('validates group names when validGroupNames is provided', async () => {
     const program = {
       id: 'test-program',
@@ -312,4 +366,92 @@ describe('importRosterWithMapping', () => {
       expect(result.value.pool.userId).toBe('user-123');
     }
   });
+
+  describe('with a student ID column', () => {
+    const idData: RawSheetData = {
+      headers: ['ID', 'First', 'Last', 'Grade', 'Email', 'Home Room'],
+      rows: [{ rowIndex: 2, cells: ['S-1', 'Alice', 'Smith', '7', 'alice@school.org', '12B'] }]
+    };
+    const idMappings: ColumnMapping[] = [
+      { columnIndex: 0, headerName: 'ID', mappedTo: 'studentId' },
+      { columnIndex: 1, headerName: 'First', mappedTo: 'firstName' },
+      { columnIndex: 2, headerName: 'Last', mappedTo: 'lastName' },
+      { columnIndex: 3, headerName: 'Grade', mappedTo: 'gradeLevel' },
+      { columnIndex: 4, headerName: 'Email', mappedTo: 'email' },
+      { columnIndex: 5, headerName: 'Home Room', mappedTo: 'meta', metaKey: 'homeRoom' }
+    ];
+
+    function importClass(rawData: RawSheetData, poolName: string) {
+      return importRosterWithMapping(
+        {
+          poolRepo: env.poolRepo,
+          studentRepo: env.studentRepo,
+          preferenceRepo: env.preferenceRepo,
+          idGenerator: env.idGenerator,
+          studentIdentityRepo: env.studentIdentityRepo,
+          clock: env.clock
+        },
+        {
+          rawData,
+          columnMappings: idMappings,
+          poolName,
+          poolType: 'CLASS',
+          ownerStaffId: 'owner-1'
+        }
+      );
+    }
+
+    it('stores the mapped fields on the student', async () => {
+      const result = await importClass(idData, 'Period 1');
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.students[0]).toMatchObject({
+          canonicalId: 'S-1',
+          gradeLevel: '7',
+          meta: { email: 'alice@school.org', homeRoom: '12B', importRowIndex: 2 }
+        });
+      }
+    });
+
+    it('links re-imported students to the same identity', async () => {
+      await importClass(idData, 'Period 1');
+      const renamed: RawSheetData = {
+        ...idData,
+        rows: [{ rowIndex: 2, cells: ['S-1', 'Ali', 'Smith', '8', '', ''] }]
+      };
+
+      const result = await importClass(renamed, 'Period 1 (spring)');
+
+      expect(isOk(result) && result.value.students[0].canonicalId).toBe('S-1');
+      const identity = await env.studentIdentityRepo.getById('S-1');
+      expect(identity?.gradeLevel).toBe('8');
+      expect(identity?.knownVariants.map((v) => v.firstName)).toEqual(['Alice', 'Ali']);
+    });
+
+    it('rejects custom attributes with a reserved key', async () => {
+      const result = await importRosterWithMapping(
+        {
+          poolRepo: env.poolRepo,
+          studentRepo: env.studentRepo,
+          preferenceRepo: env.preferenceRepo,
+          idGenerator: env.idGenerator
+        },
+        {
+          rawData: idData,
+          columnMappings: idMappings.map((m) =>
+            m.mappedTo === 'meta' ? { ...m, metaKey: 'email' } : m
+          ),
+          poolName: 'Period 1',
+          poolType: 'CLASS',
+          ownerStaffId: 'owner-1'
+        }
+      );
+
+      expect(isErr(result) && result.error).toEqual({
+        type: 'INVALID_META_KEYS',
+        headerNames: ['Home Room']
+      });
+    });
+  });
 });
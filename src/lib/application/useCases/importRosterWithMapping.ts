@@ -3,11 +3,16 @@
  *
  * Takes raw sheet data and column mappings, validates the data,
  * and creates Students and a Pool. Optionally creates StudentPreferences
- * if choice columns are mapped.
+ * if choice or avoid columns are mapped. Avoided classmates are resolved by
+ * name or student ID against the imported roster.
  *
  * This use case is designed for importing from external sources (like Google Sheets)
  * where the column structure is user-defined and needs explicit mapping.
  *
+ * When a student ID column is mapped, each student is linked to the
+ * StudentIdentity with that ID, so re-importing the same class later keeps
+ * their history together even if names are spelled differently.
+ *
  * @module application/useCases/importRosterWithMapping
  */
 
@@ -15,7 +20,9 @@ import type {
   PoolRepository,
   StudentRepository,
   PreferenceRepository,
-  IdGenerator
+  StudentIdentityRepository,
+  IdGenerator,
+  Clock
 } from '$lib/application/ports';
 import type { Pool, PoolType, Student } from '$lib/domain';
 import type { Preference, StudentPreference } from '$lib/domain/preference';
@@ -29,11 +36,19 @@ import {
   hasRequiredMappings,
   getMissingRequiredFields,
   hasDuplicateMappings,
+  getInvalidMetaMappings,
+  isChoiceField,
+  findStudentsByReference,
   validateMappedData,
   generateStudentId
 } from '$lib/domain/import';
 import { createPool } from '$lib/domain/pool';
 import { createStudent } from '$lib/domain/student';
+import {
+  addNameVariant,
+  computeDisplayName,
+  createStudentIdentity
+} from '$lib/domain/studentIdentity';
 import type { Result } from '$lib/types/result';
 import { ok, err } from '$lib/types/result';
 
@@ -86,6 +101,7 @@ export interface ImportRosterWithMappingResult {
 export type ImportRosterWithMappingError =
   | { type: 'MISSING_REQUIRED_MAPPINGS'; missingFields: MappedField[] }
   | { type: 'DUPLICATE_MAPPINGS'; duplicateFields: MappedField[] }
+  | { type: 'INVALID_META_KEYS'; headerNames: string[] }
   | { type: 'NO_VALID_ROWS'; validation: ImportValidationResult }
   | { type: 'VALIDATION_FAILED'; validation: ImportValidationResult }
   | { type: 'INTERNAL_ERROR'; message: string };
@@ -99,6 +115,9 @@ export interface ImportRosterWithMappingDeps {
   studentRepo: StudentRepository;
   preferenceRepo: PreferenceRepository;
   idGenerator: IdGenerator;
+  /** Needed, with clock, to link students by a mapped student ID */
+  studentIdentityRepo?: StudentIdentityRepository;
+  clock?: Clock;
 }
 
 // =============================================================================
@@ -113,7 +132,9 @@ export interface ImportRosterWithMappingDeps {
  * 2. Validates each row of data
  * 3. Creates Student entities
  * 4. Creates a Pool containing those students
- * 5. Optionally creates StudentPreferences if choice columns are mapped and programId is provided
+ * 5. Optionally creates StudentPreferences if choice or avoid columns are mapped and programId
+ *    is provided
+ * 6. Creates or updates StudentIdentities for rows with a student ID
  */
 export async function importRosterWithMapping(
   deps: ImportRosterWithMappingDeps,
@@ -143,6 +164,14 @@ export async function importRosterWithMapping(
     });
   }
 
+  const invalidMetaKeys = getInvalidMetaMappings(input.columnMappings);
+  if (invalidMetaKeys.length > 0) {
+    return err({
+      type: 'INVALID_META_KEYS',
+      headerNames: invalidMetaKeys
+    });
+  }
+
   // -------------------------------------------------------------------------
   // Step 2: Validate data
   // -------------------------------------------------------------------------
@@ -160,6 +189,11 @@ export async function importRosterWithMapping(
   for (const invalidRow of validation.invalidRows) {
     warnings.push(`Row ${invalidRow.rowIndex}: ${invalidRow.errors.join(', ')}`);
   }
+  for (const row of validation.validRows) {
+    for (const warning of row.warnings ?? []) {
+      warnings.push(`Row ${row.rowIndex}: ${warning}`);
+    }
+  }
 
   // -------------------------------------------------------------------------
   // Step 3: Create Students
@@ -168,9 +202,11 @@ export async function importRosterWithMapping(
   const students: Student[] = [];
   const studentIdMap = new Map<number, string>(); // rowIndex -> studentId
 
-  // Check if we have any choice columns mapped
-  const hasChoiceMappings = input.columnMappings.some(
-    (m) => m.mappedTo && m.mappedTo.startsWith('choice')
+  // Check if we have any preference columns mapped
+  const hasPreferenceMappings = input.columnMappings.some(
+    (m) =>
+      m.mappedTo &&
+      (isChoiceField(m.mappedTo) || m.mappedTo === 'avoidGroup' || m.mappedTo === 'avoidStudent')
   );
 
   // Build group name lookup for preference validation (case-insensitive)
@@ -191,9 +227,14 @@ export async function importRosterWithMapping(
     try {
       const student = createStudent({
         id: studentId,
+        canonicalId: row.student.studentId,
         firstName: row.student.firstName,
         lastName: row.student.lastName,
+        gradeLevel: row.student.gradeLevel,
+        gender: row.student.gender,
         meta: {
+          ...row.student.meta,
+          ...(row.student.email ? { email: row.student.email } : {}),
           importRowIndex: row.rowIndex
         }
       });
@@ -254,45 +295,63 @@ export async function importRosterWithMapping(
   }
 
   // -------------------------------------------------------------------------
-  // Step 6: Create Preferences (if choice columns mapped and programId provided)
+  // Step 6: Create Preferences (if preference columns mapped and programId provided)
   // -------------------------------------------------------------------------
 
   let preferencesImported = 0;
 
-  if (hasChoiceMappings && input.programId) {
+  if (hasPreferenceMappings && input.programId) {
     const preferences: Preference[] = [];
 
+    // Validate and map group names if validGroupNames provided
+    const resolveGroups = (rowIndex: number, names: string[]): string[] => {
+      if (!input.validGroupNames || input.validGroupNames.length === 0) {
+        // No validation, use names as-is
+        return names;
+      }
+      const matched: string[] = [];
+      for (const name of names) {
+        const matchedGroup = groupNameMap.get(name.toLowerCase().trim());
+        if (matchedGroup) {
+          matched.push(matchedGroup);
+        } else {
+          warnings.push(`Row ${rowIndex}: Unknown group "${name}"`);
+        }
+      }
+      return matched;
+    };
+
     for (const row of validation.validRows) {
       const studentId = studentIdMap.get(row.rowIndex);
-      if (!studentId || !row.choices || row.choices.length === 0) continue;
-
-      // Validate and map group names if validGroupNames provided
-      let likeGroupIds: string[] = [];
-      if (input.validGroupNames && input.validGroupNames.length > 0) {
-        for (const choice of row.choices) {
-          const normalizedChoice = choice.toLowerCase().trim();
-          const matchedGroup = groupNameMap.get(normalizedChoice);
-          if (matchedGroup) {
-            likeGroupIds.push(matchedGroup);
-          } else {
-            warnings.push(`Row ${row.rowIndex}: Unknown group "${choice}"`);
-          }
+      if (!studentId) continue;
+
+      const likeGroupIds = resolveGroups(row.rowIndex, row.choices ?? []);
+      const avoidGroupIds = resolveGroups(row.rowIndex, row.avoidGroups ?? []);
+
+      const avoidStudentIds: string[] = [];
+      for (const reference of row.avoidStudents ?? []) {
+        const matches = findStudentsByReference(reference, students);
+        if (matches.length === 0) {
+          warnings.push(`Row ${row.rowIndex}: Unknown student "${reference}" in avoid list`);
+        } else if (matches.length > 1) {
+          warnings.push(
+            `Row ${row.rowIndex}: "${reference}" matches ${matches.length} students; add a last name or student ID`
+          );
+        } else if (matches[0].id !== studentId && !avoidStudentIds.includes(matches[0].id)) {
+          avoidStudentIds.push(matches[0].id);
         }
-      } else {
-        // No validation, use choices as-is
-        likeGroupIds = row.choices;
       }
 
-      if (likeGroupIds.length > 0) {
+      if (likeGroupIds.length > 0 || avoidGroupIds.length > 0 || avoidStudentIds.length > 0) {
         const preference: Preference = {
           id: deps.idGenerator.generateId(),
           programId: input.programId,
           studentId: studentId,
           payload: {
             studentId: studentId,
-            avoidStudentIds: [],
-            likeGroupIds: likeGroupIds,
-            avoidGroupIds: []
+            avoidStudentIds,
+            likeGroupIds,
+            avoidGroupIds
           } satisfies StudentPreference
         };
         preferences.push(preference);
@@ -317,6 +376,23 @@ export async function importRosterWithMapping(
     }
   }
 
+  // -------------------------------------------------------------------------
+  // Step 7: Link student identities (if a student ID column is mapped)
+  // -------------------------------------------------------------------------
+
+  const { studentIdentityRepo, clock } = deps;
+  const linked = students.filter((s) => s.canonicalId);
+  if (studentIdentityRepo && clock && linked.length > 0) {
+    try {
+      for (const student of linked) {
+        await linkIdentity(studentIdentityRepo, clock, student, input);
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      warnings.push(`Failed to link some student IDs: ${message}`);
+    }
+  }
+
   // -------------------------------------------------------------------------
   // Return Result
   // -------------------------------------------------------------------------
@@ -329,3 +405,43 @@ export async function importRosterWithMapping(
     students
   });
 }
+
+/**
+ * Create the identity for a student's school ID, or record the imported name
+ * and latest grade/gender on the existing one.
+ */
+async function linkIdentity(
+  repo: StudentIdentityRepository,
+  clock: Clock,
+  student: Student,
+  input: ImportRosterWithMappingInput
+): Promise<void> {
+  if (!student.canonicalId) return;
+  const variant = {
+    firstName: student.firstName,
+    lastName: student.lastName,
+    source: input.poolName
+  };
+
+  const existing = await repo.getById(student.canonicalId);
+  if (!existing) {
+    await repo.save(
+      createStudentIdentity({
+        id: student.canonicalId,
+        displayName: computeDisplayName(student.firstName, student.lastName),
+        knownVariants: [variant],
+        createdAt: clock.now(),
+        userId: input.userId,
+        gradeLevel: student.gradeLevel,
+        gender: student.gender
+      })
+    );
+    return;
+  }
+
+  await repo.update({
+    ...addNameVariant(existing, variant),
+    gradeLevel: student.gradeLevel ?? existing.gradeLevel,
+    gender: student.gender ?? existing.gender
+  });
+}
@@ -40,6 +40,9 @@ export {
   type CandidateGrouping as CandidateGroupingMultiple
 } from './generateMultipleCandidates';
 export * from './createScenarioFromGroups';
+export * from './listScenarios';
+export * from './duplicateScenario';
+export * from './deleteScenario';
 export * from './computeScenarioAnalytics';
 export * from './computeAnalyticsSync';
 export * from './getStudentView';
@@ -61,6 +64,11 @@ export * from './listObservations';
 export * from './getObservationSummary';
 export * from './getObservationTrends';
 
+// Conflict rule operations
+export * from './createConflictRule';
+export * from './listConflictRules';
+export * from './deleteConflictRule';
+
 // Analytics operations
 export * from './getProgramPairingStats';
 export * from './listStudentStats';
@@ -70,6 +78,10 @@ export * from './findMatchingStudents';
 export * from './createOrLinkStudent';
 export * from './getStudentProfile';
 
+// Privacy operations
+export * from './forgetStudent';
+export * from './runRetentionSweep';
+
 // Quick grouping operations
 export * from './quickGenerateGroups';
 
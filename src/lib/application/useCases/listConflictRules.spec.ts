@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyConflictRulesToConfig, listConflictRules } from './listConflictRules';
+import { InMemoryProgramRepository } from '$lib/infrastructure/repositories/inMemory/InMemoryProgramRepository';
+import { InMemoryConflictRuleRepository } from '$lib/infrastructure/repositories/inMemory/InMemoryConflictRuleRepository';
+import { createProgram } from '$lib/domain/program';
+import { createConflictRule } from '$lib/domain/conflictRule';
+
+describe('listConflictRules', () => {
+  let programRepo: InMemoryProgramRepository;
+  let conflictRuleRepo: InMemoryConflictRuleRepository;
+
+  beforeEach(async () => {
+    programRepo = new InMemoryProgramRepository();
+    conflictRuleRepo = new InMemoryConflictRuleRepository([
+      createConflictRule({
+        id: 'rule-pool',
+        kind: 'AVOID',
+        studentIds: ['jordan', 'sam'],
+        poolId: 'pool-1',
+        createdAt: new Date('2024-09-01')
+      }),
+      createConflictRule({
+        id: 'rule-program',
+        kind: 'KEEP_TOGETHER',
+        studentIds: ['ana', 'bea'],
+        programId: 'program-1',
+        createdAt: new Date('2024-09-02')
+      }),
+      createConflictRule({
+        id: 'rule-other-program',
+        kind: 'AVOID',
+        studentIds: ['ana', 'sam'],
+        programId: 'program-2',
+        createdAt: new Date('2024-09-03')
+      })
+    ]);
+
+    await programRepo.save(
+      createProgram({
+        id: 'program-1',
+        name: 'Science Lab',
+        type: 'CLASS_ACTIVITY',
+        timeSpan: { termLabel: 'Fall 2024' },
+        poolIds: ['pool-1']
+      })
+    );
+  });
+
+  it('should return program-scoped and pool-scoped rules, oldest first', async () => {
+    const result = await listConflictRules(
+      { programRepo, conflictRuleRepo },
+      { programId: 'program-1' }
+    );
+
+    expect(result.status).toBe('ok');
+    if (result.status === 'ok') {
+      expect(result.value.map((r) => r.id)).toEqual(['rule-pool', 'rule-program']);
+    }
+  });
+
+  it('should return PROGRAM_NOT_FOUND for unknown programs', async () => {
+    const result = await listConflictRules(
+      { programRepo, conflictRuleRepo },
+      { programId: 'missing' }
+    );
+
+    expect(result.status).toBe('err');
+    if (result.status === 'err') {
+      expect(result.error.type).toBe('PROGRAM_NOT_FOUND');
+    }
+  });
+});
+
+describe('applyConflictRulesToConfig', () => {
+  const rules = [
+    createConflictRule({
+      id: 'r1',
+      kind: 'AVOID',
+      studentIds: ['jordan', 'sam'],
+      programId: 'program-1',
+      createdAt: new Date('2024-09-01')
+    }),
+    createConflictRule({
+      id: 'r2',
+      kind: 'KEEP_TOGETHER',
+      studentIds: ['ana', 'bea'],
+      programId: 'program-1',
+      createdAt: new Date('2024-09-02')
+    })
+  ];
+
+  it('should leave the config untouched when there are no rules', () => {
+    const config = { seed: 1 };
+    expect(applyConflictRulesToConfig(config, [])).toBe(config);
+  });
+
+  it('should add avoid pairs and keep-together sets alongside existing entries', () => {
+    const config = applyConflictRulesToConfig({ seed: 1, keepTogether: [['x', 'y']] }, rules);
+
+    expect(config).toEqual({
+      seed: 1,
+      avoidPairs: [['jordan', 'sam']],
+      keepTogether: [
+        ['x', 'y'],
+        ['ana', 'bea']
+      ]
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import type { ConflictRule, Program } from '$lib/domain';
+import { getConflictRuleAvoidPairs, getConflictRuleKeepTogetherSets } from '$lib/domain';
+import type { ConflictRuleRepository, ProgramRepository } from '$lib/application/ports';
+import type { Result } from '$lib/types/result';
+import { ok, err } from '$lib/types/result';
+
+/**
+ * Input for listing the conflict rules that apply to a program.
+ */
+export interface ListConflictRulesInput {
+  programId: string;
+}
+
+export type ListConflictRulesError = { type: 'PROGRAM_NOT_FOUND'; programId: string };
+
+/**
+ * Collect every rule that applies to a program: rules scoped to the program
+ * itself plus rules scoped to any of its pools. Oldest first.
+ */
+export async function collectConflictRulesForProgram(
+  conflictRuleRepo: ConflictRuleRepository,
+  program: Pick<Program, 'id' | 'poolIds'>
+): Promise<ConflictRule[]> {
+  const [programRules, ...poolRules] = await Promise.all([
+    conflictRuleRepo.listByProgramId(program.id),
+    ...program.poolIds.map((poolId) => conflictRuleRepo.listByPoolId(poolId))
+  ]);
+
+  const rules = [...programRules, ...poolRules.flat()];
+  rules.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  return rules;
+}
+
+/**
+ * Merge conflict rules into an algorithm config as `avoidPairs` / `keepTogether`.
+ * Entries already present on the config are kept.
+ */
+export function applyConflictRulesToConfig(config: unknown, rules: ConflictRule[]): unknown {
+  if (rules.length === 0) return config;
+
+  const base =
+    config && typeof config === 'object' && !Array.isArray(config)
+      ? (config as Record<string, unknown>)
+      : {};
+  const existingAvoidPairs = Array.isArray(base.avoidPairs) ? base.avoidPairs : [];
+  const existingKeepTogether = Array.isArray(base.keepTogether) ? base.keepTogether : [];
+
+  return {
+    ...base,
+    avoidPairs: [...existingAvoidPairs, ...getConflictRuleAvoidPairs(rules)],
+    keepTogether: [...existingKeepTogether, ...getConflictRuleKeepTogetherSets(rules)]
+  };
+}
+
+/**
+ * List all conflict rules that apply to a program (program- and pool-scoped).
+ */
+export async function listConflictRules(
+  deps: {
+    programRepo: ProgramRepository;
+    conflictRuleRepo: ConflictRuleRepository;
+  },
+  input: ListConflictRulesInput
+): Promise<Result<ConflictRule[], ListConflictRulesError>> {
+  const program = await deps.programRepo.getById(input.programId);
+  if (!program) {
+    return err({ type: 'PROGRAM_NOT_FOUND', programId: input.programId });
+  }
+
+  return ok(await collectConflictRulesForProgram(deps.conflictRuleRepo, program));
+}
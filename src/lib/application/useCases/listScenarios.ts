@@ -0,0 +1,31 @@
+import type { Scenario } from '$lib/domain';
+import type { ProgramRepository, ScenarioRepository } from '$lib/application/ports';
+import type { Result } from '$lib/types/result';
+import { ok, err } from '$lib/types/result';
+
+/**
+ * Input for listing the saved scenarios of a program.
+ */
+export interface ListScenariosInput {
+  programId: string;
+}
+
+export type ListScenariosError = { type: 'PROGRAM_NOT_FOUND'; programId: string };
+
+/**
+ * List every scenario saved for a program (e.g. "Plan A", "Plan B"), oldest first.
+ */
+export async function listScenarios(
+  deps: {
+    programRepo: ProgramRepository;
+    scenarioRepo: ScenarioRepository;
+  },
+  input: ListScenariosInput
+): Promise<Result<Scenario[], ListScenariosError>> {
+  const program = await deps.programRepo.getById(input.programId);
+  if (!program) {
+    return err({ type: 'PROGRAM_NOT_FOUND', programId: input.programId });
+  }
+
+  return ok(await deps.scenarioRepo.listByProgramId(program.id));
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { planRotation } from './planRotation';
+import {
+  InMemoryConflictRuleRepository,
+  InMemoryPlacementRepository,
+  InMemoryPoolRepository,
+  InMemoryProgramRepository,
+  InMemoryScenarioRepository,
+  InMemorySessionRepository,
+  InMemoryStudentRepository
+} from '$lib/infrastructure/repositories/inMemory';
+import type { Placement, Pool, Program, Session, Student } from '$lib/domain';
+import { pairKey } from '$lib/algorithms/repeat-pairings';
+
+const studentIds = Array.from({ length: 9 }, (_, i) => `s${i + 1}`);
+const students: Student[] = studentIds.map((id) => ({ id, firstName: id.toUpperCase() }));
+
+const program: Program = {
+  id: 'program-1',
+  name: 'Science Lab',
+  type: 'CLASS_ACTIVITY',
+  timeSpan: { termLabel: 'Fall 2024' },
+  poolIds: ['pool-1'],
+  primaryPoolId: 'pool-1'
+};
+
+const pool: Pool = {
+  id: 'pool-1',
+  name: 'Period 3',
+  type: 'CLASS',
+  memberIds: studentIds,
+  status: 'ACTIVE'
+};
+
+const threeTables = [
+  { id: 'table-a', name: 'Table A', capacity: 3 },
+  { id: 'table-b', name: 'Table B', capacity: 3 },
+  { id: 'table-c', name: 'Table C', capacity: 3 }
+];
+
+describe('planRotation', () => {
+  let scenarioRepo: InMemoryScenarioRepository;
+  let counter: number;
+
+  function deps() {
+    return {
+      programRepo: new InMemoryProgramRepository([program]),
+      poolRepo: new InMemoryPoolRepository([pool]),
+      scenarioRepo,
+      idGenerator: { generateId: () => `id-${++counter}` },
+      clock: { now: () => new Date('2024-10-15T10:00:00Z') }
+    };
+  }
+
+  beforeEach(() => {
+    scenarioRepo = new InMemoryScenarioRepository();
+    counter = 0;
+  });
+
+  it('saves one draft per session sharing the same groups', async () => {
+    const result = await planRotation(deps(), {
+      programId: 'program-1',
+      sessionCount: 4,
+      groups: threeTables,
+      seed: 1
+    });
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    const { scenarios, coverage } = result.value;
+    expect(scenarios.map((s) => s.name)).toEqual([
+      'Rotation 1',
+      'Rotation 2',
+      'Rotation 3',
+      'Rotation 4'
+    ]);
+    for (const scenario of scenarios) {
+      expect(scenario.status).toBe('DRAFT');
+      expect(scenario.groups.map((g) => g.id)).toEqual(['table-a', 'table-b', 'table-c']);
+      expect(scenario.groups.flatMap((g) => g.memberIds).sort()).toEqual([...studentIds].sort());
+    }
+    // 9 students in threes over 4 sessions: everyone can meet everyone exactly once
+    expect(coverage.plannedDistinctPairs).toBe(36);
+    expect(coverage.repeatPairings).toBe(0);
+    expect(await scenarioRepo.listByProgramId('program-1')).toHaveLength(4);
+  });
+
+  it('lists the drafts back in session order', async () => {
+    await planRotation(deps(), {
+      programId: 'program-1',
+      sessionCount: 3,
+      groups: threeTables,
+      seed: 1
+    });
+
+    const stored = await scenarioRepo.listByProgramId('program-1');
+    expect(stored.map((s) => s.name)).toEqual(['Rotation 1', 'Rotation 2', 'Rotation 3']);
+    const times = stored.map((s) => s.createdAt.getTime());
+    expect(times[0]).toBeLessThan(times[1]);
+    expect(times[1]).toBeLessThan(times[2]);
+  });
+
+  it('keeps avoid pairs apart and counts past pairings as already met', async () => {
+    const session: Session = {
+      id: 'session-1',
+      programId: 'program-1',
+      name: 'Week 1',
+      academicYear: '2024-2025',
+      startDate: new Date('2024-10-01'),
+      endDate: new Date('2024-10-01'),
+      status: 'PUBLISHED',
+      createdAt: new Date('2024-10-01')
+    };
+    const placements: Placement[] = ['s1', 's2'].map((studentId) => ({
+      id: `placement-${studentId}`,
+      sessionId: 'session-1',
+      studentId,
+      groupId: 'table-a',
+      groupName: 'Table A',
+      preferenceRank: null,
+      assignedAt: new Date('2024-10-01'),
+      startDate: new Date('2024-10-01'),
+      type: 'INITIAL'
+    }));
+
+    const result = await planRotation(
+      {
+        ...deps(),
+        sessionRepo: new InMemorySessionRepository([session]),
+        placementRepo: new InMemoryPlacementRepository(placements),
+        studentRepo: new InMemoryStudentRepository(students),
+        conflictRuleRepo: new InMemoryConflictRuleRepository([
+          {
+            id: 'rule-1',
+            kind: 'AVOID',
+            studentIds: ['s3', 's4'],
+            programId: 'program-1',
+            createdAt: new Date('2024-09-01')
+          }
+        ])
+      },
+      { programId: 'program-1', sessionCount: 2, groups: threeTables, namePrefix: 'Week', seed: 3 }
+    );
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    const { scenarios, coverage } = result.value;
+    expect(scenarios[0].name).toBe('Week 1');
+    expect(coverage.past[pairKey('s1', 's2')]).toBe(1);
+    expect(coverage.planned[pairKey('s1', 's2')]).toBeUndefined();
+    expect(coverage.planned[pairKey('s3', 's4')]).toBeUndefined();
+  });
+
+  it('gives groups without a capacity an even share of the class', async () => {
+    const result = await planRotation(deps(), {
+      programId: 'program-1',
+      sessionCount: 1,
+      groups: [
+        { name: 'Red', capacity: null },
+        { name: 'Blue', capacity: null }
+      ]
+    });
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    const sizes = result.value.scenarios[0].groups.map((g) => g.memberIds.length);
+    expect(sizes.sort()).toEqual([4, 5]);
+  });
+
+  it('rejects too few seats or an out-of-range session count', async () => {
+    const tooSmall = await planRotation(deps(), {
+      programId: 'program-1',
+      sessionCount: 2,
+      groups: [{ name: 'Only table', capacity: 4 }]
+    });
+    const tooMany = await planRotation(deps(), {
+      programId: 'program-1',
+      sessionCount: 50,
+      groups: threeTables
+    });
+
+    expect(tooSmall.status === 'err' && tooSmall.error.type).toBe('VALIDATION_ERROR');
+    expect(tooMany.status === 'err' && tooMany.error.type).toBe('VALIDATION_ERROR');
+    expect(await scenarioRepo.listByProgramId('program-1')).toHaveLength(0);
+  });
+
+  it('returns PROGRAM_NOT_FOUND for unknown programs', async () => {
+    const result = await planRotation(deps(), {
+      programId: 'missing',
+      sessionCount: 2,
+      groups: threeTables
+    });
+
+    expect(result.status === 'err' && result.error.type).toBe('PROGRAM_NOT_FOUND');
+  });
+});
@@ -0,0 +1,183 @@
+import type { Group, Scenario } from '$lib/domain';
+import { createScenario } from '$lib/domain/scenario';
+import { getActiveMemberIds } from '$lib/domain/pool';
+import { getConflictRuleAvoidPairs } from '$lib/domain';
+import type {
+  ProgramRepository,
+  PoolRepository,
+  ScenarioRepository,
+  SessionRepository,
+  PlacementRepository,
+  StudentRepository,
+  ConflictRuleRepository,
+  IdGenerator,
+  Clock
+} from '$lib/application/ports';
+import type { Result } from '$lib/types/result';
+import { err, ok } from '$lib/types/result';
+import { getProgramPairingStats } from '$lib/application/useCases/getProgramPairingStats';
+import { collectConflictRulesForProgram } from '$lib/application/useCases/listConflictRules';
+import {
+  planRotation as planRotationRounds,
+  type PairCoverage
+} from '$lib/algorithms/rotation-planner';
+
+export type { PairCoverage };
+
+/** Most sessions a single plan may cover. */
+export const MAX_ROTATION_SESSIONS = 20;
+
+/**
+ * Input for planning a series of sessions.
+ */
+export interface PlanRotationInput {
+  programId: string;
+  /** Number of future sessions to plan (1–MAX_ROTATION_SESSIONS). */
+  sessionCount: number;
+  /** Group shells reused in every session. Null capacity = an even share of the class. */
+  groups: Array<{ id?: string; name: string; capacity: number | null; colorIndex?: number }>;
+  /** Scenario names are "<prefix> 1", "<prefix> 2", … (default: "Rotation"). */
+  namePrefix?: string;
+  seed?: number;
+}
+
+/**
+ * A planned series: one draft scenario per session, plus pair coverage.
+ */
+export interface PlanRotationResult {
+  /** Draft scenarios in session order. */
+  scenarios: Scenario[];
+  /** Who works with whom across past sessions and the plan. */
+  coverage: PairCoverage;
+}
+
+export type PlanRotationError =
+  | { type: 'PROGRAM_NOT_FOUND'; programId: string }
+  | { type: 'POOL_NOT_FOUND'; poolId: string }
+  | { type: 'POOL_HAS_NO_MEMBERS'; poolId: string }
+  | { type: 'VALIDATION_ERROR'; message: string }
+  | { type: 'INTERNAL_ERROR'; message: string };
+
+/**
+ * Plan several future sessions at once so students work with as many different
+ * classmates as possible (e.g. eight weeks of lab partners).
+ *
+ * Pairings from published sessions count as meetings already made, and
+ * teacher-defined "keep apart" rules are respected. Each session is saved as a
+ * draft scenario the teacher can review, adjust and show to the class one at a
+ * time; showing one records its placements like any other session. Keep-together
+ * rules are not applied, since they would pin the same students together in
+ * every session.
+ */
+export async function planRotation(
+  deps: {
+    programRepo: ProgramRepository;
+    poolRepo: PoolRepository;
+    scenarioRepo: ScenarioRepository;
+    idGenerator: IdGenerator;
+    clock: Clock;
+    /** With session, placement and student repos, past pairings are taken into account. */
+    sessionRepo?: SessionRepository;
+    placementRepo?: PlacementRepository;
+    studentRepo?: StudentRepository;
+    conflictRuleRepo?: ConflictRuleRepository;
+  },
+  input: PlanRotationInput
+): Promise<Result<PlanRotationResult, PlanRotationError>> {
+  const sessionCount = Math.floor(input.sessionCount);
+  if (!(sessionCount >= 1 && sessionCount <= MAX_ROTATION_SESSIONS)) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      message: `Plan between 1 and ${MAX_ROTATION_SESSIONS} sessions`
+    });
+  }
+  if (input.groups.length === 0) {
+    return err({ type: 'VALIDATION_ERROR', message: 'At least one group is required' });
+  }
+
+  const program = await deps.programRepo.getById(input.programId);
+  if (!program) {
+    return err({ type: 'PROGRAM_NOT_FOUND', programId: input.programId });
+  }
+
+  const primaryPoolId = program.primaryPoolId ?? program.poolIds[0];
+  if (!primaryPoolId) {
+    return err({ type: 'POOL_NOT_FOUND', poolId: '(none configured on Program)' });
+  }
+  const pool = await deps.poolRepo.getById(primaryPoolId);
+  if (!pool) {
+    return err({ type: 'POOL_NOT_FOUND', poolId: primaryPoolId });
+  }
+  const studentIds = getActiveMemberIds(pool);
+  if (studentIds.length === 0) {
+    return err({ type: 'POOL_HAS_NO_MEMBERS', poolId: primaryPoolId });
+  }
+
+  const evenShare = Math.ceil(studentIds.length / input.groups.length);
+  const capacities = input.groups.map((g) => g.capacity ?? evenShare);
+  if (capacities.reduce((sum, c) => sum + c, 0) < studentIds.length) {
+    return err({
+      type: 'VALIDATION_ERROR',
+      message: `The groups have fewer seats than the ${studentIds.length} students`
+    });
+  }
+
+  const pastPairings =
+    deps.sessionRepo && deps.placementRepo && deps.studentRepo
+      ? await getProgramPairingStats(
+          {
+            sessionRepo: deps.sessionRepo,
+            placementRepo: deps.placementRepo,
+            studentRepo: deps.studentRepo
+          },
+          { programId: program.id }
+        ).then((result) => (result.status === 'ok' ? result.value.pairs : []))
+      : [];
+  const avoidPairs = deps.conflictRuleRepo
+    ? getConflictRuleAvoidPairs(
+        await collectConflictRulesForProgram(deps.conflictRuleRepo, program)
+      )
+    : [];
+
+  const plan = planRotationRounds({
+    studentIds,
+    capacities,
+    rounds: sessionCount,
+    pastPairings,
+    avoidPairs,
+    seed: input.seed
+  });
+
+  // Same group shells in every session, so group IDs (and preferences naming them) line up
+  const shells: Group[] = input.groups.map((g) => ({
+    id: g.id ?? deps.idGenerator.generateId(),
+    name: g.name,
+    capacity: g.capacity,
+    memberIds: [],
+    ...(g.colorIndex !== undefined ? { colorIndex: g.colorIndex } : {})
+  }));
+  const prefix = input.namePrefix?.trim() || 'Rotation';
+  const now = deps.clock.now();
+
+  const scenarios: Scenario[] = [];
+  try {
+    for (const [index, round] of plan.rounds.entries()) {
+      const scenario = createScenario({
+        id: deps.idGenerator.generateId(),
+        programId: program.id,
+        name: `${prefix} ${index + 1}`,
+        groups: shells.map((shell, g) => ({ ...shell, memberIds: round[g] })),
+        participantIds: studentIds,
+        // A millisecond apart, so scenarios list in session order
+        createdAt: new Date(now.getTime() + index)
+      });
+      await deps.scenarioRepo.save(scenario);
+      scenarios.push(scenario);
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown persistence error';
+    return err({ type: 'INTERNAL_ERROR', message });
+  }
+
+  return ok({ scenarios, coverage: plan.coverage });
+}
@@ -1,4 +1,4 @@
-import type { Scenario } from '$lib/domain';
+import type { AttributeBalanceSpec, Scenario } from '$lib/domain';
 import type {
   ProgramRepository,
   PoolRepository,
@@ -6,7 +6,9 @@ import type {
   ScenarioRepository,
   IdGenerator,
   Clock,
-  GroupingAlgorithm
+  GroupingAlgorithm,
+  GroupingProgress,
+  ConflictRuleRepository
 } from '$lib/application/ports';
 import type { Result } from '$lib/types/result';
 import { err, isErr } from '$lib/types/result';
@@ -29,8 +31,14 @@ export interface QuickGenerateGroupsInput {
   avoidRecentGroupmates?: boolean;
   /** Number of most recent sessions to consider when avoiding recent groupmates. */
   lookbackSessions?: number;
+  /** Attributes to spread evenly across groups (see BalancedGroupingConfig.balanceAttributes). */
+  balanceAttributes?: AttributeBalanceSpec[];
   /** Explicit group definitions. When provided, groupSize/groupNamePrefix are ignored. */
   groups?: Array<{ name: string; capacity: number | null }>;
+  /** Progress reports from the grouping algorithm. */
+  onProgress?: (progress: GroupingProgress) => void;
+  /** Aborting cancels generation before anything is saved. */
+  signal?: AbortSignal;
 }
 
 /**
@@ -46,6 +54,7 @@ type QuickGenerateGroupsDeps = {
   idGenerator: IdGenerator;
   clock: Clock;
   groupingAlgorithm: GroupingAlgorithm;
+  conflictRuleRepo?: ConflictRuleRepository;
 };
 
 /**
@@ -57,7 +66,7 @@ type QuickGenerateGroupsDeps = {
  * 1. Loads the program's pool to determine student count
  * 2. Computes group count from student count and group size
  * 3. Generates a candidate grouping via the balanced algorithm
- * 4. Persists as a scenario (replacing any existing draft)
+ * 4. Persists as a new draft scenario
  */
 export async function quickGenerateGroups(
   deps: QuickGenerateGroupsDeps,
@@ -111,7 +120,8 @@ export async function quickGenerateGroups(
       preferenceRepo: deps.preferenceRepo,
       idGenerator: deps.idGenerator,
       clock: deps.clock,
-      groupingAlgorithm: deps.groupingAlgorithm
+      groupingAlgorithm: deps.groupingAlgorithm,
+      conflictRuleRepo: deps.conflictRuleRepo
     },
     {
       programId,
@@ -119,9 +129,12 @@ export async function quickGenerateGroups(
       algorithmConfig: {
         groups,
         avoidRecentGroupmates,
-        lookbackSessions: lookbackSessions ?? 3
+        lookbackSessions: lookbackSessions ?? 3,
+        ...(input.balanceAttributes?.length ? { balanceAttributes: input.balanceAttributes } : {})
       },
-      seed: Date.now()
+      seed: Date.now(),
+      onProgress: input.onProgress,
+      signal: input.signal
     }
   );
 
@@ -129,7 +142,7 @@ export async function quickGenerateGroups(
     return candidateResult;
   }
 
-  // Persist as scenario, replacing any existing draft
+  // Persist as a new draft alongside any existing scenarios
   return createScenarioFromGroups(
     {
       programRepo: deps.programRepo,
@@ -140,8 +153,7 @@ export async function quickGenerateGroups(
     },
     {
       programId,
-      groups: candidateResult.value.groups,
-      replaceExisting: true
+      groups: candidateResult.value.groups
     }
   );
 }
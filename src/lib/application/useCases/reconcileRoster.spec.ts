@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyRosterChanges, diffRoster } from './reconcileRoster';
+import {
+  createInMemoryEnvironment,
+  type InMemoryEnvironment
+} from '$lib/infrastructure/inMemoryEnvironment';
+import type { Pool, Student } from '$lib/domain';
+import { isErr, isOk } from '$lib/types/result';
+
+const STUDENTS: Student[] = [
+  { id: 's1', firstName: 'Alexander', lastName: 'Reyes' },
+  { id: 's2', firstName: 'Maya', lastName: 'Chen' },
+  { id: 's3', firstName: 'Jordan', lastName: 'Smith', canonicalId: 'SIS-3' },
+  { id: 's4', firstName: 'Priya', lastName: 'Patel' },
+  { id: 's5', firstName: 'Noor', lastName: 'Haddad' }
+];
+
+const POOL: Pool = {
+  id: 'pool-1',
+  name: 'Period 2',
+  type: 'CLASS',
+  memberIds: STUDENTS.map((s) => s.id),
+  status: 'ACTIVE',
+  memberStatuses: { s5: 'inactive' }
+};
+
+describe('reconcileRoster', () => {
+  let env: InMemoryEnvironment;
+
+  beforeEach(() => {
+    env = createInMemoryEnvironment({ students: STUDENTS, pools: [POOL] });
+  });
+
+  describe('diffRoster', () => {
+    it('sorts the new list into added, removed, renamed and unchanged', async () => {
+      const result = await diffRoster(env, {
+        poolId: 'pool-1',
+        entries: [
+          { firstName: 'Alex', lastName: 'Reyes' },
+          { firstName: 'maya', lastName: 'chen' },
+          { firstName: 'Jordan', lastName: 'Smith-Lee', studentId: 'sis-3' },
+          { firstName: 'Noor', lastName: 'Haddad' },
+          { firstName: 'Sam', lastName: 'Okafor' }
+        ]
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) return;
+      const diff = result.value;
+      expect(diff.added).toEqual([{ firstName: 'Sam', lastName: 'Okafor' }]);
+      expect(diff.removed.map((s) => s.id)).toEqual(['s4']);
+      expect(diff.unchanged.map((s) => s.id)).toEqual(['s5']);
+      expect(diff.reactivated.map((s) => s.id)).toEqual(['s5']);
+      expect(diff.renamed.map((r) => [r.student.id, r.entry.firstName, r.reasons[0]])).toEqual([
+        ['s3', 'Jordan', 'Same student ID'],
+        ['s2', 'maya', 'Exact full name match'],
+        ['s1', 'Alex', 'Nickname match (Alex ↔ alexander)']
+      ]);
+    });
+
+    it('treats weak name matches as different students', async () => {
+      const result = await diffRoster(env, {
+        poolId: 'pool-1',
+        entries: [{ firstName: 'Priyanka', lastName: 'Shah' }]
+      });
+
+      expect(isOk(result) && result.value.added).toHaveLength(1);
+      expect(isOk(result) && result.value.renamed).toEqual([]);
+    });
+
+    it('fails for an unknown pool', async () => {
+      const result = await diffRoster(env, {
+        poolId: 'missing',
+        entries: [{ firstName: 'Ana' }]
+      });
+
+      expect(isErr(result) && result.error.type).toBe('POOL_NOT_FOUND');
+    });
+  });
+
+  describe('applyRosterChanges', () => {
+    it('adds, renames and changes statuses without deleting anyone', async () => {
+      const result = await applyRosterChanges(env, {
+        poolId: 'pool-1',
+        add: [{ firstName: 'Sam', lastName: 'Okafor' }],
+        rename: [{ studentId: 's1', firstName: 'Alex', lastName: 'Reyes' }],
+        deactivate: ['s4'],
+        reactivate: ['s5']
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) return;
+      const [sam] = result.value.addedStudents;
+      const pool = await env.poolRepo.getById('pool-1');
+      expect(pool?.memberIds).toEqual([...POOL.memberIds, sam.id]);
+      expect(pool?.memberStatuses).toEqual({ s4: 'inactive', s5: 'active' });
+      expect((await env.studentRepo.getById('s1'))?.firstName).toBe('Alex');
+      expect(await env.studentRepo.getById('s4')).not.toBeNull();
+    });
+
+    it('rejects students from another roster', async () => {
+      const result = await applyRosterChanges(env, {
+        poolId: 'pool-1',
+        add: [],
+        rename: [],
+        deactivate: ['elsewhere'],
+        reactivate: []
+      });
+
+      expect(isErr(result) && result.error.type).toBe('STUDENT_NOT_IN_POOL');
+      expect((await env.poolRepo.getById('pool-1'))?.memberStatuses).toEqual({ s5: 'inactive' });
+    });
+  });
+});
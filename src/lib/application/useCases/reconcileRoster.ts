@@ -0,0 +1,279 @@
+/**
+ * reconcileRoster use cases.
+ *
+ * Updates an existing roster from a fresh class list instead of creating a
+ * new pool. `diffRoster` compares the list with the pool's members and
+ * proposes changes; after the teacher reviews them, `applyRosterChanges`
+ * adds new students, renames matched ones and marks departed students
+ * inactive via `memberStatuses`. No student is deleted, so placements and
+ * other history stay attached to the same student IDs.
+ *
+ * @module application/useCases/reconcileRoster
+ */
+
+import type { PoolRepository, StudentRepository, IdGenerator } from '$lib/application/ports';
+import type { Pool, Student } from '$lib/domain';
+import { setMemberStatus } from '$lib/domain/pool';
+import { createStudent } from '$lib/domain/student';
+import { computeDisplayName } from '$lib/domain/studentIdentity';
+import {
+  calculateMatchScore,
+  getConfidence,
+  type MatchConfidence
+} from '$lib/application/useCases/findMatchingStudents';
+import type { Result } from '$lib/types/result';
+import { ok, err } from '$lib/types/result';
+
+// =============================================================================
+// Input / Output Types
+// =============================================================================
+
+/** One student from the new class list. */
+export interface RosterEntry {
+  firstName: string;
+  lastName?: string;
+  /** School (SIS) student ID, matched against `Student.canonicalId` */
+  studentId?: string;
+}
+
+export interface DiffRosterInput {
+  poolId: string;
+  entries: RosterEntry[];
+}
+
+/** A pool member matched to an entry whose name differs. */
+export interface RosterRename {
+  student: Student;
+  entry: RosterEntry;
+  score: number;
+  reasons: string[];
+  confidence: MatchConfidence;
+}
+
+export interface RosterDiff {
+  /** Entries with no matching member */
+  added: RosterEntry[];
+  /** Active members missing from the list */
+  removed: Student[];
+  /** Members matched to an entry with a different name */
+  renamed: RosterRename[];
+  /** Members matched to an entry with the same name */
+  unchanged: Student[];
+  /** Inactive members that are back on the list (also in renamed or unchanged) */
+  reactivated: Student[];
+}
+
+export interface ApplyRosterChangesInput {
+  poolId: string;
+  /** New students to create and add */
+  add: RosterEntry[];
+  /** Existing students to rename */
+  rename: Array<{ studentId: string; firstName: string; lastName?: string }>;
+  /** Members to mark inactive */
+  deactivate: string[];
+  /** Members to mark active again */
+  reactivate: string[];
+}
+
+export interface ApplyRosterChangesResult {
+  pool: Pool;
+  addedStudents: Student[];
+  renamedStudents: Student[];
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+export type ReconcileRosterError =
+  | { type: 'POOL_NOT_FOUND'; message: string }
+  | { type: 'EMPTY_ROSTER'; message: string }
+  | { type: 'STUDENT_NOT_IN_POOL'; message: string }
+  | { type: 'PERSISTENCE_ERROR'; message: string };
+
+// =============================================================================
+// Dependencies
+// =============================================================================
+
+export interface DiffRosterDeps {
+  poolRepo: PoolRepository;
+  studentRepo: StudentRepository;
+}
+
+export interface ApplyRosterChangesDeps {
+  poolRepo: PoolRepository;
+  studentRepo: StudentRepository;
+  idGenerator: IdGenerator;
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/** Fuzzy matches below this score are treated as different students. */
+const MIN_RENAME_SCORE = 60;
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function sameName(student: Student, entry: RosterEntry): boolean {
+  return (
+    student.firstName.trim() === entry.firstName.trim() &&
+    (student.lastName ?? '').trim() === (entry.lastName ?? '').trim()
+  );
+}
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+/**
+ * Compare a new class list with a pool's members.
+ *
+ * Entries are matched to members by school student ID, then by full name
+ * (ignoring case), then by fuzzy name score (nicknames, typos) from
+ * `findMatchingStudents`, best pairs first.
+ */
+export async function diffRoster(
+  deps: DiffRosterDeps,
+  input: DiffRosterInput
+): Promise<Result<RosterDiff, ReconcileRosterError>> {
+  if (input.entries.length === 0) {
+    return err({ type: 'EMPTY_ROSTER', message: 'At least one student is required' });
+  }
+
+  try {
+    const pool = await deps.poolRepo.getById(input.poolId);
+    if (!pool) {
+      return err({ type: 'POOL_NOT_FOUND', message: `Pool ${input.poolId} not found` });
+    }
+
+    let members = await deps.studentRepo.getByIds(pool.memberIds);
+    let entries = [...input.entries];
+    const matches: Array<{
+      student: Student;
+      entry: RosterEntry;
+      score: number;
+      reasons: string[];
+    }> = [];
+
+    const take = (student: Student, entry: RosterEntry, score: number, reasons: string[]) => {
+      matches.push({ student, entry, score, reasons });
+      members = members.filter((m) => m !== student);
+      entries = entries.filter((e) => e !== entry);
+    };
+
+    // Pass 1: school student ID
+    for (const entry of [...entries]) {
+      const id = normalize(entry.studentId);
+      const student = id ? members.find((m) => normalize(m.canonicalId) === id) : undefined;
+      if (student) take(student, entry, 100, ['Same student ID']);
+    }
+
+    // Pass 2: full name, ignoring case and spacing
+    for (const entry of [...entries]) {
+      const name = normalize(computeDisplayName(entry.firstName, entry.lastName));
+      const student = members.find(
+        (m) => normalize(computeDisplayName(m.firstName, m.lastName)) === name
+      );
+      if (student) take(student, entry, 100, ['Exact full name match']);
+    }
+
+    // Pass 3: fuzzy names, best-scoring pairs first
+    const candidates = entries.flatMap((entry) =>
+      members.map((student) => ({
+        student,
+        entry,
+        ...calculateMatchScore(entry.firstName, entry.lastName, {
+          displayName: computeDisplayName(student.firstName, student.lastName),
+          knownVariants: []
+        })
+      }))
+    );
+    candidates.sort((a, b) => b.score - a.score);
+    for (const candidate of candidates) {
+      if (candidate.score < MIN_RENAME_SCORE) break;
+      if (!members.includes(candidate.student) || !entries.includes(candidate.entry)) continue;
+      take(candidate.student, candidate.entry, candidate.score, candidate.reasons);
+    }
+
+    const isInactive = (id: string) => pool.memberStatuses?.[id] === 'inactive';
+    return ok({
+      added: entries,
+      removed: members.filter((m) => !isInactive(m.id)),
+      renamed: matches
+        .filter((m) => !sameName(m.student, m.entry))
+        .map((m) => ({ ...m, confidence: getConfidence(m.score) })),
+      unchanged: matches.filter((m) => sameName(m.student, m.entry)).map((m) => m.student),
+      reactivated: matches.filter((m) => isInactive(m.student.id)).map((m) => m.student)
+    });
+  } catch (e) {
+    return err({
+      type: 'PERSISTENCE_ERROR',
+      message: e instanceof Error ? e.message : 'Failed to compare roster'
+    });
+  }
+}
+
+/**
+ * Apply the changes the teacher confirmed after `diffRoster`.
+ */
+export async function applyRosterChanges(
+  deps: ApplyRosterChangesDeps,
+  input: ApplyRosterChangesInput
+): Promise<Result<ApplyRosterChangesResult, ReconcileRosterError>> {
+  try {
+    const pool = await deps.poolRepo.getById(input.poolId);
+    if (!pool) {
+      return err({ type: 'POOL_NOT_FOUND', message: `Pool ${input.poolId} not found` });
+    }
+
+    const touched = [
+      ...input.rename.map((r) => r.studentId),
+      ...input.deactivate,
+      ...input.reactivate
+    ];
+    const outsider = touched.find((id) => !pool.memberIds.includes(id));
+    if (outsider) {
+      return err({
+        type: 'STUDENT_NOT_IN_POOL',
+        message: `Student ${outsider} is not on this roster`
+      });
+    }
+
+    const addedStudents = input.add.map((entry) =>
+      createStudent({
+        id: deps.idGenerator.generateId(),
+        canonicalId: entry.studentId,
+        firstName: entry.firstName,
+        lastName: entry.lastName
+      })
+    );
+
+    const existing = await deps.studentRepo.getByIds(input.rename.map((r) => r.studentId));
+    const renamedStudents = existing.map((student) => {
+      const rename = input.rename.find((r) => r.studentId === student.id);
+      return rename
+        ? { ...student, firstName: rename.firstName.trim(), lastName: rename.lastName?.trim() }
+        : student;
+    });
+
+    await deps.studentRepo.saveMany([...addedStudents, ...renamedStudents]);
+
+    let updated: Pool = {
+      ...pool,
+      memberIds: [...pool.memberIds, ...addedStudents.map((s) => s.id)]
+    };
+    for (const id of input.deactivate) updated = setMemberStatus(updated, id, 'inactive');
+    for (const id of input.reactivate) updated = setMemberStatus(updated, id, 'active');
+    await deps.poolRepo.update(updated);
+
+    return ok({ pool: updated, addedStudents, renamedStudents });
+  } catch (e) {
+    return err({
+      type: 'PERSISTENCE_ERROR',
+      message: e instanceof Error ? e.message : 'Failed to update roster'
+    });
+  }
+}
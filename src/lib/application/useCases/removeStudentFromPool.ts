@@ -4,8 +4,8 @@
  * Removes the student's ID from the pool's memberIds. The student record
  * itself is not deleted (may be used in other pools or for history).
  *
- * If the student is currently assigned to a group in an active scenario,
- * they will also be removed from that group.
+ * If the student is currently assigned to a group in any of the program's
+ * scenarios, they will also be removed from that group.
  */
 
 import type { Pool, Scenario } from '$lib/domain';
@@ -26,9 +26,9 @@ export type RemoveStudentFromPoolError =
 
 export interface RemoveStudentFromPoolResult {
   pool: Pool;
-  /** The scenario that was updated (if student was in a group) */
+  /** The working scenario, if the student was removed from one of its groups */
   updatedScenario?: Scenario;
-  /** True if the student was removed from a group */
+  /** True if the student was removed from a group in the working scenario */
   removedFromGroup: boolean;
 }
 
@@ -62,28 +62,33 @@ export async function removeStudentFromPool(
   let removedFromGroup = false;
 
   if (input.programId) {
-    const scenario = await deps.scenarioRepo.getByProgramId(input.programId);
-    if (scenario) {
+    // A program may hold several draft scenarios; remove the student from all of them
+    const workingScenario = await deps.scenarioRepo.getByProgramId(input.programId);
+    const scenarios = await deps.scenarioRepo.listByProgramId(input.programId);
+    for (const scenario of scenarios) {
       // Check if student is in any group
       const groupWithStudent = scenario.groups.find((g) => g.memberIds.includes(input.studentId));
+      if (!groupWithStudent) continue;
 
-      if (groupWithStudent) {
-        // Remove student from the group
-        updatedScenario = {
-          ...scenario,
-          groups: scenario.groups.map((g) => {
-            if (g.id === groupWithStudent.id) {
-              return {
-                ...g,
-                memberIds: g.memberIds.filter((id) => id !== input.studentId)
-              };
-            }
-            return g;
-          }),
-          // Also update participant snapshot
-          participantSnapshot: scenario.participantSnapshot.filter((id) => id !== input.studentId)
-        };
-        await deps.scenarioRepo.update(updatedScenario);
+      // Remove student from the group
+      const updated: Scenario = {
+        ...scenario,
+        groups: scenario.groups.map((g) => {
+          if (g.id === groupWithStudent.id) {
+            return {
+              ...g,
+              memberIds: g.memberIds.filter((id) => id !== input.studentId)
+            };
+          }
+          return g;
+        }),
+        // Also update participant snapshot
+        participantSnapshot: scenario.participantSnapshot.filter((id) => id !== input.studentId)
+      };
+      await deps.scenarioRepo.update(updated);
+
+      if (scenario.id === workingScenario?.id) {
+        updatedScenario = updated;
         removedFromGroup = true;
       }
     }
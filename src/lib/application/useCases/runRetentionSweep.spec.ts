@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runRetentionSweep } from './runRetentionSweep';
+import {
+  createInMemoryEnvironment,
+  type InMemoryEnvironment
+} from '$lib/infrastructure/inMemoryEnvironment';
+import type { Program, Session } from '$lib/domain';
+
+const NOW = new Date('2025-07-01T00:00:00Z');
+const OLD = new Date('2023-06-01T00:00:00Z');
+const RECENT = new Date('2025-05-01T00:00:00Z');
+
+function program(id: string, poolId: string, end: Date): Program {
+  return {
+    id,
+    name: id,
+    type: 'CLASS_ACTIVITY',
+    timeSpan: { start: new Date(end.getTime() - 90 * 86400000), end },
+    poolIds: [poolId]
+  };
+}
+
+function session(id: string, programId: string, endDate: Date): Session {
+  return {
+    id,
+    programId,
+    name: id,
+    academicYear: '2024-2025',
+    startDate: new Date(endDate.getTime() - 30 * 86400000),
+    endDate,
+    status: 'PUBLISHED',
+    createdAt: new Date(endDate.getTime() - 30 * 86400000)
+  };
+}
+
+function deps(env: InMemoryEnvironment) {
+  return {
+    programRepo: env.programRepo,
+    poolRepo: env.poolRepo,
+    studentRepo: env.studentRepo,
+    studentIdentityRepo: env.studentIdentityRepo,
+    scenarioRepo: env.scenarioRepo,
+    sessionRepo: env.sessionRepo,
+    placementRepo: env.placementRepo,
+    preferenceRepo: env.preferenceRepo,
+    observationRepo: env.observationRepo,
+    conflictRuleRepo: env.conflictRuleRepo,
+    clock: { now: () => NOW }
+  };
+}
+
+describe('runRetentionSweep', () => {
+  let env: InMemoryEnvironment;
+
+  beforeEach(() => {
+    // s2 is on both rosters and must survive deletion of the old one
+    env = createInMemoryEnvironment({
+      students: [
+        { id: 's1', firstName: 'Ana' },
+        { id: 's2', firstName: 'Ben' },
+        { id: 's3', firstName: 'Caro' }
+      ],
+      pools: [
+        { id: 'p-old', name: 'Old', type: 'CLASS', memberIds: ['s1', 's2'], status: 'ACTIVE' },
+        { id: 'p-new', name: 'New', type: 'CLASS', memberIds: ['s2', 's3'], status: 'ACTIVE' }
+      ],
+      programs: [program('old', 'p-old', OLD), program('new', 'p-new', RECENT)],
+      sessions: [
+        session('old-1', 'old', OLD),
+        session('new-1', 'new', new Date('2024-01-15T00:00:00Z')),
+        session('new-2', 'new', RECENT)
+      ],
+      preferences: [
+        {
+          id: 'pref1',
+          programId: 'old',
+          studentId: 's1',
+          payload: { studentId: 's1', avoidStudentIds: [], likeGroupIds: [], avoidGroupIds: [] }
+        }
+      ],
+      observations: [
+        {
+          id: 'o1',
+          programId: 'old',
+          sessionId: 'old-1',
+          groupId: 'g1',
+          groupName: 'Red',
+          content: 'Worked well',
+          createdAt: OLD
+        }
+      ]
+    });
+  });
+
+  it('reports old activities and sessions on a dry run without changing anything', async () => {
+    const result = await runRetentionSweep(deps(env), {
+      maxAgeDays: 365,
+      action: 'delete',
+      dryRun: true
+    });
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.value.programs).toEqual([
+      { programId: 'old', name: 'old', lastActivityAt: OLD, sessionCount: 1 }
+    ]);
+    expect(result.value.sessions.map((s) => s.sessionId)).toEqual(['new-1']);
+    expect(result.value.studentsDeleted).toBe(1);
+    expect(await env.programRepo.getById('old')).not.toBeNull();
+    expect(await env.sessionRepo.getById('new-1')).not.toBeNull();
+  });
+
+  it('archives old sessions and rosters and does not report them again', async () => {
+    await runRetentionSweep(deps(env), { maxAgeDays: 365, action: 'archive' });
+
+    expect((await env.sessionRepo.getById('old-1'))?.status).toBe('ARCHIVED');
+    expect((await env.sessionRepo.getById('new-1'))?.status).toBe('ARCHIVED');
+    expect((await env.sessionRepo.getById('new-2'))?.status).toBe('PUBLISHED');
+    expect((await env.poolRepo.getById('p-old'))?.status).toBe('ARCHIVED');
+    expect((await env.poolRepo.getById('p-new'))?.status).toBe('ACTIVE');
+
+    const again = await runRetentionSweep(deps(env), {
+      maxAgeDays: 365,
+      action: 'archive',
+      dryRun: true
+    });
+    expect(again.status).toBe('ok');
+    if (again.status !== 'ok') return;
+    expect(again.value.programs).toEqual([]);
+    expect(again.value.sessions).toEqual([]);
+  });
+
+  it('deletes old activities with their data and orphaned students', async () => {
+    const result = await runRetentionSweep(deps(env), { maxAgeDays: 365, action: 'delete' });
+    expect(result.status).toBe('ok');
+
+    expect(await env.programRepo.getById('old')).toBeNull();
+    expect(await env.poolRepo.getById('p-old')).toBeNull();
+    expect(await env.sessionRepo.getById('old-1')).toBeNull();
+    expect(await env.sessionRepo.getById('new-1')).toBeNull();
+    expect(await env.preferenceRepo.listByProgramId('old')).toEqual([]);
+    expect(await env.observationRepo.listAll()).toEqual([]);
+
+    expect(await env.programRepo.getById('new')).not.toBeNull();
+    expect(await env.sessionRepo.getById('new-2')).not.toBeNull();
+    const remaining = await env.studentRepo.getByIds(['s1', 's2', 's3']);
+    expect(remaining.map((s) => s.id)).toEqual(['s2', 's3']);
+  });
+
+  it('rejects an age below one day', async () => {
+    const result = await runRetentionSweep(deps(env), { maxAgeDays: 0, action: 'archive' });
+
+    expect(result.status).toBe('err');
+    if (result.status !== 'err') return;
+    expect(result.error.type).toBe('INVALID_AGE');
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * runRetentionSweep use case.
+ *
+ * End-of-year data retention: finds activities (programs) and sessions older
+ * than a configurable age and archives or deletes them.
+ *
+ * - An activity's age is its last activity: the latest of its dated time span,
+ *   session dates, scenario edits and observations. Activities without any
+ *   date are left alone.
+ * - Sessions are aged by their end date, also inside activities that are kept.
+ * - "archive" marks sessions ARCHIVED and, for old activities, their rosters
+ *   (pools) ARCHIVED. "delete" removes old activities with everything that
+ *   belongs to them, including students no other roster uses.
+ *
+ * With `dryRun`, nothing is changed and the report lists what would be.
+ *
+ * @module application/useCases/runRetentionSweep
+ */
+
+import type {
+  Clock,
+  ConflictRuleRepository,
+  ObservationRepository,
+  PlacementRepository,
+  PoolRepository,
+  PreferenceRepository,
+  ProgramRepository,
+  ScenarioRepository,
+  SessionRepository,
+  StudentIdentityRepository,
+  StudentRepository
+} from '$lib/application/ports';
+import type { Pool, Program, Session } from '$lib/domain';
+import { getCanonicalId } from '$lib/domain/student';
+import { ok, err, type Result } from '$lib/types/result';
+
+// =============================================================================
+// Input/Output Types
+// =============================================================================
+
+export type RetentionAction = 'archive' | 'delete';
+
+export interface RunRetentionSweepInput {
+  /** Activities and sessions with no activity for this many days are swept. */
+  maxAgeDays: number;
+  action: RetentionAction;
+  /** Report what would be swept without changing anything. */
+  dryRun?: boolean;
+}
+
+export interface RetentionProgramItem {
+  programId: string;
+  name: string;
+  lastActivityAt: Date;
+  sessionCount: number;
+}
+
+export interface RetentionSessionItem {
+  sessionId: string;
+  programId: string;
+  programName: string;
+  name: string;
+  endDate: Date;
+}
+
+export interface RetentionSweepReport {
+  dryRun: boolean;
+  action: RetentionAction;
+  cutoff: Date;
+  /** Old activities, swept as a whole. */
+  programs: RetentionProgramItem[];
+  /** Old sessions in activities that are kept. */
+  sessions: RetentionSessionItem[];
+  /** Students removed with the deleted rosters (delete only). */
+  studentsDeleted: number;
+}
+
+export type RunRetentionSweepError =
+  | { type: 'INVALID_AGE'; message: string }
+  | { type: 'INTERNAL_ERROR'; message: string };
+
+// =============================================================================
+// Dependencies
+// =============================================================================
+
+export interface RunRetentionSweepDeps {
+  programRepo: ProgramRepository;
+  poolRepo: PoolRepository;
+  studentRepo: StudentRepository;
+  studentIdentityRepo: StudentIdentityRepository;
+  scenarioRepo: ScenarioRepository;
+  sessionRepo: SessionRepository;
+  placementRepo: PlacementRepository;
+  preferenceRepo: PreferenceRepository;
+  observationRepo: ObservationRepository;
+  conflictRuleRepo: ConflictRuleRepository;
+  clock: Clock;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export async function runRetentionSweep(
+  deps: RunRetentionSweepDeps,
+  input: RunRetentionSweepInput
+): Promise<Result<RetentionSweepReport, RunRetentionSweepError>> {
+  if (!Number.isFinite(input.maxAgeDays) || input.maxAgeDays < 1) {
+    return err({ type: 'INVALID_AGE', message: 'Retention age must be at least one day.' });
+  }
+
+  const dryRun = input.dryRun ?? false;
+  const cutoff = new Date(deps.clock.now().getTime() - input.maxAgeDays * DAY_MS);
+
+  try {
+    const report: RetentionSweepReport = {
+      dryRun,
+      action: input.action,
+      cutoff,
+      programs: [],
+      sessions: [],
+      studentsDeleted: 0
+    };
+
+    const pools = await deps.poolRepo.listAll();
+    const stalePrograms: Array<{ program: Program; sessions: Session[]; lastActivityAt: Date }> =
+      [];
+    const keptPrograms: Program[] = [];
+
+    for (const program of await deps.programRepo.listAll()) {
+      const sessions = await deps.sessionRepo.listByProgramId(program.id);
+      const lastActivityAt = await getLastActivity(deps, program, sessions);
+
+      if (!lastActivityAt || lastActivityAt >= cutoff) {
+        keptPrograms.push(program);
+        for (const session of sessions) {
+          if (session.endDate >= cutoff) continue;
+          if (input.action === 'archive' && session.status === 'ARCHIVED') continue;
+          report.sessions.push({
+            sessionId: session.id,
+            programId: program.id,
+            programName: program.name,
+            name: session.name,
+            endDate: session.endDate
+          });
+        }
+        continue;
+      }
+
+      stalePrograms.push({ program, sessions, lastActivityAt });
+    }
+
+    // Rosters only used by swept activities go with them
+    const keptPoolIds = new Set(keptPrograms.flatMap((p) => p.poolIds));
+    const sweptPools = pools.filter(
+      (pool) =>
+        !keptPoolIds.has(pool.id) &&
+        stalePrograms.some(({ program }) => program.poolIds.includes(pool.id))
+    );
+
+    for (const { program, sessions, lastActivityAt } of stalePrograms) {
+      // Already archived activities are not reported again
+      if (input.action === 'archive' && isArchived(program, sessions, sweptPools)) continue;
+      report.programs.push({
+        programId: program.id,
+        name: program.name,
+        lastActivityAt,
+        sessionCount: sessions.length
+      });
+    }
+
+    if (input.action === 'delete') {
+      const keptMemberIds = new Set(
+        pools.filter((p) => !sweptPools.includes(p)).flatMap((p) => p.memberIds)
+      );
+      const orphanedStudentIds = [
+        ...new Set(sweptPools.flatMap((p) => p.memberIds).filter((id) => !keptMemberIds.has(id)))
+      ];
+      report.studentsDeleted = orphanedStudentIds.length;
+
+      if (!dryRun) {
+        for (const item of report.sessions) {
+          await deleteSessionData(deps, item.sessionId);
+        }
+        for (const { program, sessions } of stalePrograms) {
+          await deleteProgramData(deps, program, sessions);
+        }
+        for (const pool of sweptPools) {
+          for (const rule of await deps.conflictRuleRepo.listByPoolId(pool.id)) {
+            await deps.conflictRuleRepo.delete(rule.id);
+          }
+          await deps.poolRepo.delete(pool.id);
+        }
+        await deleteStudents(deps, orphanedStudentIds);
+      }
+    } else if (!dryRun) {
+      const toArchive = [
+        ...stalePrograms.flatMap(({ sessions }) => sessions),
+        ...(await Promise.all(report.sessions.map((s) => deps.sessionRepo.getById(s.sessionId))))
+      ];
+      for (const session of toArchive) {
+        if (session && session.status !== 'ARCHIVED') {
+          await deps.sessionRepo.update({ ...session, status: 'ARCHIVED' });
+        }
+      }
+      for (const pool of sweptPools) {
+        if (pool.status !== 'ARCHIVED') {
+          await deps.poolRepo.update({ ...pool, status: 'ARCHIVED' });
+        }
+      }
+    }
+
+    return ok(report);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error during retention sweep';
+    return err({ type: 'INTERNAL_ERROR', message });
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Latest date anything happened in an activity, or null when nothing is dated.
+ */
+async function getLastActivity(
+  deps: RunRetentionSweepDeps,
+  program: Program,
+  sessions: Session[]
+): Promise<Date | null> {
+  const times: number[] = [];
+  if ('end' in program.timeSpan) {
+    times.push(new Date(program.timeSpan.end).getTime());
+  }
+  for (const session of sessions) {
+    times.push(session.endDate.getTime(), session.createdAt.getTime());
+    if (session.publishedAt) times.push(session.publishedAt.getTime());
+  }
+  for (const scenario of await deps.scenarioRepo.listByProgramId(program.id)) {
+    times.push(scenario.createdAt.getTime(), scenario.lastModifiedAt.getTime());
+  }
+  for (const observation of await deps.observationRepo.listByProgramId(program.id)) {
+    times.push(observation.createdAt.getTime());
+  }
+
+  const valid = times.filter((t) => Number.isFinite(t));
+  return valid.length > 0 ? new Date(Math.max(...valid)) : null;
+}
+
+function isArchived(program: Program, sessions: Session[], sweptPools: Pool[]): boolean {
+  return (
+    sessions.every((s) => s.status === 'ARCHIVED') &&
+    sweptPools.filter((p) => program.poolIds.includes(p.id)).every((p) => p.status === 'ARCHIVED')
+  );
+}
+
+async function deleteSessionData(deps: RunRetentionSweepDeps, sessionId: string): Promise<void> {
+  await deps.placementRepo.deleteBySessionId(sessionId);
+  await deps.observationRepo.deleteBySessionId(sessionId);
+  await deps.sessionRepo.delete(sessionId);
+}
+
+async function deleteProgramData(
+  deps: RunRetentionSweepDeps,
+  program: Program,
+  sessions: Session[]
+): Promise<void> {
+  for (const session of sessions) {
+    await deleteSessionData(deps, session.id);
+  }
+  for (const observation of await deps.observationRepo.listByProgramId(program.id)) {
+    await deps.observationRepo.delete(observation.id);
+  }
+  for (const scenario of await deps.scenarioRepo.listByProgramId(program.id)) {
+    await deps.scenarioRepo.delete(scenario.id);
+  }
+  for (const preference of await deps.preferenceRepo.listByProgramId(program.id)) {
+    await deps.preferenceRepo.deleteForStudent(program.id, preference.studentId);
+  }
+  for (const rule of await deps.conflictRuleRepo.listByProgramId(program.id)) {
+    await deps.conflictRuleRepo.delete(rule.id);
+  }
+  await deps.programRepo.delete(program.id);
+}
+
+/**
+ * Delete students and any identity left without student records.
+ */
+async function deleteStudents(deps: RunRetentionSweepDeps, studentIds: string[]): Promise<void> {
+  if (studentIds.length === 0) return;
+
+  const students = await deps.studentRepo.getByIds(studentIds);
+  const canonicalIds = new Set(students.map(getCanonicalId));
+  for (const id of studentIds) {
+    for (const placement of await deps.placementRepo.listByStudentId(id)) {
+      await deps.placementRepo.delete(placement.id);
+    }
+  }
+  await deps.studentRepo.deleteMany(studentIds);
+
+  for (const canonicalId of canonicalIds) {
+    const remaining = await deps.studentRepo.listByCanonicalId(canonicalId);
+    if (remaining.length > 0) continue;
+    if (await deps.studentIdentityRepo.getById(canonicalId)) {
+      await deps.studentIdentityRepo.delete(canonicalId);
+    }
+  }
+}
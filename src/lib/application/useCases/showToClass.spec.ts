@@ -311,4 +311,23 @@ describe('showToClass', () => {
     const archived = await sessionRepo.getById('archived-session');
     expect(archived?.status).toBe('ARCHIVED');
   });
+
+  it('should adopt the shown scenario and return the previously adopted one to draft', async () => {
+    await scenarioRepo.save({
+      ...testScenario,
+      id: 'scenario-2',
+      name: 'Plan B',
+      status: 'ADOPTED',
+      createdAt: new Date('2024-10-02')
+    });
+
+    await showToClass(deps(), {
+      programId: 'program-1',
+      scenarioId: 'scenario-1'
+    });
+
+    expect((await scenarioRepo.getById('scenario-1'))?.status).toBe('ADOPTED');
+    expect((await scenarioRepo.getById('scenario-2'))?.status).toBe('DRAFT');
+    expect((await scenarioRepo.getByProgramId('program-1'))?.id).toBe('scenario-1');
+  });
 });
@@ -70,6 +70,7 @@ function calculatePreferenceRank(
  * 1. Archives any existing active sessions
  * 2. Creates a PUBLISHED session (no DRAFT step)
  * 3. Creates Placement records for all students
+ * 4. Adopts the scenario shown, returning any previously adopted one to draft
  *
  * Replaces the old createSession() + publishSession() two-step flow.
  */
@@ -183,5 +184,21 @@ export async function showToClass(
     return err({ type: 'INTERNAL_ERROR', message });
   }
 
+  // 8. Adopt the scenario that was shown; other scenarios go back to draft
+  try {
+    const scenarios = await deps.scenarioRepo.listByProgramId(input.programId);
+    for (const other of scenarios) {
+      if (other.id !== scenario.id && other.status === 'ADOPTED') {
+        await deps.scenarioRepo.update({ ...other, status: 'DRAFT' });
+      }
+    }
+    if (scenario.status !== 'ADOPTED') {
+      await deps.scenarioRepo.update({ ...scenario, status: 'ADOPTED' });
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown persistence error';
+    return err({ type: 'INTERNAL_ERROR', message });
+  }
+
   return ok(session);
 }
@@ -3,8 +3,10 @@ export { default as Spinner } from './Spinner.svelte';
 export { default as Alert } from './Alert.svelte';
 export { default as Skeleton } from './Skeleton.svelte';
 export { default as OfflineBanner } from './OfflineBanner.svelte';
+export { default as DataUpgradeBanner } from './DataUpgradeBanner.svelte';
 export { default as HorizontalScrollContainer } from './HorizontalScrollContainer.svelte';
 export { default as ScrollProgressIndicator } from './ScrollProgressIndicator.svelte';
 export { default as InlineError } from './InlineError.svelte';
 export { default as ToastContainer } from './ToastContainer.svelte';
 export { default as OverlaySheet } from './OverlaySheet.svelte';
+export { default as PassphraseDialog } from './PassphraseDialog.svelte';
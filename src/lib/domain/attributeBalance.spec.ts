@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeAttributeDistribution,
+  getStudentAttributeValue,
+  getStudentNumericAttribute,
+  inferAttributeBalanceMode,
+  listBalanceableAttributes
+} from './attributeBalance';
+import type { Student } from './student';
+
+const students: Student[] = [
+  { id: 'a', firstName: 'Ana', gender: 'F', gradeLevel: '5', meta: { readingLevel: 3 } },
+  { id: 'b', firstName: 'Ben', gender: 'M', gradeLevel: '5', meta: { readingLevel: '5' } },
+  { id: 'c', firstName: 'Cy', gender: 'F', gradeLevel: '6', meta: { homeroom: '101' } },
+  { id: 'd', firstName: 'Dee', gender: ' ', gradeLevel: '6' }
+];
+const studentsById = Object.fromEntries(students.map((s) => [s.id, s]));
+
+describe('getStudentAttributeValue', () => {
+  it('should read built-in fields and meta keys', () => {
+    expect(getStudentAttributeValue(students[0], 'gender')).toBe('F');
+    expect(getStudentAttributeValue(students[0], 'gradeLevel')).toBe('5');
+    expect(getStudentAttributeValue(students[0], 'readingLevel')).toBe('3');
+  });
+
+  it('should treat blank and missing values as undefined', () => {
+    expect(getStudentAttributeValue(students[3], 'gender')).toBeUndefined();
+    expect(getStudentAttributeValue(students[3], 'readingLevel')).toBeUndefined();
+  });
+});
+
+describe('getStudentNumericAttribute', () => {
+  it('should parse leading numbers and reject non-numeric values', () => {
+    expect(
+      getStudentNumericAttribute({ id: 'x', firstName: 'X', gradeLevel: '10th' }, 'gradeLevel')
+    ).toBe(10);
+    expect(
+      getStudentNumericAttribute({ id: 'x', firstName: 'X', gradeLevel: 'K' }, 'gradeLevel')
+    ).toBeUndefined();
+  });
+});
+
+describe('listBalanceableAttributes', () => {
+  it('should list built-in fields first, then meta keys alphabetically', () => {
+    expect(listBalanceableAttributes(students)).toEqual([
+      'gender',
+      'gradeLevel',
+      'homeroom',
+      'readingLevel'
+    ]);
+  });
+
+  it('should skip attributes no student has a value for', () => {
+    expect(listBalanceableAttributes([{ id: 'x', firstName: 'X' }])).toEqual([]);
+  });
+});
+
+describe('inferAttributeBalanceMode', () => {
+  it('should pick numeric only when every value is a number', () => {
+    expect(inferAttributeBalanceMode(students, 'readingLevel')).toBe('numeric');
+    expect(inferAttributeBalanceMode(students, 'gradeLevel')).toBe('numeric');
+    expect(inferAttributeBalanceMode(students, 'gender')).toBe('categorical');
+  });
+});
+
+describe('computeAttributeDistribution', () => {
+  const groups = [
+    { id: 'g1', name: 'Group 1', memberIds: ['a', 'c'] },
+    { id: 'g2', name: 'Group 2', memberIds: ['b', 'd'] }
+  ];
+
+  it('should count categorical values per group and report the worst deviation', () => {
+    const distribution = computeAttributeDistribution({
+      groups,
+      studentsById,
+      spec: { attribute: 'gender', mode: 'categorical' }
+    });
+
+    expect(distribution.values).toEqual(['F', 'M']);
+    expect(distribution.groups[0].counts).toEqual({ F: 2 });
+    expect(distribution.groups[1].counts).toEqual({ M: 1 });
+    expect(distribution.groups[1].missing).toBe(1);
+    // Group 1 has 2 of 2 girls but its share is 2 × 2/3
+    expect(distribution.imbalance).toBeCloseTo(2 / 3);
+  });
+
+  it('should compute numeric group means and the spread between them', () => {
+    const distribution = computeAttributeDistribution({
+      groups,
+      studentsById,
+      spec: { attribute: 'gradeLevel', mode: 'numeric' }
+    });
+
+    expect(distribution.overallMean).toBe(5.5);
+    expect(distribution.groups.map((g) => g.mean)).toEqual([5.5, 5.5]);
+    expect(distribution.imbalance).toBe(0);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Attribute balancing for groups.
+ *
+ * Describes which student attribute (gender, grade level, or a custom meta
+ * field from roster import) groups should be balanced on, and measures how
+ * evenly an arrangement spreads that attribute across groups.
+ *
+ * @module domain/attributeBalance
+ */
+
+import type { Group } from './group';
+import type { Student } from './student';
+
+/**
+ * How an attribute is balanced:
+ * - `categorical`: spread each value (e.g. "F", "M", "X") proportionally across groups
+ * - `numeric`: keep each group's mean close to the class mean (e.g. reading level)
+ */
+export type AttributeBalanceMode = 'categorical' | 'numeric';
+
+/**
+ * A "balance by attribute" objective.
+ */
+export interface AttributeBalanceSpec {
+  /**
+   * Attribute to balance: `gender`, `gradeLevel`, or a key in `Student.meta`.
+   */
+  attribute: string;
+
+  mode: AttributeBalanceMode;
+
+  /**
+   * Relative importance when balancing several attributes at once. Default: 1.
+   */
+  weight?: number;
+}
+
+/**
+ * Per-group breakdown of one attribute.
+ */
+export interface GroupAttributeDistribution {
+  groupId: string;
+  groupName: string;
+  /** Member count per value (categorical mode only). */
+  counts: Record<string, number>;
+  /** Mean of numeric values (numeric mode only; undefined when no member has a value). */
+  mean?: number;
+  /** Members with no usable value for this attribute. */
+  missing: number;
+}
+
+/**
+ * How one attribute is spread across all groups.
+ */
+export interface AttributeDistribution {
+  attribute: string;
+  mode: AttributeBalanceMode;
+  /** Distinct values in display order (categorical mode only). */
+  values: string[];
+  /** Class-wide mean (numeric mode only). */
+  overallMean?: number;
+  groups: GroupAttributeDistribution[];
+  /**
+   * Largest deviation from a perfectly even spread.
+   * Categorical: the most any group is over or under its proportional share of a value (in students).
+   * Numeric: the difference between the highest and lowest group means.
+   */
+  imbalance: number;
+}
+
+const BUILT_IN_ATTRIBUTES = ['gender', 'gradeLevel'];
+
+/**
+ * Read an attribute value from a student as a trimmed string.
+ * Returns undefined for missing, empty, or non-primitive values.
+ */
+export function getStudentAttributeValue(student: Student, attribute: string): string | undefined {
+  const raw =
+    attribute === 'gender'
+      ? student.gender
+      : attribute === 'gradeLevel'
+        ? student.gradeLevel
+        : student.meta?.[attribute];
+
+  if (typeof raw === 'number' && Number.isFinite(raw)) return String(raw);
+  if (typeof raw === 'boolean') return String(raw);
+  if (typeof raw !== 'string') return undefined;
+
+  const value = raw.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Read an attribute value from a student as a number.
+ * Leading numbers are accepted ("10th" → 10); values such as "K" return undefined.
+ */
+export function getStudentNumericAttribute(
+  student: Student,
+  attribute: string
+): number | undefined {
+  const value = getStudentAttributeValue(student, attribute);
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * List the attributes that at least one student has a value for.
+ * Built-in fields come first, followed by meta keys in alphabetical order.
+ */
+export function listBalanceableAttributes(students: Student[]): string[] {
+  const metaKeys = new Set<string>();
+  for (const student of students) {
+    for (const key of Object.keys(student.meta ?? {})) {
+      metaKeys.add(key);
+    }
+  }
+
+  return [...BUILT_IN_ATTRIBUTES, ...[...metaKeys].sort()].filter((attribute) =>
+    students.some((student) => getStudentAttributeValue(student, attribute) !== undefined)
+  );
+}
+
+/**
+ * Suggest a balance mode for an attribute: numeric when every present value
+ * parses as a number, categorical otherwise. Gender is always categorical.
+ */
+export function inferAttributeBalanceMode(
+  students: Student[],
+  attribute: string
+): AttributeBalanceMode {
+  if (attribute === 'gender') return 'categorical';
+
+  const values = students
+    .map((student) => getStudentAttributeValue(student, attribute))
+    .filter((value): value is string => value !== undefined);
+
+  if (values.length === 0) return 'categorical';
+  return values.every((value) => Number.isFinite(Number(value))) ? 'numeric' : 'categorical';
+}
+
+/**
+ * Human-readable label for an attribute key.
+ */
+export function formatAttributeLabel(attribute: string): string {
+  if (attribute === 'gender') return 'Gender';
+  if (attribute === 'gradeLevel') return 'Grade level';
+  return attribute;
+}
+
+/**
+ * Compute how an attribute is distributed across groups.
+ */
+export function computeAttributeDistribution(params: {
+  groups: Pick<Group, 'id' | 'name' | 'memberIds'>[];
+  studentsById: Record<string, Student>;
+  spec: AttributeBalanceSpec;
+}): AttributeDistribution {
+  const { groups, studentsById, spec } = params;
+  const { attribute, mode } = spec;
+
+  if (mode === 'numeric') {
+    let total = 0;
+    let count = 0;
+    const groupStats = groups.map((group) => {
+      let sum = 0;
+      let n = 0;
+      let missing = 0;
+      for (const id of group.memberIds) {
+        const student = studentsById[id];
+        const value = student ? getStudentNumericAttribute(student, attribute) : undefined;
+        if (value === undefined) {
+          missing++;
+        } else {
+          sum += value;
+          n++;
+        }
+      }
+      total += sum;
+      count += n;
+      return {
+        groupId: group.id,
+        groupName: group.name,
+        counts: {},
+        mean: n > 0 ? sum / n : undefined,
+        missing
+      };
+    });
+
+    const means = groupStats.map((g) => g.mean).filter((m): m is number => m !== undefined);
+    return {
+      attribute,
+      mode,
+      values: [],
+      overallMean: count > 0 ? total / count : undefined,
+      groups: groupStats,
+      imbalance: means.length > 1 ? Math.max(...means) - Math.min(...means) : 0
+    };
+  }
+
+  const overallCounts: Record<string, number> = {};
+  let totalWithValue = 0;
+  const groupStats = groups.map((group) => {
+    const counts: Record<string, number> = {};
+    let missing = 0;
+    for (const id of group.memberIds) {
+      const student = studentsById[id];
+      const value = student ? getStudentAttributeValue(student, attribute) : undefined;
+      if (value === undefined) {
+        missing++;
+        continue;
+      }
+      counts[value] = (counts[value] ?? 0) + 1;
+      overallCounts[value] = (overallCounts[value] ?? 0) + 1;
+      totalWithValue++;
+    }
+    return { groupId: group.id, groupName: group.name, counts, missing };
+  });
+
+  const values = Object.keys(overallCounts).sort(
+    (a, b) => overallCounts[b] - overallCounts[a] || a.localeCompare(b)
+  );
+
+  let imbalance = 0;
+  for (const group of groupStats) {
+    const withValue = Object.values(group.counts).reduce((sum, n) => sum + n, 0);
+    for (const value of values) {
+      const expected = (withValue * overallCounts[value]) / totalWithValue;
+      imbalance = Math.max(imbalance, Math.abs((group.counts[value] ?? 0) - expected));
+    }
+  }
+
+  return { attribute, mode, values, groups: groupStats, imbalance };
+}
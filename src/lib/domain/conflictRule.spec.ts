@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createConflictRule,
+  getConflictRuleAvoidPairs,
+  getConflictRuleKeepTogetherSets
+} from './conflictRule';
+import type { ConflictRule, CreateConflictRuleParams } from './conflictRule';
+
+function validParams(overrides?: Partial<CreateConflictRuleParams>): CreateConflictRuleParams {
+  return {
+    id: 'rule-1',
+    kind: 'AVOID',
+    studentIds: ['jordan', 'sam'],
+    programId: 'program-1',
+    createdAt: new Date('2024-09-15'),
+    ...overrides
+  };
+}
+
+describe('createConflictRule', () => {
+  it('should create a valid program-scoped rule', () => {
+    const rule = createConflictRule(validParams({ note: '  Distract each other  ' }));
+
+    expect(rule.id).toBe('rule-1');
+    expect(rule.kind).toBe('AVOID');
+    expect(rule.studentIds).toEqual(['jordan', 'sam']);
+    expect(rule.programId).toBe('program-1');
+    expect(rule.poolId).toBeUndefined();
+    expect(rule.note).toBe('Distract each other');
+  });
+
+  it('should create a pool-scoped rule', () => {
+    const rule = createConflictRule(validParams({ programId: undefined, poolId: 'pool-1' }));
+
+    expect(rule.poolId).toBe('pool-1');
+    expect(rule.programId).toBeUndefined();
+  });
+
+  it('should throw when no scope is given', () => {
+    expect(() => createConflictRule(validParams({ programId: undefined }))).toThrow(
+      'Conflict rule requires a programId or poolId'
+    );
+  });
+
+  it('should throw when both scopes are given', () => {
+    expect(() => createConflictRule(validParams({ poolId: 'pool-1' }))).toThrow(
+      'Conflict rule cannot be scoped to both a program and a pool'
+    );
+  });
+
+  it('should throw for fewer than two distinct students', () => {
+    expect(() => createConflictRule(validParams({ studentIds: ['jordan', 'jordan'] }))).toThrow(
+      'Conflict rule requires at least two different students'
+    );
+  });
+
+  it('should drop blank notes', () => {
+    expect(createConflictRule(validParams({ note: '   ' })).note).toBeUndefined();
+  });
+});
+
+describe('conflict rule constraint helpers', () => {
+  const rules: ConflictRule[] = [
+    createConflictRule(validParams({ id: 'r1', studentIds: ['a', 'b', 'c'] })),
+    createConflictRule(validParams({ id: 'r2', studentIds: ['b', 'a'] })),
+    createConflictRule(validParams({ id: 'r3', kind: 'KEEP_TOGETHER', studentIds: ['d', 'e'] }))
+  ];
+
+  it('expands AVOID rules into unique pairs', () => {
+    expect(getConflictRuleAvoidPairs(rules)).toEqual([
+      ['a', 'b'],
+      ['a', 'c'],
+      ['b', 'c']
+    ]);
+  });
+
+  it('collects KEEP_TOGETHER sets', () => {
+    expect(getConflictRuleKeepTogetherSets(rules)).toEqual([['d', 'e']]);
+  });
+});
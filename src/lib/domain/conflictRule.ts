@@ -0,0 +1,119 @@
+/**
+ * ConflictRule entity - a teacher-defined grouping rule between students.
+ *
+ * Conflict rules let a teacher record "never put Jordan and Sam together"
+ * (or "always keep Ana with her translator buddy") directly, instead of
+ * faking a student preference. Rules are scoped either to a single Program
+ * or to a Pool, so pool-scoped rules carry across every activity that uses
+ * the same roster.
+ *
+ * @module domain/conflictRule
+ */
+
+/**
+ * What a rule asks of the grouping algorithm.
+ * - AVOID: no two listed students may share a group
+ * - KEEP_TOGETHER: all listed students must share a group
+ */
+export type ConflictRuleKind = 'AVOID' | 'KEEP_TOGETHER';
+
+/**
+ * A teacher-defined rule about which students may (not) share a group.
+ *
+ * Exactly one of programId or poolId is set.
+ */
+export interface ConflictRule {
+  id: string;
+  kind: ConflictRuleKind;
+  /** Students the rule applies to (at least two, no duplicates). */
+  studentIds: string[];
+  /** Set when the rule only applies to one Program (activity). */
+  programId?: string;
+  /** Set when the rule applies to every Program that uses this Pool (roster). */
+  poolId?: string;
+  /** Optional teacher note explaining the rule. */
+  note?: string;
+  /** When the rule was created. */
+  createdAt: Date;
+  /** User ID for multi-tenant data isolation. */
+  userId?: string;
+}
+
+export interface CreateConflictRuleParams {
+  id: string;
+  kind: ConflictRuleKind;
+  studentIds: string[];
+  programId?: string;
+  poolId?: string;
+  note?: string;
+  createdAt: Date;
+  userId?: string;
+}
+
+/**
+ * Factory function to create a ConflictRule with validation.
+ *
+ * @throws {Error} If the scope or student list is invalid
+ */
+export function createConflictRule(params: CreateConflictRuleParams): ConflictRule {
+  if (params.kind !== 'AVOID' && params.kind !== 'KEEP_TOGETHER') {
+    throw new Error(`Unknown conflict rule kind: ${params.kind}`);
+  }
+
+  if (!params.programId && !params.poolId) {
+    throw new Error('Conflict rule requires a programId or poolId');
+  }
+
+  if (params.programId && params.poolId) {
+    throw new Error('Conflict rule cannot be scoped to both a program and a pool');
+  }
+
+  const studentIds = Array.from(new Set(params.studentIds.filter((id) => id.trim().length > 0)));
+  if (studentIds.length < 2) {
+    throw new Error('Conflict rule requires at least two different students');
+  }
+
+  const note = params.note?.trim();
+
+  return {
+    id: params.id,
+    kind: params.kind,
+    studentIds,
+    programId: params.programId,
+    poolId: params.poolId,
+    note: note || undefined,
+    createdAt: params.createdAt,
+    userId: params.userId
+  };
+}
+
+/**
+ * Expand AVOID rules into symmetric student pairs.
+ * A rule listing three students produces all three pairs.
+ */
+export function getConflictRuleAvoidPairs(rules: ConflictRule[]): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    if (rule.kind !== 'AVOID') continue;
+    for (let i = 0; i < rule.studentIds.length; i++) {
+      for (let j = i + 1; j < rule.studentIds.length; j++) {
+        const [a, b] = [rule.studentIds[i], rule.studentIds[j]].sort();
+        const key = `${a}:${b}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pairs.push([a, b]);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Collect the student sets from KEEP_TOGETHER rules.
+ */
+export function getConflictRuleKeepTogetherSets(rules: ConflictRule[]): string[][] {
+  return rules.filter((rule) => rule.kind === 'KEEP_TOGETHER').map((rule) => [...rule.studentIds]);
+}
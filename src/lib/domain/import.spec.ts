@@ -3,6 +3,10 @@ import {
   hasRequiredMappings,
   getMissingRequiredFields,
   hasDuplicateMappings,
+  getInvalidMetaMappings,
+  defaultMetaKey,
+  findStudentsByReference,
+  splitListCell,
   validateMappedData,
   isChoiceField,
   getChoiceRank,
@@ -112,6 +116,62 @@ describe('hasDuplicateMappings', () => {
 
     expect(hasDuplicateMappings(mappings)).toEqual([]);
   });
+
+  it('allows several custom attribute columns', () => {
+    const mappings: ColumnMapping[] = [
+      { columnIndex: 0, headerName: 'A', mappedTo: 'meta', metaKey: 'a' },
+      { columnIndex: 1, headerName: 'B', mappedTo: 'meta', metaKey: 'b' }
+    ];
+
+    expect(hasDuplicateMappings(mappings)).toEqual([]);
+  });
+});
+
+describe('findStudentsByReference', () => {
+  const roster = [
+    { id: 's1', firstName: 'Ana', lastName: 'Lopez', canonicalId: 'SIS-1' },
+    { id: 's2', firstName: 'Ana', lastName: 'Kim' },
+    { id: 's3', firstName: 'Ben' }
+  ];
+
+  it('matches by ID, school ID, full name, then first name', () => {
+    expect(findStudentsByReference('S2', roster).map((s) => s.id)).toEqual(['s2']);
+    expect(findStudentsByReference('sis-1', roster).map((s) => s.id)).toEqual(['s1']);
+    expect(findStudentsByReference(' ana  lopez ', roster).map((s) => s.id)).toEqual(['s1']);
+    expect(findStudentsByReference('ben', roster).map((s) => s.id)).toEqual(['s3']);
+  });
+
+  it('returns every candidate for an ambiguous or unknown name', () => {
+    expect(findStudentsByReference('Ana', roster)).toHaveLength(2);
+    expect(findStudentsByReference('Cai', roster)).toEqual([]);
+  });
+});
+
+describe('splitListCell', () => {
+  it('splits on commas and semicolons', () => {
+    expect(splitListCell('Ana; Ben , ,Cai')).toEqual(['Ana', 'Ben', 'Cai']);
+    expect(splitListCell(undefined)).toEqual([]);
+  });
+});
+
+describe('getInvalidMetaMappings', () => {
+  it('reports empty, reserved and repeated keys', () => {
+    const mappings: ColumnMapping[] = [
+      { columnIndex: 0, headerName: 'Home Room', mappedTo: 'meta', metaKey: 'homeRoom' },
+      { columnIndex: 1, headerName: 'Blank', mappedTo: 'meta', metaKey: ' ' },
+      { columnIndex: 2, headerName: 'Mail', mappedTo: 'meta', metaKey: 'Email' },
+      { columnIndex: 3, headerName: 'Room', mappedTo: 'meta', metaKey: 'HOMEROOM' }
+    ];
+
+    expect(getInvalidMetaMappings(mappings)).toEqual(['Blank', 'Mail', 'Room']);
+  });
+});
+
+describe('defaultMetaKey', () => {
+  it('camel-cases the header', () => {
+    expect(defaultMetaKey(' Home Room ')).toBe('homeRoom');
+    expect(defaultMetaKey('IEP/504 status')).toBe('iep504Status');
+  });
 });
 
 describe('validateMappedData', () => {
@@ -226,6 +286,97 @@ describe('validateMappedData', () => {
     expect(result.validRows[0].student?.firstName).toBe('Alice');
     expect(result.validRows[0].choices).toEqual(['Art']);
   });
+
+  it('collects choices past the fifth rank in rank order', () => {
+    const headers = Array.from({ length: 8 }, (_, i) => `C${i + 1}`);
+    const data: RawSheetData = {
+      headers: ['First', ...headers],
+      rows: [{ rowIndex: 2, cells: ['Alice', ...headers.map((h) => `Club ${h}`)] }]
+    };
+    const mappings: ColumnMapping[] = [
+      { columnIndex: 0, headerName: 'First', mappedTo: 'firstName' },
+      ...headers
+        .map(
+          (h, i): ColumnMapping => ({
+            columnIndex: i + 1,
+            headerName: h,
+            mappedTo: `choice${i + 1}`
+          })
+        )
+        .reverse()
+    ];
+
+    const result = validateMappedData(data, mappings);
+
+    expect(result.validRows[0].choices).toEqual(headers.map((h) => `Club ${h}`));
+  });
+
+  it('collects avoid lists from several columns', () => {
+    const data: RawSheetData = {
+      headers: ['First', 'Not in', 'Not with 1', 'Not with 2'],
+      rows: [{ rowIndex: 2, cells: ['Alice', 'Chess; Art', 'Ben', 'Cai, Dee'] }]
+    };
+    const mappings: ColumnMapping[] = [
+      { columnIndex: 0, headerName: 'First', mappedTo: 'firstName' },
+      { columnIndex: 1, headerName: 'Not in', mappedTo: 'avoidGroup' },
+      { columnIndex: 2, headerName: 'Not with 1', mappedTo: 'avoidStudent' },
+      { columnIndex: 3, headerName: 'Not with 2', mappedTo: 'avoidStudent' }
+    ];
+
+    const result = validateMappedData(data, mappings);
+
+    expect(hasDuplicateMappings(mappings)).toEqual([]);
+    expect(result.validRows[0].avoidGroups).toEqual(['Chess', 'Art']);
+    expect(result.validRows[0].avoidStudents).toEqual(['Ben', 'Cai', 'Dee']);
+  });
+
+  describe('identity and attribute columns', () => {
+    const data: RawSheetData = {
+      headers: ['First', 'ID', 'Email', 'Grade', 'Gender', 'Home Room'],
+      rows: [
+        { rowIndex: 2, cells: ['Alice', 'S-1', 'alice@school.org', '7', 'F', '12B'] },
+        { rowIndex: 3, cells: ['Bob', 's-1', '', '', '', ''] },
+        { rowIndex: 4, cells: ['Cara', 'S-2', 'not an email', '8', '', ''] }
+      ]
+    };
+    const mappings: ColumnMapping[] = [
+      { columnIndex: 0, headerName: 'First', mappedTo: 'firstName' },
+      { columnIndex: 1, headerName: 'ID', mappedTo: 'studentId' },
+      { columnIndex: 2, headerName: 'Email', mappedTo: 'email' },
+      { columnIndex: 3, headerName: 'Grade', mappedTo: 'gradeLevel' },
+      { columnIndex: 4, headerName: 'Gender', mappedTo: 'gender' },
+      { columnIndex: 5, headerName: 'Home Room', mappedTo: 'meta', metaKey: 'homeRoom' }
+    ];
+
+    it('extracts the mapped fields', () => {
+      const result = validateMappedData(data, mappings);
+
+      expect(result.validRows[0].student).toEqual({
+        firstName: 'Alice',
+        lastName: undefined,
+        studentId: 'S-1',
+        email: 'alice@school.org',
+        gradeLevel: '7',
+        gender: 'F',
+        meta: { homeRoom: '12B' }
+      });
+    });
+
+    it('rejects a student ID already used in an earlier row', () => {
+      const result = validateMappedData(data, mappings);
+
+      expect(result.invalidRows.map((r) => r.rowIndex)).toEqual([3]);
+      expect(result.invalidRows[0].errors).toEqual(['Student ID "s-1" is also used in row 2']);
+    });
+
+    it('drops an invalid email with a warning', () => {
+      const result = validateMappedData(data, mappings);
+      const cara = result.validRows.find((r) => r.rowIndex === 4);
+
+      expect(cara?.student?.email).toBeUndefined();
+      expect(cara?.warnings).toEqual(['Email "not an email" is not valid and was skipped']);
+    });
+  });
 });
 
 describe('generateStudentId', () => {
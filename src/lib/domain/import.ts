@@ -43,17 +43,32 @@ export interface RawSheetData {
  *
  * - firstName: Required. Student's first name.
  * - lastName: Optional. Student's last name.
- * - choice1-5: Optional. Ranked group preferences (Shape B format).
+ * - studentId: Optional. School (SIS) student ID; the stable identity key.
+ * - email: Optional. Stored as `meta.email`.
+ * - gradeLevel, gender: Optional. Stored on the Student.
+ * - meta: Optional, any number of columns. Stored in `Student.meta` under
+ *   the column's `metaKey`.
+ * - choice1, choice2, ...: Optional. Ranked group preferences (Shape B
+ *   format), as many ranks as the sheet has.
+ * - avoidGroup: Optional, any number of columns. Groups the student should
+ *   not be placed in.
+ * - avoidStudent: Optional, any number of columns. Classmates the student
+ *   should not be grouped with, by name or student ID.
  * - ignore: Explicitly skip this column.
+ *
+ * Avoid cells may list several entries separated by commas or semicolons.
  */
 export type MappedField =
   | 'firstName'
   | 'lastName'
-  | 'choice1'
-  | 'choice2'
-  | 'choice3'
-  | 'choice4'
-  | 'choice5'
+  | 'studentId'
+  | 'email'
+  | 'gradeLevel'
+  | 'gender'
+  | 'meta'
+  | `choice${number}`
+  | 'avoidGroup'
+  | 'avoidStudent'
   | 'ignore';
 
 /**
@@ -66,8 +81,20 @@ export interface ColumnMapping {
   headerName: string;
   /** What domain field this column maps to (null = not yet mapped) */
   mappedTo: MappedField | null;
+  /** Key in `Student.meta` when mapped to 'meta' */
+  metaKey?: string;
 }
 
+/**
+ * Fields that can be mapped to several columns at once.
+ */
+const REPEATABLE_FIELDS: MappedField[] = ['ignore', 'meta', 'avoidGroup', 'avoidStudent'];
+
+/**
+ * Meta keys filled from dedicated fields or by the import itself.
+ */
+const RESERVED_META_KEYS = ['email', 'importRowIndex'];
+
 /**
  * Check if a field is a choice field (choice1, choice2, etc.)
  */
@@ -76,7 +103,7 @@ export function isChoiceField(field: MappedField): boolean {
 }
 
 /**
- * Get the choice rank from a choice field (1-5).
+ * Get the choice rank from a choice field (1-based).
  * Returns null for non-choice fields.
  */
 export function getChoiceRank(field: MappedField): number | null {
@@ -85,21 +112,36 @@ export function getChoiceRank(field: MappedField): number | null {
   return isNaN(rank) ? null : rank;
 }
 
+/**
+ * The choice field for a 1-based rank.
+ */
+export function choiceField(rank: number): MappedField {
+  return `choice${rank}`;
+}
+
 /**
  * All required fields that must be mapped for a valid import.
  */
 export const REQUIRED_FIELDS: MappedField[] = ['firstName'];
 
 /**
- * All optional fields that can be mapped.
+ * All optional fields that can be mapped. Choice ranks continue past
+ * choice5 when a sheet has more choice columns (see `choiceField`).
  */
 export const OPTIONAL_FIELDS: MappedField[] = [
   'lastName',
+  'studentId',
+  'email',
+  'gradeLevel',
+  'gender',
+  'meta',
   'choice1',
   'choice2',
   'choice3',
   'choice4',
-  'choice5'
+  'choice5',
+  'avoidGroup',
+  'avoidStudent'
 ];
 
 // =============================================================================
@@ -120,9 +162,22 @@ export interface RowValidationResult {
   student?: {
     firstName: string;
     lastName?: string;
+    /** School (SIS) student ID */
+    studentId?: string;
+    email?: string;
+    gradeLevel?: string;
+    gender?: string;
+    /** Values of columns mapped to 'meta', by meta key */
+    meta?: Record<string, string>;
   };
   /** Extracted group choices in rank order (if any) */
   choices?: string[];
+  /** Group names from avoid-group columns (if any) */
+  avoidGroups?: string[];
+  /** Names or student IDs from avoid-student columns (if any) */
+  avoidStudents?: string[];
+  /** Problems that did not stop the row from importing */
+  warnings?: string[];
 }
 
 /**
@@ -170,7 +225,7 @@ export function hasDuplicateMappings(mappings: ColumnMapping[]): MappedField[] {
   const fieldCounts = new Map<MappedField, number>();
 
   for (const mapping of mappings) {
-    if (mapping.mappedTo && mapping.mappedTo !== 'ignore') {
+    if (mapping.mappedTo && !REPEATABLE_FIELDS.includes(mapping.mappedTo)) {
       const count = fieldCounts.get(mapping.mappedTo) || 0;
       fieldCounts.set(mapping.mappedTo, count + 1);
     }
@@ -181,8 +236,95 @@ export function hasDuplicateMappings(mappings: ColumnMapping[]): MappedField[] {
     .map(([field]) => field);
 }
 
+/**
+ * Suggest a `Student.meta` key for a column header ("Home Room" → "homeRoom").
+ */
+export function defaultMetaKey(headerName: string): string {
+  const words = headerName
+    .trim()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return words
+    .map((word, i) =>
+      i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()
+    )
+    .join('');
+}
+
+/**
+ * Find columns mapped to 'meta' whose key is empty, reserved, or used by
+ * another meta column (case-insensitive). Returns their header names.
+ */
+export function getInvalidMetaMappings(mappings: ColumnMapping[]): string[] {
+  const seen = new Set<string>();
+  const invalid: string[] = [];
+  for (const mapping of mappings) {
+    if (mapping.mappedTo !== 'meta') continue;
+    const key = (mapping.metaKey ?? '').trim().toLowerCase();
+    if (!key || RESERVED_META_KEYS.some((k) => k.toLowerCase() === key) || seen.has(key)) {
+      invalid.push(mapping.headerName);
+    }
+    seen.add(key);
+  }
+  return invalid;
+}
+
+/**
+ * Split a cell listing several entries ("Ana; Ben, Cai") into trimmed values.
+ */
+export function splitListCell(cell: string | undefined): string[] {
+  return (cell ?? '')
+    .split(/[;,]/)
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The fields of a roster student that an imported reference can match.
+ */
+export interface StudentReferenceCandidate {
+  id: string;
+  firstName: string;
+  lastName?: string;
+  /** School (SIS) student ID */
+  canonicalId?: string;
+}
+
+/**
+ * Find the roster students an imported name or ID refers to.
+ *
+ * Matches, case-insensitively and in order of preference: the student ID or
+ * school ID, the full name ("Ana Lopez"), then the first name alone. Returns
+ * every match at the first level that has any, so callers can tell an unknown
+ * reference (none) from an ambiguous one (several).
+ */
+export function findStudentsByReference<T extends StudentReferenceCandidate>(
+  reference: string,
+  students: T[]
+): T[] {
+  const ref = reference.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!ref) return [];
+
+  const byId = students.filter(
+    (s) => s.id.toLowerCase() === ref || s.canonicalId?.toLowerCase() === ref
+  );
+  if (byId.length > 0) return byId;
+
+  const byFullName = students.filter(
+    (s) => `${s.firstName} ${s.lastName ?? ''}`.trim().toLowerCase().replace(/\s+/g, ' ') === ref
+  );
+  if (byFullName.length > 0) return byFullName;
+
+  return students.filter((s) => s.firstName.trim().toLowerCase() === ref);
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 /**
  * Apply column mappings to raw sheet data and validate each row.
+ *
+ * Rows without a first name, or repeating a student ID already seen in an
+ * earlier row, are invalid. A malformed email is dropped with a warning.
  */
 export function validateMappedData(
   data: RawSheetData,
@@ -199,47 +341,97 @@ export function validateMappedData(
     }
   }
 
+  const metaColumns = mappings.filter((m) => m.mappedTo === 'meta' && m.metaKey?.trim());
+  const choiceColumns = mappings
+    .map((m) => ({ rank: m.mappedTo ? getChoiceRank(m.mappedTo) : null, idx: m.columnIndex }))
+    .filter((c): c is { rank: number; idx: number } => c.rank !== null)
+    .sort((a, b) => a.rank - b.rank)
+    .map((c) => c.idx);
+  const columnsFor = (field: MappedField) =>
+    mappings.filter((m) => m.mappedTo === field).map((m) => m.columnIndex);
+  const avoidGroupColumns = columnsFor('avoidGroup');
+  const avoidStudentColumns = columnsFor('avoidStudent');
+  const cellFor = (row: RawSheetRow, field: MappedField): string => {
+    const idx = fieldToColumn.get(field);
+    return idx !== undefined ? (row.cells[idx] ?? '').trim() : '';
+  };
+
+  // First row each student ID appears in
+  const studentIdRows = new Map<string, number>();
+
   // Validate each row
   for (const row of data.rows) {
     const errors: string[] = [];
+    const warnings: string[] = [];
     let student: RowValidationResult['student'] = undefined;
     const choices: string[] = [];
 
     // Extract firstName (required)
-    const firstNameIdx = fieldToColumn.get('firstName');
-    const firstName = firstNameIdx !== undefined ? (row.cells[firstNameIdx] ?? '').trim() : '';
+    const firstName = cellFor(row, 'firstName');
+
+    const studentId = cellFor(row, 'studentId');
+    if (studentId) {
+      const firstRow = studentIdRows.get(studentId.toLowerCase());
+      if (firstRow !== undefined) {
+        errors.push(`Student ID "${studentId}" is also used in row ${firstRow}`);
+      } else {
+        studentIdRows.set(studentId.toLowerCase(), row.rowIndex);
+      }
+    }
 
     if (!firstName) {
       errors.push('First name is empty');
     } else {
       // Extract lastName (optional)
-      const lastNameIdx = fieldToColumn.get('lastName');
-      const lastName = lastNameIdx !== undefined ? (row.cells[lastNameIdx] ?? '').trim() : '';
+      const lastName = cellFor(row, 'lastName');
 
       student = {
         firstName,
         lastName: lastName || undefined
       };
+
+      if (studentId) student.studentId = studentId;
+
+      const email = cellFor(row, 'email');
+      if (email && EMAIL_PATTERN.test(email)) {
+        student.email = email;
+      } else if (email) {
+        warnings.push(`Email "${email}" is not valid and was skipped`);
+      }
+
+      const gradeLevel = cellFor(row, 'gradeLevel');
+      if (gradeLevel) student.gradeLevel = gradeLevel;
+      const gender = cellFor(row, 'gender');
+      if (gender) student.gender = gender;
+
+      const meta: Record<string, string> = {};
+      for (const column of metaColumns) {
+        const value = (row.cells[column.columnIndex] ?? '').trim();
+        if (value && column.metaKey) meta[column.metaKey.trim()] = value;
+      }
+      if (Object.keys(meta).length > 0) student.meta = meta;
     }
 
-    // Extract choices in order
-    for (let i = 1; i <= 5; i++) {
-      const choiceField = `choice${i}` as MappedField;
-      const choiceIdx = fieldToColumn.get(choiceField);
-      if (choiceIdx !== undefined) {
-        const choiceValue = (row.cells[choiceIdx] ?? '').trim();
-        if (choiceValue) {
-          choices.push(choiceValue);
-        }
+    // Extract choices in rank order
+    for (const choiceIdx of choiceColumns) {
+      const choiceValue = (row.cells[choiceIdx] ?? '').trim();
+      if (choiceValue) {
+        choices.push(choiceValue);
       }
     }
 
+    const avoidGroups = avoidGroupColumns.flatMap((idx) => splitListCell(row.cells[idx]));
+    const avoidStudents = avoidStudentColumns.flatMap((idx) => splitListCell(row.cells[idx]));
+
     const result: RowValidationResult = {
       rowIndex: row.rowIndex,
       isValid: errors.length === 0,
       errors,
       student,
-      choices: choices.length > 0 ? choices : undefined
+      choices: choices.length > 0 ? choices : undefined,
+      ...(avoidGroups.length > 0 ? { avoidGroups } : {}),
+      ...(avoidStudents.length > 0 ? { avoidStudents } : {}),
+      ...(warnings.length > 0 ? { warnings } : {})
     };
 
     if (result.isValid) {
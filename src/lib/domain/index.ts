@@ -21,7 +21,10 @@ export * from './session';
 export * from './placement';
 export * from './preference';
 export * from './observation';
+export * from './conflictRule';
 export * from './analytics';
+export * from './attributeBalance';
+export * from './scoring';
 export * from './import';
 export * from './sheetConnection';
 
@@ -38,6 +41,14 @@ export type { Scenario, ScenarioStatus } from './scenario';
 
 export type { ScenarioSatisfaction } from './analytics';
 
+export type {
+  AttributeBalanceMode,
+  AttributeBalanceSpec,
+  AttributeDistribution
+} from './attributeBalance';
+
+export type { ScoringObjective, ScoringWeights, ScoreBreakdown } from './scoring';
+
 export type { GroupTemplate, TemplateGroup } from './groupTemplate';
 
 export type { Session, SessionStatus } from './session';
@@ -45,3 +56,5 @@ export type { Session, SessionStatus } from './session';
 export type { Placement, PlacementType } from './placement';
 
 export type { Observation, ObservationSentiment } from './observation';
+
+export type { ConflictRule, ConflictRuleKind } from './conflictRule';
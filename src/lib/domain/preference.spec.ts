@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 import {
   createEmptyStudentPreference,
   isStudentPreference,
-  extractStudentPreference
+  extractStudentPreference,
+  normalizeStudentPreference
 } from './preference';
 import type { Preference, StudentPreference } from './preference';
 
@@ -171,3 +172,29 @@ describe('extractStudentPreference', () => {
     expect(result.studentId).toBe('student-1');
   });
 });
+
+describe('normalizeStudentPreference', () => {
+  it('should keep valid lists from partial legacy payloads', () => {
+    const pref = normalizeStudentPreference(
+      { likeGroupIds: ['group-1', 7], likeStudentIds: ['student-2'], meta: { note: 'x' } },
+      'student-1'
+    );
+
+    expect(pref).toEqual({
+      studentId: 'student-1',
+      avoidStudentIds: [],
+      likeGroupIds: ['group-1'],
+      avoidGroupIds: [],
+      meta: { note: 'x' }
+    });
+  });
+
+  it('should use the record student id and tolerate non-object payloads', () => {
+    expect(normalizeStudentPreference(null, 'student-1')).toEqual(
+      createEmptyStudentPreference('student-1')
+    );
+    expect(normalizeStudentPreference({ studentId: 'other' }, 'student-1').studentId).toBe(
+      'student-1'
+    );
+  });
+});
@@ -105,7 +105,8 @@ export interface Preference {
   /**
    * The actual preference data.
    * Typed as StudentPreference for strong typing, but stored as
-   * unknown in some legacy code paths.
+   * unknown in some legacy code paths. Stored rows are reshaped with
+   * `normalizeStudentPreference` when the local database is upgraded.
    */
   payload: StudentPreference | unknown;
 }
@@ -142,6 +143,30 @@ export function isStudentPreference(payload: unknown): payload is StudentPrefere
   );
 }
 
+/**
+ * Reshape a stored payload of any historical shape into a StudentPreference.
+ *
+ * Unlike `extractStudentPreference`, partial payloads keep whatever valid
+ * lists they have. Fields that are no longer part of the model (such as the
+ * removed `likeStudentIds` friend list) are dropped.
+ */
+export function normalizeStudentPreference(payload: unknown, studentId: string): StudentPreference {
+  const p = payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : {};
+  const ids = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+
+  const normalized: StudentPreference = {
+    studentId,
+    avoidStudentIds: ids(p.avoidStudentIds),
+    likeGroupIds: ids(p.likeGroupIds),
+    avoidGroupIds: ids(p.avoidGroupIds)
+  };
+  if (p.meta && typeof p.meta === 'object' && !Array.isArray(p.meta)) {
+    normalized.meta = p.meta as StudentPreference['meta'];
+  }
+  return normalized;
+}
+
 /**
  * Safely extract a StudentPreference from a Preference payload.
  * Returns an empty preference if the payload is invalid.
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createScenario } from './scenario';
+import { buildLockedGroupShells, createScenario, pickWorkingScenario } from './scenario';
 import { createGroup } from './group';
 import type { Group } from './group';
 
@@ -361,3 +361,65 @@ describe('createScenario', () => {
     });
   });
 });
+
+describe('buildLockedGroupShells', () => {
+  const groups = [
+    { id: 'g1', name: 'Group 1', capacity: null, memberIds: ['a', 'b'] },
+    { id: 'g2', name: 'Group 2', capacity: 5, memberIds: ['c', 'd'] }
+  ];
+
+  it('keeps only locked students in shuffle mode', () => {
+    const shells = buildLockedGroupShells(groups, { lockedStudentIds: ['b', 'c'] }, 'shuffle');
+
+    expect(shells.map((g) => g.memberIds)).toEqual([['b'], ['c']]);
+    expect(shells[1].capacity).toBe(5);
+  });
+
+  it('freezes locked groups at their current size', () => {
+    const shells = buildLockedGroupShells(groups, { lockedGroupIds: ['g1'] }, 'shuffle');
+
+    expect(shells[0]).toMatchObject({ capacity: 2, memberIds: ['a', 'b'] });
+    expect(shells[1].memberIds).toEqual([]);
+  });
+
+  it('keeps every placement in fill mode', () => {
+    const shells = buildLockedGroupShells(groups, {}, 'fill');
+
+    expect(shells.map((g) => g.memberIds)).toEqual([
+      ['a', 'b'],
+      ['c', 'd']
+    ]);
+  });
+});
+
+describe('pickWorkingScenario', () => {
+  const base = (id: string, lastModifiedAt: string) => ({
+    ...createScenario({
+      id,
+      programId: 'program-1',
+      groups: [],
+      participantIds: [],
+      createdAt: new Date('2024-01-01')
+    }),
+    lastModifiedAt: new Date(lastModifiedAt)
+  });
+
+  it('should return null when there are no scenarios', () => {
+    expect(pickWorkingScenario([])).toBeNull();
+  });
+
+  it('should prefer the adopted scenario', () => {
+    const adopted = { ...base('a', '2024-01-02'), status: 'ADOPTED' as const };
+    expect(pickWorkingScenario([base('b', '2024-03-01'), adopted])?.id).toBe('a');
+  });
+
+  it('should otherwise pick the most recently modified draft', () => {
+    expect(
+      pickWorkingScenario([
+        base('a', '2024-01-02'),
+        base('b', '2024-03-01'),
+        base('c', '2024-02-01')
+      ])?.id
+    ).toBe('b');
+  });
+});
@@ -8,6 +8,8 @@ export type ScenarioStatus = 'DRAFT' | 'ADOPTED' | 'ARCHIVED';
 export interface Scenario {
   id: string;
   programId: string;
+  /** Teacher-facing label, e.g. "Plan B". Legacy scenarios have none. */
+  name?: string;
   status: ScenarioStatus;
   groups: Group[];
   participantSnapshot: string[];
@@ -16,6 +18,16 @@ export interface Scenario {
   lastModifiedAt: Date;
   createdByStaffId?: string;
   algorithmConfig?: unknown;
+  /**
+   * Students pinned to the group they are currently in.
+   * Regeneration keeps them in place and reassigns everyone else.
+   */
+  lockedStudentIds?: string[];
+  /**
+   * Groups whose membership is frozen: regeneration keeps every current
+   * member and adds no one new.
+   */
+  lockedGroupIds?: string[];
   // parentScenarioId?: string; // Planned (not used in MVP)
 }
 
@@ -26,6 +38,7 @@ export interface Scenario {
 export function createScenario(params: {
   id: string;
   programId: string;
+  name?: string;
   groups: Group[];
   participantIds: string[];
   createdAt: Date;
@@ -48,6 +61,7 @@ export function createScenario(params: {
   return {
     id: params.id,
     programId: params.programId,
+    name: params.name,
     status: 'DRAFT',
     groups: params.groups.map((g) => ({
       ...g,
@@ -60,3 +74,59 @@ export function createScenario(params: {
     algorithmConfig: params.algorithmConfig
   };
 }
+
+/**
+ * Build the group shells to pass to an algorithm when regenerating a scenario
+ * that has locks. Locked students keep their group; locked groups keep all of
+ * their members and are capped at their current size so nobody new is added.
+ *
+ * In `fill` mode every current placement is kept; in `shuffle` mode only
+ * locked placements are kept.
+ */
+export function buildLockedGroupShells(
+  groups: Group[],
+  locks: { lockedStudentIds?: string[]; lockedGroupIds?: string[] },
+  mode: 'fill' | 'shuffle'
+): Group[] {
+  const lockedStudents = new Set(locks.lockedStudentIds ?? []);
+  const lockedGroups = new Set(locks.lockedGroupIds ?? []);
+
+  return groups.map((group) => {
+    if (lockedGroups.has(group.id)) {
+      return { ...group, capacity: group.memberIds.length, memberIds: [...group.memberIds] };
+    }
+    return {
+      ...group,
+      memberIds:
+        mode === 'fill'
+          ? [...group.memberIds]
+          : group.memberIds.filter((id) => lockedStudents.has(id))
+    };
+  });
+}
+
+/**
+ * Pick the scenario an activity opens with when it has several: the adopted
+ * one (last shown to class) if any, otherwise the most recently modified.
+ */
+export function pickWorkingScenario(scenarios: Scenario[]): Scenario | null {
+  if (scenarios.length === 0) return null;
+
+  const adopted = scenarios.find((s) => s.status === 'ADOPTED');
+  if (adopted) return adopted;
+
+  return scenarios.reduce((latest, s) =>
+    (s.lastModifiedAt ?? s.createdAt).getTime() >
+    (latest.lastModifiedAt ?? latest.createdAt).getTime()
+      ? s
+      : latest
+  );
+}
+
+/**
+ * Label for a scenario in pickers, falling back to its position among the
+ * activity's scenarios ("Scenario 1", "Scenario 2", ...).
+ */
+export function getScenarioDisplayName(scenario: Scenario, index: number): string {
+  return scenario.name?.trim() || `Scenario ${index + 1}`;
+}
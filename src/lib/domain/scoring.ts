@@ -0,0 +1,99 @@
+/**
+ * Multi-objective scoring for group arrangements.
+ *
+ * Names the objectives an arrangement is judged on and how much each one
+ * counts. Optimizers (genetic, simulated annealing) and candidate ranking all
+ * use the same objectives, so a teacher's weights mean the same thing
+ * everywhere.
+ *
+ * @module domain/scoring
+ */
+
+/**
+ * Objectives an arrangement is scored on:
+ * - `topChoice`: % of students placed in their first-choice group (higher is better)
+ * - `topTwo`: % placed in one of their top two choices (higher is better)
+ * - `averageRank`: mean rank of the assigned choice (lower is better)
+ * - `avoidPairs`: avoid pairs sharing a group (fewer is better)
+ * - `keepTogether`: keep-together sets split across groups (fewer is better)
+ * - `repeatGroupmates`: pairs who were groupmates in recent sessions (fewer is better)
+ * - `groupSizeVariance`: variance of group sizes (lower is better)
+ * - `attributeBalance`: imbalance of the balanced attributes (lower is better)
+ */
+export type ScoringObjective =
+  | 'topChoice'
+  | 'topTwo'
+  | 'averageRank'
+  | 'avoidPairs'
+  | 'keepTogether'
+  | 'repeatGroupmates'
+  | 'groupSizeVariance'
+  | 'attributeBalance';
+
+export const SCORING_OBJECTIVES: ScoringObjective[] = [
+  'topChoice',
+  'topTwo',
+  'averageRank',
+  'avoidPairs',
+  'keepTogether',
+  'repeatGroupmates',
+  'groupSizeVariance',
+  'attributeBalance'
+];
+
+/**
+ * Relative importance of each objective. Omitted objectives use the default
+ * weight; a weight of 0 turns an objective off.
+ */
+export type ScoringWeights = Partial<Record<ScoringObjective, number>>;
+
+/**
+ * Default weights. Broken avoid pairs and split keep-together sets are heavy
+ * enough to dominate any satisfaction gain, so optimizers treat them as hard rules.
+ */
+export const DEFAULT_SCORING_WEIGHTS: Readonly<Record<ScoringObjective, number>> = {
+  topChoice: 2,
+  topTwo: 1,
+  averageRank: 10,
+  avoidPairs: 1000,
+  keepTogether: 1000,
+  repeatGroupmates: 5,
+  groupSizeVariance: 1,
+  attributeBalance: 10
+};
+
+/**
+ * One objective's share of an arrangement's score.
+ */
+export interface ObjectiveScore {
+  /** Raw measurement (e.g. 75 for 75% top choice, 2 for two broken avoid pairs). */
+  value: number;
+  weight: number;
+  /** Signed amount this objective adds to the total (`±value × weight`). */
+  contribution: number;
+}
+
+/**
+ * Total score of an arrangement (higher is better) and how each objective contributed.
+ */
+export interface ScoreBreakdown {
+  total: number;
+  objectives: Record<ScoringObjective, ObjectiveScore>;
+}
+
+/**
+ * Merge teacher-supplied weights over the defaults.
+ * Negative or non-numeric weights are ignored.
+ */
+export function resolveScoringWeights(weights?: ScoringWeights): Record<ScoringObjective, number> {
+  const resolved = { ...DEFAULT_SCORING_WEIGHTS };
+  if (!weights) return resolved;
+
+  for (const objective of SCORING_OBJECTIVES) {
+    const weight = weights[objective];
+    if (typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+      resolved[objective] = weight;
+    }
+  }
+  return resolved;
+}
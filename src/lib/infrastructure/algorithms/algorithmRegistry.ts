@@ -0,0 +1,95 @@
+import type {
+  IdGenerator,
+  PlacementRepository,
+  PreferenceRepository,
+  StudentRepository
+} from '$lib/application/ports';
+import { BalancedGroupingAlgorithm } from '$lib/infrastructure/algorithms/balancedGrouping';
+import { RandomGroupingAlgorithm } from '$lib/infrastructure/algorithms/randomGrouping';
+import { RoundRobinGroupingAlgorithm } from '$lib/infrastructure/algorithms/roundRobinGrouping';
+import { PreferenceFirstGroupingAlgorithm } from '$lib/infrastructure/algorithms/preferenceFirstGrouping';
+import { SimulatedAnnealingGroupingAlgorithm } from '$lib/infrastructure/algorithms/simulatedAnnealingGrouping';
+import { GeneticGroupingAlgorithm } from '$lib/infrastructure/algorithms/geneticGrouping';
+import { ExactGroupingAlgorithm } from '$lib/infrastructure/algorithms/exactGrouping';
+import { FirstChoiceOnlyGroupingAlgorithm } from '$lib/infrastructure/algorithms/firstChoiceOnlyGrouping';
+import { MultiAlgorithmGroupingAlgorithm } from '$lib/infrastructure/algorithms/multiAlgorithm';
+
+/**
+ * Repositories and services the grouping algorithms read from.
+ */
+export interface GroupingAlgorithmDeps {
+  studentRepo: StudentRepository;
+  preferenceRepo: PreferenceRepository;
+  placementRepo: PlacementRepository;
+  idGenerator: IdGenerator;
+}
+
+/**
+ * Build the full set of grouping algorithms, dispatched by `algorithmConfig.algorithm`
+ * (default: balanced). Shared by the app environment and the grouping worker.
+ */
+export function createGroupingAlgorithm(
+  deps: GroupingAlgorithmDeps
+): MultiAlgorithmGroupingAlgorithm {
+  const { studentRepo, preferenceRepo, placementRepo, idGenerator } = deps;
+  return new MultiAlgorithmGroupingAlgorithm(
+    [
+      {
+        id: 'balanced',
+        label: 'Balanced',
+        algorithm: new BalancedGroupingAlgorithm(
+          studentRepo,
+          preferenceRepo,
+          idGenerator,
+          placementRepo
+        )
+      },
+      {
+        id: 'first-choice-only',
+        label: 'First Choice Only',
+        algorithm: new FirstChoiceOnlyGroupingAlgorithm(studentRepo, preferenceRepo, idGenerator)
+      },
+      {
+        id: 'random',
+        label: 'Random Shuffle',
+        algorithm: new RandomGroupingAlgorithm(idGenerator)
+      },
+      {
+        id: 'round-robin',
+        label: 'Round Robin',
+        algorithm: new RoundRobinGroupingAlgorithm(idGenerator)
+      },
+      {
+        id: 'preference-first',
+        label: 'Preference-First',
+        algorithm: new PreferenceFirstGroupingAlgorithm(preferenceRepo, idGenerator)
+      },
+      {
+        id: 'exact',
+        label: 'Exact (Optimal)',
+        algorithm: new ExactGroupingAlgorithm(preferenceRepo, idGenerator)
+      },
+      {
+        id: 'simulated-annealing',
+        label: 'Simulated Annealing',
+        algorithm: new SimulatedAnnealingGroupingAlgorithm(
+          preferenceRepo,
+          idGenerator,
+          studentRepo,
+          placementRepo
+        )
+      },
+      {
+        id: 'genetic',
+        label: 'Genetic Algorithm',
+        algorithm: new GeneticGroupingAlgorithm(
+          preferenceRepo,
+          idGenerator,
+          studentRepo,
+          placementRepo
+        )
+      }
+    ],
+    'balanced'
+  );
+}
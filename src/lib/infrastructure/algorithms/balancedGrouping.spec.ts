@@ -276,4 +276,68 @@ describe('BalancedGroupingAlgorithm', () => {
       }
     });
   });
+
+  describe('keep-together constraints', () => {
+    it('should place keep-together sets in the same group', async () => {
+      const students: Student[] = [];
+      for (let i = 1; i <= 12; i++) {
+        students.push({ id: `student-${i}`, firstName: `Student${i}`, lastName: 'Test' });
+      }
+      await studentRepo.saveMany(students);
+
+      for (const seed of [1, 7, 42]) {
+        const result = await algorithm.generateGroups({
+          programId: 'test-program',
+          studentIds: students.map((s) => s.id),
+          algorithmConfig: {
+            seed,
+            keepTogether: [
+              ['student-1', 'student-12'],
+              ['student-3', 'student-4', 'student-9']
+            ]
+          }
+        });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          const groupOf = (id: string) => result.groups.find((g) => g.memberIds.includes(id))?.id;
+          expect(groupOf('student-12')).toBe(groupOf('student-1'));
+          expect(groupOf('student-4')).toBe(groupOf('student-3'));
+          expect(groupOf('student-9')).toBe(groupOf('student-3'));
+        }
+      }
+    });
+  });
+
+  describe('explicit avoid pairs', () => {
+    it('should separate avoid pairs from config even when preference avoids are disabled', async () => {
+      const students: Student[] = [];
+      for (let i = 1; i <= 12; i++) {
+        students.push({ id: `student-${i}`, firstName: `Student${i}`, lastName: 'Test' });
+      }
+      await studentRepo.saveMany(students);
+
+      for (const seed of [1, 7, 42]) {
+        const result = await algorithm.generateGroups({
+          programId: 'test-program',
+          studentIds: students.map((s) => s.id),
+          algorithmConfig: {
+            seed,
+            enforceAvoidPairs: false,
+            avoidPairs: [
+              ['student-1', 'student-2'],
+              ['student-1', 'student-3']
+            ]
+          }
+        });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          const groupOf = (id: string) => result.groups.find((g) => g.memberIds.includes(id))?.id;
+          expect(groupOf('student-2')).not.toBe(groupOf('student-1'));
+          expect(groupOf('student-3')).not.toBe(groupOf('student-1'));
+        }
+      }
+    });
+  });
 });
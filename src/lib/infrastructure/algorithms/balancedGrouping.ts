@@ -6,12 +6,19 @@ import type {
   IdGenerator
 } from '$lib/application/ports';
 import { assignBalanced } from '$lib/algorithms/balanced-assignment';
+import { mergeKeepTogetherSets } from '$lib/algorithms/keep-together';
 import {
   buildAvoidPairsFromPreferences,
   buildRecentGroupmatesMap
 } from '$lib/algorithms/buildConstraints';
 import type { GroupingConstraints } from '$lib/algorithms/types';
-import type { Student, Group, StudentPreference, Preference } from '$lib/domain';
+import type {
+  Student,
+  Group,
+  StudentPreference,
+  Preference,
+  AttributeBalanceSpec
+} from '$lib/domain';
 /**
  * Configuration options for the balanced grouping algorithm.
  */
@@ -45,6 +52,27 @@ export interface BalancedGroupingConfig {
    */
   enforceAvoidPairs?: boolean;
 
+  /**
+   * Sets of student IDs that must be placed in the same group
+   * (e.g., an ELL student with a buddy translator). Always enforced.
+   */
+  keepTogether?: string[][];
+
+  /**
+   * Pairs of student IDs that must not share a group (e.g., teacher-defined
+   * conflict rules). Always enforced, independent of enforceAvoidPairs.
+   */
+  avoidPairs?: Array<[string, string]>;
+
+  /**
+   * Attributes to spread evenly across groups, e.g.
+   * `[{ attribute: 'gender', mode: 'categorical' }, { attribute: 'readingLevel', mode: 'numeric' }]`.
+   * `attribute` is `gender`, `gradeLevel`, or a key in `Student.meta`. Categorical mode spreads each
+   * value proportionally; numeric mode keeps group means close to the class mean.
+   * Balancing never breaks constraints or moves a student away from a group they requested.
+   */
+  balanceAttributes?: AttributeBalanceSpec[];
+
   /**
    * If true, avoid placing students with the same groupmates from their most recent session.
    * Requires placementRepo to be provided.
@@ -170,7 +198,8 @@ export class BalancedGroupingAlgorithm implements GroupingAlgorithm {
         preferencesById,
         studentsById,
         seed: config.seed,
-        constraints
+        constraints,
+        attributeBalance: config.balanceAttributes
       });
 
       // Check for unassigned students
@@ -257,20 +286,32 @@ export class BalancedGroupingAlgorithm implements GroupingAlgorithm {
   ): Promise<GroupingConstraints | undefined> {
     const enforceAvoidPairs = config.enforceAvoidPairs !== false; // Default true
     const avoidRecentGroupmates = config.avoidRecentGroupmates === true; // Default false
+    const keepTogether = mergeKeepTogetherSets(config.keepTogether, studentIds);
+    const ruleAvoidPairs = config.avoidPairs ?? [];
 
     // If no constraints are enabled, return undefined
-    if (!enforceAvoidPairs && !avoidRecentGroupmates) {
+    if (
+      !enforceAvoidPairs &&
+      !avoidRecentGroupmates &&
+      keepTogether.length === 0 &&
+      ruleAvoidPairs.length === 0
+    ) {
       return undefined;
     }
 
     const constraints: GroupingConstraints = {};
 
-    // Build avoid pairs from preferences
-    if (enforceAvoidPairs) {
-      const avoidPairs = buildAvoidPairsFromPreferences(preferences);
-      if (avoidPairs.length > 0) {
-        constraints.avoidPairs = avoidPairs;
-      }
+    // Build avoid pairs from preferences, plus explicit (teacher-defined) pairs
+    const avoidPairs = [
+      ...(enforceAvoidPairs ? buildAvoidPairsFromPreferences(preferences) : []),
+      ...ruleAvoidPairs
+    ];
+    if (avoidPairs.length > 0) {
+      constraints.avoidPairs = avoidPairs;
+    }
+
+    if (keepTogether.length > 0) {
+      constraints.keepTogether = keepTogether;
     }
 
     // Build recent groupmates map from placement history
@@ -292,7 +333,7 @@ export class BalancedGroupingAlgorithm implements GroupingAlgorithm {
     }
 
     // Return constraints only if there's something to enforce
-    if (constraints.avoidPairs || constraints.recentGroupmates) {
+    if (constraints.avoidPairs || constraints.keepTogether || constraints.recentGroupmates) {
       return constraints;
     }
 
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { ExactGroupingAlgorithm } from './exactGrouping';
+import { InMemoryPreferenceRepository } from '../repositories/inMemory';
+import { UuidIdGenerator } from '../services';
+import type { Preference, StudentPreference } from '$lib/domain';
+
+const studentIds = Array.from({ length: 12 }, (_, i) => `student-${i + 1}`);
+
+const threeGroups = [
+  { name: 'Group 1', capacity: 4 },
+  { name: 'Group 2', capacity: 4 },
+  { name: 'Group 3', capacity: 4 }
+];
+
+function groupPreference(
+  studentId: string,
+  likeGroupIds: string[],
+  avoidStudentIds: string[] = []
+): Preference {
+  return {
+    id: `pref-${studentId}`,
+    programId: 'test-program',
+    studentId,
+    payload: {
+      studentId,
+      avoidStudentIds,
+      likeGroupIds,
+      avoidGroupIds: []
+    } satisfies StudentPreference
+  };
+}
+
+describe('ExactGroupingAlgorithm', () => {
+  it('gives everyone their first choice when capacities allow and reports it as proven', async () => {
+    const preferences = studentIds.map((id, i) => groupPreference(id, [`Group ${(i % 3) + 1}`]));
+    const algorithm = new ExactGroupingAlgorithm(
+      new InMemoryPreferenceRepository(preferences),
+      new UuidIdGenerator()
+    );
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { groups: threeGroups }
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.provenOptimal).toBe(true);
+      studentIds.forEach((id, i) => {
+        const group = result.groups.find((g) => g.memberIds.includes(id));
+        expect(group?.name).toBe(`Group ${(i % 3) + 1}`);
+      });
+    }
+  });
+
+  it('never places an avoid pair in the same group', async () => {
+    const preferences = [
+      groupPreference('student-1', ['Group 1'], ['student-2']),
+      groupPreference('student-2', ['Group 1'])
+    ];
+    const algorithm = new ExactGroupingAlgorithm(
+      new InMemoryPreferenceRepository(preferences),
+      new UuidIdGenerator()
+    );
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { groups: threeGroups }
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const groupOf = (id: string) => result.groups.find((g) => g.memberIds.includes(id))?.id;
+      expect(groupOf('student-1')).not.toBe(groupOf('student-2'));
+    }
+  });
+
+  it('fails when the rules cannot all be met', async () => {
+    const algorithm = new ExactGroupingAlgorithm(
+      new InMemoryPreferenceRepository([]),
+      new UuidIdGenerator()
+    );
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: {
+        groups: threeGroups,
+        keepTogether: [['student-1', 'student-2']],
+        avoidPairs: [['student-1', 'student-2']]
+      }
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('refuses classes above the size limit', async () => {
+    const algorithm = new ExactGroupingAlgorithm(
+      new InMemoryPreferenceRepository([]),
+      new UuidIdGenerator()
+    );
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds: Array.from({ length: 41 }, (_, i) => `student-${i + 1}`)
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import type { GroupingAlgorithm, IdGenerator, PreferenceRepository } from '$lib/application/ports';
+import type { Preference } from '$lib/domain';
+import {
+  buildGroups,
+  parseGroupingConfig,
+  type SharedGroupingConfig
+} from '$lib/infrastructure/algorithms/groupingUtils';
+import { buildAvoidPairsFromPreferences } from '$lib/algorithms/buildConstraints';
+import { EXACT_SOLVER_MAX_STUDENTS, solveExactAssignment } from '$lib/algorithms/exact-assignment';
+
+/**
+ * Configuration options for the exact solver, on top of the shared config.
+ */
+export interface ExactGroupingConfig extends SharedGroupingConfig {
+  /** Search budget in milliseconds. Default: 2000. */
+  timeLimitMs?: number;
+
+  /**
+   * If true, enforce avoidStudentIds from preferences as "never together" constraints.
+   * Default: true
+   */
+  enforceAvoidPairs?: boolean;
+}
+
+function extractGroupChoices(pref: Preference): string[] {
+  if (!pref.payload || typeof pref.payload !== 'object') {
+    return [];
+  }
+
+  const payload = pref.payload as Record<string, unknown>;
+  if (Array.isArray(payload.likeGroupIds)) {
+    return payload.likeGroupIds.filter((id): id is string => typeof id === 'string');
+  }
+
+  return [];
+}
+
+/**
+ * Exact grouping algorithm.
+ * Min-cost flow plus branch-and-bound search for the assignment with the
+ * lowest total choice rank that respects capacities, keep-together sets and
+ * avoid pairs (teacher rules plus preference avoids). Reports whether
+ * optimality was proven within the time budget. Only offered for classes up
+ * to EXACT_SOLVER_MAX_STUDENTS.
+ */
+export class ExactGroupingAlgorithm implements GroupingAlgorithm {
+  constructor(
+    private preferenceRepo: PreferenceRepository,
+    private idGenerator: IdGenerator
+  ) {}
+
+  async generateGroups(params: {
+    programId: string;
+    studentIds: string[];
+    algorithmConfig?: unknown;
+  }): Promise<
+    | {
+        success: true;
+        groups: { id: string; name: string; capacity: number | null; memberIds: string[] }[];
+        provenOptimal?: boolean;
+      }
+    | { success: false; message: string; timedOut?: boolean }
+  > {
+    if (!params.studentIds || params.studentIds.length === 0) {
+      return { success: false, message: 'No students provided for grouping' };
+    }
+    if (params.studentIds.length > EXACT_SOLVER_MAX_STUDENTS) {
+      return {
+        success: false,
+        message: `The exact solver supports up to ${EXACT_SOLVER_MAX_STUDENTS} students`
+      };
+    }
+
+    const config = parseGroupingConfig(params.algorithmConfig) as ExactGroupingConfig;
+    const groups = buildGroups(params.studentIds.length, config, this.idGenerator);
+    const preferences = await this.preferenceRepo.listByProgramId(params.programId);
+
+    // Preferences may name groups instead of using their IDs
+    const groupIdByKey = new Map<string, string>();
+    for (const group of groups) {
+      groupIdByKey.set(group.name.toLowerCase(), group.id);
+      groupIdByKey.set(group.id, group.id);
+    }
+    const choicesByStudent: Record<string, string[]> = {};
+    for (const pref of preferences) {
+      choicesByStudent[pref.studentId] = extractGroupChoices(pref)
+        .map((choice) => groupIdByKey.get(choice) ?? groupIdByKey.get(choice.toLowerCase()))
+        .filter((id): id is string => id !== undefined);
+    }
+
+    const avoidPairs = [
+      ...(config.enforceAvoidPairs !== false ? buildAvoidPairsFromPreferences(preferences) : []),
+      ...(config.avoidPairs ?? [])
+    ];
+
+    const result = solveExactAssignment({
+      groups,
+      studentIds: params.studentIds,
+      choicesByStudent,
+      avoidPairs,
+      keepTogether: config.keepTogether,
+      timeLimitMs: config.timeLimitMs
+    });
+
+    if (!result) {
+      return {
+        success: false,
+        message: 'No arrangement fits the group sizes and keep-apart / keep-together rules'
+      };
+    }
+    if ('timedOut' in result) {
+      return {
+        success: false,
+        timedOut: true,
+        message: 'The exact solver ran out of time before finding an arrangement'
+      };
+    }
+
+    return {
+      success: true,
+      groups: result.groups.map((group) => ({
+        id: group.id,
+        name: group.name,
+        capacity: group.capacity,
+        memberIds: group.memberIds
+      })),
+      provenOptimal: result.provenOptimal
+    };
+  }
+}
@@ -1,12 +1,23 @@
-import type { GroupingAlgorithm, IdGenerator, PreferenceRepository } from '$lib/application/ports';
-import type { Group } from '$lib/domain';
+import type {
+  GroupingAlgorithm,
+  GroupingProgress,
+  IdGenerator,
+  PlacementRepository,
+  PreferenceRepository,
+  StudentRepository
+} from '$lib/application/ports';
+import type { Group, ScoreBreakdown } from '$lib/domain';
 import {
   buildGroups,
+  distributeRoundRobin,
+  loadScoringData,
   parseGroupingConfig,
   shuffleWithSeed,
-  seededRandom
+  seededRandom,
+  separateAvoidPairs
 } from '$lib/infrastructure/algorithms/groupingUtils';
-import { scoreGroups } from '$lib/infrastructure/algorithms/scoreGroups';
+import { mergeKeepTogetherSets } from '$lib/algorithms/keep-together';
+import { scoreArrangement, type ScoringContext } from '$lib/algorithms/scoring';
 
 interface Genome {
   order: string[];
@@ -15,22 +26,28 @@ interface Genome {
 
 /**
  * Genetic algorithm grouping.
- * Evolves student orderings to maximize preference satisfaction.
+ * Evolves student orderings to maximize the shared weighted score (see algorithms/scoring).
+ * Keep-together sets are dealt into groups as a block when decoding an ordering;
+ * orderings that put an avoid pair together are penalized.
  */
 export class GeneticGroupingAlgorithm implements GroupingAlgorithm {
   constructor(
     private preferenceRepo: PreferenceRepository,
-    private idGenerator: IdGenerator
+    private idGenerator: IdGenerator,
+    private studentRepo?: StudentRepository,
+    private placementRepo?: PlacementRepository
   ) {}
 
   async generateGroups(params: {
     programId: string;
     studentIds: string[];
     algorithmConfig?: unknown;
+    onProgress?: (progress: GroupingProgress) => void;
   }): Promise<
     | {
         success: true;
         groups: { id: string; name: string; capacity: number | null; memberIds: string[] }[];
+        scoreBreakdown?: ScoreBreakdown;
       }
     | { success: false; message: string }
   > {
@@ -47,41 +64,32 @@ export class GeneticGroupingAlgorithm implements GroupingAlgorithm {
     const populationSize = Math.min(12, Math.max(6, Math.ceil(params.studentIds.length / 4)));
     const generations = Math.min(8, Math.max(4, Math.ceil(params.studentIds.length / 10)));
 
+    const keepTogether = mergeKeepTogetherSets(config.keepTogether, params.studentIds);
+    const avoidPairs = config.avoidPairs ?? [];
+    const scoringContext: ScoringContext = {
+      preferences,
+      participantIds: params.studentIds,
+      keepTogether,
+      avoidPairs,
+      balanceAttributes: config.balanceAttributes,
+      weights: config.scoringWeights,
+      ...(await loadScoringData(params.studentIds, config, {
+        studentRepo: this.studentRepo,
+        placementRepo: this.placementRepo
+      }))
+    };
+
     const createGroupsFromOrder = (order: string[]): Group[] => {
       const groups: Group[] = baseGroups.map((group) => ({
         ...group,
         memberIds: []
       }));
-      let index = 0;
-      for (const studentId of order) {
-        let attempts = 0;
-        let assigned = false;
-        while (attempts < groups.length) {
-          const group = groups[index % groups.length];
-          index++;
-          attempts++;
-          const hasCapacity = group.capacity === null || group.memberIds.length < group.capacity;
-          if (hasCapacity) {
-            group.memberIds.push(studentId);
-            assigned = true;
-            break;
-          }
-        }
-        if (!assigned) {
-          return groups;
-        }
-      }
+      distributeRoundRobin(groups, order, keepTogether);
       return groups;
     };
 
-    const scoreOrder = (order: string[]): number => {
-      const groups = createGroupsFromOrder(order);
-      return scoreGroups({
-        groups,
-        preferences,
-        participantIds: params.studentIds
-      }).score;
-    };
+    const scoreOrder = (order: string[]): number =>
+      scoreArrangement(createGroupsFromOrder(order), scoringContext).total;
 
     const population: Genome[] = [];
     for (let i = 0; i < populationSize; i++) {
@@ -128,11 +136,17 @@ export class GeneticGroupingAlgorithm implements GroupingAlgorithm {
       }
 
       current = next;
+      params.onProgress?.({
+        iteration: generation + 1,
+        totalIterations: generations,
+        bestScore: Math.max(...current.map((genome) => genome.score))
+      });
     }
 
     current.sort((a, b) => b.score - a.score);
     const bestOrder = current[0]?.order ?? params.studentIds;
     const finalGroups = createGroupsFromOrder(bestOrder);
+    separateAvoidPairs(finalGroups, avoidPairs, keepTogether);
 
     return {
       success: true,
@@ -141,7 +155,8 @@ export class GeneticGroupingAlgorithm implements GroupingAlgorithm {
         name: group.name,
         capacity: group.capacity,
         memberIds: group.memberIds
-      }))
+      })),
+      scoreBreakdown: scoreArrangement(finalGroups, scoringContext)
     };
   }
 }
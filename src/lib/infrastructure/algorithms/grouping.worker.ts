@@ -0,0 +1,30 @@
+/**
+ * Web Worker entry for WorkerGroupingAlgorithm.
+ *
+ * Receives a GroupingRunRequest, runs it against in-memory repositories seeded
+ * from its snapshot, and posts progress reports followed by the result.
+ */
+
+import { runGroupingRequest } from '$lib/infrastructure/algorithms/groupingRunner';
+import type {
+  GroupingWorkerMessage,
+  GroupingWorkerRequest
+} from '$lib/infrastructure/algorithms/workerGrouping';
+
+function post(message: GroupingWorkerMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<GroupingWorkerRequest>) => {
+  try {
+    const result = await runGroupingRequest(event.data.request, (progress) =>
+      post({ type: 'progress', progress })
+    );
+    post({ type: 'result', result });
+  } catch (e) {
+    post({
+      type: 'result',
+      result: { success: false, message: e instanceof Error ? e.message : 'Grouping failed' }
+    });
+  }
+};
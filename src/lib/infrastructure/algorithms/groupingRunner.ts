@@ -0,0 +1,81 @@
+import type {
+  GroupingAlgorithm,
+  GroupingProgress,
+  PlacementRepository,
+  PreferenceRepository,
+  StudentRepository
+} from '$lib/application/ports';
+import type { Placement, Preference, Student } from '$lib/domain';
+import {
+  InMemoryPlacementRepository,
+  InMemoryPreferenceRepository,
+  InMemoryStudentRepository
+} from '$lib/infrastructure/repositories/inMemory';
+import { UuidIdGenerator } from '$lib/infrastructure/services';
+import { createGroupingAlgorithm } from '$lib/infrastructure/algorithms/algorithmRegistry';
+
+/**
+ * Everything the grouping algorithms read from repositories, as plain data
+ * that can be posted to a worker.
+ */
+export interface GroupingSnapshot {
+  students: Student[];
+  preferences: Preference[];
+  placements: Placement[];
+}
+
+/**
+ * A self-contained grouping run: the algorithm parameters plus their data.
+ */
+export interface GroupingRunRequest {
+  programId: string;
+  studentIds: string[];
+  algorithmConfig?: unknown;
+  snapshot: GroupingSnapshot;
+}
+
+export type GroupingOutcome = Awaited<ReturnType<GroupingAlgorithm['generateGroups']>>;
+
+/**
+ * Read the students, program preferences and past placements a grouping run needs.
+ */
+export async function loadGroupingSnapshot(
+  repos: {
+    studentRepo: StudentRepository;
+    preferenceRepo: PreferenceRepository;
+    placementRepo: PlacementRepository;
+  },
+  params: { programId: string; studentIds: string[] }
+): Promise<GroupingSnapshot> {
+  const [students, preferences, placementLists] = await Promise.all([
+    repos.studentRepo.getByIds(params.studentIds),
+    repos.preferenceRepo.listByProgramId(params.programId),
+    Promise.all(params.studentIds.map((id) => repos.placementRepo.listByStudentId(id)))
+  ]);
+
+  const placementsById = new Map(placementLists.flat().map((p) => [p.id, p]));
+  return { students, preferences, placements: [...placementsById.values()] };
+}
+
+/**
+ * Run a grouping request against in-memory repositories seeded from its snapshot.
+ * Used inside the grouping worker and as its in-process fallback.
+ */
+export async function runGroupingRequest(
+  request: GroupingRunRequest,
+  onProgress?: (progress: GroupingProgress) => void
+): Promise<GroupingOutcome> {
+  const algorithm = createGroupingAlgorithm({
+    studentRepo: new InMemoryStudentRepository(request.snapshot.students),
+    preferenceRepo: new InMemoryPreferenceRepository(request.snapshot.preferences),
+    placementRepo: new InMemoryPlacementRepository(request.snapshot.placements),
+    idGenerator: new UuidIdGenerator()
+  });
+
+  return algorithm.generateGroups({
+    programId: request.programId,
+    studentIds: request.studentIds,
+    algorithmConfig: request.algorithmConfig,
+    onProgress
+  });
+}
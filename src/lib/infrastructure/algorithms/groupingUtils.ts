@@ -1,6 +1,8 @@
-import type { Group } from '$lib/domain';
-import type { IdGenerator } from '$lib/application/ports';
+import type { AttributeBalanceSpec, Group, ScoringWeights, Student } from '$lib/domain';
+import type { IdGenerator, PlacementRepository, StudentRepository } from '$lib/application/ports';
 import { randomColorIndex } from '$lib/utils/groupColors';
+import { buildKeepTogetherIndex } from '$lib/algorithms/keep-together';
+import { buildRecentGroupmatesMap } from '$lib/algorithms/buildConstraints';
 
 export interface SharedGroupingConfig {
   groups?: Array<{ id?: string; name: string; capacity?: number | null }>;
@@ -9,6 +11,18 @@ export interface SharedGroupingConfig {
   maxGroupSize?: number;
   seed?: number;
   algorithm?: string;
+  /** Sets of student IDs that must be placed in the same group. */
+  keepTogether?: string[][];
+  /** Pairs of student IDs that must not share a group (e.g., teacher-defined conflict rules). */
+  avoidPairs?: Array<[string, string]>;
+  /** Teacher-adjusted objective weights for optimizers (see domain/scoring). */
+  scoringWeights?: ScoringWeights;
+  /** Attributes to spread evenly across groups. */
+  balanceAttributes?: AttributeBalanceSpec[];
+  /** Penalize pairs who were groupmates in recent sessions. */
+  avoidRecentGroupmates?: boolean;
+  /** Number of most recent sessions to consider for avoidRecentGroupmates. Default: 1 */
+  lookbackSessions?: number;
 }
 
 export function parseGroupingConfig(config?: unknown): SharedGroupingConfig {
@@ -18,6 +32,39 @@ export function parseGroupingConfig(config?: unknown): SharedGroupingConfig {
   return {};
 }
 
+/**
+ * Load the student and placement data the shared scoring function needs for
+ * attribute balance and repeat groupmates. Data is only fetched when the
+ * config asks for it and the repository is available.
+ */
+export async function loadScoringData(
+  studentIds: string[],
+  config: SharedGroupingConfig,
+  repos: { studentRepo?: StudentRepository; placementRepo?: PlacementRepository }
+): Promise<{
+  studentsById?: Record<string, Student>;
+  recentGroupmates?: Map<string, Set<string>>;
+}> {
+  let studentsById: Record<string, Student> | undefined;
+  if (config.balanceAttributes?.length && repos.studentRepo) {
+    const students = await repos.studentRepo.getByIds(studentIds);
+    studentsById = Object.fromEntries(students.map((s) => [s.id, s]));
+  }
+
+  let recentGroupmates: Map<string, Set<string>> | undefined;
+  if (config.avoidRecentGroupmates && repos.placementRepo) {
+    const placementRepo = repos.placementRepo;
+    const placements = await Promise.all(studentIds.map((id) => placementRepo.listByStudentId(id)));
+    recentGroupmates = buildRecentGroupmatesMap(
+      placements.flat(),
+      studentIds,
+      config.lookbackSessions ?? 1
+    );
+  }
+
+  return { studentsById, recentGroupmates };
+}
+
 export function buildGroups(
   studentCount: number,
   config: SharedGroupingConfig,
@@ -121,3 +168,109 @@ export function seededRandom(seed: number): () => number {
 export function hasRemainingCapacity(group: Group): boolean {
   return group.capacity === null || group.memberIds.length < group.capacity;
 }
+
+/**
+ * Deal students into groups round-robin in the given order, respecting capacity.
+ *
+ * Members of a keep-together set are dealt as one block into the next group
+ * with room for all of them; if no group has room, they are dealt individually.
+ * Returns false if any student could not be placed.
+ */
+export function distributeRoundRobin(
+  groups: Group[],
+  order: string[],
+  keepTogetherSets: string[][] = []
+): boolean {
+  const keepTogetherIndex = buildKeepTogetherIndex(keepTogetherSets);
+  const inOrder = new Set(order);
+  const placed = new Set<string>();
+  let groupIndex = 0;
+
+  const placeBlock = (ids: string[]): boolean => {
+    for (let attempts = 0; attempts < groups.length; attempts++) {
+      const group = groups[groupIndex % groups.length];
+      groupIndex++;
+      const remaining =
+        group.capacity === null ? Infinity : group.capacity - group.memberIds.length;
+      if (remaining >= ids.length) {
+        group.memberIds.push(...ids);
+        ids.forEach((id) => placed.add(id));
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (const studentId of order) {
+    if (placed.has(studentId)) continue;
+
+    const set = keepTogetherIndex.get(studentId);
+    const block = set ? set.filter((id) => inOrder.has(id) && !placed.has(id)) : [studentId];
+    if (block.length > 1 && placeBlock(block)) continue;
+    if (!placeBlock([studentId])) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Repair pass that splits up avoid pairs placed in the same group.
+ *
+ * For each pair sharing a group, tries to swap one of the two students with a
+ * student from another group (falling back to a move into a group with spare
+ * capacity) without creating a new conflict. Members of keep-together sets are
+ * never moved.
+ */
+export function separateAvoidPairs(
+  groups: Group[],
+  avoidPairs: Array<[string, string]> = [],
+  keepTogetherSets: string[][] = []
+): void {
+  if (avoidPairs.length === 0) return;
+
+  const avoidMap = new Map<string, Set<string>>();
+  for (const [a, b] of avoidPairs) {
+    if (!avoidMap.has(a)) avoidMap.set(a, new Set());
+    if (!avoidMap.has(b)) avoidMap.set(b, new Set());
+    avoidMap.get(a)!.add(b);
+    avoidMap.get(b)!.add(a);
+  }
+  const pinned = new Set(keepTogetherSets.flat());
+
+  const conflictsIn = (group: Group, studentId: string, ignoreId?: string): boolean => {
+    const avoided = avoidMap.get(studentId);
+    if (!avoided) return false;
+    return group.memberIds.some((id) => id !== ignoreId && id !== studentId && avoided.has(id));
+  };
+
+  const relocate = (group: Group, studentId: string): boolean => {
+    // Prefer swaps so group sizes stay balanced
+    for (const other of groups) {
+      if (other === group) continue;
+      for (const candidateId of other.memberIds) {
+        if (pinned.has(candidateId)) continue;
+        if (conflictsIn(other, studentId, candidateId)) continue;
+        if (conflictsIn(group, candidateId, studentId)) continue;
+        group.memberIds = group.memberIds.map((id) => (id === studentId ? candidateId : id));
+        other.memberIds = other.memberIds.map((id) => (id === candidateId ? studentId : id));
+        return true;
+      }
+    }
+    for (const other of groups) {
+      if (other === group || conflictsIn(other, studentId) || !hasRemainingCapacity(other)) {
+        continue;
+      }
+      group.memberIds = group.memberIds.filter((id) => id !== studentId);
+      other.memberIds.push(studentId);
+      return true;
+    }
+    return false;
+  };
+
+  for (const [a, b] of avoidPairs) {
+    const group = groups.find((g) => g.memberIds.includes(a) && g.memberIds.includes(b));
+    if (!group) continue;
+    if (!pinned.has(b) && relocate(group, b)) continue;
+    if (!pinned.has(a)) relocate(group, a);
+  }
+}
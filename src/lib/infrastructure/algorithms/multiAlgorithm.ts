@@ -1,4 +1,4 @@
-import type { GroupingAlgorithm } from '$lib/application/ports';
+import type { GroupingAlgorithm, GroupingParams } from '$lib/application/ports';
 import { parseGroupingConfig } from '$lib/infrastructure/algorithms/groupingUtils';
 
 export interface AlgorithmDefinition {
@@ -17,11 +17,7 @@ export class MultiAlgorithmGroupingAlgorithm implements GroupingAlgorithm {
     this.byId = new Map(definitions.map((definition) => [definition.id, definition]));
   }
 
-  async generateGroups(params: {
-    programId: string;
-    studentIds: string[];
-    algorithmConfig?: unknown;
-  }): Promise<
+  async generateGroups(params: GroupingParams): Promise<
     | {
         success: true;
         groups: { id: string; name: string; capacity: number | null; memberIds: string[] }[];
@@ -4,7 +4,8 @@ import {
   buildGroups,
   parseGroupingConfig,
   shuffleWithSeed,
-  hasRemainingCapacity
+  hasRemainingCapacity,
+  separateAvoidPairs
 } from '$lib/infrastructure/algorithms/groupingUtils';
 
 function extractGroupChoices(pref: Preference): string[] {
@@ -23,6 +24,7 @@ function extractGroupChoices(pref: Preference): string[] {
 /**
  * Preference-first grouping algorithm.
  * Assigns students to their highest-ranked available group, then fills remaining.
+ * Avoid pairs that end up together are separated afterwards.
  */
 export class PreferenceFirstGroupingAlgorithm implements GroupingAlgorithm {
   constructor(
@@ -107,6 +109,8 @@ export class PreferenceFirstGroupingAlgorithm implements GroupingAlgorithm {
       }
     }
 
+    separateAvoidPairs(groups, config.avoidPairs);
+
     return {
       success: true,
       groups: groups.map((group) => ({
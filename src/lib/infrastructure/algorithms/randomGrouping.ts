@@ -5,12 +5,14 @@ import {
   parseGroupingConfig,
   shuffleWithSeed,
   seededRandom,
-  hasRemainingCapacity
+  hasRemainingCapacity,
+  separateAvoidPairs
 } from '$lib/infrastructure/algorithms/groupingUtils';
 
 /**
  * Random shuffle grouping algorithm.
- * Assigns students to random groups while respecting capacity.
+ * Assigns students to random groups while respecting capacity, then separates
+ * any avoid pairs that landed together.
  */
 export class RandomGroupingAlgorithm implements GroupingAlgorithm {
   constructor(private idGenerator: IdGenerator) {}
@@ -47,6 +49,8 @@ export class RandomGroupingAlgorithm implements GroupingAlgorithm {
       available[index].memberIds.push(studentId);
     }
 
+    separateAvoidPairs(groups, config.avoidPairs);
+
     return {
       success: true,
       groups: groups.map((group: Group) => ({
@@ -2,14 +2,17 @@ import type { GroupingAlgorithm, IdGenerator } from '$lib/application/ports';
 import type { Group } from '$lib/domain';
 import {
   buildGroups,
+  distributeRoundRobin,
   parseGroupingConfig,
   shuffleWithSeed,
-  hasRemainingCapacity
+  separateAvoidPairs
 } from '$lib/infrastructure/algorithms/groupingUtils';
+import { mergeKeepTogetherSets } from '$lib/algorithms/keep-together';
 
 /**
  * Round-robin grouping algorithm.
  * Distributes students evenly across groups in a cycling order.
+ * Keep-together sets are dealt as a block; avoid pairs are separated afterwards.
  */
 export class RoundRobinGroupingAlgorithm implements GroupingAlgorithm {
   constructor(private idGenerator: IdGenerator) {}
@@ -36,26 +39,14 @@ export class RoundRobinGroupingAlgorithm implements GroupingAlgorithm {
         ? shuffleWithSeed(params.studentIds, config.seed)
         : [...params.studentIds];
 
-    let index = 0;
-    for (const studentId of order) {
-      let attempts = 0;
-      let assigned = false;
-      while (attempts < groups.length) {
-        const group = groups[index % groups.length];
-        index++;
-        attempts++;
-        if (hasRemainingCapacity(group)) {
-          group.memberIds.push(studentId);
-          assigned = true;
-          break;
-        }
-      }
+    const keepTogether = mergeKeepTogetherSets(config.keepTogether, params.studentIds);
 
-      if (!assigned) {
-        return { success: false, message: 'All groups are at capacity' };
-      }
+    if (!distributeRoundRobin(groups, order, keepTogether)) {
+      return { success: false, message: 'All groups are at capacity' };
     }
 
+    separateAvoidPairs(groups, config.avoidPairs, keepTogether);
+
     return {
       success: true,
       groups: groups.map((group: Group) => ({
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { SimulatedAnnealingGroupingAlgorithm } from './simulatedAnnealingGrouping';
+import { InMemoryPreferenceRepository } from '../repositories/inMemory';
+import { UuidIdGenerator } from '../services';
+import type { Preference, StudentPreference } from '$lib/domain';
+
+const studentIds = Array.from({ length: 12 }, (_, i) => `student-${i + 1}`);
+
+function groupPreference(studentId: string, likeGroupIds: string[]): Preference {
+  return {
+    id: `pref-${studentId}`,
+    programId: 'test-program',
+    studentId,
+    payload: {
+      studentId,
+      avoidStudentIds: [],
+      likeGroupIds,
+      avoidGroupIds: []
+    } satisfies StudentPreference
+  };
+}
+
+describe('SimulatedAnnealingGroupingAlgorithm', () => {
+  it('assigns every student exactly once', async () => {
+    const algorithm = new SimulatedAnnealingGroupingAlgorithm(
+      new InMemoryPreferenceRepository([]),
+      new UuidIdGenerator()
+    );
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { seed: 42 }
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const members = result.groups.flatMap((g) => g.memberIds);
+      expect(members).toHaveLength(studentIds.length);
+      expect(new Set(members).size).toBe(studentIds.length);
+    }
+  });
+
+  it('keeps keep-together sets in one group even when preferences pull them apart', async () => {
+    const preferences = [
+      groupPreference('student-1', ['Group 1']),
+      groupPreference('student-2', ['Group 3'])
+    ];
+    const algorithm = new SimulatedAnnealingGroupingAlgorithm(
+      new InMemoryPreferenceRepository(preferences),
+      new UuidIdGenerator()
+    );
+
+    for (const seed of [1, 7, 42]) {
+      const result = await algorithm.generateGroups({
+        programId: 'test-program',
+        studentIds,
+        algorithmConfig: {
+          seed,
+          groups: [
+            { name: 'Group 1', capacity: 4 },
+            { name: 'Group 2', capacity: 4 },
+            { name: 'Group 3', capacity: 4 }
+          ],
+          keepTogether: [['student-1', 'student-2', 'student-5']]
+        }
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const groupOf = (id: string) => result.groups.find((g) => g.memberIds.includes(id))?.id;
+        expect(groupOf('student-2')).toBe(groupOf('student-1'));
+        expect(groupOf('student-5')).toBe(groupOf('student-1'));
+      }
+    }
+  });
+
+  it('never places an avoid pair in the same group', async () => {
+    const preferences = [
+      groupPreference('student-1', ['Group 1']),
+      groupPreference('student-2', ['Group 1'])
+    ];
+    const algorithm = new SimulatedAnnealingGroupingAlgorithm(
+      new InMemoryPreferenceRepository(preferences),
+      new UuidIdGenerator()
+    );
+
+    for (const seed of [1, 7, 42]) {
+      const result = await algorithm.generateGroups({
+        programId: 'test-program',
+        studentIds,
+        algorithmConfig: {
+          seed,
+          groups: [
+            { name: 'Group 1', capacity: 4 },
+            { name: 'Group 2', capacity: 4 },
+            { name: 'Group 3', capacity: 4 }
+          ],
+          avoidPairs: [['student-1', 'student-2']]
+        }
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const groupOf = (id: string) => result.groups.find((g) => g.memberIds.includes(id))?.id;
+        expect(groupOf('student-2')).not.toBe(groupOf('student-1'));
+      }
+    }
+  });
+
+  it('returns the score breakdown of the chosen groups using teacher weights', async () => {
+    const algorithm = new SimulatedAnnealingGroupingAlgorithm(
+      new InMemoryPreferenceRepository([groupPreference('student-1', ['Group 1'])]),
+      new UuidIdGenerator()
+    );
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { seed: 42, scoringWeights: { topChoice: 7 } }
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.scoreBreakdown?.objectives.topChoice.weight).toBe(7);
+      expect(result.scoreBreakdown?.objectives.avoidPairs.value).toBe(0);
+    }
+  });
+});
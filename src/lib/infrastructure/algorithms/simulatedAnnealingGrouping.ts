@@ -1,31 +1,53 @@
-import type { GroupingAlgorithm, IdGenerator, PreferenceRepository } from '$lib/application/ports';
-import type { Group } from '$lib/domain';
+import type {
+  GroupingAlgorithm,
+  GroupingProgress,
+  IdGenerator,
+  PlacementRepository,
+  PreferenceRepository,
+  StudentRepository
+} from '$lib/application/ports';
+import type { Group, ScoreBreakdown } from '$lib/domain';
 import {
   buildGroups,
+  distributeRoundRobin,
+  loadScoringData,
   parseGroupingConfig,
   shuffleWithSeed,
-  seededRandom
+  seededRandom,
+  separateAvoidPairs
 } from '$lib/infrastructure/algorithms/groupingUtils';
-import { scoreGroups } from '$lib/infrastructure/algorithms/scoreGroups';
+import { mergeKeepTogetherSets } from '$lib/algorithms/keep-together';
+import { scoreArrangement, type ScoringContext } from '$lib/algorithms/scoring';
+
+/**
+ * How many swaps to try between progress reports.
+ */
+const PROGRESS_INTERVAL = 25;
 
 /**
  * Simulated annealing grouping algorithm.
- * Iteratively swaps students between groups to improve preference satisfaction.
+ * Iteratively swaps students between groups to improve the shared weighted score
+ * (see algorithms/scoring). Keep-together sets start in one group and swaps that
+ * split them are penalized, as are swaps that put an avoid pair in the same group.
  */
 export class SimulatedAnnealingGroupingAlgorithm implements GroupingAlgorithm {
   constructor(
     private preferenceRepo: PreferenceRepository,
-    private idGenerator: IdGenerator
+    private idGenerator: IdGenerator,
+    private studentRepo?: StudentRepository,
+    private placementRepo?: PlacementRepository
   ) {}
 
   async generateGroups(params: {
     programId: string;
     studentIds: string[];
     algorithmConfig?: unknown;
+    onProgress?: (progress: GroupingProgress) => void;
   }): Promise<
     | {
         success: true;
         groups: { id: string; name: string; capacity: number | null; memberIds: string[] }[];
+        scoreBreakdown?: ScoreBreakdown;
       }
     | { success: false; message: string }
   > {
@@ -38,28 +60,26 @@ export class SimulatedAnnealingGroupingAlgorithm implements GroupingAlgorithm {
     const rng = seededRandom(seed);
     const groups = buildGroups(params.studentIds.length, config, this.idGenerator);
     const order = shuffleWithSeed(params.studentIds, seed);
+    const keepTogether = mergeKeepTogetherSets(config.keepTogether, params.studentIds);
+    const avoidPairs = config.avoidPairs ?? [];
 
-    let groupIndex = 0;
-    for (const studentId of order) {
-      let attempts = 0;
-      let assigned = false;
-      while (attempts < groups.length) {
-        const group = groups[groupIndex % groups.length];
-        groupIndex++;
-        attempts++;
-        const hasCapacity = group.capacity === null || group.memberIds.length < group.capacity;
-        if (hasCapacity) {
-          group.memberIds.push(studentId);
-          assigned = true;
-          break;
-        }
-      }
-      if (!assigned) {
-        return { success: false, message: 'All groups are at capacity' };
-      }
+    if (!distributeRoundRobin(groups, order, keepTogether)) {
+      return { success: false, message: 'All groups are at capacity' };
     }
 
     const preferences = await this.preferenceRepo.listByProgramId(params.programId);
+    const scoringContext: ScoringContext = {
+      preferences,
+      participantIds: params.studentIds,
+      keepTogether,
+      avoidPairs,
+      balanceAttributes: config.balanceAttributes,
+      weights: config.scoringWeights,
+      ...(await loadScoringData(params.studentIds, config, {
+        studentRepo: this.studentRepo,
+        placementRepo: this.placementRepo
+      }))
+    };
     const studentIds = [...params.studentIds];
     const studentToGroup = new Map<string, Group>();
     for (const group of groups) {
@@ -72,11 +92,7 @@ export class SimulatedAnnealingGroupingAlgorithm implements GroupingAlgorithm {
     let temperature = 1.0;
     const coolingRate = 0.95;
 
-    let { score: currentScore } = scoreGroups({
-      groups,
-      preferences,
-      participantIds: params.studentIds
-    });
+    let currentScore = scoreArrangement(groups, scoringContext).total;
     let bestScore = currentScore;
     let bestGroups = groups.map((group) => ({
       ...group,
@@ -84,6 +100,10 @@ export class SimulatedAnnealingGroupingAlgorithm implements GroupingAlgorithm {
     }));
 
     for (let i = 0; i < maxIterations; i++) {
+      if (i > 0 && i % PROGRESS_INTERVAL === 0) {
+        params.onProgress?.({ iteration: i, totalIterations: maxIterations, bestScore });
+      }
+
       const aIndex = Math.floor(rng() * studentIds.length);
       let bIndex = Math.floor(rng() * studentIds.length);
       if (bIndex === aIndex) {
@@ -111,11 +131,7 @@ export class SimulatedAnnealingGroupingAlgorithm implements GroupingAlgorithm {
       studentToGroup.set(studentA, groupB);
       studentToGroup.set(studentB, groupA);
 
-      const { score: candidateScore } = scoreGroups({
-        groups,
-        preferences,
-        participantIds: params.studentIds
-      });
+      const candidateScore = scoreArrangement(groups, scoringContext).total;
 
       const delta = candidateScore - currentScore;
       if (delta > 0 || Math.exp(delta / temperature) > rng()) {
@@ -140,6 +156,10 @@ export class SimulatedAnnealingGroupingAlgorithm implements GroupingAlgorithm {
       }
     }
 
+    params.onProgress?.({ iteration: maxIterations, totalIterations: maxIterations, bestScore });
+
+    separateAvoidPairs(bestGroups, avoidPairs, keepTogether);
+
     return {
       success: true,
       groups: bestGroups.map((group) => ({
@@ -147,7 +167,8 @@ export class SimulatedAnnealingGroupingAlgorithm implements GroupingAlgorithm {
         name: group.name,
         capacity: group.capacity,
         memberIds: group.memberIds
-      }))
+      })),
+      scoreBreakdown: scoreArrangement(bestGroups, scoringContext)
     };
   }
 }
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  WorkerGroupingAlgorithm,
+  type GroupingWorker,
+  type GroupingWorkerMessage,
+  type GroupingWorkerRequest
+} from './workerGrouping';
+import { runGroupingRequest } from './groupingRunner';
+import {
+  InMemoryPlacementRepository,
+  InMemoryPreferenceRepository,
+  InMemoryStudentRepository
+} from '../repositories/inMemory';
+import type { GroupingProgress } from '$lib/application/ports';
+import type { Student } from '$lib/domain';
+
+const students: Student[] = Array.from({ length: 12 }, (_, i) => ({
+  id: `student-${i + 1}`,
+  firstName: `Student ${i + 1}`
+}));
+const studentIds = students.map((s) => s.id);
+
+function createRepos() {
+  return {
+    studentRepo: new InMemoryStudentRepository(students),
+    preferenceRepo: new InMemoryPreferenceRepository([]),
+    placementRepo: new InMemoryPlacementRepository([])
+  };
+}
+
+/**
+ * Fake worker that runs requests in-process on the next tick, like a real worker
+ * would. A busy worker never answers, standing in for a long run.
+ */
+class FakeWorker implements GroupingWorker {
+  onmessage: ((event: MessageEvent<GroupingWorkerMessage>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+  posted: GroupingWorkerRequest[] = [];
+
+  constructor(private busy = false) {}
+
+  postMessage(message: GroupingWorkerRequest): void {
+    this.posted.push(message);
+    if (this.busy) return;
+    setTimeout(async () => {
+      const emit = (data: GroupingWorkerMessage) => {
+        if (!this.terminated) this.onmessage?.({ data } as MessageEvent<GroupingWorkerMessage>);
+      };
+      const result = await runGroupingRequest(message.request, (progress) =>
+        emit({ type: 'progress', progress })
+      );
+      emit({ type: 'result', result });
+    }, 0);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+describe('WorkerGroupingAlgorithm', () => {
+  it('runs in-process without a worker and relays progress', async () => {
+    const algorithm = new WorkerGroupingAlgorithm(createRepos());
+    const progress: GroupingProgress[] = [];
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { algorithm: 'simulated-annealing', seed: 42 },
+      onProgress: (p) => progress.push(p)
+    });
+
+    expect(result.success).toBe(true);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress[progress.length - 1].iteration).toBe(
+      progress[progress.length - 1].totalIterations
+    );
+  });
+
+  it('posts a serializable snapshot to the worker and terminates it when done', async () => {
+    const worker = new FakeWorker();
+    const algorithm = new WorkerGroupingAlgorithm(createRepos(), () => worker);
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { algorithm: 'genetic', seed: 7 }
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.groups.flatMap((g) => g.memberIds)).toHaveLength(studentIds.length);
+    }
+    expect(worker.posted[0].request.snapshot.students).toHaveLength(students.length);
+    expect(() => structuredClone(worker.posted[0])).not.toThrow();
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('terminates the worker and fails when cancelled', async () => {
+    const worker = new FakeWorker(true);
+    const algorithm = new WorkerGroupingAlgorithm(createRepos(), () => worker);
+    const controller = new AbortController();
+
+    const pending = algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { algorithm: 'simulated-annealing', seed: 1 },
+      signal: controller.signal
+    });
+    await vi.waitFor(() => expect(worker.posted).toHaveLength(1));
+    controller.abort();
+
+    const result = await pending;
+    expect(result.success).toBe(false);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('falls back to running in-process when the worker cannot start', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const algorithm = new WorkerGroupingAlgorithm(createRepos(), () => {
+      throw new Error('Workers are not supported');
+    });
+
+    const result = await algorithm.generateGroups({
+      programId: 'test-program',
+      studentIds,
+      algorithmConfig: { algorithm: 'round-robin' }
+    });
+
+    expect(result.success).toBe(true);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,140 @@
+import type {
+  GroupingAlgorithm,
+  GroupingParams,
+  GroupingProgress,
+  PlacementRepository,
+  PreferenceRepository,
+  StudentRepository
+} from '$lib/application/ports';
+import {
+  loadGroupingSnapshot,
+  runGroupingRequest,
+  type GroupingOutcome,
+  type GroupingRunRequest
+} from '$lib/infrastructure/algorithms/groupingRunner';
+
+/**
+ * Message posted to the grouping worker.
+ */
+export interface GroupingWorkerRequest {
+  type: 'run';
+  request: GroupingRunRequest;
+}
+
+/**
+ * Messages posted back by the grouping worker.
+ */
+export type GroupingWorkerMessage =
+  | { type: 'progress'; progress: GroupingProgress }
+  | { type: 'result'; result: GroupingOutcome };
+
+/**
+ * The parts of a Web Worker the adapter uses (lets tests supply a fake).
+ */
+export interface GroupingWorker {
+  postMessage(message: GroupingWorkerRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<GroupingWorkerMessage>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+const CANCELLED: GroupingOutcome = { success: false, message: 'Generation cancelled' };
+
+/**
+ * Start a browser Web Worker running grouping.worker.ts.
+ */
+export function createBrowserGroupingWorker(): GroupingWorker {
+  return new Worker(new URL('./grouping.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Grouping algorithm that runs the registered algorithms off the main thread.
+ *
+ * Loads the students, preferences and placements the algorithms need, posts them
+ * to a fresh worker and relays its progress reports. Aborting the signal
+ * terminates the worker. Without a worker factory (or when the worker cannot be
+ * started) the same request runs in-process.
+ */
+export class WorkerGroupingAlgorithm implements GroupingAlgorithm {
+  constructor(
+    private repos: {
+      studentRepo: StudentRepository;
+      preferenceRepo: PreferenceRepository;
+      placementRepo: PlacementRepository;
+    },
+    private createWorker?: () => GroupingWorker
+  ) {}
+
+  async generateGroups(params: GroupingParams): Promise<GroupingOutcome> {
+    if (params.signal?.aborted) return CANCELLED;
+
+    const request: GroupingRunRequest = {
+      programId: params.programId,
+      studentIds: [...params.studentIds],
+      // Strip proxies and other values that cannot be cloned into the worker
+      algorithmConfig:
+        params.algorithmConfig === undefined
+          ? undefined
+          : JSON.parse(JSON.stringify(params.algorithmConfig)),
+      snapshot: await loadGroupingSnapshot(this.repos, params)
+    };
+    if (params.signal?.aborted) return CANCELLED;
+
+    let worker: GroupingWorker | null = null;
+    try {
+      worker = this.createWorker?.() ?? null;
+    } catch (e) {
+      console.warn('Grouping worker unavailable, running in-process:', e);
+    }
+    if (!worker) return this.runInProcess(request, params);
+
+    return this.runInWorker(worker, request, params);
+  }
+
+  private async runInProcess(
+    request: GroupingRunRequest,
+    params: GroupingParams
+  ): Promise<GroupingOutcome> {
+    const result = await runGroupingRequest(request, params.onProgress);
+    return params.signal?.aborted ? CANCELLED : result;
+  }
+
+  private runInWorker(
+    worker: GroupingWorker,
+    request: GroupingRunRequest,
+    params: GroupingParams
+  ): Promise<GroupingOutcome> {
+    return new Promise((resolve) => {
+      const finish = (result: GroupingOutcome) => {
+        params.signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+        resolve(result);
+      };
+      const onAbort = () => finish(CANCELLED);
+      params.signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.onmessage = (event) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          params.onProgress?.(message.progress);
+        } else {
+          finish(message.result);
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        finish({ success: false, message: event.message || 'Grouping worker failed' });
+      };
+
+      try {
+        worker.postMessage({ type: 'run', request });
+      } catch (e) {
+        // Data that cannot be cloned into the worker: run on this thread instead
+        console.warn('Could not post to grouping worker, running in-process:', e);
+        params.signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+        resolve(this.runInProcess(request, params));
+      }
+    });
+  }
+}
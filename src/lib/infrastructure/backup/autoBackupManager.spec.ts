@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AutoBackupData } from '$lib/application/ports';
+import { InMemoryStorageAdapter } from '$lib/infrastructure/storage';
+import { createInMemoryEnvironment } from '$lib/infrastructure/inMemoryEnvironment';
+import { AutoBackupManager } from './autoBackupManager';
+import { InMemoryAutoBackupStore } from './autoBackupStore';
+
+const START = Date.parse('2025-03-01T09:00:00Z');
+const MINUTE = 60_000;
+
+function setup() {
+  let now = START;
+  let nextId = 0;
+  const data: AutoBackupData = {
+    version: 1,
+    dbVersion: 9,
+    exportedAt: '2025-03-01T09:00:00.000Z',
+    stores: { programs: [{ id: 'p1' }], students: [] }
+  };
+  const store = new InMemoryAutoBackupStore();
+  const storage = new InMemoryStorageAdapter();
+  const manager = new AutoBackupManager({
+    store,
+    storage,
+    exportData: async () => structuredClone(data),
+    now: () => new Date(now),
+    newId: () => `snap-${++nextId}`
+  });
+
+  return {
+    manager,
+    store,
+    storage,
+    data,
+    advance(minutes: number) {
+      now += minutes * MINUTE;
+    }
+  };
+}
+
+describe('AutoBackupManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('takes scheduled snapshots only when due and only when data changed', async () => {
+    const { manager, data, advance } = setup();
+
+    await manager.initialize();
+    expect(await manager.listSnapshots()).toMatchObject([
+      { id: 'snap-1', trigger: 'schedule', recordCounts: { programs: 1, students: 0 } }
+    ]);
+
+    advance(30);
+    data.stores.students.push({ id: 's1' });
+    await manager.tick();
+    expect(await manager.listSnapshots()).toHaveLength(1);
+
+    advance(30);
+    await manager.tick();
+    advance(60);
+    await manager.tick(); // unchanged since snap-2
+    const snapshots = await manager.listSnapshots();
+    expect(snapshots.map((s) => s.id)).toEqual(['snap-2', 'snap-1']);
+    expect(snapshots[0].createdAt).toEqual(new Date(START + 60 * MINUTE));
+
+    manager.dispose();
+  });
+
+  it('takes a snapshot once edits reach the threshold and settle', async () => {
+    const { manager, data } = setup();
+    await manager.setConfig({ editThreshold: 3 });
+
+    data.stores.programs.push({ id: 'p2' });
+    manager.recordEdit();
+    manager.recordEdit();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(await manager.listSnapshots()).toHaveLength(0);
+
+    manager.recordEdit();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(await manager.listSnapshots()).toMatchObject([
+      { trigger: 'edits', recordCounts: { programs: 2 } }
+    ]);
+  });
+
+  it('keeps only the newest snapshots', async () => {
+    const { manager, store, advance } = setup();
+    await manager.setConfig({ keep: 2 });
+
+    for (let i = 0; i < 4; i++) {
+      await manager.backupNow();
+      advance(1);
+    }
+
+    expect((await manager.listSnapshots()).map((s) => s.id)).toEqual(['snap-4', 'snap-3']);
+    expect(await store.getData('snap-1')).toBeNull();
+  });
+
+  it('returns snapshot data for restoring', async () => {
+    const { manager, data } = setup();
+
+    const snapshot = await manager.backupNow();
+
+    expect(await manager.getSnapshotData(snapshot.id)).toEqual(data);
+    expect(await manager.getSnapshotData('missing')).toBeNull();
+  });
+
+  it('persists its configuration', async () => {
+    const { manager, storage, store } = setup();
+    await manager.setConfig({ intervalMinutes: 240, enabled: false });
+
+    const reloaded = new AutoBackupManager({
+      store,
+      storage,
+      exportData: async () => {
+        throw new Error('should not export while disabled');
+      }
+    });
+    await reloaded.initialize();
+
+    expect(reloaded.getConfig()).toMatchObject({ intervalMinutes: 240, enabled: false });
+    reloaded.dispose();
+  });
+
+  it('counts repository writes made through the environment', async () => {
+    const { manager } = setup();
+    const recordEdit = vi.spyOn(manager, 'recordEdit');
+    const env = createInMemoryEnvironment(undefined, { autoBackupService: manager });
+
+    await env.programRepo.listAll();
+    await env.studentRepo.saveMany([{ id: 's1', firstName: 'Ana' }]);
+    await env.sessionRepo.delete('missing');
+
+    expect(recordEdit).toHaveBeenCalledTimes(2);
+  });
+});
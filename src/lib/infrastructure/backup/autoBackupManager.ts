@@ -0,0 +1,249 @@
+/**
+ * Automatic local backups.
+ *
+ * Snapshots all stores on a schedule and after a number of edits, keeping the
+ * newest `keep` snapshots. Scheduled snapshots are skipped when nothing changed
+ * since the previous one, so an idle device does not fill its history with
+ * identical copies.
+ *
+ * @module infrastructure/backup/autoBackupManager
+ */
+
+import type {
+  AutoBackupConfig,
+  AutoBackupData,
+  AutoBackupService,
+  AutoBackupSnapshot,
+  AutoBackupTrigger,
+  StoragePort
+} from '$lib/application/ports';
+import type { AutoBackupStore, StoredSnapshot } from './autoBackupStore';
+
+const AUTO_BACKUP_CONFIG_KEY = 'groupwheel-auto-backup-config';
+
+/** How often the schedule is checked. */
+const TICK_INTERVAL_MS = 60_000;
+
+/** Wait for a burst of edits to settle before taking an edit-triggered snapshot. */
+const EDIT_SETTLE_MS = 5_000;
+
+export const DEFAULT_AUTO_BACKUP_CONFIG: AutoBackupConfig = {
+  enabled: true,
+  intervalMinutes: 60,
+  editThreshold: 50,
+  keep: 10
+};
+
+export interface AutoBackupManagerDeps {
+  store: AutoBackupStore;
+  storage: StoragePort;
+  /** Reads all local data (the same export used for backup files). */
+  exportData: () => Promise<AutoBackupData>;
+  now?: () => Date;
+  newId?: () => string;
+}
+
+/**
+ * FNV-1a hash of the serialized stores. Only used to detect unchanged data.
+ */
+function fingerprint(data: AutoBackupData): string {
+  const text = JSON.stringify(data.stores);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length}:${(hash >>> 0).toString(16)}`;
+}
+
+function newestSnapshot(stored: StoredSnapshot[]): StoredSnapshot | null {
+  return stored.reduce<StoredSnapshot | null>(
+    (newest, s) => (!newest || s.createdAt > newest.createdAt ? s : newest),
+    null
+  );
+}
+
+function toSnapshot(stored: StoredSnapshot): AutoBackupSnapshot {
+  return {
+    id: stored.id,
+    createdAt: new Date(stored.createdAt),
+    trigger: stored.trigger,
+    recordCounts: stored.recordCounts
+  };
+}
+
+/**
+ * Auto-backup manager implementing AutoBackupService.
+ */
+export class AutoBackupManager implements AutoBackupService {
+  private config: AutoBackupConfig = { ...DEFAULT_AUTO_BACKUP_CONFIG };
+  private editsSinceSnapshot = 0;
+  /** Last scheduled attempt, so unchanged data is not re-exported every tick. */
+  private lastScheduledAt = 0;
+  private running: Promise<AutoBackupSnapshot | null> | null = null;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private editTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<() => void> = new Set();
+
+  private readonly store: AutoBackupStore;
+  private readonly storage: StoragePort;
+  private readonly exportData: () => Promise<AutoBackupData>;
+  private readonly now: () => Date;
+  private readonly newId: () => string;
+
+  constructor(deps: AutoBackupManagerDeps) {
+    this.store = deps.store;
+    this.storage = deps.storage;
+    this.exportData = deps.exportData;
+    this.now = deps.now ?? (() => new Date());
+    this.newId = deps.newId ?? (() => crypto.randomUUID());
+  }
+
+  /**
+   * Load the saved configuration and start the schedule.
+   */
+  async initialize(): Promise<void> {
+    try {
+      const stored = await this.storage.get(AUTO_BACKUP_CONFIG_KEY);
+      if (stored) {
+        this.config = { ...DEFAULT_AUTO_BACKUP_CONFIG, ...JSON.parse(stored) };
+      }
+    } catch {
+      this.config = { ...DEFAULT_AUTO_BACKUP_CONFIG };
+    }
+
+    this.tickTimer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    await this.tick();
+  }
+
+  /**
+   * Cleanup timers and listeners.
+   */
+  dispose(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    if (this.editTimer) clearTimeout(this.editTimer);
+    this.tickTimer = null;
+    this.editTimer = null;
+    this.listeners.clear();
+  }
+
+  getConfig(): AutoBackupConfig {
+    return { ...this.config };
+  }
+
+  async setConfig(config: Partial<AutoBackupConfig>): Promise<void> {
+    this.config = { ...this.config, ...config };
+    await this.storage.set(AUTO_BACKUP_CONFIG_KEY, JSON.stringify(this.config));
+    await this.prune();
+  }
+
+  async listSnapshots(): Promise<AutoBackupSnapshot[]> {
+    const stored = await this.store.list();
+    return stored.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toSnapshot);
+  }
+
+  async getSnapshotData(id: string): Promise<AutoBackupData | null> {
+    return this.store.getData(id);
+  }
+
+  async backupNow(): Promise<AutoBackupSnapshot> {
+    const snapshot = await this.snapshot('manual');
+    // Manual snapshots are never skipped
+    if (!snapshot) throw new Error('Backup failed.');
+    return snapshot;
+  }
+
+  recordEdit(): void {
+    this.editsSinceSnapshot++;
+    if (!this.config.enabled || this.editsSinceSnapshot < this.config.editThreshold) return;
+
+    if (this.editTimer) clearTimeout(this.editTimer);
+    this.editTimer = setTimeout(() => {
+      this.editTimer = null;
+      void this.snapshot('edits');
+    }, EDIT_SETTLE_MS);
+  }
+
+  onSnapshotsChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Take a scheduled snapshot if the interval has passed since the last one.
+   * Runs every minute while initialized; exposed for tests.
+   */
+  async tick(): Promise<void> {
+    if (!this.config.enabled) return;
+
+    const latest = newestSnapshot(await this.store.list());
+    const since = Math.max(latest ? new Date(latest.createdAt).getTime() : 0, this.lastScheduledAt);
+    const now = this.now().getTime();
+    if (since === 0 || now >= since + this.config.intervalMinutes * 60_000) {
+      this.lastScheduledAt = now;
+      await this.snapshot('schedule');
+    }
+  }
+
+  /**
+   * Take a snapshot, one at a time. Returns null when automatic snapshots are
+   * skipped because the data did not change, or when taking one failed.
+   */
+  private async snapshot(trigger: AutoBackupTrigger): Promise<AutoBackupSnapshot | null> {
+    while (this.running) await this.running;
+
+    this.running = this.takeSnapshot(trigger).catch((e) => {
+      console.error('Automatic backup failed:', e);
+      return null;
+    });
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async takeSnapshot(trigger: AutoBackupTrigger): Promise<AutoBackupSnapshot | null> {
+    const data = await this.exportData();
+    const latest = newestSnapshot(await this.store.list());
+
+    const hash = fingerprint(data);
+    this.editsSinceSnapshot = 0;
+    if (trigger !== 'manual' && latest?.fingerprint === hash) {
+      return null;
+    }
+
+    const snapshot: StoredSnapshot = {
+      id: this.newId(),
+      createdAt: this.now().toISOString(),
+      trigger,
+      recordCounts: Object.fromEntries(
+        Object.entries(data.stores).map(([storeName, records]) => [storeName, records.length])
+      ),
+      fingerprint: hash
+    };
+    await this.store.put(snapshot, data);
+    await this.prune();
+    return toSnapshot(snapshot);
+  }
+
+  /**
+   * Delete snapshots beyond the configured number to keep, oldest first.
+   */
+  private async prune(): Promise<void> {
+    const stored = await this.store.list();
+    const excess = stored
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(Math.max(1, this.config.keep));
+    for (const snapshot of excess) {
+      await this.store.delete(snapshot.id);
+    }
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
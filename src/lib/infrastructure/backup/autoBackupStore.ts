@@ -0,0 +1,128 @@
+/**
+ * Storage for automatic backup snapshots.
+ *
+ * Snapshots live in their own IndexedDB database, separate from the app data,
+ * so a broken or cleared `groupwheel` database does not take the backups with
+ * it. Metadata and data are kept in separate object stores so listing
+ * snapshots does not load every copy of the data.
+ *
+ * @module infrastructure/backup/autoBackupStore
+ */
+
+import type { AutoBackupData, AutoBackupTrigger } from '$lib/application/ports';
+
+export interface StoredSnapshot {
+  id: string;
+  /** ISO timestamp. */
+  createdAt: string;
+  trigger: AutoBackupTrigger;
+  recordCounts: Record<string, number>;
+  /** Hash of the data, to skip snapshots identical to the previous one. */
+  fingerprint: string;
+}
+
+export interface AutoBackupStore {
+  /** All snapshots, in no particular order. */
+  list(): Promise<StoredSnapshot[]>;
+  put(snapshot: StoredSnapshot, data: AutoBackupData): Promise<void>;
+  getData(id: string): Promise<AutoBackupData | null>;
+  delete(id: string): Promise<void>;
+}
+
+export const AUTO_BACKUP_DB_NAME = 'groupwheel-autobackups';
+const AUTO_BACKUP_DB_VERSION = 1;
+const SNAPSHOTS_STORE = 'snapshots';
+const DATA_STORE = 'snapshotData';
+
+export class InMemoryAutoBackupStore implements AutoBackupStore {
+  private readonly snapshots = new Map<string, StoredSnapshot>();
+  private readonly data = new Map<string, AutoBackupData>();
+
+  async list(): Promise<StoredSnapshot[]> {
+    return [...this.snapshots.values()];
+  }
+
+  async put(snapshot: StoredSnapshot, data: AutoBackupData): Promise<void> {
+    this.snapshots.set(snapshot.id, snapshot);
+    this.data.set(snapshot.id, data);
+  }
+
+  async getData(id: string): Promise<AutoBackupData | null> {
+    return this.data.get(id) ?? null;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.snapshots.delete(id);
+    this.data.delete(id);
+  }
+}
+
+function openAutoBackupDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(AUTO_BACKUP_DB_NAME, AUTO_BACKUP_DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+      }
+    };
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbAutoBackupStore implements AutoBackupStore {
+  async list(): Promise<StoredSnapshot[]> {
+    const db = await openAutoBackupDb();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+    return requestResult(tx.objectStore(SNAPSHOTS_STORE).getAll());
+  }
+
+  async put(snapshot: StoredSnapshot, data: AutoBackupData): Promise<void> {
+    const db = await openAutoBackupDb();
+    const tx = db.transaction([SNAPSHOTS_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+    tx.objectStore(DATA_STORE).put({ id: snapshot.id, data });
+    await transactionDone(tx);
+  }
+
+  async getData(id: string): Promise<AutoBackupData | null> {
+    const db = await openAutoBackupDb();
+    const tx = db.transaction(DATA_STORE, 'readonly');
+    const record = await requestResult<{ id: string; data: AutoBackupData } | undefined>(
+      tx.objectStore(DATA_STORE).get(id)
+    );
+    return record?.data ?? null;
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openAutoBackupDb();
+    const tx = db.transaction([SNAPSHOTS_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(SNAPSHOTS_STORE).delete(id);
+    tx.objectStore(DATA_STORE).delete(id);
+    await transactionDone(tx);
+  }
+}
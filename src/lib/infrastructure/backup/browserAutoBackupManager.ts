@@ -0,0 +1,40 @@
+/**
+ * Browser-configured AutoBackupManager singleton.
+ *
+ * Snapshots go to their own IndexedDB database; settings to localStorage.
+ *
+ * @module infrastructure/backup/browserAutoBackupManager
+ */
+
+import type { AutoBackupData } from '$lib/application/ports';
+import { LocalStorageAdapter } from '$lib/infrastructure/storage';
+import { AutoBackupManager } from './autoBackupManager';
+import { IndexedDbAutoBackupStore } from './autoBackupStore';
+
+let instance: AutoBackupManager | null = null;
+
+/**
+ * Get the browser-configured AutoBackupManager singleton.
+ * Returns null during SSR.
+ *
+ * @param exportData - Reads all local data, as for a backup file
+ */
+export function getBrowserAutoBackupManager(
+  exportData: () => Promise<AutoBackupData>
+): AutoBackupManager | null {
+  if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+    return null;
+  }
+
+  if (!instance) {
+    instance = new AutoBackupManager({
+      store: new IndexedDbAutoBackupStore(),
+      storage: new LocalStorageAdapter(),
+      exportData
+    });
+    // Initialize asynchronously
+    instance.initialize();
+  }
+
+  return instance;
+}
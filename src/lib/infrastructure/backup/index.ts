@@ -0,0 +1,20 @@
+/**
+ * Automatic backup infrastructure.
+ *
+ * @module infrastructure/backup
+ */
+
+export {
+  AutoBackupManager,
+  DEFAULT_AUTO_BACKUP_CONFIG,
+  type AutoBackupManagerDeps
+} from './autoBackupManager';
+export {
+  InMemoryAutoBackupStore,
+  IndexedDbAutoBackupStore,
+  AUTO_BACKUP_DB_NAME,
+  type AutoBackupStore,
+  type StoredSnapshot
+} from './autoBackupStore';
+export { getBrowserAutoBackupManager } from './browserAutoBackupManager';
+export { trackEdits } from './trackEdits';
@@ -0,0 +1,28 @@
+/**
+ * Repository wrapper that reports writes, so automatic backups can count edits.
+ *
+ * @module infrastructure/backup/trackEdits
+ */
+
+/** Repository methods that change data (save, saveMany, update, delete, deleteBySessionId…). */
+const WRITE_METHOD = /^(save|update|delete|upsert|remove|clear)/;
+
+/**
+ * Wrap a repository so `onEdit` is called after every successful write.
+ * Reads pass through untouched.
+ */
+export function trackEdits<T extends object>(repo: T, onEdit: () => void): T {
+  return new Proxy(repo, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') return value;
+      if (!WRITE_METHOD.test(property)) return value.bind(target);
+
+      return async (...args: unknown[]) => {
+        const result = await value.apply(target, args);
+        onEdit();
+        return result;
+      };
+    }
+  });
+}
@@ -154,9 +154,7 @@ export async function clearDemoData(env: InMemoryEnvironment): Promise<SeedDemoR
 
     // Delete scenarios for demo programs
     for (const program of demoPrograms) {
-      // ScenarioRepository.getByProgramId returns a single scenario
-      const scenario = await env.scenarioRepo.getByProgramId(program.id);
-      if (scenario) {
+      for (const scenario of await env.scenarioRepo.listByProgramId(program.id)) {
         await env.scenarioRepo.delete(scenario.id);
       }
     }
@@ -10,11 +10,13 @@ import type {
   PreferenceRepository,
   GroupTemplateRepository,
   ObservationRepository,
+  ConflictRuleRepository,
   IdGenerator,
   Clock,
   GroupingAlgorithm,
   AuthService,
   SyncService,
+  AutoBackupService,
   ClipboardPort,
   GoogleSheetsService
 } from '$lib/application/ports';
@@ -28,7 +30,8 @@ import {
   InMemorySessionRepository,
   InMemoryPlacementRepository,
   InMemoryPreferenceRepository,
-  InMemoryObservationRepository
+  InMemoryObservationRepository,
+  InMemoryConflictRuleRepository
 } from '$lib/infrastructure/repositories/inMemory';
 import { InMemoryGroupTemplateRepository } from '$lib/infrastructure/repositories/inMemory/InMemoryGroupTemplateRepository';
 import {
@@ -42,7 +45,8 @@ import {
   IndexedDbStudentIdentityRepository,
   IndexedDbStaffRepository,
   IndexedDbPreferenceRepository,
-  IndexedDbObservationRepository
+  IndexedDbObservationRepository,
+  IndexedDbConflictRuleRepository
 } from '$lib/infrastructure/repositories/indexedDb';
 import {
   SyncedStudentRepository,
@@ -53,17 +57,20 @@ import {
   SyncedSessionRepository,
   SyncedPlacementRepository,
   SyncedPreferenceRepository,
-  SyncedGroupTemplateRepository
+  SyncedGroupTemplateRepository,
+  SyncedConflictRuleRepository,
+  SyncedObservationRepository,
+  SyncedStudentIdentityRepository
 } from '$lib/infrastructure/repositories/synced';
+import { SyncManager } from '$lib/infrastructure/sync/syncManager';
+import { RepositorySyncLocalStore } from '$lib/infrastructure/sync/repositorySyncLocalStore';
+import { trackEdits } from '$lib/infrastructure/backup/trackEdits';
 import { UuidIdGenerator, SystemClock } from '$lib/infrastructure/services';
-import { BalancedGroupingAlgorithm } from '$lib/infrastructure/algorithms/balancedGrouping';
-import { RandomGroupingAlgorithm } from '$lib/infrastructure/algorithms/randomGrouping';
-import { RoundRobinGroupingAlgorithm } from '$lib/infrastructure/algorithms/roundRobinGrouping';
-import { PreferenceFirstGroupingAlgorithm } from '$lib/infrastructure/algorithms/preferenceFirstGrouping';
-import { SimulatedAnnealingGroupingAlgorithm } from '$lib/infrastructure/algorithms/simulatedAnnealingGrouping';
-import { GeneticGroupingAlgorithm } from '$lib/infrastructure/algorithms/geneticGrouping';
-import { FirstChoiceOnlyGroupingAlgorithm } from '$lib/infrastructure/algorithms/firstChoiceOnlyGrouping';
-import { MultiAlgorithmGroupingAlgorithm } from '$lib/infrastructure/algorithms/multiAlgorithm';
+import { createGroupingAlgorithm } from '$lib/infrastructure/algorithms/algorithmRegistry';
+import {
+  WorkerGroupingAlgorithm,
+  createBrowserGroupingWorker
+} from '$lib/infrastructure/algorithms/workerGrouping';
 import type {
   Pool,
   Program,
@@ -74,7 +81,8 @@ import type {
   Staff,
   Preference,
   GroupTemplate,
-  Observation
+  Observation,
+  ConflictRule
 } from '$lib/domain';
 /**
  * The full set of dependencies needed by MVP use cases, backed by in-memory implementations.
@@ -95,6 +103,7 @@ export interface InMemoryEnvironment {
   preferenceRepo: PreferenceRepository;
   groupTemplateRepo: GroupTemplateRepository;
   observationRepo: ObservationRepository;
+  conflictRuleRepo: ConflictRuleRepository;
   idGenerator: IdGenerator;
   clock: Clock;
   groupingAlgorithm: GroupingAlgorithm;
@@ -102,6 +111,8 @@ export interface InMemoryEnvironment {
   syncService?: SyncService;
   /** Google Sheets sync service (alternative to server sync) */
   sheetsSyncService?: SyncService;
+  /** Automatic local backups */
+  autoBackupService?: AutoBackupService;
   clipboard?: ClipboardPort;
   sheetsService?: GoogleSheetsService;
 }
@@ -117,6 +128,12 @@ export interface CreateEnvironmentOptions {
    */
   useIndexedDb?: boolean;
 
+  /**
+   * Run grouping algorithms in a Web Worker so long runs don't block the UI.
+   * Defaults to false: algorithms run in-process, which keeps tests deterministic.
+   */
+  useGroupingWorker?: boolean;
+
   /**
    * Authentication service for user login/logout.
    * When provided, enables authenticated features.
@@ -135,6 +152,12 @@ export interface CreateEnvironmentOptions {
    */
   sheetsSyncService?: SyncService;
 
+  /**
+   * Automatic local backups.
+   * When provided, every repository write counts towards the next snapshot.
+   */
+  autoBackupService?: AutoBackupService;
+
   /**
    * Clipboard service for copy operations.
    */
@@ -164,6 +187,7 @@ export function createInMemoryEnvironment(
     preferences?: Preference[];
     groupTemplates?: GroupTemplate[];
     observations?: Observation[];
+    conflictRules?: ConflictRule[];
   },
   options?: CreateEnvironmentOptions
 ): InMemoryEnvironment {
@@ -180,6 +204,7 @@ export function createInMemoryEnvironment(
   const useIndexedDb = options?.useIndexedDb ?? false;
   const authService = options?.authService;
   const syncService = options?.syncService;
+  const autoBackupService = options?.autoBackupService;
 
   // Create base (local) repositories
   const baseStudentRepo = useIndexedDb
@@ -212,92 +237,92 @@ export function createInMemoryEnvironment(
   const baseObservationRepo: ObservationRepository = useIndexedDb
     ? new IndexedDbObservationRepository()
     : new InMemoryObservationRepository(seed?.observations ?? []);
+  const baseConflictRuleRepo: ConflictRuleRepository = useIndexedDb
+    ? new IndexedDbConflictRuleRepository()
+    : new InMemoryConflictRuleRepository(seed?.conflictRules ?? []);
   const baseStudentIdentityRepo: StudentIdentityRepository = useIndexedDb
     ? new IndexedDbStudentIdentityRepository()
     : new InMemoryStudentIdentityRepository();
 
-  // Wrap with sync capability if syncService is provided
-  const studentRepo: StudentRepository = syncService
-    ? new SyncedStudentRepository(baseStudentRepo, syncService)
-    : baseStudentRepo;
-  const staffRepo: StaffRepository = syncService
-    ? new SyncedStaffRepository(baseStaffRepo)
-    : baseStaffRepo;
-  const poolRepo: PoolRepository = syncService
-    ? new SyncedPoolRepository(basePoolRepo, syncService)
-    : basePoolRepo;
-  const programRepo: ProgramRepository = syncService
-    ? new SyncedProgramRepository(baseProgramRepo, syncService)
-    : baseProgramRepo;
-  const preferenceRepo: PreferenceRepository = syncService
-    ? new SyncedPreferenceRepository(basePreferenceRepo, syncService)
-    : basePreferenceRepo;
-  const scenarioRepo: ScenarioRepository = syncService
-    ? new SyncedScenarioRepository(baseScenarioRepo, syncService)
-    : baseScenarioRepo;
-  const groupTemplateRepo: GroupTemplateRepository = syncService
-    ? new SyncedGroupTemplateRepository(baseGroupTemplateRepo, syncService)
-    : baseGroupTemplateRepo;
-  const sessionRepo: SessionRepository = syncService
-    ? new SyncedSessionRepository(baseSessionRepo, syncService)
-    : baseSessionRepo;
-  const placementRepo: PlacementRepository = syncService
-    ? new SyncedPlacementRepository(basePlacementRepo, syncService)
-    : basePlacementRepo;
-
-  // Observation repo doesn't have sync wrapper yet - use base directly
-  const observationRepo: ObservationRepository = baseObservationRepo;
+  // Wrap with sync capability if syncService is provided, and count writes
+  // for automatic backups if autoBackupService is provided
+  const trackWrites = <T extends object>(repo: T): T =>
+    autoBackupService ? trackEdits(repo, () => autoBackupService.recordEdit()) : repo;
+  const studentRepo: StudentRepository = trackWrites(
+    syncService ? new SyncedStudentRepository(baseStudentRepo, syncService) : baseStudentRepo
+  );
+  const staffRepo: StaffRepository = trackWrites(
+    syncService ? new SyncedStaffRepository(baseStaffRepo, syncService) : baseStaffRepo
+  );
+  const poolRepo: PoolRepository = trackWrites(
+    syncService ? new SyncedPoolRepository(basePoolRepo, syncService) : basePoolRepo
+  );
+  const programRepo: ProgramRepository = trackWrites(
+    syncService ? new SyncedProgramRepository(baseProgramRepo, syncService) : baseProgramRepo
+  );
+  const preferenceRepo: PreferenceRepository = trackWrites(
+    syncService
+      ? new SyncedPreferenceRepository(basePreferenceRepo, syncService)
+      : basePreferenceRepo
+  );
+  const scenarioRepo: ScenarioRepository = trackWrites(
+    syncService ? new SyncedScenarioRepository(baseScenarioRepo, syncService) : baseScenarioRepo
+  );
+  const groupTemplateRepo: GroupTemplateRepository = trackWrites(
+    syncService
+      ? new SyncedGroupTemplateRepository(baseGroupTemplateRepo, syncService)
+      : baseGroupTemplateRepo
+  );
+  const sessionRepo: SessionRepository = trackWrites(
+    syncService ? new SyncedSessionRepository(baseSessionRepo, syncService) : baseSessionRepo
+  );
+  const placementRepo: PlacementRepository = trackWrites(
+    syncService ? new SyncedPlacementRepository(basePlacementRepo, syncService) : basePlacementRepo
+  );
+  const conflictRuleRepo: ConflictRuleRepository = trackWrites(
+    syncService
+      ? new SyncedConflictRuleRepository(baseConflictRuleRepo, syncService)
+      : baseConflictRuleRepo
+  );
+  const observationRepo: ObservationRepository = trackWrites(
+    syncService
+      ? new SyncedObservationRepository(baseObservationRepo, syncService)
+      : baseObservationRepo
+  );
+  const studentIdentityRepo: StudentIdentityRepository = trackWrites(
+    syncService
+      ? new SyncedStudentIdentityRepository(baseStudentIdentityRepo, syncService)
+      : baseStudentIdentityRepo
+  );
 
-  // StudentIdentity repo doesn't have sync wrapper yet - use base directly
-  const studentIdentityRepo: StudentIdentityRepository = baseStudentIdentityRepo;
+  // Sync reads queued entities and writes merged ones through the base repos
+  if (syncService instanceof SyncManager) {
+    syncService.setLocalStore(
+      new RepositorySyncLocalStore({
+        studentRepo: baseStudentRepo,
+        staffRepo: baseStaffRepo,
+        poolRepo: basePoolRepo,
+        programRepo: baseProgramRepo,
+        scenarioRepo: baseScenarioRepo,
+        sessionRepo: baseSessionRepo,
+        placementRepo: basePlacementRepo,
+        preferenceRepo: basePreferenceRepo,
+        observationRepo: baseObservationRepo,
+        groupTemplateRepo: baseGroupTemplateRepo,
+        studentIdentityRepo: baseStudentIdentityRepo,
+        conflictRuleRepo: baseConflictRuleRepo
+      })
+    );
+  }
 
   const idGenerator = new UuidIdGenerator();
   const clock = new SystemClock();
-  const groupingAlgorithm = new MultiAlgorithmGroupingAlgorithm(
-    [
-      {
-        id: 'balanced',
-        label: 'Balanced',
-        algorithm: new BalancedGroupingAlgorithm(
-          studentRepo,
-          preferenceRepo,
-          idGenerator,
-          placementRepo
-        )
-      },
-      {
-        id: 'first-choice-only',
-        label: 'First Choice Only',
-        algorithm: new FirstChoiceOnlyGroupingAlgorithm(studentRepo, preferenceRepo, idGenerator)
-      },
-      {
-        id: 'random',
-        label: 'Random Shuffle',
-        algorithm: new RandomGroupingAlgorithm(idGenerator)
-      },
-      {
-        id: 'round-robin',
-        label: 'Round Robin',
-        algorithm: new RoundRobinGroupingAlgorithm(idGenerator)
-      },
-      {
-        id: 'preference-first',
-        label: 'Preference-First',
-        algorithm: new PreferenceFirstGroupingAlgorithm(preferenceRepo, idGenerator)
-      },
-      {
-        id: 'simulated-annealing',
-        label: 'Simulated Annealing',
-        algorithm: new SimulatedAnnealingGroupingAlgorithm(preferenceRepo, idGenerator)
-      },
-      {
-        id: 'genetic',
-        label: 'Genetic Algorithm',
-        algorithm: new GeneticGroupingAlgorithm(preferenceRepo, idGenerator)
-      }
-    ],
-    'balanced'
-  );
+  const groupingAlgorithm: GroupingAlgorithm = options?.useGroupingWorker
+    ? new WorkerGroupingAlgorithm(
+        { studentRepo, preferenceRepo, placementRepo },
+        createBrowserGroupingWorker
+      )
+    : createGroupingAlgorithm({ studentRepo, preferenceRepo, placementRepo, idGenerator });
 
   return {
     studentRepo,
@@ -311,12 +336,14 @@ export function createInMemoryEnvironment(
     preferenceRepo,
     groupTemplateRepo,
     observationRepo,
+    conflictRuleRepo,
     idGenerator,
     clock,
     groupingAlgorithm,
     authService,
     syncService,
     sheetsSyncService: options?.sheetsSyncService,
+    autoBackupService,
     clipboard: options?.clipboard,
     sheetsService: options?.sheetsService
   };
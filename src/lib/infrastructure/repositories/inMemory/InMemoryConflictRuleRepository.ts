@@ -0,0 +1,50 @@
+import type { ConflictRule } from '$lib/domain';
+import type { ConflictRuleRepository } from '$lib/application/ports/ConflictRuleRepository';
+
+/**
+ * In-memory ConflictRuleRepository for testing and development.
+ */
+export class InMemoryConflictRuleRepository implements ConflictRuleRepository {
+  private rules: Map<string, ConflictRule> = new Map();
+
+  constructor(initialRules: ConflictRule[] = []) {
+    for (const rule of initialRules) {
+      this.rules.set(rule.id, rule);
+    }
+  }
+
+  async getById(id: string): Promise<ConflictRule | null> {
+    return this.rules.get(id) ?? null;
+  }
+
+  async listByProgramId(programId: string): Promise<ConflictRule[]> {
+    return Array.from(this.rules.values()).filter((r) => r.programId === programId);
+  }
+
+  async listByPoolId(poolId: string): Promise<ConflictRule[]> {
+    return Array.from(this.rules.values()).filter((r) => r.poolId === poolId);
+  }
+
+  async save(rule: ConflictRule): Promise<void> {
+    this.rules.set(rule.id, rule);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.rules.delete(id);
+  }
+
+  async listAll(userId?: string): Promise<ConflictRule[]> {
+    const all = Array.from(this.rules.values());
+    if (userId) {
+      return all.filter((r) => r.userId === userId);
+    }
+    return all;
+  }
+
+  /**
+   * Clear all rules (useful for testing).
+   */
+  clear(): void {
+    this.rules.clear();
+  }
+}
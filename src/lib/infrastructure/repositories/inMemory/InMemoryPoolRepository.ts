@@ -37,6 +37,10 @@ export class InMemoryPoolRepository implements PoolRepository {
     this.pools.set(pool.id, InMemoryPoolRepository.clone(pool));
   }
 
+  async delete(id: string): Promise<void> {
+    this.pools.delete(id);
+  }
+
   async listAll(userId?: string): Promise<Pool[]> {
     let pools = Array.from(this.pools.values()).map((p) => InMemoryPoolRepository.clone(p));
 
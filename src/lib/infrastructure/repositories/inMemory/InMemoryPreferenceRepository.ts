@@ -41,6 +41,14 @@ export class InMemoryPreferenceRepository implements PreferenceRepository {
     ]);
   }
 
+  async deleteForStudent(programId: string, studentId: string): Promise<void> {
+    const existing = this.byProgram.get(programId) ?? [];
+    this.byProgram.set(
+      programId,
+      existing.filter((p) => p.studentId !== studentId)
+    );
+  }
+
   /**
    * Convenience for seeding/updating preferences.
    */
@@ -1,20 +1,19 @@
 import type { Scenario } from '$lib/domain';
+import { pickWorkingScenario } from '$lib/domain';
 import type { ScenarioRepository } from '$lib/application/ports/ScenarioRepository';
 
 /**
  * In-memory ScenarioRepository.
  *
- * Note: This does NOT enforce the "single scenario per program" invariant
- * by itself; that logic lives in the generateScenarioForProgram use case.
+ * A program may hold several scenarios; `getByProgramId` returns the working
+ * one as chosen by `pickWorkingScenario`.
  */
 export class InMemoryScenarioRepository implements ScenarioRepository {
   private readonly scenarios = new Map<string, Scenario>();
-  private readonly byProgramId = new Map<string, string>(); // programId -> scenarioId
 
   constructor(initialScenarios: Scenario[] = []) {
     for (const scenario of initialScenarios) {
       this.scenarios.set(scenario.id, this.cloneScenario(scenario));
-      this.byProgramId.set(scenario.programId, scenario.id);
     }
   }
 
@@ -24,15 +23,18 @@ export class InMemoryScenarioRepository implements ScenarioRepository {
   }
 
   async getByProgramId(programId: string): Promise<Scenario | null> {
-    const scenarioId = this.byProgramId.get(programId);
-    if (!scenarioId) return null;
-    const scenario = this.scenarios.get(scenarioId);
-    return scenario ? this.cloneScenario(scenario) : null;
+    return pickWorkingScenario(await this.listByProgramId(programId));
+  }
+
+  async listByProgramId(programId: string): Promise<Scenario[]> {
+    return Array.from(this.scenarios.values())
+      .filter((s) => s.programId === programId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((s) => this.cloneScenario(s));
   }
 
   async save(scenario: Scenario): Promise<void> {
     this.scenarios.set(scenario.id, this.cloneScenario(scenario));
-    this.byProgramId.set(scenario.programId, scenario.id);
   }
 
   async update(scenario: Scenario): Promise<void> {
@@ -40,15 +42,10 @@ export class InMemoryScenarioRepository implements ScenarioRepository {
       throw new Error(`Scenario with id ${scenario.id} does not exist`);
     }
     this.scenarios.set(scenario.id, this.cloneScenario(scenario));
-    this.byProgramId.set(scenario.programId, scenario.id);
   }
 
   async delete(id: string): Promise<void> {
-    const scenario = this.scenarios.get(id);
-    if (scenario) {
-      this.byProgramId.delete(scenario.programId);
-      this.scenarios.delete(id);
-    }
+    this.scenarios.delete(id);
   }
 
   private cloneScenario(scenario: Scenario): Scenario {
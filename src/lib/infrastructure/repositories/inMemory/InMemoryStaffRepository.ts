@@ -31,6 +31,10 @@ export class InMemoryStaffRepository implements StaffRepository {
     return results;
   }
 
+  async save(staff: Staff): Promise<void> {
+    this.staff.set(staff.id, { ...staff });
+  }
+
   /**
    * Convenience for seeding/overriding Staff records.
    */
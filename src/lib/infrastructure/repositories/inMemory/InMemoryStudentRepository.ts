@@ -43,6 +43,12 @@ export class InMemoryStudentRepository implements StudentRepository {
     }
   }
 
+  async deleteMany(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.students.delete(id);
+    }
+  }
+
   async listByCanonicalId(canonicalId: string): Promise<Student[]> {
     const results: Student[] = [];
     for (const student of this.students.values()) {
@@ -8,3 +8,4 @@ export * from './InMemorySessionRepository';
 export * from './InMemoryPlacementRepository';
 export * from './InMemoryPreferenceRepository';
 export * from './InMemoryObservationRepository';
+export * from './InMemoryConflictRuleRepository';
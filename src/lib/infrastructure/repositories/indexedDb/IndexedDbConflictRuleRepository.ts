@@ -0,0 +1,126 @@
+import type { ConflictRule } from '$lib/domain';
+import type { ConflictRuleRepository } from '$lib/application/ports/ConflictRuleRepository';
+import { openDb } from './db';
+
+const STORE_NAME = 'conflictRules';
+
+/**
+ * Serialize a ConflictRule for storage in IndexedDB.
+ * Converts Date objects to ISO strings for storage.
+ */
+function serializeConflictRule(rule: ConflictRule): object {
+  return {
+    ...rule,
+    createdAt: rule.createdAt.toISOString()
+  };
+}
+
+/**
+ * Deserialize a ConflictRule from IndexedDB storage.
+ * Converts ISO string dates back to Date objects.
+ */
+function deserializeConflictRule(data: Record<string, unknown>): ConflictRule {
+  return {
+    ...(data as unknown as ConflictRule),
+    createdAt: new Date(data.createdAt as string)
+  };
+}
+
+/**
+ * IndexedDB-backed ConflictRuleRepository for cross-session persistence.
+ */
+export class IndexedDbConflictRuleRepository implements ConflictRuleRepository {
+  async getById(id: string): Promise<ConflictRule | null> {
+    if (typeof indexedDB === 'undefined') return null;
+
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const data = request.result;
+        resolve(data ? deserializeConflictRule(data) : null);
+      };
+    });
+  }
+
+  async listByProgramId(programId: string): Promise<ConflictRule[]> {
+    return this.listByIndex('programId', programId);
+  }
+
+  async listByPoolId(poolId: string): Promise<ConflictRule[]> {
+    return this.listByIndex('poolId', poolId);
+  }
+
+  async save(rule: ConflictRule): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.put(serializeConflictRule(rule));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.delete(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async listAll(userId?: string): Promise<ConflictRule[]> {
+    if (typeof indexedDB === 'undefined') return [];
+
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        let data = (request.result || []).map(deserializeConflictRule);
+        if (userId) {
+          data = data.filter((r) => r.userId === userId);
+        }
+        resolve(data);
+      };
+    });
+  }
+
+  private async listByIndex(
+    indexName: 'programId' | 'poolId',
+    key: string
+  ): Promise<ConflictRule[]> {
+    if (typeof indexedDB === 'undefined') return [];
+
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const store = tx.objectStore(STORE_NAME);
+      const index = store.index(indexName);
+      const request = index.getAll(key);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const data = request.result || [];
+        resolve(data.map(deserializeConflictRule));
+      };
+    });
+  }
+}
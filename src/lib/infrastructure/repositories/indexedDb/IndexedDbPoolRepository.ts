@@ -39,6 +39,18 @@ export class IndexedDbPoolRepository implements PoolRepository {
     return this.save(pool);
   }
 
+  async delete(id: string): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.delete(id);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
   async listAll(userId?: string): Promise<Pool[]> {
     if (typeof indexedDB === 'undefined') return [];
     const db = await openDb();
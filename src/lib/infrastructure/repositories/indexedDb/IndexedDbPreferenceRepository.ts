@@ -36,6 +36,22 @@ export class IndexedDbPreferenceRepository implements PreferenceRepository {
     });
   }
 
+  async deleteForStudent(programId: string, studentId: string): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+    const preferences = await this.listByProgramId(programId);
+    const ids = preferences.filter((p) => p.studentId === studentId).map((p) => p.id);
+    if (ids.length === 0) return;
+
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      ids.forEach((id) => store.delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   async setForProgram(programId: string, preferences: Preference[]): Promise<void> {
     if (typeof indexedDB === 'undefined') return;
     const db = await openDb();
@@ -1,4 +1,5 @@
 import type { Scenario } from '$lib/domain';
+import { pickWorkingScenario } from '$lib/domain';
 import type { ScenarioRepository } from '$lib/application/ports/ScenarioRepository';
 import { openDb } from './db';
 
@@ -48,7 +49,8 @@ function serializeScenario(scenario: Scenario): object {
 function deserializeScenario(data: Record<string, unknown>): Scenario {
   return {
     ...(data as unknown as Scenario),
-    createdAt: new Date(data.createdAt as string)
+    createdAt: new Date(data.createdAt as string),
+    lastModifiedAt: new Date((data.lastModifiedAt ?? data.createdAt) as string)
   };
 }
 
@@ -100,19 +102,24 @@ export class IndexedDbScenarioRepository implements ScenarioRepository {
   }
 
   async getByProgramId(programId: string): Promise<Scenario | null> {
-    if (typeof indexedDB === 'undefined') return null;
+    return pickWorkingScenario(await this.listByProgramId(programId));
+  }
+
+  async listByProgramId(programId: string): Promise<Scenario[]> {
+    if (typeof indexedDB === 'undefined') return [];
 
     const db = await openDb();
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readonly');
       const store = tx.objectStore(STORE_NAME);
       const index = store.index('programId');
-      const request = index.get(programId);
+      const request = index.getAll(programId);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        const data = request.result;
-        resolve(data ? deserializeScenario(data) : null);
+        const scenarios = (request.result ?? []).map(deserializeScenario);
+        scenarios.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        resolve(scenarios);
       };
     });
   }
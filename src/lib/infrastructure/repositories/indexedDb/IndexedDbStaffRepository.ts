@@ -23,6 +23,18 @@ export class IndexedDbStaffRepository implements StaffRepository {
     });
   }
 
+  async save(staff: Staff): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.put(staff);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
   async getByIds(ids: string[]): Promise<Staff[]> {
     if (typeof indexedDB === 'undefined') return [];
     const db = await openDb();
@@ -85,6 +85,18 @@ export class IndexedDbStudentRepository implements StudentRepository {
     });
   }
 
+  async deleteMany(ids: string[]): Promise<void> {
+    if (typeof indexedDB === 'undefined' || ids.length === 0) return;
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      ids.forEach((id) => store.delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   async listByCanonicalId(canonicalId: string): Promise<Student[]> {
     if (typeof indexedDB === 'undefined') return [];
     const allStudents = await this.listAll();
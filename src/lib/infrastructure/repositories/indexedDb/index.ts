@@ -16,3 +16,4 @@ export { IndexedDbStudentIdentityRepository } from './IndexedDbStudentIdentityRe
 export { IndexedDbStaffRepository } from './IndexedDbStaffRepository';
 export { IndexedDbPreferenceRepository } from './IndexedDbPreferenceRepository';
 export { IndexedDbObservationRepository } from './IndexedDbObservationRepository';
+export { IndexedDbConflictRuleRepository } from './IndexedDbConflictRuleRepository';
@@ -0,0 +1,212 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { DB_VERSION, DbMigrationError, openDb } from './db';
+import { DB_MIGRATIONS, updateRecords, type DbMigration } from './migrations';
+
+/** Store name → index name → unique. */
+type Schema = Record<string, Record<string, boolean>>;
+
+/**
+ * What each released schema version looked like, independent of the
+ * migration code under test.
+ */
+const SCHEMA_CHANGES: Record<number, (schema: Schema) => void> = {
+  1: (s) => (s.scenarios = { programId: true }),
+  2: (s) => (s.groupTemplates = { ownerStaffId: false }),
+  3: (s) => {
+    s.programs = {};
+    s.pools = {};
+    s.students = {};
+    s.staff = {};
+    s.preferences = { programId: false };
+  },
+  5: (s) => {
+    s.sessions = { programId: false, academicYear: false, status: false };
+    s.placements = { sessionId: false, studentId: false };
+  },
+  6: (s) => (s.observations = { programId: false, sessionId: false, groupId: false }),
+  7: (s) => {
+    s.studentIdentities = { userId: false };
+    s.students = { canonicalId: false };
+  },
+  8: (s) => (s.conflictRules = { programId: false, poolId: false }),
+  9: (s) => (s.scenarios = { programId: false })
+};
+
+function schemaAt(version: number): Schema {
+  const schema: Schema = {};
+  for (let v = 1; v <= version; v++) SCHEMA_CHANGES[v]?.(schema);
+  return schema;
+}
+
+let dbCounter = 0;
+function uniqueName(): string {
+  return `migration-test-${++dbCounter}`;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Create a database exactly as the app left it at `version`, with records.
+ */
+async function createFixture(
+  name: string,
+  version: number,
+  records: Record<string, object[]>
+): Promise<void> {
+  const open = indexedDB.open(name, version);
+  open.onupgradeneeded = () => {
+    for (const [store, indexes] of Object.entries(schemaAt(version))) {
+      const objectStore = open.result.createObjectStore(store, { keyPath: 'id' });
+      for (const [index, unique] of Object.entries(indexes)) {
+        objectStore.createIndex(index, index, { unique });
+      }
+    }
+  };
+  const db = await request(open);
+  const stores = Object.keys(records).filter((s) => db.objectStoreNames.contains(s));
+  if (stores.length > 0) {
+    const tx = db.transaction(stores, 'readwrite');
+    for (const store of stores) {
+      for (const record of records[store]) tx.objectStore(store).put(record);
+    }
+    await new Promise((resolve) => (tx.oncomplete = resolve));
+  }
+  db.close();
+}
+
+function readSchema(db: IDBDatabase): Schema {
+  const schema: Schema = {};
+  const names = Array.from(db.objectStoreNames);
+  if (names.length === 0) return schema;
+  const tx = db.transaction(names, 'readonly');
+  for (const name of names) {
+    const store = tx.objectStore(name);
+    schema[name] = Object.fromEntries(
+      Array.from(store.indexNames).map((index) => [index, store.index(index).unique])
+    );
+  }
+  return schema;
+}
+
+async function readAll(db: IDBDatabase, store: string): Promise<unknown[]> {
+  return request(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+async function reopen(name: string): Promise<IDBDatabase> {
+  return request(indexedDB.open(name));
+}
+
+const RECORDS = {
+  scenarios: [{ id: 'sc1', programId: 'p1', groups: [] }],
+  preferences: [
+    {
+      id: 'pr1',
+      programId: 'p1',
+      studentId: 's1',
+      payload: { likeGroupIds: ['g1'], likeStudentIds: ['s2'] }
+    }
+  ],
+  students: [{ id: 's1', firstName: 'Ana' }]
+};
+
+describe('openDb migrations', () => {
+  it('ends at the current database version', () => {
+    expect(DB_MIGRATIONS.at(-1)?.version).toBe(DB_VERSION);
+  });
+
+  it('creates the current schema for a new database', async () => {
+    const db = await openDb(uniqueName());
+
+    expect(db.version).toBe(DB_VERSION);
+    expect(readSchema(db)).toEqual(schemaAt(DB_VERSION));
+    db.close();
+  });
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8, 9])(
+    'upgrades a version %i database and keeps its data',
+    async (version) => {
+      const name = uniqueName();
+      await createFixture(name, version, RECORDS);
+
+      const db = await openDb(name);
+
+      expect(db.version).toBe(DB_VERSION);
+      expect(readSchema(db)).toEqual(schemaAt(DB_VERSION));
+      expect(await readAll(db, 'scenarios')).toEqual(RECORDS.scenarios);
+      if (version >= 3) {
+        expect(await readAll(db, 'students')).toEqual(RECORDS.students);
+        expect(await readAll(db, 'preferences')).toEqual([
+          {
+            id: 'pr1',
+            programId: 'p1',
+            studentId: 's1',
+            payload: {
+              studentId: 's1',
+              avoidStudentIds: [],
+              likeGroupIds: ['g1'],
+              avoidGroupIds: []
+            }
+          }
+        ]);
+      }
+      db.close();
+    }
+  );
+
+  it('rolls back and reports a failing step', async () => {
+    const name = uniqueName();
+    await createFixture(name, 9, RECORDS);
+    const broken: DbMigration = {
+      version: DB_VERSION + 1,
+      description: 'Broken step',
+      upgrade: (db) => {
+        db.createObjectStore('halfDone', { keyPath: 'id' });
+        throw new Error('boom');
+      }
+    };
+
+    const error = await openDb(name, DB_VERSION + 1, [...DB_MIGRATIONS, broken]).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DbMigrationError);
+    expect(error).toMatchObject({ fromVersion: 9, toVersion: DB_VERSION + 1, step: 'Broken step' });
+    expect(error.message).toContain('boom');
+
+    const db = await reopen(name);
+    expect(db.version).toBe(9);
+    expect(readSchema(db)).toEqual(schemaAt(9));
+    expect(await readAll(db, 'preferences')).toEqual(RECORDS.preferences);
+    db.close();
+  });
+
+  it('rolls back when a record transform fails part way', async () => {
+    const name = uniqueName();
+    await createFixture(name, 9, RECORDS);
+    const broken: DbMigration = {
+      version: DB_VERSION,
+      description: 'Broken transform',
+      upgrade: (_db, transaction) => {
+        updateRecords(transaction, 'preferences', () => {
+          throw new Error('bad record');
+        });
+      }
+    };
+
+    const error = await openDb(name, DB_VERSION, [...DB_MIGRATIONS.slice(0, -1), broken]).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(DbMigrationError);
+    expect(error.fromVersion).toBe(9);
+
+    const db = await reopen(name);
+    expect(db.version).toBe(9);
+    expect(await readAll(db, 'preferences')).toEqual(RECORDS.preferences);
+    db.close();
+  });
+});
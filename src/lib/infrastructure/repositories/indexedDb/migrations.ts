@@ -0,0 +1,204 @@
+/**
+ * Versioned IndexedDB schema migrations.
+ *
+ * Each step upgrades the database from the previous version to its `version`
+ * inside the upgrade (versionchange) transaction. Steps may create stores and
+ * indexes and transform existing records. Because everything runs in that one
+ * transaction, a failing step aborts the whole upgrade and the database stays
+ * at its old version with its data untouched.
+ *
+ * To change the schema: append a step here, bump DB_VERSION in `db.ts`, and
+ * add the matching step to `utils/backupMigrations` so older backups still
+ * restore.
+ *
+ * @module infrastructure/repositories/indexedDb/migrations
+ */
+
+import { normalizeStudentPreference } from '$lib/domain/preference';
+
+export interface DbMigration {
+  /** Schema version the step produces. */
+  version: number;
+  description: string;
+  upgrade(db: IDBDatabase, transaction: IDBTransaction): void;
+}
+
+/**
+ * Raised by `openDb` when an upgrade step fails. The database is left at
+ * `fromVersion`.
+ */
+export class DbMigrationError extends Error {
+  fromVersion: number;
+  toVersion: number;
+  /** Description of the failing step, when known. */
+  step: string | null;
+  constructor(fromVersion: number, toVersion: number, step: string | null, cause?: unknown) {
+    const reason = cause instanceof Error ? cause.message : cause ? String(cause) : 'unknown error';
+    super(
+      `Could not upgrade local data from version ${fromVersion} to ${toVersion}` +
+        (step ? ` (${step})` : '') +
+        `: ${reason}`
+    );
+    this.name = 'DbMigrationError';
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+    this.step = step;
+  }
+}
+
+// =============================================================================
+// Step helpers
+// =============================================================================
+
+interface IndexSpec {
+  name: string;
+  keyPath: string;
+  unique?: boolean;
+}
+
+/**
+ * Create a store (and its indexes) unless it already exists.
+ */
+function createStore(db: IDBDatabase, name: string, indexes: IndexSpec[] = []): void {
+  if (db.objectStoreNames.contains(name)) return;
+  const store = db.createObjectStore(name, { keyPath: 'id' });
+  for (const index of indexes) {
+    store.createIndex(index.name, index.keyPath, { unique: index.unique ?? false });
+  }
+}
+
+function addStores(
+  version: number,
+  description: string,
+  stores: Record<string, IndexSpec[]>
+): DbMigration {
+  return {
+    version,
+    description,
+    upgrade: (db) => {
+      for (const [name, indexes] of Object.entries(stores)) createStore(db, name, indexes);
+    }
+  };
+}
+
+/**
+ * Rewrite every record in a store. Returning null leaves the record as it is.
+ * Errors thrown by `transform` abort the upgrade transaction.
+ */
+export function updateRecords(
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: (record: Record<string, unknown>) => Record<string, unknown> | null
+): void {
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const updated = transform(cursor.value as Record<string, unknown>);
+    if (updated) cursor.update(updated);
+    cursor.continue();
+  };
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+/**
+ * Every schema step, in order. Versions without schema changes are omitted.
+ */
+export const DB_MIGRATIONS: readonly DbMigration[] = [
+  addStores(1, 'Add scenarios', {
+    // Unique until v9: one scenario per program
+    scenarios: [{ name: 'programId', keyPath: 'programId', unique: true }]
+  }),
+  addStores(2, 'Add group templates', {
+    groupTemplates: [{ name: 'ownerStaffId', keyPath: 'ownerStaffId' }]
+  }),
+  addStores(3, 'Add programs, pools, students, staff and preferences', {
+    programs: [],
+    pools: [],
+    students: [],
+    staff: [],
+    preferences: [{ name: 'programId', keyPath: 'programId' }]
+  }),
+  addStores(5, 'Add sessions and placements', {
+    sessions: [
+      { name: 'programId', keyPath: 'programId' },
+      { name: 'academicYear', keyPath: 'academicYear' },
+      { name: 'status', keyPath: 'status' }
+    ],
+    placements: [
+      { name: 'sessionId', keyPath: 'sessionId' },
+      { name: 'studentId', keyPath: 'studentId' }
+    ]
+  }),
+  addStores(6, 'Add observations', {
+    observations: [
+      { name: 'programId', keyPath: 'programId' },
+      { name: 'sessionId', keyPath: 'sessionId' },
+      { name: 'groupId', keyPath: 'groupId' }
+    ]
+  }),
+  {
+    version: 7,
+    description: 'Add student identities',
+    upgrade: (db, transaction) => {
+      createStore(db, 'studentIdentities', [{ name: 'userId', keyPath: 'userId' }]);
+      const students = transaction.objectStore('students');
+      if (!students.indexNames.contains('canonicalId')) {
+        students.createIndex('canonicalId', 'canonicalId', { unique: false });
+      }
+    }
+  },
+  addStores(8, 'Add conflict rules', {
+    conflictRules: [
+      { name: 'programId', keyPath: 'programId' },
+      { name: 'poolId', keyPath: 'poolId' }
+    ]
+  }),
+  {
+    // The existing scenario of each program becomes its working one
+    version: 9,
+    description: 'Allow several scenarios per program',
+    upgrade: (_db, transaction) => {
+      const scenarios = transaction.objectStore('scenarios');
+      if (scenarios.index('programId').unique) {
+        scenarios.deleteIndex('programId');
+        scenarios.createIndex('programId', 'programId', { unique: false });
+      }
+    }
+  },
+  {
+    version: 10,
+    description: 'Normalize preference payloads',
+    upgrade: (_db, transaction) => {
+      updateRecords(transaction, 'preferences', (record) => ({
+        ...record,
+        payload: normalizeStudentPreference(record.payload, String(record.studentId))
+      }));
+    }
+  }
+];
+
+/**
+ * Run the steps between `oldVersion` (exclusive) and `newVersion` (inclusive)
+ * inside the upgrade transaction. A step that throws aborts the transaction.
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: readonly DbMigration[] = DB_MIGRATIONS
+): void {
+  for (const migration of migrations) {
+    if (migration.version <= oldVersion || migration.version > newVersion) continue;
+    try {
+      migration.upgrade(db, transaction);
+    } catch (e) {
+      transaction.abort();
+      throw new DbMigrationError(oldVersion, newVersion, migration.description, e);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Synced ConflictRule Repository.
+ *
+ * Wraps a local ConflictRuleRepository and adds sync capability.
+ */
+
+import type { ConflictRuleRepository, SyncService } from '$lib/application/ports';
+import type { ConflictRule } from '$lib/domain';
+
+export class SyncedConflictRuleRepository implements ConflictRuleRepository {
+  constructor(
+    private readonly local: ConflictRuleRepository,
+    private readonly sync: SyncService
+  ) {}
+
+  async getById(id: string): Promise<ConflictRule | null> {
+    return this.local.getById(id);
+  }
+
+  async listByProgramId(programId: string): Promise<ConflictRule[]> {
+    return this.local.listByProgramId(programId);
+  }
+
+  async listByPoolId(poolId: string): Promise<ConflictRule[]> {
+    return this.local.listByPoolId(poolId);
+  }
+
+  async listAll(userId?: string): Promise<ConflictRule[]> {
+    return this.local.listAll(userId);
+  }
+
+  async save(rule: ConflictRule): Promise<void> {
+    await this.local.save(rule);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('conflictRules', 'save', rule.id);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.local.delete(id);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('conflictRules', 'delete', id);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Synced Observation Repository.
+ *
+ * Wraps a local ObservationRepository and adds sync capability.
+ */
+
+import type { ObservationRepository, SyncService } from '$lib/application/ports';
+import type { Observation } from '$lib/domain';
+
+export class SyncedObservationRepository implements ObservationRepository {
+  constructor(
+    private readonly local: ObservationRepository,
+    private readonly sync: SyncService
+  ) {}
+
+  async getById(id: string): Promise<Observation | null> {
+    return this.local.getById(id);
+  }
+
+  async listByProgramId(programId: string): Promise<Observation[]> {
+    return this.local.listByProgramId(programId);
+  }
+
+  async listBySessionId(sessionId: string): Promise<Observation[]> {
+    return this.local.listBySessionId(sessionId);
+  }
+
+  async listByGroupId(groupId: string): Promise<Observation[]> {
+    return this.local.listByGroupId(groupId);
+  }
+
+  async listAll(userId?: string): Promise<Observation[]> {
+    return this.local.listAll(userId);
+  }
+
+  async save(observation: Observation): Promise<void> {
+    await this.local.save(observation);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('observations', 'save', observation.id);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.local.delete(id);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('observations', 'delete', id);
+    }
+  }
+
+  async deleteBySessionId(sessionId: string): Promise<void> {
+    // Get all observations for this session before deleting
+    const observations = await this.local.listBySessionId(sessionId);
+    await this.local.deleteBySessionId(sessionId);
+
+    if (this.sync.isEnabled()) {
+      for (const observation of observations) {
+        await this.sync.queueForSync('observations', 'delete', observation.id);
+      }
+    }
+  }
+}
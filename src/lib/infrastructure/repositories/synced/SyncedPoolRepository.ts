@@ -33,6 +33,14 @@ export class SyncedPoolRepository implements PoolRepository {
     }
   }
 
+  async delete(id: string): Promise<void> {
+    await this.local.delete(id);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('pools', 'delete', id);
+    }
+  }
+
   async listAll(userId?: string): Promise<Pool[]> {
     return this.local.listAll(userId);
   }
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { SyncedPreferenceRepository } from './SyncedPreferenceRepository';
+import { InMemoryPreferenceRepository } from '$lib/infrastructure/repositories/inMemory';
+import { InMemoryGoogleSheetsSyncManager } from '$lib/infrastructure/sync';
+import type { Preference } from '$lib/domain';
+
+function preference(id: string, programId: string, studentId: string): Preference {
+  return {
+    id,
+    programId,
+    studentId,
+    payload: { studentId, avoidStudentIds: [], likeGroupIds: [], avoidGroupIds: [] }
+  };
+}
+
+describe('SyncedPreferenceRepository', () => {
+  it('should queue deletes by preference record id', async () => {
+    const local = new InMemoryPreferenceRepository([
+      preference('pref-1', 'program-1', 's1'),
+      preference('pref-2', 'program-1', 's2'),
+      preference('pref-3', 'program-2', 's1')
+    ]);
+    const sync = new InMemoryGoogleSheetsSyncManager();
+    await sync.configure({ spreadsheetId: 'sheet-1' });
+    sync.setEnabled(true);
+    const repo = new SyncedPreferenceRepository(local, sync);
+
+    await repo.deleteForStudent('program-1', 's1');
+
+    expect(sync.getQueue()).toEqual([
+      { entityType: 'preferences', operation: 'delete', entityId: 'pref-1' }
+    ]);
+    const remaining = await local.listByProgramId('program-1');
+    expect(remaining.map((p) => p.id)).toEqual(['pref-2']);
+  });
+});
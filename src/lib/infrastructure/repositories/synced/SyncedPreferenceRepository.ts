@@ -27,6 +27,20 @@ export class SyncedPreferenceRepository implements PreferenceRepository {
     }
   }
 
+  async deleteForStudent(programId: string, studentId: string): Promise<void> {
+    const removed = (await this.local.listByProgramId(programId)).filter(
+      (pref) => pref.studentId === studentId
+    );
+    await this.local.deleteForStudent(programId, studentId);
+
+    if (this.sync.isEnabled()) {
+      // Deletes go by record ID, which is how the server stores preferences
+      for (const pref of removed) {
+        await this.sync.queueForSync('preferences', 'delete', pref.id);
+      }
+    }
+  }
+
   async setForProgram(programId: string, preferences: Preference[]): Promise<void> {
     if (this.local.setForProgram) {
       await this.local.setForProgram(programId, preferences);
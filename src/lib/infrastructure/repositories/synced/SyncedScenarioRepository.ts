@@ -21,6 +21,10 @@ export class SyncedScenarioRepository implements ScenarioRepository {
     return this.local.getByProgramId(programId);
   }
 
+  async listByProgramId(programId: string): Promise<Scenario[]> {
+    return this.local.listByProgramId(programId);
+  }
+
   async save(scenario: Scenario): Promise<void> {
     await this.local.save(scenario);
 
@@ -2,14 +2,16 @@
  * Synced Staff Repository.
  *
  * Wraps a local StaffRepository and adds sync capability.
- * Staff data is typically read-only in the client, so sync is minimal.
  */
 
-import type { StaffRepository } from '$lib/application/ports';
+import type { StaffRepository, SyncService } from '$lib/application/ports';
 import type { Staff } from '$lib/domain';
 
 export class SyncedStaffRepository implements StaffRepository {
-  constructor(private readonly local: StaffRepository) {}
+  constructor(
+    private readonly local: StaffRepository,
+    private readonly sync: SyncService
+  ) {}
 
   async getById(id: string): Promise<Staff | null> {
     return this.local.getById(id);
@@ -23,4 +25,12 @@ export class SyncedStaffRepository implements StaffRepository {
     const results = await Promise.all(ids.map((id) => this.local.getById(id)));
     return results.filter((s): s is Staff => s !== null);
   }
+
+  async save(staff: Staff): Promise<void> {
+    await this.local.save(staff);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('staff', 'save', staff.id);
+    }
+  }
 }
@@ -0,0 +1,59 @@
+/**
+ * Synced Student Identity Repository.
+ *
+ * Wraps a local StudentIdentityRepository and adds sync capability.
+ */
+
+import type {
+  StudentIdentityRepository,
+  StudentIdentitySearchQuery,
+  SyncService
+} from '$lib/application/ports';
+import type { StudentIdentity } from '$lib/domain';
+
+export class SyncedStudentIdentityRepository implements StudentIdentityRepository {
+  constructor(
+    private readonly local: StudentIdentityRepository,
+    private readonly sync: SyncService
+  ) {}
+
+  async getById(id: string): Promise<StudentIdentity | null> {
+    return this.local.getById(id);
+  }
+
+  async getByIds(ids: string[]): Promise<StudentIdentity[]> {
+    return this.local.getByIds(ids);
+  }
+
+  async search(query: StudentIdentitySearchQuery): Promise<StudentIdentity[]> {
+    return this.local.search(query);
+  }
+
+  async listAll(userId?: string): Promise<StudentIdentity[]> {
+    return this.local.listAll(userId);
+  }
+
+  async save(identity: StudentIdentity): Promise<void> {
+    await this.local.save(identity);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('studentIdentities', 'save', identity.id);
+    }
+  }
+
+  async update(identity: StudentIdentity): Promise<void> {
+    await this.local.update(identity);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('studentIdentities', 'save', identity.id);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.local.delete(id);
+
+    if (this.sync.isEnabled()) {
+      await this.sync.queueForSync('studentIdentities', 'delete', id);
+    }
+  }
+}
@@ -33,6 +33,16 @@ export class SyncedStudentRepository implements StudentRepository {
     }
   }
 
+  async deleteMany(ids: string[]): Promise<void> {
+    await this.local.deleteMany(ids);
+
+    if (this.sync.isEnabled()) {
+      for (const id of ids) {
+        await this.sync.queueForSync('students', 'delete', id);
+      }
+    }
+  }
+
   async listByCanonicalId(canonicalId: string): Promise<Student[]> {
     return this.local.listByCanonicalId(canonicalId);
   }
@@ -16,3 +16,6 @@ export { SyncedSessionRepository } from './SyncedSessionRepository';
 export { SyncedPlacementRepository } from './SyncedPlacementRepository';
 export { SyncedPreferenceRepository } from './SyncedPreferenceRepository';
 export { SyncedGroupTemplateRepository } from './SyncedGroupTemplateRepository';
+export { SyncedConflictRuleRepository } from './SyncedConflictRuleRepository';
+export { SyncedObservationRepository } from './SyncedObservationRepository';
+export { SyncedStudentIdentityRepository } from './SyncedStudentIdentityRepository';
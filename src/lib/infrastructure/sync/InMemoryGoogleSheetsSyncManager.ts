@@ -110,6 +110,7 @@ export class InMemoryGoogleSheetsSyncManager implements GoogleSheetsConfigurable
     if (!this.enabled || !this.config) {
       return {
         success: false,
+        outcome: 'FAILED',
         syncedCount: 0,
         failedCount: entities.length,
         errors: ['Sync not enabled or not configured']
@@ -124,6 +125,7 @@ export class InMemoryGoogleSheetsSyncManager implements GoogleSheetsConfigurable
 
     return {
       success: true,
+      outcome: 'SYNCED',
       syncedCount: entities.length,
       failedCount: 0
     };
@@ -174,7 +176,8 @@ export class InMemoryGoogleSheetsSyncManager implements GoogleSheetsConfigurable
       pendingChanges: this.queue.length,
       online: true,
       lastSyncedAt: this.lastSyncedAt,
-      lastError: this.lastError
+      lastError: this.lastError,
+      conflicts: []
     };
   }
 
@@ -207,6 +210,8 @@ export class InMemoryGoogleSheetsSyncManager implements GoogleSheetsConfigurable
     this.notifyListeners();
   }
 
+  async resolveConflict(): Promise<void> {}
+
   private notifyListeners(): void {
     const status = this.getStatus();
     for (const listener of this.listeners) {
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryGoogleSheetsAdapter } from '$lib/infrastructure/sheets';
+import { InMemoryStorageAdapter } from '$lib/infrastructure/storage';
+import { InMemoryNetworkStatusAdapter } from '$lib/infrastructure/network';
+import { ALL_STORES } from '$lib/utils/backupRestore';
+import { GoogleSheetsSyncManager } from './googleSheetsSyncManager';
+
+async function createManager(sheetsService: InMemoryGoogleSheetsAdapter) {
+  const manager = new GoogleSheetsSyncManager({
+    storage: new InMemoryStorageAdapter(),
+    networkStatus: new InMemoryNetworkStatusAdapter(),
+    sheetsService,
+    getAccessToken: async () => 'token'
+  });
+  await manager.initialize();
+  await manager.configure({ spreadsheetId: 'sheet-1' });
+  manager.setEnabled(true);
+  return manager;
+}
+
+describe('GoogleSheetsSyncManager', () => {
+  it.each(ALL_STORES)('round-trips %s through its own tab', async (entityType) => {
+    const sheets = new InMemoryGoogleSheetsAdapter();
+    sheets.addSpreadsheet({ spreadsheetId: 'sheet-1', title: 'Groupwheel', tabs: [] }, {});
+    const laptop = await createManager(sheets);
+    const tablet = await createManager(sheets);
+
+    const pushed = await laptop.push(entityType, [{ id: 'e1', note: entityType }]);
+    const pulled = await tablet.pull(entityType);
+
+    expect(pushed.outcome).toBe('SYNCED');
+    expect(pulled.entities).toEqual([{ id: 'e1', note: entityType }]);
+    expect((await sheets.getSheetMetadata('sheet-1')).tabs.map((t) => t.title)).toEqual([
+      `_gw_${entityType}`
+    ]);
+  });
+});
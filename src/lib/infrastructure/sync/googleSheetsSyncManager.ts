@@ -45,7 +45,10 @@ const ENTITY_TAB_NAMES: Record<SyncEntityType, string> = {
   sessions: '_gw_sessions',
   placements: '_gw_placements',
   preferences: '_gw_preferences',
-  groupTemplates: '_gw_groupTemplates'
+  observations: '_gw_observations',
+  groupTemplates: '_gw_groupTemplates',
+  studentIdentities: '_gw_studentIdentities',
+  conflictRules: '_gw_conflictRules'
 };
 
 export interface GoogleSheetsSyncManagerDeps {
@@ -141,6 +144,7 @@ export class GoogleSheetsSyncManager implements GoogleSheetsConfigurableSyncServ
     if (!this.enabled || !this.config) {
       return {
         success: false,
+        outcome: 'FAILED',
         syncedCount: 0,
         failedCount: entities.length,
         errors: ['Sync not enabled or not configured']
@@ -151,6 +155,7 @@ export class GoogleSheetsSyncManager implements GoogleSheetsConfigurableSyncServ
     if (!token) {
       return {
         success: false,
+        outcome: 'FAILED',
         syncedCount: 0,
         failedCount: entities.length,
         errors: ['Not authenticated']
@@ -182,6 +187,7 @@ export class GoogleSheetsSyncManager implements GoogleSheetsConfigurableSyncServ
 
       return {
         success: true,
+        outcome: 'SYNCED',
         syncedCount: entities.length,
         failedCount: 0
       };
@@ -192,6 +198,7 @@ export class GoogleSheetsSyncManager implements GoogleSheetsConfigurableSyncServ
 
       return {
         success: false,
+        outcome: 'FAILED',
         syncedCount: 0,
         failedCount: entities.length,
         errors: [errorMessage]
@@ -321,7 +328,8 @@ export class GoogleSheetsSyncManager implements GoogleSheetsConfigurableSyncServ
       pendingChanges: this.queue.length,
       online: this.networkStatus.isOnline(),
       lastSyncedAt: this.lastSyncedAt,
-      lastError: this.lastError
+      lastError: this.lastError,
+      conflicts: []
     };
   }
 
@@ -376,6 +384,12 @@ export class GoogleSheetsSyncManager implements GoogleSheetsConfigurableSyncServ
     this.notifyListeners();
   }
 
+  /**
+   * The sheet is overwritten on every push (last write wins), so there are no
+   * conflicts to resolve.
+   */
+  async resolveConflict(): Promise<void> {}
+
   // ─────────────────────────────────────────────────────────────────────────
   // Private helpers
   // ─────────────────────────────────────────────────────────────────────────
@@ -4,7 +4,11 @@
  * @module infrastructure/sync
  */
 
-export { SyncManager, type SyncManagerDeps } from './syncManager';
+export { SyncManager, type SyncManagerDeps, type SyncLocalStore } from './syncManager';
+export {
+  RepositorySyncLocalStore,
+  type RepositorySyncLocalStoreRepos
+} from './repositorySyncLocalStore';
 export {
   GoogleSheetsSyncManager,
   type GoogleSheetsSyncManagerDeps
@@ -0,0 +1,176 @@
+/**
+ * SyncLocalStore backed by the app's local (unsynced) repositories.
+ *
+ * Reads entities for queued saves, writes merged or resolved versions back and
+ * removes entities deleted on other devices.
+ * It must be given the base repositories, not the Synced* wrappers, so writes
+ * made on behalf of sync are not queued for sync again.
+ *
+ * @module infrastructure/sync/repositorySyncLocalStore
+ */
+
+import type {
+  StudentRepository,
+  StaffRepository,
+  PoolRepository,
+  ProgramRepository,
+  ScenarioRepository,
+  SessionRepository,
+  PlacementRepository,
+  PreferenceRepository,
+  ObservationRepository,
+  GroupTemplateRepository,
+  StudentIdentityRepository,
+  ConflictRuleRepository,
+  SyncEntityType
+} from '$lib/application/ports';
+import type {
+  ConflictRule,
+  GroupTemplate,
+  Observation,
+  Placement,
+  Pool,
+  Preference,
+  Program,
+  Scenario,
+  Session,
+  Staff,
+  Student,
+  StudentIdentity
+} from '$lib/domain';
+import type { SyncLocalStore } from './syncManager';
+
+export interface RepositorySyncLocalStoreRepos {
+  studentRepo: StudentRepository;
+  staffRepo: StaffRepository;
+  poolRepo: PoolRepository;
+  programRepo: ProgramRepository;
+  scenarioRepo: ScenarioRepository;
+  sessionRepo: SessionRepository;
+  placementRepo: PlacementRepository;
+  preferenceRepo: PreferenceRepository;
+  observationRepo: ObservationRepository;
+  groupTemplateRepo: GroupTemplateRepository;
+  studentIdentityRepo: StudentIdentityRepository;
+  conflictRuleRepo: ConflictRuleRepository;
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Turn ISO timestamps from the server's JSON back into Dates, as the
+ * repositories expect.
+ */
+function reviveDates(value: unknown): unknown {
+  if (typeof value === 'string' && ISO_DATE_TIME.test(value)) return new Date(value);
+  if (Array.isArray(value)) return value.map(reviveDates);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, reviveDates(item)]));
+  }
+  return value;
+}
+
+export class RepositorySyncLocalStore implements SyncLocalStore {
+  constructor(private readonly repos: RepositorySyncLocalStoreRepos) {}
+
+  async get(entityType: SyncEntityType, entityId: string): Promise<unknown | null> {
+    const r = this.repos;
+    switch (entityType) {
+      case 'students':
+        return r.studentRepo.getById(entityId);
+      case 'staff':
+        return r.staffRepo.getById(entityId);
+      case 'pools':
+        return r.poolRepo.getById(entityId);
+      case 'programs':
+        return r.programRepo.getById(entityId);
+      case 'scenarios':
+        return r.scenarioRepo.getById(entityId);
+      case 'sessions':
+        return r.sessionRepo.getById(entityId);
+      case 'placements':
+        return r.placementRepo.getById(entityId);
+      case 'observations':
+        return r.observationRepo.getById(entityId);
+      case 'groupTemplates':
+        return r.groupTemplateRepo.getById(entityId);
+      case 'studentIdentities':
+        return r.studentIdentityRepo.getById(entityId);
+      case 'conflictRules':
+        return r.conflictRuleRepo.getById(entityId);
+      case 'preferences': {
+        // Queued under `${programId}:${studentId}` (see SyncedPreferenceRepository)
+        const [programId, studentId] = entityId.split(':');
+        const preferences = await r.preferenceRepo.listByProgramId(programId);
+        return preferences.find((p) => p.studentId === studentId || p.id === entityId) ?? null;
+      }
+    }
+  }
+
+  async put(entityType: SyncEntityType, entity: unknown): Promise<void> {
+    const r = this.repos;
+    const revived = reviveDates(entity);
+    switch (entityType) {
+      case 'students':
+        return r.studentRepo.saveMany([revived as Student]);
+      case 'staff':
+        return r.staffRepo.save(revived as Staff);
+      case 'pools':
+        return r.poolRepo.save(revived as Pool);
+      case 'programs':
+        return r.programRepo.save(revived as Program);
+      case 'scenarios':
+        return r.scenarioRepo.save(revived as Scenario);
+      case 'sessions':
+        return r.sessionRepo.save(revived as Session);
+      case 'placements':
+        return r.placementRepo.save(revived as Placement);
+      case 'preferences':
+        return r.preferenceRepo.save(revived as Preference);
+      case 'observations':
+        return r.observationRepo.save(revived as Observation);
+      case 'groupTemplates':
+        return r.groupTemplateRepo.save(revived as GroupTemplate);
+      case 'studentIdentities':
+        return r.studentIdentityRepo.save(revived as StudentIdentity);
+      case 'conflictRules':
+        return r.conflictRuleRepo.save(revived as ConflictRule);
+    }
+  }
+
+  async delete(entityType: SyncEntityType, entity: { id: string }): Promise<void> {
+    const r = this.repos;
+    const id = entity.id;
+    switch (entityType) {
+      case 'students':
+        return r.studentRepo.deleteMany([id]);
+      case 'staff':
+        // Staff records are never deleted locally
+        return;
+      case 'pools':
+        return r.poolRepo.delete(id);
+      case 'programs':
+        return r.programRepo.delete(id);
+      case 'scenarios':
+        return r.scenarioRepo.delete(id);
+      case 'sessions':
+        return r.sessionRepo.delete(id);
+      case 'placements':
+        return r.placementRepo.delete(id);
+      case 'preferences': {
+        // Preferences are removed per student, so this needs the last synced copy
+        const { programId, studentId } = entity as Partial<Preference>;
+        if (!programId || !studentId) return;
+        return r.preferenceRepo.deleteForStudent(programId, studentId);
+      }
+      case 'observations':
+        return r.observationRepo.delete(id);
+      case 'groupTemplates':
+        return r.groupTemplateRepo.delete(id);
+      case 'studentIdentities':
+        return r.studentIdentityRepo.delete(id);
+      case 'conflictRules':
+        return r.conflictRuleRepo.delete(id);
+    }
+  }
+}
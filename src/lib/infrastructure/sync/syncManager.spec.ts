@@ -0,0 +1,327 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HttpClientPort, HttpRequest, SyncEntityType } from '$lib/application/ports';
+import { InMemorySyncStore } from '$lib/server/sync';
+import { InMemoryStorageAdapter } from '$lib/infrastructure/storage';
+import { InMemoryNetworkStatusAdapter } from '$lib/infrastructure/network';
+import { createInMemoryEnvironment } from '$lib/infrastructure/inMemoryEnvironment';
+import { ALL_STORES } from '$lib/utils/backupRestore';
+import { RepositorySyncLocalStore } from './repositorySyncLocalStore';
+import { SyncManager, type SyncLocalStore } from './syncManager';
+
+/** HTTP client answering like /api/sync, backed by a shared store. */
+function serverClient(store: InMemorySyncStore): HttpClientPort {
+  const wire = <T>(data: unknown) => ({
+    ok: true,
+    status: 200,
+    data: JSON.parse(JSON.stringify(data)) as T
+  });
+
+  return {
+    async request<T>(req: HttpRequest) {
+      const url = new URL(req.url, 'http://localhost');
+      if (req.method === 'POST') {
+        const body = JSON.parse(JSON.stringify(req.body));
+        const outcome = await store.push('teacher', body.entityType, body.entities);
+        return wire<T>({ ...outcome, lastSyncedAt: outcome.syncedAt });
+      }
+      const entityType = url.searchParams.get('entityType') as SyncEntityType;
+      if (req.method === 'DELETE') {
+        const deleted = await store.delete(
+          'teacher',
+          entityType,
+          url.searchParams.get('entityId')!
+        );
+        return wire<T>({ success: true, deleted });
+      }
+      const since = url.searchParams.get('since');
+      const entities = await store.pull('teacher', entityType, since ? new Date(since) : undefined);
+      return wire<T>({ entities, lastSyncedAt: new Date() });
+    }
+  };
+}
+
+class MapLocalStore implements SyncLocalStore {
+  entities = new Map<string, unknown>();
+
+  async get(entityType: SyncEntityType, entityId: string) {
+    return this.entities.get(`${entityType}:${entityId}`) ?? null;
+  }
+
+  async put(entityType: SyncEntityType, entity: unknown) {
+    this.entities.set(`${entityType}:${(entity as { id: string }).id}`, entity);
+  }
+
+  async delete(entityType: SyncEntityType, entity: { id: string }) {
+    this.entities.delete(`${entityType}:${entity.id}`);
+  }
+}
+
+async function createDevice(store: InMemorySyncStore) {
+  const localStore = new MapLocalStore();
+  const manager = new SyncManager({
+    storage: new InMemoryStorageAdapter(),
+    networkStatus: new InMemoryNetworkStatusAdapter(),
+    getAccessToken: () => 'token',
+    httpClient: serverClient(store),
+    localStore
+  });
+  await manager.initialize();
+  manager.setEnabled(true);
+  return { manager, localStore };
+}
+
+const scenario = {
+  id: 'sc1',
+  status: 'DRAFT',
+  groups: [
+    { id: 'g1', name: 'Robotics', memberIds: ['ana', 'ben'] },
+    { id: 'g2', name: 'Art', memberIds: ['cy'] }
+  ]
+};
+
+describe('SyncManager', () => {
+  let store: InMemorySyncStore;
+
+  beforeEach(() => {
+    // Keep queueForSync's debounced sync from running on its own
+    vi.useFakeTimers();
+    store = new InMemorySyncStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function twoDevicesSharing(entity: typeof scenario) {
+    const laptop = await createDevice(store);
+    const tablet = await createDevice(store);
+    await laptop.manager.push('scenarios', [entity]);
+    await tablet.manager.pull('scenarios');
+    return { laptop, tablet };
+  }
+
+  it('merges edits to different parts of a record made on two devices', async () => {
+    const { laptop, tablet } = await twoDevicesSharing(scenario);
+
+    const renamed = {
+      ...scenario,
+      groups: [{ ...scenario.groups[0], name: 'Robots' }, scenario.groups[1]]
+    };
+    const moved = {
+      ...scenario,
+      groups: [
+        { ...scenario.groups[0], memberIds: ['ana'] },
+        { ...scenario.groups[1], memberIds: ['cy', 'ben'] }
+      ]
+    };
+    expect((await laptop.manager.push('scenarios', [renamed])).outcome).toBe('SYNCED');
+    const result = await tablet.manager.push('scenarios', [moved]);
+
+    const expected = {
+      ...scenario,
+      groups: [
+        { id: 'g1', name: 'Robots', memberIds: ['ana'] },
+        { id: 'g2', name: 'Art', memberIds: ['cy', 'ben'] }
+      ]
+    };
+    expect(result).toMatchObject({ success: true, outcome: 'MERGED', syncedCount: 1 });
+    expect(await tablet.localStore.get('scenarios', 'sc1')).toEqual(expected);
+    expect(await store.pull('teacher', 'scenarios')).toMatchObject([{ ...expected, _revision: 3 }]);
+  });
+
+  it('reports a conflict when both devices move the same student to different groups', async () => {
+    const three = {
+      ...scenario,
+      groups: [...scenario.groups, { id: 'g3', name: 'Music', memberIds: [] as string[] }]
+    };
+    const { laptop, tablet } = await twoDevicesSharing(three);
+    const moveAnaTo = (groupId: string) => ({
+      ...three,
+      groups: three.groups.map((g) => ({
+        ...g,
+        memberIds:
+          g.id === 'g1' ? ['ben'] : g.id === groupId ? [...g.memberIds, 'ana'] : g.memberIds
+      }))
+    });
+
+    await laptop.manager.push('scenarios', [moveAnaTo('g2')]);
+    const result = await tablet.manager.push('scenarios', [moveAnaTo('g3')]);
+
+    expect(result).toMatchObject({ outcome: 'CONFLICT', syncedCount: 0 });
+    expect(tablet.manager.getStatus().conflicts).toMatchObject([
+      { entityId: 'sc1', fields: ['groups'] }
+    ]);
+    expect(await store.pull('teacher', 'scenarios')).toMatchObject([moveAnaTo('g2')]);
+  });
+
+  it('keeps both versions as a conflict when the same field changed on both devices', async () => {
+    const { laptop, tablet } = await twoDevicesSharing(scenario);
+    await laptop.manager.push('scenarios', [{ ...scenario, status: 'ADOPTED' }]);
+
+    const result = await tablet.manager.push('scenarios', [{ ...scenario, status: 'ARCHIVED' }]);
+
+    expect(result).toMatchObject({ outcome: 'CONFLICT', syncedCount: 0, failedCount: 1 });
+    expect(tablet.manager.getStatus().conflicts).toEqual([
+      {
+        entityType: 'scenarios',
+        entityId: 'sc1',
+        local: { ...scenario, status: 'ARCHIVED' },
+        remote: { ...scenario, status: 'ADOPTED' },
+        fields: ['status']
+      }
+    ]);
+    expect(await store.pull('teacher', 'scenarios')).toMatchObject([{ status: 'ADOPTED' }]);
+  });
+
+  it('resolves conflicts by keeping either version', async () => {
+    const { laptop, tablet } = await twoDevicesSharing(scenario);
+    await laptop.manager.push('scenarios', [{ ...scenario, status: 'ADOPTED' }]);
+    await tablet.manager.push('scenarios', [{ ...scenario, status: 'ARCHIVED' }]);
+
+    await tablet.manager.resolveConflict('scenarios', 'sc1', 'local');
+
+    expect(tablet.manager.getStatus().conflicts).toEqual([]);
+    expect(await store.pull('teacher', 'scenarios')).toMatchObject([{ status: 'ARCHIVED' }]);
+
+    // The laptop is now behind and takes the tablet's version
+    await laptop.manager.push('scenarios', [{ ...scenario, status: 'DRAFT' }]);
+    await laptop.manager.resolveConflict('scenarios', 'sc1', 'remote');
+
+    expect(await laptop.localStore.get('scenarios', 'sc1')).toEqual({
+      ...scenario,
+      status: 'ARCHIVED'
+    });
+    expect(laptop.manager.getStatus().conflicts).toEqual([]);
+  });
+
+  it('pushes queued saves and deletes from the local store on sync', async () => {
+    const { manager, localStore } = await createDevice(store);
+    await store.push('teacher', 'programs', [{ id: 'old' }]);
+    await localStore.put('scenarios', scenario);
+
+    await manager.queueForSync('scenarios', 'save', 'sc1');
+    await manager.queueForSync('programs', 'delete', 'old');
+    await manager.sync();
+
+    expect(await store.pull('teacher', 'scenarios')).toMatchObject([{ id: 'sc1', _revision: 1 }]);
+    expect(await store.pull('teacher', 'programs')).toEqual([]);
+    expect(manager.getStatus()).toMatchObject({ pendingChanges: 0, lastError: null });
+  });
+
+  it('applies deletions from other devices on incremental pulls', async () => {
+    const { laptop, tablet } = await twoDevicesSharing(scenario);
+    await tablet.localStore.put('scenarios', scenario);
+    const lastPull = new Date(Date.now() - 1);
+
+    await laptop.manager.queueForSync('scenarios', 'delete', 'sc1');
+    await laptop.manager.sync();
+    const pulled = await tablet.manager.pull('scenarios', lastPull);
+
+    expect(pulled.entities).toEqual([]);
+    expect(await tablet.localStore.get('scenarios', 'sc1')).toBeNull();
+  });
+
+  it('keeps an edit to an entity deleted elsewhere as a conflict', async () => {
+    const { laptop, tablet } = await twoDevicesSharing(scenario);
+    await tablet.localStore.put('scenarios', scenario);
+    await laptop.manager.queueForSync('scenarios', 'delete', 'sc1');
+    await laptop.manager.sync();
+
+    const result = await tablet.manager.push('scenarios', [{ ...scenario, status: 'ADOPTED' }]);
+
+    expect(result.outcome).toBe('CONFLICT');
+    expect(tablet.manager.getStatus().conflicts).toMatchObject([
+      { entityId: 'sc1', remote: { id: 'sc1', _deleted: true }, fields: ['(deleted)'] }
+    ]);
+
+    await tablet.manager.resolveConflict('scenarios', 'sc1', 'remote');
+    expect(await tablet.localStore.get('scenarios', 'sc1')).toBeNull();
+  });
+
+  it.each(ALL_STORES)('round-trips %s between devices', async (entityType) => {
+    const laptop = await createDevice(store);
+    const tablet = await createDevice(store);
+    await laptop.localStore.put(entityType, { id: 'e1', note: entityType });
+
+    await laptop.manager.queueForSync(entityType, 'save', 'e1');
+    await laptop.manager.sync();
+    const pulled = await tablet.manager.pull(entityType);
+
+    expect(pulled.entities).toMatchObject([{ id: 'e1', note: entityType }]);
+  });
+
+  it('syncs observations and student identities saved through the app repositories', async () => {
+    const laptop = await createDevice(store);
+    const tablet = await createDevice(store);
+    const laptopEnv = createInMemoryEnvironment(undefined, { syncService: laptop.manager });
+    const tabletEnv = createInMemoryEnvironment(undefined, { syncService: tablet.manager });
+    const createdAt = new Date('2025-03-01T09:00:00Z');
+
+    await laptopEnv.observationRepo.save({
+      id: 'obs-1',
+      programId: 'p1',
+      groupId: 'g1',
+      groupName: 'Robotics',
+      content: 'Worked well together',
+      createdAt
+    });
+    await laptopEnv.studentIdentityRepo.save({
+      id: 'id-1',
+      displayName: 'Ana Lee',
+      knownVariants: [],
+      createdAt
+    });
+    await laptop.manager.sync();
+
+    const tabletStore = new RepositorySyncLocalStore(tabletEnv);
+    for (const entityType of ['observations', 'studentIdentities'] as const) {
+      const { entities } = await tablet.manager.pull(entityType);
+      for (const entity of entities) await tabletStore.put(entityType, entity);
+    }
+
+    expect(await tabletEnv.observationRepo.getById('obs-1')).toMatchObject({
+      content: 'Worked well together',
+      createdAt
+    });
+    expect(await tabletEnv.studentIdentityRepo.getById('id-1')).toMatchObject({
+      displayName: 'Ana Lee'
+    });
+  });
+
+  it('brings changes and deletions from other devices in through sync()', async () => {
+    const laptop = await createDevice(store);
+    const tablet = await createDevice(store);
+    const laptopEnv = createInMemoryEnvironment(undefined, { syncService: laptop.manager });
+    const tabletEnv = createInMemoryEnvironment(undefined, { syncService: tablet.manager });
+    const createdAt = new Date('2025-03-01T09:00:00Z');
+
+    await laptopEnv.staffRepo.save({ id: 't1', name: 'Dana Kim', roles: ['TEACHER'] });
+    await laptopEnv.observationRepo.save({
+      id: 'obs-1',
+      programId: 'p1',
+      groupId: 'g1',
+      groupName: 'Robotics',
+      content: 'Worked well together',
+      createdAt
+    });
+    await laptop.manager.sync();
+    await tablet.manager.sync();
+
+    expect(await tabletEnv.staffRepo.getById('t1')).toMatchObject({ name: 'Dana Kim' });
+    expect(await tabletEnv.observationRepo.getById('obs-1')).toEqual({
+      id: 'obs-1',
+      programId: 'p1',
+      groupId: 'g1',
+      groupName: 'Robotics',
+      content: 'Worked well together',
+      createdAt
+    });
+
+    await laptopEnv.observationRepo.delete('obs-1');
+    await laptop.manager.sync();
+    await tablet.manager.sync();
+
+    expect(await tabletEnv.observationRepo.getById('obs-1')).toBeNull();
+    expect(tablet.manager.getStatus()).toMatchObject({ pendingChanges: 0, lastError: null });
+  });
+});
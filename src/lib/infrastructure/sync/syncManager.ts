@@ -4,12 +4,22 @@
  * Orchestrates data synchronization between local storage and server.
  * Implements the SyncService port.
  *
+ * Every push carries the server revision this device last saw for each entity.
+ * When another device saved in the meantime the server returns its version, which
+ * is merged field by field against the last synced version (see
+ * utils/threeWayMerge). Clean merges are saved locally and pushed again; the rest
+ * are kept as conflicts until the user picks a version.
+ *
+ * A sync cycle pushes queued changes, then pulls what other devices changed since
+ * the last cycle and writes it to the local store.
+ *
  * @module infrastructure/sync/syncManager
  */
 
 import type {
   SyncService,
   SyncStatus,
+  SyncConflict,
   SyncEntityType,
   SyncPushResult,
   SyncPullResult,
@@ -17,6 +27,7 @@ import type {
   NetworkStatusPort,
   HttpClientPort
 } from '$lib/application/ports';
+import { mergeThreeWay } from '$lib/utils/threeWayMerge';
 
 interface QueuedOperation {
   entityType: SyncEntityType;
@@ -25,13 +36,106 @@ interface QueuedOperation {
   timestamp: number;
 }
 
+/**
+ * Last version of an entity both this device and the server agreed on.
+ */
+interface SyncRecord {
+  revision: number;
+  base: unknown;
+}
+
+interface PendingConflict extends SyncConflict {
+  /** Server revision of `remote`, pushed against when keeping the local version. */
+  remoteRevision: number;
+}
+
+type JsonEntity = Record<string, unknown> & { id?: string };
+
+interface PushResponse {
+  syncedCount?: number;
+  revisions?: Record<string, number>;
+  conflicts?: JsonEntity[];
+}
+
+interface PushBatchResult {
+  syncedCount: number;
+  mergedCount: number;
+  conflicts: PendingConflict[];
+}
+
 const SYNC_QUEUE_KEY = 'groupwheel_sync_queue';
+const SYNC_RECORDS_KEY = 'groupwheel_sync_records';
+const SYNC_CONFLICTS_KEY = 'groupwheel_sync_conflicts';
+const SYNC_PULLED_AT_KEY = 'groupwheel_sync_pulled_at';
+
+/** Entity types pulled each cycle, entities that others refer to first. */
+const PULLED_ENTITY_TYPES: readonly SyncEntityType[] = [
+  'staff',
+  'students',
+  'studentIdentities',
+  'pools',
+  'programs',
+  'groupTemplates',
+  'scenarios',
+  'sessions',
+  'placements',
+  'preferences',
+  'observations',
+  'conflictRules'
+];
+
+/** Merge-and-retry rounds before a repeatedly changing entity is left as a conflict. */
+const MAX_MERGE_ATTEMPTS = 3;
+
+/**
+ * Local copies of synced entities, read when pushing queued changes and written
+ * when a merge or conflict resolution changes them. Writes must not re-queue.
+ */
+export interface SyncLocalStore {
+  get(entityType: SyncEntityType, entityId: string): Promise<unknown | null>;
+  put(entityType: SyncEntityType, entity: unknown): Promise<void>;
+  /**
+   * Remove an entity deleted on another device. `entity` is the last synced
+   * copy when this device has one, otherwise just the ID.
+   */
+  delete(entityType: SyncEntityType, entity: { id: string }): Promise<void>;
+}
 
 export interface SyncManagerDeps {
   storage: StoragePort;
   networkStatus: NetworkStatusPort;
   getAccessToken: () => string | null;
   httpClient?: HttpClientPort;
+  localStore?: SyncLocalStore;
+}
+
+function recordKey(entityType: SyncEntityType, entityId: string): string {
+  return `${entityType}:${entityId}`;
+}
+
+/**
+ * Plain JSON copy (dates become ISO strings), as the server stores it.
+ */
+function toJson(entity: unknown): JsonEntity {
+  return JSON.parse(JSON.stringify(entity)) as JsonEntity;
+}
+
+/**
+ * Whether a server entity is the tombstone of a deleted one.
+ */
+function isTombstone(entity: JsonEntity): boolean {
+  return entity._deleted === true;
+}
+
+/**
+ * Copy of a server entity without the fields the server adds.
+ */
+function withoutServerFields(entity: JsonEntity): JsonEntity {
+  const copy = { ...entity };
+  delete copy._syncedAt;
+  delete copy._revision;
+  delete copy._baseRevision;
+  return copy;
 }
 
 /**
@@ -41,6 +145,10 @@ export class SyncManager implements SyncService {
   private enabled = false;
   private syncing = false;
   private queue: QueuedOperation[] = [];
+  private records: Record<string, SyncRecord> = {};
+  private conflicts: PendingConflict[] = [];
+  /** Server time of the last pull per entity type, sent as `since` next time. */
+  private pulledAt: Partial<Record<SyncEntityType, string>> = {};
   private lastSyncedAt: Date | null = null;
   private lastError: string | null = null;
   private listeners: Set<(status: SyncStatus) => void> = new Set();
@@ -50,12 +158,22 @@ export class SyncManager implements SyncService {
   private readonly networkStatus: NetworkStatusPort;
   private readonly getAccessToken: () => string | null;
   private readonly httpClient?: HttpClientPort;
+  private localStore?: SyncLocalStore;
 
   constructor(deps: SyncManagerDeps) {
     this.storage = deps.storage;
     this.networkStatus = deps.networkStatus;
     this.getAccessToken = deps.getAccessToken;
     this.httpClient = deps.httpClient;
+    this.localStore = deps.localStore;
+  }
+
+  /**
+   * Attach the local store once repositories exist (the browser singleton is
+   * created before the app environment).
+   */
+  setLocalStore(localStore: SyncLocalStore): void {
+    this.localStore = localStore;
   }
 
   /**
@@ -90,6 +208,19 @@ export class SyncManager implements SyncService {
     } catch {
       this.queue = [];
     }
+
+    try {
+      const records = await this.storage.get(SYNC_RECORDS_KEY);
+      const conflicts = await this.storage.get(SYNC_CONFLICTS_KEY);
+      const pulledAt = await this.storage.get(SYNC_PULLED_AT_KEY);
+      this.records = records ? JSON.parse(records) : {};
+      this.conflicts = conflicts ? JSON.parse(conflicts) : [];
+      this.pulledAt = pulledAt ? JSON.parse(pulledAt) : {};
+    } catch {
+      this.records = {};
+      this.conflicts = [];
+      this.pulledAt = {};
+    }
   }
 
   /**
@@ -99,12 +230,22 @@ export class SyncManager implements SyncService {
     await this.storage.set(SYNC_QUEUE_KEY, JSON.stringify(this.queue));
   }
 
+  /**
+   * Save revision records, pending conflicts and pull times to storage.
+   */
+  private async saveSyncState(): Promise<void> {
+    await this.storage.set(SYNC_RECORDS_KEY, JSON.stringify(this.records));
+    await this.storage.set(SYNC_CONFLICTS_KEY, JSON.stringify(this.conflicts));
+    await this.storage.set(SYNC_PULLED_AT_KEY, JSON.stringify(this.pulledAt));
+  }
+
   /**
    * Setup listener for online/offline events.
    */
   private setupOnlineListener(): void {
     this.unsubscribeNetworkStatus = this.networkStatus.onStatusChange((online) => {
-      if (online && this.enabled && this.queue.length > 0) {
+      // Also when nothing is queued: other devices may have changed data meanwhile
+      if (online && this.enabled) {
         this.sync();
       }
       this.notifyListeners();
@@ -121,6 +262,42 @@ export class SyncManager implements SyncService {
     }
   }
 
+  /**
+   * Send an authenticated request to the sync API.
+   */
+  private async request<R>(
+    method: 'GET' | 'POST' | 'DELETE',
+    url: string,
+    accessToken: string,
+    body?: unknown
+  ): Promise<R> {
+    if (this.httpClient) {
+      const response = await this.httpClient.request<R>({
+        url,
+        method,
+        headers: { Authorization: `Bearer ${accessToken}` },
+        body
+      });
+      if (!response.ok) {
+        throw new Error(`Sync failed: status ${response.status}`);
+      }
+      return response.data;
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        Authorization: `Bearer ${accessToken}`
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+    if (!response.ok) {
+      throw new Error(`Sync failed: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
   /**
    * Push entities to the server.
    */
@@ -129,6 +306,7 @@ export class SyncManager implements SyncService {
     if (!this.enabled || !accessToken) {
       return {
         success: false,
+        outcome: 'FAILED',
         syncedCount: 0,
         failedCount: entities.length,
         errors: ['Sync not enabled or not authenticated']
@@ -136,45 +314,27 @@ export class SyncManager implements SyncService {
     }
 
     try {
-      let result: { syncedCount?: number };
-
-      if (this.httpClient) {
-        const response = await this.httpClient.request<{ syncedCount?: number }>({
-          url: '/api/sync',
-          method: 'POST',
-          headers: { Authorization: `Bearer ${accessToken}` },
-          body: { operation: 'push', entityType, entities }
-        });
-        if (!response.ok) {
-          throw new Error(`Sync failed: status ${response.status}`);
-        }
-        result = response.data;
-      } else {
-        const response = await fetch('/api/sync', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${accessToken}`
-          },
-          body: JSON.stringify({
-            operation: 'push',
-            entityType,
-            entities
-          })
-        });
-        if (!response.ok) {
-          throw new Error(`Sync failed: ${response.statusText}`);
-        }
-        result = await response.json();
+      const result = await this.pushBatch(entityType, entities.map(toJson), accessToken, 1);
+
+      for (const conflict of result.conflicts) {
+        this.conflicts = this.conflicts.filter(
+          (c) => !(c.entityType === entityType && c.entityId === conflict.entityId)
+        );
+        this.conflicts.push(conflict);
       }
+      await this.saveSyncState();
+
       this.lastSyncedAt = new Date();
       this.lastError = null;
       this.notifyListeners();
 
+      const conflicts = result.conflicts.map((conflict) => this.toSyncConflict(conflict));
       return {
         success: true,
-        syncedCount: result.syncedCount ?? entities.length,
-        failedCount: 0
+        outcome: conflicts.length > 0 ? 'CONFLICT' : result.mergedCount > 0 ? 'MERGED' : 'SYNCED',
+        syncedCount: result.syncedCount,
+        failedCount: conflicts.length,
+        ...(conflicts.length > 0 && { conflicts })
       };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
@@ -183,6 +343,7 @@ export class SyncManager implements SyncService {
 
       return {
         success: false,
+        outcome: 'FAILED',
         syncedCount: 0,
         failedCount: entities.length,
         errors: [errorMessage]
@@ -191,7 +352,111 @@ export class SyncManager implements SyncService {
   }
 
   /**
-   * Pull entities from the server.
+   * Push one batch against the recorded revisions, then merge whatever the
+   * server rejected as stale and push the clean merges again.
+   */
+  private async pushBatch(
+    entityType: SyncEntityType,
+    entities: JsonEntity[],
+    accessToken: string,
+    attempt: number
+  ): Promise<PushBatchResult> {
+    const payload = entities.map((entity) => ({
+      ...entity,
+      _baseRevision: entity.id
+        ? this.records[recordKey(entityType, entity.id)]?.revision
+        : undefined
+    }));
+    const response = await this.request<PushResponse>('POST', '/api/sync', accessToken, {
+      operation: 'push',
+      entityType,
+      entities: payload
+    });
+
+    const revisions = response.revisions ?? {};
+    for (const entity of entities) {
+      const revision = entity.id ? revisions[entity.id] : undefined;
+      if (entity.id && revision !== undefined) {
+        this.records[recordKey(entityType, entity.id)] = { revision, base: entity };
+      }
+    }
+
+    const result: PushBatchResult = {
+      syncedCount: response.syncedCount ?? entities.length,
+      mergedCount: 0,
+      conflicts: []
+    };
+    const merged: JsonEntity[] = [];
+
+    for (const stored of response.conflicts ?? []) {
+      const entityId = stored.id;
+      const local = entities.find((entity) => entity.id === entityId);
+      if (!entityId || !local) continue;
+
+      const remote = withoutServerFields(stored);
+      const remoteRevision = Number(stored._revision ?? 0);
+      const key = recordKey(entityType, entityId);
+
+      // Edited here but deleted elsewhere: nothing to merge, the user decides
+      if (isTombstone(stored)) {
+        result.conflicts.push({
+          entityType,
+          entityId,
+          local,
+          remote,
+          fields: ['(deleted)'],
+          remoteRevision
+        });
+        continue;
+      }
+
+      const { merged: mergedEntity, conflicts: fields } = mergeThreeWay(
+        this.records[key]?.base,
+        local,
+        remote
+      );
+
+      if (fields.length > 0 || attempt >= MAX_MERGE_ATTEMPTS) {
+        result.conflicts.push({
+          entityType,
+          entityId,
+          local,
+          remote,
+          fields: fields.length > 0 ? fields : ['(whole record)'],
+          remoteRevision
+        });
+        continue;
+      }
+
+      // The server version is now the common ancestor of the merged entity
+      this.records[key] = { revision: remoteRevision, base: remote };
+      await this.localStore?.put(entityType, mergedEntity);
+      merged.push(mergedEntity);
+    }
+
+    if (merged.length > 0) {
+      const retry = await this.pushBatch(entityType, merged, accessToken, attempt + 1);
+      result.syncedCount += retry.syncedCount;
+      result.mergedCount += merged.length - retry.conflicts.length;
+      result.conflicts.push(...retry.conflicts);
+    }
+
+    return result;
+  }
+
+  private toSyncConflict(conflict: PendingConflict): SyncConflict {
+    return {
+      entityType: conflict.entityType,
+      entityId: conflict.entityId,
+      local: conflict.local,
+      remote: conflict.remote,
+      fields: conflict.fields
+    };
+  }
+
+  /**
+   * Pull entities from the server. Tombstones of entities deleted on another
+   * device are applied to the local store and left out of the result.
    */
   async pull<T>(entityType: SyncEntityType, since?: Date): Promise<SyncPullResult<T>> {
     const accessToken = this.getAccessToken();
@@ -210,36 +475,39 @@ export class SyncManager implements SyncService {
         ...(since && { since: since.toISOString() })
       });
 
-      let result: { entities?: T[]; lastSyncedAt?: string };
-
-      if (this.httpClient) {
-        const response = await this.httpClient.request<typeof result>({
-          url: `/api/sync?${params}`,
-          method: 'GET',
-          headers: { Authorization: `Bearer ${accessToken}` }
-        });
-        if (!response.ok) {
-          throw new Error(`Sync failed: status ${response.status}`);
+      const result = await this.request<{ entities?: T[]; lastSyncedAt?: string }>(
+        'GET',
+        `/api/sync?${params}`,
+        accessToken
+      );
+
+      // Pulled versions become the merge base, except where local edits are still
+      // waiting to be pushed (their base is the version they were made from; a
+      // deletion among them comes back as a conflict when they are pushed)
+      const pulled = (result.entities ?? []) as JsonEntity[];
+      for (const entity of pulled) {
+        if (!entity.id || typeof entity._revision !== 'number') continue;
+        if (this.hasPendingWork(entityType, entity.id)) continue;
+        const key = recordKey(entityType, entity.id);
+        if (isTombstone(entity)) {
+          await this.localStore?.delete(entityType, this.lastSyncedCopy(key, entity.id));
+          delete this.records[key];
+          continue;
         }
-        result = response.data;
-      } else {
-        const response = await fetch(`/api/sync?${params}`, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`
-          }
-        });
-        if (!response.ok) {
-          throw new Error(`Sync failed: ${response.statusText}`);
-        }
-        result = await response.json();
+        this.records[key] = {
+          revision: entity._revision,
+          base: withoutServerFields(entity)
+        };
       }
+      await this.saveSyncState();
+
       this.lastSyncedAt = new Date();
       this.lastError = null;
       this.notifyListeners();
 
       return {
         success: true,
-        entities: result.entities ?? [],
+        entities: pulled.filter((entity) => !isTombstone(entity)) as T[],
         lastSyncedAt: new Date(result.lastSyncedAt ?? Date.now())
       };
     } catch (err) {
@@ -256,31 +524,77 @@ export class SyncManager implements SyncService {
     }
   }
 
+  /**
+   * The last version of an entity this device synced, or just its ID.
+   */
+  private lastSyncedCopy(key: string, entityId: string): { id: string } {
+    const base = this.records[key]?.base as JsonEntity | undefined;
+    return { ...base, id: entityId };
+  }
+
+  private hasPendingWork(entityType: SyncEntityType, entityId: string): boolean {
+    const matches = (item: { entityType: SyncEntityType; entityId: string }) =>
+      item.entityType === entityType && item.entityId === entityId;
+    return this.queue.some(matches) || this.conflicts.some(matches);
+  }
+
   /**
    * Perform a full sync cycle.
+   *
+   * Queued saves are read from the local store and pushed per entity type;
+   * queued deletes are sent one by one. Operations stay queued until the server
+   * has accepted them (or reported a conflict, which is then tracked instead).
+   * Then every entity type is pulled since the previous cycle and written to the
+   * local store, except entities with local changes still pending.
    */
   async sync(): Promise<void> {
     if (!this.enabled || this.syncing) return;
+    const accessToken = this.getAccessToken();
+    const localStore = this.localStore;
+    if (!accessToken || !localStore) return;
 
     this.syncing = true;
     this.notifyListeners();
 
     try {
-      // Process queued operations
       const operations = [...this.queue];
+      const done: QueuedOperation[] = [];
 
+      const savesByType = new Map<SyncEntityType, QueuedOperation[]>();
       for (const op of operations) {
-        // TODO: Fetch entity from local storage and push
-        // For now, just clear the queue item
-        const index = this.queue.findIndex(
-          (q) => q.entityId === op.entityId && q.entityType === op.entityType
-        );
-        if (index >= 0) {
-          this.queue.splice(index, 1);
+        if (op.operation !== 'save') continue;
+        savesByType.set(op.entityType, [...(savesByType.get(op.entityType) ?? []), op]);
+      }
+
+      for (const [entityType, saves] of savesByType) {
+        const entities: unknown[] = [];
+        for (const op of saves) {
+          const entity = await localStore.get(entityType, op.entityId);
+          if (entity) entities.push(entity);
+        }
+
+        if (entities.length > 0) {
+          const result = await this.push(entityType, entities);
+          if (!result.success) throw new Error(result.errors?.[0] ?? 'Sync failed');
         }
+        done.push(...saves);
       }
 
+      for (const op of operations) {
+        if (op.operation !== 'delete') continue;
+        await this.request('DELETE', this.deleteUrl(op), accessToken);
+        delete this.records[recordKey(op.entityType, op.entityId)];
+        done.push(op);
+      }
+
+      // Keep anything re-queued while this cycle was running
+      this.queue = this.queue.filter((op) => !done.includes(op));
       await this.saveQueue();
+
+      for (const entityType of PULLED_ENTITY_TYPES) {
+        await this.pullIntoLocalStore(entityType, localStore);
+      }
+      await this.saveSyncState();
       this.lastSyncedAt = new Date();
       this.lastError = null;
     } catch (err) {
@@ -291,6 +605,71 @@ export class SyncManager implements SyncService {
     }
   }
 
+  /**
+   * Pull one entity type since its last pull and write the changes locally.
+   * Tombstones are applied by `pull` itself.
+   */
+  private async pullIntoLocalStore(
+    entityType: SyncEntityType,
+    localStore: SyncLocalStore
+  ): Promise<void> {
+    const since = this.pulledAt[entityType];
+    const result = await this.pull<JsonEntity>(entityType, since ? new Date(since) : undefined);
+    if (!result.success) throw new Error(result.errors?.[0] ?? 'Sync failed');
+
+    for (const entity of result.entities) {
+      if (!entity.id || this.hasPendingWork(entityType, entity.id)) continue;
+      await localStore.put(entityType, withoutServerFields(entity));
+    }
+    this.pulledAt[entityType] = result.lastSyncedAt.toISOString();
+  }
+
+  private deleteUrl(op: QueuedOperation): string {
+    const params = new URLSearchParams({ entityType: op.entityType, entityId: op.entityId });
+    return `/api/sync?${params}`;
+  }
+
+  /**
+   * Resolve a conflict by keeping one version.
+   */
+  async resolveConflict(
+    entityType: SyncEntityType,
+    entityId: string,
+    keep: 'local' | 'remote'
+  ): Promise<void> {
+    const conflict = this.conflicts.find(
+      (c) => c.entityType === entityType && c.entityId === entityId
+    );
+    if (!conflict) return;
+
+    this.conflicts = this.conflicts.filter((c) => c !== conflict);
+    this.queue = this.queue.filter(
+      (q) => !(q.entityType === entityType && q.entityId === entityId)
+    );
+    const key = recordKey(entityType, entityId);
+    const lastSynced = this.lastSyncedCopy(key, entityId);
+    this.records[key] = {
+      revision: conflict.remoteRevision,
+      base: conflict.remote
+    };
+
+    if (keep === 'remote' && isTombstone(conflict.remote as JsonEntity)) {
+      delete this.records[key];
+      await this.localStore?.delete(entityType, lastSynced);
+    } else if (keep === 'remote') {
+      await this.localStore?.put(entityType, conflict.remote);
+    }
+
+    await this.saveQueue();
+    await this.saveSyncState();
+    this.notifyListeners();
+
+    if (keep === 'local') {
+      // Now based on the remote revision, so the server accepts it
+      await this.push(entityType, [conflict.local]);
+    }
+  }
+
   /**
    * Get current sync status.
    */
@@ -301,7 +680,8 @@ export class SyncManager implements SyncService {
       pendingChanges: this.queue.length,
       online: this.networkStatus.isOnline(),
       lastSyncedAt: this.lastSyncedAt,
-      lastError: this.lastError
+      lastError: this.lastError,
+      conflicts: this.conflicts.map((conflict) => this.toSyncConflict(conflict))
     };
   }
 
@@ -0,0 +1,71 @@
+import { error } from '@sveltejs/kit';
+import { GoogleTokenVerifier, type TokenVerifier, type VerifiedUser } from './tokenVerifier';
+
+export * from './tokenVerifier';
+
+/**
+ * Token verification settings, usually read from environment variables.
+ */
+export interface TokenVerifierConfig {
+  /** OAuth client ID tokens must be issued to. */
+  PUBLIC_GOOGLE_CLIENT_ID?: string;
+}
+
+let sharedVerifier: TokenVerifier | null = null;
+
+/**
+ * The process-wide verifier used by server routes, created on first use.
+ *
+ * @throws {HttpError} 500 when sign-in is not configured
+ */
+export function getTokenVerifier(config: TokenVerifierConfig): TokenVerifier {
+  if (sharedVerifier) return sharedVerifier;
+
+  const clientId = config.PUBLIC_GOOGLE_CLIENT_ID?.trim();
+  if (!clientId) {
+    console.error('OAuth not configured: missing client ID');
+    throw error(500, 'OAuth not configured');
+  }
+  sharedVerifier = new GoogleTokenVerifier({ clientId });
+  return sharedVerifier;
+}
+
+/**
+ * Replace the verifier used by server routes (pass null to go back to the
+ * configured default), e.g. with a StaticTokenVerifier in tests.
+ */
+export function setTokenVerifier(verifier: TokenVerifier | null): void {
+  sharedVerifier = verifier;
+}
+
+/**
+ * Resolve the caller of a request from its `Authorization: Bearer` header.
+ *
+ * @throws {HttpError} 401 when the header is missing or the token does not verify
+ */
+export async function authenticateRequest(
+  request: Request,
+  verifier: TokenVerifier
+): Promise<VerifiedUser> {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    throw error(401, 'Unauthorized');
+  }
+
+  const token = authHeader.slice(7).trim();
+  if (!token) {
+    throw error(401, 'Unauthorized');
+  }
+
+  let user: VerifiedUser | null;
+  try {
+    user = await verifier.verify(token);
+  } catch (err) {
+    console.error('Token verification failed:', err);
+    throw error(503, 'Could not verify token');
+  }
+  if (!user) {
+    throw error(401, 'Invalid or expired token');
+  }
+  return user;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { authenticateRequest, GoogleTokenVerifier, StaticTokenVerifier } from './index';
+
+const NOW = Date.parse('2025-03-01T09:00:00Z');
+const IN_AN_HOUR = String(NOW / 1000 + 3600);
+
+function tokeninfo(body: Record<string, unknown> | null) {
+  return vi.fn<typeof fetch>(
+    async () =>
+      new Response(JSON.stringify(body ?? { error: 'invalid_token' }), {
+        status: body ? 200 : 400
+      })
+  );
+}
+
+function verifier(fetchFn: typeof fetch) {
+  return new GoogleTokenVerifier({ clientId: 'our-client', fetch: fetchFn, now: () => NOW });
+}
+
+describe('GoogleTokenVerifier', () => {
+  it('returns the token subject for tokens issued to our client', async () => {
+    const fetchFn = tokeninfo({
+      sub: '1234',
+      azp: 'our-client',
+      email: 'teacher@example.com',
+      exp: IN_AN_HOUR
+    });
+
+    const user = await verifier(fetchFn).verify('ya29.access');
+
+    expect(user).toEqual({ id: '1234', email: 'teacher@example.com' });
+    expect(String(fetchFn.mock.calls[0][0])).toBe(
+      'https://oauth2.googleapis.com/tokeninfo?access_token=ya29.access'
+    );
+  });
+
+  it('checks ID tokens as id_token', async () => {
+    const fetchFn = tokeninfo({ sub: '1234', aud: 'our-client', exp: IN_AN_HOUR });
+
+    expect(await verifier(fetchFn).verify('header.payload.signature')).toEqual({ id: '1234' });
+    expect(String(fetchFn.mock.calls[0][0])).toContain('id_token=header.payload.signature');
+  });
+
+  it('rejects tokens for other clients, expired tokens and unknown tokens', async () => {
+    const otherClient = tokeninfo({ sub: '1234', aud: 'someone-else', exp: IN_AN_HOUR });
+    const expired = tokeninfo({ sub: '1234', aud: 'our-client', exp: String(NOW / 1000 - 1) });
+
+    expect(await verifier(otherClient).verify('t')).toBeNull();
+    expect(await verifier(expired).verify('t')).toBeNull();
+    expect(await verifier(tokeninfo(null)).verify('t')).toBeNull();
+  });
+
+  it('remembers verified tokens until they expire', async () => {
+    let now = NOW;
+    const fetchFn = tokeninfo({ sub: '1234', azp: 'our-client', exp: IN_AN_HOUR });
+    const cached = new GoogleTokenVerifier({
+      clientId: 'our-client',
+      fetch: fetchFn,
+      now: () => now
+    });
+
+    await cached.verify('t');
+    await cached.verify('t');
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    now += 3601 * 1000;
+    expect(await cached.verify('t')).toBeNull();
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('authenticateRequest', () => {
+  const users = new StaticTokenVerifier({ 'token-a': { id: 'user-a' } });
+
+  function request(authorization?: string) {
+    return new Request('http://localhost/api/sync', {
+      headers: authorization ? { Authorization: authorization } : {}
+    });
+  }
+
+  it('returns the user the bearer token belongs to', async () => {
+    expect(await authenticateRequest(request('Bearer token-a'), users)).toEqual({ id: 'user-a' });
+  });
+
+  it('rejects missing and unverifiable tokens with 401', async () => {
+    await expect(authenticateRequest(request(), users)).rejects.toMatchObject({ status: 401 });
+    await expect(authenticateRequest(request('Bearer forged'), users)).rejects.toMatchObject({
+      status: 401
+    });
+  });
+
+  it('reports verifier outages as 503 rather than as a bad token', async () => {
+    const failing = { verify: vi.fn().mockRejectedValue(new Error('network down')) };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(authenticateRequest(request('Bearer token-a'), failing)).rejects.toMatchObject({
+      status: 503
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Verification of the bearer tokens sent to server routes.
+ *
+ * Clients authenticate with the Google access token (or ID token) they got at
+ * sign-in. The server never trusts the token's text itself: a verifier asks the
+ * issuer who it belongs to and returns the stable subject (Google's `sub`),
+ * which is what user data is keyed on. Tokens are refreshed about hourly, so
+ * anything derived from the token string would change with every refresh.
+ *
+ * @module server/auth/tokenVerifier
+ */
+
+/**
+ * The user a valid token belongs to.
+ */
+export interface VerifiedUser {
+  /** Stable user ID (the token subject). */
+  id: string;
+  email?: string;
+}
+
+/**
+ * Resolves a bearer token to its user, or null when it is invalid or expired.
+ */
+export interface TokenVerifier {
+  verify(token: string): Promise<VerifiedUser | null>;
+}
+
+export interface GoogleTokenVerifierOptions {
+  /** OAuth client ID the token must have been issued to. */
+  clientId: string;
+  fetch?: typeof fetch;
+  now?: () => number;
+  /** Most verified tokens remembered at once. */
+  cacheSize?: number;
+}
+
+interface GoogleTokenInfo {
+  sub?: string;
+  aud?: string;
+  azp?: string;
+  email?: string;
+  /** Expiry in seconds since the epoch (a string in tokeninfo responses). */
+  exp?: string | number;
+}
+
+const TOKENINFO_URL = 'https://oauth2.googleapis.com/tokeninfo';
+const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * Verifies Google access and ID tokens with Google's tokeninfo endpoint.
+ *
+ * A token is accepted only if it was issued to `clientId` (so tokens obtained by
+ * other apps cannot be replayed here) and has not expired. Results are cached
+ * until the token expires, so a sync burst costs one round trip to Google.
+ */
+export class GoogleTokenVerifier implements TokenVerifier {
+  private readonly cache = new Map<string, { user: VerifiedUser; expiresAt: number }>();
+  private readonly fetch: typeof fetch;
+  private readonly now: () => number;
+  private readonly cacheSize: number;
+
+  constructor(private readonly options: GoogleTokenVerifierOptions) {
+    this.fetch = options.fetch ?? fetch;
+    this.now = options.now ?? Date.now;
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+  }
+
+  async verify(token: string): Promise<VerifiedUser | null> {
+    const cached = this.cache.get(token);
+    if (cached) {
+      if (cached.expiresAt > this.now()) return cached.user;
+      this.cache.delete(token);
+    }
+
+    // ID tokens are JWTs (three dot-separated parts); access tokens are opaque
+    const param = token.split('.').length === 3 ? 'id_token' : 'access_token';
+    const response = await this.fetch(
+      `${TOKENINFO_URL}?${new URLSearchParams({ [param]: token })}`
+    );
+    if (!response.ok) return null;
+
+    const info = (await response.json()) as GoogleTokenInfo;
+    const expiresAt = Number(info.exp) * 1000;
+    const issuedToUs = info.aud === this.options.clientId || info.azp === this.options.clientId;
+    if (!info.sub || !issuedToUs || !(expiresAt > this.now())) return null;
+
+    const user: VerifiedUser = { id: info.sub, ...(info.email && { email: info.email }) };
+    this.remember(token, user, expiresAt);
+    return user;
+  }
+
+  private remember(token: string, user: VerifiedUser, expiresAt: number): void {
+    if (this.cache.size >= this.cacheSize) {
+      const now = this.now();
+      for (const [key, entry] of this.cache) {
+        if (entry.expiresAt <= now) this.cache.delete(key);
+      }
+      // Still full: drop the oldest entry (Maps iterate in insertion order)
+      if (this.cache.size >= this.cacheSize) {
+        const oldest = this.cache.keys().next().value;
+        if (oldest !== undefined) this.cache.delete(oldest);
+      }
+    }
+    this.cache.set(token, { user, expiresAt });
+  }
+}
+
+/**
+ * Verifier with a fixed token → user table, for tests and local development.
+ */
+export class StaticTokenVerifier implements TokenVerifier {
+  private readonly users: Map<string, VerifiedUser>;
+
+  constructor(users: Record<string, VerifiedUser>) {
+    this.users = new Map(Object.entries(users));
+  }
+
+  async verify(token: string): Promise<VerifiedUser | null> {
+    return this.users.get(token) ?? null;
+  }
+}
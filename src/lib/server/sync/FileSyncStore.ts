@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { SyncEntityType } from '$lib/application/ports';
+import {
+  deleteEntity,
+  selectEntities,
+  storeEntities,
+  type StoredSyncEntity,
+  type SyncEntity,
+  type SyncPushOutcome,
+  type SyncStore,
+  type UserSyncData
+} from './syncStore';
+
+const FILE_FORMAT_VERSION = 1;
+
+interface UserSyncFile {
+  version: number;
+  entities: UserSyncData;
+}
+
+/**
+ * File-backed SyncStore for self-hosted deployments: one JSON file per user
+ * in `dataDir`, replaced atomically on every write.
+ *
+ * File names are a hash of the user ID, so IDs never reach the file system.
+ * Operations for the same user run one at a time; a single server process is
+ * assumed to own the directory.
+ */
+export class FileSyncStore implements SyncStore {
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly dataDir: string,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async pull(
+    userId: string,
+    entityType: SyncEntityType,
+    since?: Date
+  ): Promise<StoredSyncEntity[]> {
+    return this.withUser(userId, async () => {
+      const data = await this.read(userId);
+      return selectEntities(data[entityType], since);
+    });
+  }
+
+  async push(
+    userId: string,
+    entityType: SyncEntityType,
+    entities: SyncEntity[]
+  ): Promise<SyncPushOutcome> {
+    return this.withUser(userId, async () => {
+      const syncedAt = this.now();
+      const data = await this.read(userId);
+      const byId = (data[entityType] ??= {});
+      const outcome = storeEntities(byId, entities, syncedAt);
+      if (outcome.syncedCount > 0) await this.write(userId, data);
+      return outcome;
+    });
+  }
+
+  async delete(userId: string, entityType: SyncEntityType, entityId: string): Promise<boolean> {
+    return this.withUser(userId, async () => {
+      const data = await this.read(userId);
+      if (!deleteEntity(data[entityType], entityId, this.now())) return false;
+      await this.write(userId, data);
+      return true;
+    });
+  }
+
+  /**
+   * Run `task` after every earlier operation for the same user has settled.
+   */
+  private withUser<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(userId) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    this.queues.set(userId, settled);
+    void settled.then(() => {
+      if (this.queues.get(userId) === settled) this.queues.delete(userId);
+    });
+    return next;
+  }
+
+  private filePath(userId: string): string {
+    const name = createHash('sha256').update(userId).digest('hex');
+    return path.join(this.dataDir, `${name}.json`);
+  }
+
+  private async read(userId: string): Promise<UserSyncData> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath(userId), 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw e;
+    }
+
+    const file = JSON.parse(text) as UserSyncFile;
+    if (file.version !== FILE_FORMAT_VERSION) {
+      throw new Error(`Unsupported sync file version: ${file.version}`);
+    }
+    return file.entities ?? {};
+  }
+
+  private async write(userId: string, entities: UserSyncData): Promise<void> {
+    const target = this.filePath(userId);
+    const temp = `${target}.${process.pid}.tmp`;
+    const file: UserSyncFile = { version: FILE_FORMAT_VERSION, entities };
+
+    await mkdir(this.dataDir, { recursive: true });
+    await writeFile(temp, JSON.stringify(file), 'utf8');
+    await rename(temp, target);
+  }
+}
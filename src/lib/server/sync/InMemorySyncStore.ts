@@ -0,0 +1,45 @@
+import type { SyncEntityType } from '$lib/application/ports';
+import {
+  deleteEntity,
+  selectEntities,
+  storeEntities,
+  type StoredSyncEntity,
+  type SyncEntity,
+  type SyncPushOutcome,
+  type SyncStore,
+  type UserSyncData
+} from './syncStore';
+
+/**
+ * In-memory SyncStore for tests and throwaway dev servers. Data is lost on restart.
+ */
+export class InMemorySyncStore implements SyncStore {
+  private users = new Map<string, UserSyncData>();
+
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  async pull(
+    userId: string,
+    entityType: SyncEntityType,
+    since?: Date
+  ): Promise<StoredSyncEntity[]> {
+    return selectEntities(this.users.get(userId)?.[entityType], since).map((e) => ({ ...e }));
+  }
+
+  async push(
+    userId: string,
+    entityType: SyncEntityType,
+    entities: SyncEntity[]
+  ): Promise<SyncPushOutcome> {
+    const syncedAt = this.now();
+    const data = this.users.get(userId) ?? {};
+    const byId = (data[entityType] ??= {});
+    const outcome = storeEntities(byId, entities, syncedAt);
+    this.users.set(userId, data);
+    return outcome;
+  }
+
+  async delete(userId: string, entityType: SyncEntityType, entityId: string): Promise<boolean> {
+    return deleteEntity(this.users.get(userId)?.[entityType], entityId, this.now());
+  }
+}
@@ -0,0 +1,47 @@
+import { FileSyncStore } from './FileSyncStore';
+import { InMemorySyncStore } from './InMemorySyncStore';
+import type { SyncStore } from './syncStore';
+
+export * from './syncStore';
+export { FileSyncStore } from './FileSyncStore';
+export { InMemorySyncStore } from './InMemorySyncStore';
+
+/** Where the file store keeps its data when SYNC_DATA_DIR is not set. */
+export const DEFAULT_SYNC_DATA_DIR = '.data/sync';
+
+/**
+ * Sync storage settings, usually read from private environment variables.
+ */
+export interface SyncStoreConfig {
+  /** `file` (default) persists to disk; `memory` keeps data until restart. */
+  SYNC_STORE?: string;
+  /** Directory for the file store (default: DEFAULT_SYNC_DATA_DIR). */
+  SYNC_DATA_DIR?: string;
+}
+
+/**
+ * Create the store selected by `config`.
+ *
+ * @throws {Error} For an unknown SYNC_STORE value
+ */
+export function createSyncStore(config: SyncStoreConfig): SyncStore {
+  const kind = config.SYNC_STORE?.trim() || 'file';
+  switch (kind) {
+    case 'file':
+      return new FileSyncStore(config.SYNC_DATA_DIR?.trim() || DEFAULT_SYNC_DATA_DIR);
+    case 'memory':
+      return new InMemorySyncStore();
+    default:
+      throw new Error(`Unknown SYNC_STORE "${kind}" (expected "file" or "memory")`);
+  }
+}
+
+let sharedStore: SyncStore | null = null;
+
+/**
+ * The process-wide store used by the sync endpoint, created on first use.
+ */
+export function getSyncStore(config: SyncStoreConfig): SyncStore {
+  sharedStore ??= createSyncStore(config);
+  return sharedStore;
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { FileSyncStore } from './FileSyncStore';
+import { InMemorySyncStore } from './InMemorySyncStore';
+import { createSyncStore, findForeignEntities, isSyncEntityType, type SyncStore } from './index';
+import { ALL_STORES } from '$lib/utils/backupRestore';
+
+/** Clock that advances one minute per call. */
+function steppingClock(start = '2025-03-01T09:00:00Z') {
+  let time = new Date(start).getTime();
+  return () => {
+    const now = new Date(time);
+    time += 60_000;
+    return now;
+  };
+}
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), 'sync-store-'));
+});
+
+afterEach(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const stores: Array<[string, (now: () => Date) => SyncStore]> = [
+  ['InMemorySyncStore', (now) => new InMemorySyncStore(now)],
+  ['FileSyncStore', (now) => new FileSyncStore(dataDir, now)]
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  it('stores pushed entities per user and entity type', async () => {
+    const store = createStore(steppingClock());
+
+    const outcome = await store.push('user-a', 'students', [
+      { id: 's1', firstName: 'Ana' },
+      { firstName: 'No id' } as never
+    ]);
+    await store.push('user-b', 'students', [{ id: 's2', firstName: 'Ben' }]);
+
+    expect(outcome).toEqual({
+      syncedCount: 1,
+      syncedAt: new Date('2025-03-01T09:00:00Z'),
+      revisions: { s1: 1 },
+      conflicts: []
+    });
+    expect(await store.pull('user-a', 'students')).toEqual([
+      { id: 's1', firstName: 'Ana', _syncedAt: '2025-03-01T09:00:00.000Z', _revision: 1 }
+    ]);
+    expect(await store.pull('user-a', 'pools')).toEqual([]);
+    expect((await store.pull('user-b', 'students')).map((e) => e.id)).toEqual(['s2']);
+  });
+
+  it('returns only entities written at or after since', async () => {
+    const store = createStore(steppingClock());
+    await store.push('user-a', 'students', [{ id: 's1' }, { id: 's2' }]); // 09:00
+    await store.push('user-a', 'students', [{ id: 's3' }]); // 09:01
+    await store.push('user-a', 'students', [{ id: 's1', firstName: 'Edited', _baseRevision: 1 }]); // 09:02
+
+    const changed = await store.pull('user-a', 'students', new Date('2025-03-01T09:01:00Z'));
+
+    expect(changed.map((e) => e.id)).toEqual(['s3', 's1']);
+    expect(changed[1].firstName).toBe('Edited');
+  });
+
+  it('rejects pushes based on an outdated revision as conflicts', async () => {
+    const store = createStore(steppingClock());
+    await store.push('user-a', 'scenarios', [{ id: 'sc1', name: 'Plan A' }]);
+    await store.push('user-a', 'scenarios', [{ id: 'sc1', name: 'Plan B', _baseRevision: 1 }]);
+
+    const stale = await store.push('user-a', 'scenarios', [
+      { id: 'sc1', name: 'Plan C', _baseRevision: 1 }
+    ]);
+    const unchanged = await store.push('user-a', 'scenarios', [{ id: 'sc1', name: 'Plan B' }]);
+
+    expect(stale.syncedCount).toBe(0);
+    expect(stale.conflicts).toMatchObject([{ id: 'sc1', name: 'Plan B', _revision: 2 }]);
+    expect(unchanged).toMatchObject({ syncedCount: 0, revisions: { sc1: 2 }, conflicts: [] });
+    expect(await store.pull('user-a', 'scenarios')).toMatchObject([{ name: 'Plan B' }]);
+  });
+
+  it('deletes entities', async () => {
+    const store = createStore(steppingClock());
+    await store.push('user-a', 'programs', [{ id: 'p1' }]);
+
+    expect(await store.delete('user-b', 'programs', 'p1')).toBe(false);
+    expect(await store.delete('user-a', 'programs', 'p1')).toBe(true);
+    expect(await store.pull('user-a', 'programs')).toEqual([]);
+  });
+
+  it('leaves a tombstone that incremental pulls return', async () => {
+    const store = createStore(steppingClock());
+    await store.push('user-a', 'programs', [{ id: 'p1', name: 'Lab' }]);
+    const lastPull = new Date('2025-03-01T09:00:30Z');
+
+    await store.delete('user-a', 'programs', 'p1');
+
+    expect(await store.pull('user-a', 'programs', lastPull)).toEqual([
+      { id: 'p1', _deleted: true, _syncedAt: '2025-03-01T09:01:00.000Z', _revision: 2 }
+    ]);
+    expect(await store.delete('user-a', 'programs', 'p1')).toBe(false);
+
+    // A device that still has the old version cannot silently bring it back
+    const stale = await store.push('user-a', 'programs', [
+      { id: 'p1', name: 'Lab 2', _baseRevision: 1 }
+    ]);
+    expect(stale.conflicts).toMatchObject([{ id: 'p1', _deleted: true }]);
+  });
+});
+
+describe('FileSyncStore', () => {
+  it('keeps data across store instances, in files not named after the user', async () => {
+    await new FileSyncStore(dataDir).push('user@example.com', 'pools', [{ id: 'pool-1' }]);
+
+    const reopened = new FileSyncStore(dataDir);
+    expect((await reopened.pull('user@example.com', 'pools')).map((e) => e.id)).toEqual(['pool-1']);
+    const files = await readdir(dataDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[0-9a-f]{64}\.json$/);
+  });
+
+  it('does not lose concurrent pushes for the same user', async () => {
+    const store = new FileSyncStore(dataDir);
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => store.push('user-a', 'students', [{ id: `s${i}` }]))
+    );
+
+    expect(await store.pull('user-a', 'students')).toHaveLength(10);
+  });
+});
+
+describe('isSyncEntityType', () => {
+  it('accepts every IndexedDB store included in backups', () => {
+    expect(ALL_STORES.filter((store) => !isSyncEntityType(store))).toEqual([]);
+    expect(isSyncEntityType('settings')).toBe(false);
+  });
+});
+
+describe('findForeignEntities', () => {
+  it('lists entities owned by someone other than the caller', () => {
+    const entities = [
+      { id: 'mine', userId: 'user-a' },
+      { id: 'unowned' },
+      { id: 'theirs', userId: 'user-b' }
+    ];
+
+    expect(findForeignEntities(entities, 'user-a')).toEqual(['theirs']);
+  });
+});
+
+describe('createSyncStore', () => {
+  it('selects the store from configuration', () => {
+    expect(createSyncStore({ SYNC_DATA_DIR: dataDir })).toBeInstanceOf(FileSyncStore);
+    expect(createSyncStore({ SYNC_STORE: 'memory' })).toBeInstanceOf(InMemorySyncStore);
+    expect(() => createSyncStore({ SYNC_STORE: 'postgres' })).toThrow(/Unknown SYNC_STORE/);
+  });
+});
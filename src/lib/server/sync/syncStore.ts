@@ -0,0 +1,195 @@
+/**
+ * Server-side storage for the /api/sync endpoint.
+ *
+ * Entities are opaque JSON objects with an `id`, stored per authenticated user
+ * and entity type. Every write stamps `_syncedAt` with the server time, which is
+ * what incremental (`since`) pulls filter on, and bumps `_revision`.
+ *
+ * Writes are optimistic: a client pushes the `_baseRevision` its edit started
+ * from, and a push based on an older revision is rejected as a conflict (unless
+ * it changes nothing) so the client can merge instead of overwriting.
+ *
+ * Deletes leave a tombstone (`_deleted: true`) with a new `_syncedAt` and
+ * revision, so incremental pulls tell other devices the entity is gone.
+ *
+ * @module server/sync/syncStore
+ */
+
+import type { SyncEntityType } from '$lib/application/ports';
+import { deepEqual } from '$lib/utils/threeWayMerge';
+
+/**
+ * Entity types the sync endpoint accepts (every type the client syncs).
+ */
+export const SYNC_ENTITY_TYPES: readonly SyncEntityType[] = [
+  'students',
+  'staff',
+  'pools',
+  'programs',
+  'scenarios',
+  'sessions',
+  'placements',
+  'preferences',
+  'observations',
+  'groupTemplates',
+  'studentIdentities',
+  'conflictRules'
+];
+
+export function isSyncEntityType(value: unknown): value is SyncEntityType {
+  return typeof value === 'string' && (SYNC_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * An entity as pushed by a client.
+ */
+export interface SyncEntity {
+  id: string;
+  /** Revision the client's edit started from; absent or 0 for entities it never pulled. */
+  _baseRevision?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * An entity as stored: the pushed fields plus server bookkeeping.
+ */
+export interface StoredSyncEntity extends SyncEntity {
+  /** ISO timestamp of the last write on the server. */
+  _syncedAt: string;
+  /** Incremented on every accepted write, starting at 1. */
+  _revision: number;
+  /** Set on the tombstone a delete leaves behind; no other fields are kept. */
+  _deleted?: true;
+}
+
+export interface SyncPushOutcome {
+  syncedCount: number;
+  syncedAt: Date;
+  /** Current revision of every accepted entity, by ID. */
+  revisions: Record<string, number>;
+  /** Current server copies of entities whose push was rejected as stale. */
+  conflicts: StoredSyncEntity[];
+}
+
+/**
+ * Pluggable persistence behind the sync endpoint. Data is isolated per user ID.
+ */
+export interface SyncStore {
+  /**
+   * Entities of one type, optionally only those written at or after `since`.
+   * Incremental pulls include tombstones of entities deleted since then.
+   */
+  pull(userId: string, entityType: SyncEntityType, since?: Date): Promise<StoredSyncEntity[]>;
+
+  /**
+   * Save entities whose `_baseRevision` matches the stored revision. Entities
+   * without an `id` are skipped.
+   */
+  push(
+    userId: string,
+    entityType: SyncEntityType,
+    entities: SyncEntity[]
+  ): Promise<SyncPushOutcome>;
+
+  /**
+   * Delete one entity, leaving a tombstone. Resolves false when it did not
+   * exist or was already deleted.
+   */
+  delete(userId: string, entityType: SyncEntityType, entityId: string): Promise<boolean>;
+}
+
+/**
+ * IDs of entities that name a different owner than `userId`. Entities without
+ * a `userId` field are accepted; storage is partitioned by caller either way.
+ */
+export function findForeignEntities(entities: SyncEntity[], userId: string): string[] {
+  return entities
+    .filter((entity) => entity?.userId !== undefined && entity.userId !== userId)
+    .map((entity) => String(entity.id));
+}
+
+/**
+ * Entities keyed by ID, per entity type, for one user.
+ */
+export type UserSyncData = Partial<Record<SyncEntityType, Record<string, StoredSyncEntity>>>;
+
+/**
+ * Shared pull filter: entities written at or after `since`, oldest first.
+ * A full pull leaves tombstones out; there is nothing for the device to delete.
+ */
+export function selectEntities(
+  byId: Record<string, StoredSyncEntity> | undefined,
+  since?: Date
+): StoredSyncEntity[] {
+  const entities = Object.values(byId ?? {});
+  const changed = since
+    ? entities.filter((entity) => Date.parse(entity._syncedAt) >= since.getTime())
+    : entities.filter((entity) => !entity._deleted);
+  return changed.sort((a, b) => a._syncedAt.localeCompare(b._syncedAt));
+}
+
+/**
+ * Shared push step: store entities based on the current revision, and collect
+ * conflicts for the rest. `syncedCount` counts entities actually written.
+ */
+export function storeEntities(
+  byId: Record<string, StoredSyncEntity>,
+  entities: SyncEntity[],
+  syncedAt: Date
+): SyncPushOutcome {
+  const outcome: SyncPushOutcome = { syncedCount: 0, syncedAt, revisions: {}, conflicts: [] };
+  for (const entity of entities) {
+    if (!entity?.id) continue;
+    const fields = withoutBookkeeping(entity);
+    const existing = byId[entity.id];
+    const currentRevision = existing?._revision ?? 0;
+
+    if (existing && (entity._baseRevision ?? 0) !== currentRevision) {
+      // Stale, but identical content needs no merge
+      if (deepEqual(withoutBookkeeping(existing), fields)) {
+        outcome.revisions[entity.id] = currentRevision;
+      } else {
+        outcome.conflicts.push({ ...existing });
+      }
+      continue;
+    }
+
+    byId[entity.id] = {
+      ...fields,
+      _syncedAt: syncedAt.toISOString(),
+      _revision: currentRevision + 1
+    };
+    outcome.revisions[entity.id] = currentRevision + 1;
+    outcome.syncedCount++;
+  }
+  return outcome;
+}
+
+/**
+ * Shared delete step: replace an entity with a tombstone. Returns false when
+ * there is no live entity with that ID.
+ */
+export function deleteEntity(
+  byId: Record<string, StoredSyncEntity> | undefined,
+  entityId: string,
+  deletedAt: Date
+): boolean {
+  const existing = byId?.[entityId];
+  if (!byId || !existing || existing._deleted) return false;
+
+  byId[entityId] = {
+    id: entityId,
+    _deleted: true,
+    _syncedAt: deletedAt.toISOString(),
+    _revision: existing._revision + 1
+  };
+  return true;
+}
+
+function withoutBookkeeping(entity: SyncEntity): SyncEntity {
+  const fields = { ...entity };
+  delete fields._syncedAt;
+  delete fields._revision;
+  delete fields._baseRevision;
+  return fields;
+}
@@ -21,6 +21,7 @@ import type {
   CandidateGrouping
 } from '$lib/application/useCases/generateMultipleCandidates';
 import { generateMultipleCandidates } from '$lib/application/useCases/generateMultipleCandidates';
+import type { GroupingProgress } from '$lib/application/ports';
 import type {
   CreateScenarioFromGroupsInput,
   CreateScenarioFromGroupsError
@@ -212,7 +213,8 @@ export async function generateScenario(
       scenarioRepo: env.scenarioRepo,
       idGenerator: env.idGenerator,
       clock: env.clock,
-      groupingAlgorithm: env.groupingAlgorithm
+      groupingAlgorithm: env.groupingAlgorithm,
+      conflictRuleRepo: env.conflictRuleRepo
     },
     input
   );
@@ -229,7 +231,10 @@ export async function generateCandidates(
       preferenceRepo: env.preferenceRepo,
       idGenerator: env.idGenerator,
       clock: env.clock,
-      groupingAlgorithm: env.groupingAlgorithm
+      groupingAlgorithm: env.groupingAlgorithm,
+      conflictRuleRepo: env.conflictRuleRepo,
+      studentRepo: env.studentRepo,
+      placementRepo: env.placementRepo
     },
     input
   );
@@ -246,12 +251,16 @@ export async function generateCandidate(
       preferenceRepo: env.preferenceRepo,
       idGenerator: env.idGenerator,
       clock: env.clock,
-      groupingAlgorithm: env.groupingAlgorithm
+      groupingAlgorithm: env.groupingAlgorithm,
+      conflictRuleRepo: env.conflictRuleRepo
     },
     input
   );
 }
 
+// Re-export candidate generation types
+export type { CandidateGrouping, GenerateMultipleCandidatesError, GroupingProgress };
+
 // =============================================================================
 // Quick Grouping Operations
 // =============================================================================
@@ -278,7 +287,8 @@ export async function quickGenerateGroups(
       scenarioRepo: env.scenarioRepo,
       idGenerator: env.idGenerator,
       clock: env.clock,
-      groupingAlgorithm: env.groupingAlgorithm
+      groupingAlgorithm: env.groupingAlgorithm,
+      conflictRuleRepo: env.conflictRuleRepo
     },
     input
   );
@@ -309,7 +319,8 @@ export async function generateComparisonScenario(
       preferenceRepo: env.preferenceRepo,
       idGenerator: env.idGenerator,
       clock: env.clock,
-      groupingAlgorithm: env.groupingAlgorithm
+      groupingAlgorithm: env.groupingAlgorithm,
+      conflictRuleRepo: env.conflictRuleRepo
     },
     input
   );
@@ -504,7 +515,9 @@ export async function importRosterWithMapping(
       poolRepo: env.poolRepo,
       studentRepo: env.studentRepo,
       preferenceRepo: env.preferenceRepo,
-      idGenerator: env.idGenerator
+      idGenerator: env.idGenerator,
+      studentIdentityRepo: env.studentIdentityRepo,
+      clock: env.clock
     },
     input
   );
@@ -765,6 +778,98 @@ export type {
   UpgradeQuickStartRosterError
 };
 
+// =============================================================================
+// Roster Re-import
+// =============================================================================
+
+import {
+  diffRoster as diffRosterUseCase,
+  applyRosterChanges as applyRosterChangesUseCase,
+  type DiffRosterInput,
+  type RosterDiff,
+  type RosterEntry,
+  type RosterRename,
+  type ApplyRosterChangesInput,
+  type ApplyRosterChangesResult,
+  type ReconcileRosterError
+} from '$lib/application/useCases/reconcileRoster';
+
+/**
+ * Compare a new class list with an existing roster.
+ */
+export async function diffRoster(
+  env: InMemoryEnvironment,
+  input: DiffRosterInput
+): Promise<Result<RosterDiff, ReconcileRosterError>> {
+  return diffRosterUseCase({ poolRepo: env.poolRepo, studentRepo: env.studentRepo }, input);
+}
+
+/**
+ * Apply reviewed roster changes, marking departed students inactive.
+ */
+export async function applyRosterChanges(
+  env: InMemoryEnvironment,
+  input: ApplyRosterChangesInput
+): Promise<Result<ApplyRosterChangesResult, ReconcileRosterError>> {
+  return applyRosterChangesUseCase(
+    {
+      poolRepo: env.poolRepo,
+      studentRepo: env.studentRepo,
+      idGenerator: env.idGenerator
+    },
+    input
+  );
+}
+
+export type {
+  DiffRosterInput,
+  RosterDiff,
+  RosterEntry,
+  RosterRename,
+  ApplyRosterChangesInput,
+  ApplyRosterChangesResult,
+  ReconcileRosterError
+};
+
+// =============================================================================
+// OneRoster (SIS) Import
+// =============================================================================
+
+import {
+  importOneRosterClasses as importOneRosterClassesUseCase,
+  type ImportOneRosterClassesInput,
+  type ImportOneRosterClassesResult,
+  type ImportOneRosterClassesError,
+  type ImportedOneRosterClass
+} from '$lib/application/useCases/importOneRosterClasses';
+
+/**
+ * Create a roster for each selected class of a OneRoster bundle.
+ */
+export async function importOneRosterClasses(
+  env: InMemoryEnvironment,
+  input: ImportOneRosterClassesInput
+): Promise<Result<ImportOneRosterClassesResult, ImportOneRosterClassesError>> {
+  return importOneRosterClassesUseCase(
+    {
+      poolRepo: env.poolRepo,
+      studentRepo: env.studentRepo,
+      staffRepo: env.staffRepo,
+      studentIdentityRepo: env.studentIdentityRepo,
+      idGenerator: env.idGenerator,
+      clock: env.clock
+    },
+    { ...input, userId: input.userId ?? getCurrentUserId(env) }
+  );
+}
+
+export type {
+  ImportOneRosterClassesInput,
+  ImportOneRosterClassesResult,
+  ImportOneRosterClassesError,
+  ImportedOneRosterClass
+};
+
 // =============================================================================
 // Demo Activity Operations
 // =============================================================================
@@ -812,9 +917,8 @@ export async function deleteDemoActivity(
     await env.sessionRepo.delete(session.id);
   }
 
-  // Delete scenario
-  const scenario = await env.scenarioRepo.getByProgramId(programId);
-  if (scenario) {
+  // Delete scenarios
+  for (const scenario of await env.scenarioRepo.listByProgramId(programId)) {
     await env.scenarioRepo.delete(scenario.id);
   }
 
@@ -885,9 +989,8 @@ export async function deleteActivity(
       return err({ type: 'PROGRAM_NOT_FOUND', message: `Activity ${programId} not found` });
     }
 
-    // Delete associated scenario if exists
-    const scenario = await env.scenarioRepo.getByProgramId(programId);
-    if (scenario) {
+    // Delete associated scenarios
+    for (const scenario of await env.scenarioRepo.listByProgramId(programId)) {
       await env.scenarioRepo.delete(scenario.id);
     }
 
@@ -1491,6 +1594,198 @@ export type {
   ObservationListResult
 };
 
+// =============================================================================
+// Conflict Rule Use Cases
+// =============================================================================
+
+import {
+  createConflictRule as createConflictRuleUseCase,
+  type CreateConflictRuleInput,
+  type CreateConflictRuleError
+} from '$lib/application/useCases/createConflictRule';
+import {
+  listConflictRules as listConflictRulesUseCase,
+  type ListConflictRulesInput,
+  type ListConflictRulesError
+} from '$lib/application/useCases/listConflictRules';
+import {
+  deleteConflictRule as deleteConflictRuleUseCase,
+  type DeleteConflictRuleInput
+} from '$lib/application/useCases/deleteConflictRule';
+
+/**
+ * Create a teacher-defined conflict rule for a program or pool.
+ */
+export async function createConflictRule(
+  env: InMemoryEnvironment,
+  input: CreateConflictRuleInput
+): Promise<Result<import('$lib/domain').ConflictRule, CreateConflictRuleError>> {
+  return createConflictRuleUseCase(
+    {
+      conflictRuleRepo: env.conflictRuleRepo,
+      idGenerator: env.idGenerator,
+      clock: env.clock
+    },
+    input
+  );
+}
+
+/**
+ * List all conflict rules that apply to a program (program- and pool-scoped).
+ */
+export async function listConflictRules(
+  env: InMemoryEnvironment,
+  input: ListConflictRulesInput
+): Promise<Result<import('$lib/domain').ConflictRule[], ListConflictRulesError>> {
+  return listConflictRulesUseCase(
+    {
+      programRepo: env.programRepo,
+      conflictRuleRepo: env.conflictRuleRepo
+    },
+    input
+  );
+}
+
+/**
+ * Delete a conflict rule.
+ */
+export async function deleteConflictRule(
+  env: InMemoryEnvironment,
+  input: DeleteConflictRuleInput
+): Promise<Result<void, never>> {
+  return deleteConflictRuleUseCase(
+    {
+      conflictRuleRepo: env.conflictRuleRepo
+    },
+    input
+  );
+}
+
+// Re-export conflict rule types
+export type {
+  CreateConflictRuleInput,
+  CreateConflictRuleError,
+  ListConflictRulesInput,
+  ListConflictRulesError,
+  DeleteConflictRuleInput
+};
+
+// =============================================================================
+// Scenario Variant Use Cases
+// =============================================================================
+
+import {
+  listScenarios as listScenariosUseCase,
+  type ListScenariosInput,
+  type ListScenariosError
+} from '$lib/application/useCases/listScenarios';
+import {
+  duplicateScenario as duplicateScenarioUseCase,
+  type DuplicateScenarioInput,
+  type DuplicateScenarioError
+} from '$lib/application/useCases/duplicateScenario';
+import {
+  deleteScenario as deleteScenarioUseCase,
+  type DeleteScenarioInput,
+  type DeleteScenarioError
+} from '$lib/application/useCases/deleteScenario';
+
+/**
+ * List every saved scenario (draft arrangement) for a program.
+ */
+export async function listScenarios(
+  env: InMemoryEnvironment,
+  input: ListScenariosInput
+): Promise<Result<import('$lib/domain').Scenario[], ListScenariosError>> {
+  return listScenariosUseCase(
+    {
+      programRepo: env.programRepo,
+      scenarioRepo: env.scenarioRepo
+    },
+    input
+  );
+}
+
+/**
+ * Save a copy of a scenario as a new draft.
+ */
+export async function duplicateScenario(
+  env: InMemoryEnvironment,
+  input: DuplicateScenarioInput
+): Promise<Result<import('$lib/domain').Scenario, DuplicateScenarioError>> {
+  return duplicateScenarioUseCase(
+    {
+      scenarioRepo: env.scenarioRepo,
+      idGenerator: env.idGenerator,
+      clock: env.clock
+    },
+    input
+  );
+}
+
+/**
+ * Delete a scenario other than the program's last one.
+ */
+export async function deleteScenario(
+  env: InMemoryEnvironment,
+  input: DeleteScenarioInput
+): Promise<Result<{ scenarioId: string }, DeleteScenarioError>> {
+  return deleteScenarioUseCase(
+    {
+      scenarioRepo: env.scenarioRepo
+    },
+    input
+  );
+}
+
+// Re-export scenario variant types
+export type {
+  ListScenariosInput,
+  ListScenariosError,
+  DuplicateScenarioInput,
+  DuplicateScenarioError,
+  DeleteScenarioInput,
+  DeleteScenarioError
+};
+
+// =============================================================================
+// Rotation Planning Use Cases
+// =============================================================================
+
+import {
+  planRotation as planRotationUseCase,
+  type PlanRotationInput,
+  type PlanRotationResult,
+  type PlanRotationError,
+  type PairCoverage
+} from '$lib/application/useCases/planRotation';
+
+/**
+ * Plan several future sessions as draft scenarios that maximize new pairings.
+ */
+export async function planRotation(
+  env: InMemoryEnvironment,
+  input: PlanRotationInput
+): Promise<Result<PlanRotationResult, PlanRotationError>> {
+  return planRotationUseCase(
+    {
+      programRepo: env.programRepo,
+      poolRepo: env.poolRepo,
+      scenarioRepo: env.scenarioRepo,
+      idGenerator: env.idGenerator,
+      clock: env.clock,
+      sessionRepo: env.sessionRepo,
+      placementRepo: env.placementRepo,
+      studentRepo: env.studentRepo,
+      conflictRuleRepo: env.conflictRuleRepo
+    },
+    input
+  );
+}
+
+// Re-export rotation planning types
+export type { PlanRotationInput, PlanRotationResult, PlanRotationError, PairCoverage };
+
 // =============================================================================
 // Pairing History Use Cases
 // =============================================================================
@@ -1944,3 +2239,79 @@ export type {
   StudentProfile,
   GetStudentProfileError
 };
+
+// =============================================================================
+// Privacy Use Cases
+// =============================================================================
+
+import {
+  forgetStudent as forgetStudentUseCase,
+  type ForgetStudentInput,
+  type ForgetStudentReport,
+  type ForgetStudentError
+} from '$lib/application/useCases/forgetStudent';
+import {
+  runRetentionSweep as runRetentionSweepUseCase,
+  type RunRetentionSweepInput,
+  type RetentionAction,
+  type RetentionSweepReport,
+  type RunRetentionSweepError
+} from '$lib/application/useCases/runRetentionSweep';
+
+/**
+ * Remove a student's data everywhere (or report what would be removed).
+ */
+export async function forgetStudent(
+  env: InMemoryEnvironment,
+  input: ForgetStudentInput
+): Promise<Result<ForgetStudentReport, ForgetStudentError>> {
+  return forgetStudentUseCase(
+    {
+      studentRepo: env.studentRepo,
+      studentIdentityRepo: env.studentIdentityRepo,
+      poolRepo: env.poolRepo,
+      programRepo: env.programRepo,
+      scenarioRepo: env.scenarioRepo,
+      preferenceRepo: env.preferenceRepo,
+      placementRepo: env.placementRepo,
+      observationRepo: env.observationRepo,
+      conflictRuleRepo: env.conflictRuleRepo
+    },
+    input
+  );
+}
+
+/**
+ * Archive or delete old activities and sessions (or report what would be).
+ */
+export async function runRetentionSweep(
+  env: InMemoryEnvironment,
+  input: RunRetentionSweepInput
+): Promise<Result<RetentionSweepReport, RunRetentionSweepError>> {
+  return runRetentionSweepUseCase(
+    {
+      programRepo: env.programRepo,
+      poolRepo: env.poolRepo,
+      studentRepo: env.studentRepo,
+      studentIdentityRepo: env.studentIdentityRepo,
+      scenarioRepo: env.scenarioRepo,
+      sessionRepo: env.sessionRepo,
+      placementRepo: env.placementRepo,
+      preferenceRepo: env.preferenceRepo,
+      observationRepo: env.observationRepo,
+      conflictRuleRepo: env.conflictRuleRepo,
+      clock: env.clock
+    },
+    input
+  );
+}
+
+export type {
+  ForgetStudentInput,
+  ForgetStudentReport,
+  ForgetStudentError,
+  RunRetentionSweepInput,
+  RetentionAction,
+  RetentionSweepReport,
+  RunRetentionSweepError
+};
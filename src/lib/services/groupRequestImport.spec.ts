@@ -137,6 +137,46 @@ alice@test.com,Art Club,Music Club,Drama Club,Chess Club,Art Club`;
     expect(result.preferences[0].likeGroupIds).toEqual(['Art Club', 'Music Club']);
   });
 
+  it('parses every choice column by default', () => {
+    const csv = `Student ID,C1,C2,C3,C4,C5,C6
+alice@test.com,Art Club,Music Club,Drama Club,Chess Club,Art Club,Music Club`;
+
+    const result = parseGroupRequests(csv, defaultOptions);
+
+    expect(result.preferences[0].likeGroupIds).toHaveLength(6);
+  });
+
+  it('parses avoid-group and avoid-student columns', () => {
+    const csv = `Student ID,Choice 1,Avoid Group,Not With
+alice@test.com,Art Club,Chess Club; Lego,Bob Jones; Carol
+bob@test.com,,,`;
+
+    const result = parseGroupRequests(csv, {
+      ...defaultOptions,
+      roster: [
+        { id: 'alice@test.com', firstName: 'Alice' },
+        { id: 'bob@test.com', firstName: 'Bob', lastName: 'Jones' },
+        { id: 'carol@test.com', firstName: 'Carol' },
+        { id: 'carol2@test.com', firstName: 'Carol' }
+      ]
+    });
+
+    expect(result.preferences).toEqual([
+      {
+        studentId: 'alice@test.com',
+        likeGroupIds: ['Art Club'],
+        avoidGroupIds: ['Chess Club'],
+        avoidStudentIds: ['bob@test.com']
+      }
+    ]);
+    expect(result.stats.unknownGroups).toEqual(['Lego']);
+    expect(result.warnings).toEqual([
+      'Row 2: Unknown group "Lego"',
+      'Row 2: "Carol" matches 2 students; use their student ID'
+    ]);
+    expect(result.stats.skipped).toBe(1);
+  });
+
   it('handles various header name formats', () => {
     // Test "ID" column name
     let csv = `ID,Choice 1
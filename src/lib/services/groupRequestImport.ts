@@ -3,14 +3,21 @@
  *
  * Parses CSV/TSV data containing student group requests.
  * Expected format:
- *   StudentID, Choice1, Choice2, Choice3, ...
+ *   StudentID, Choice1, Choice2, Choice3, ..., Avoid Group, Avoid Student
  *
- * The choices are group names that get mapped to group IDs.
+ * The choices are group names that get mapped to group IDs. Avoid columns
+ * are optional and may list several entries separated by commas or
+ * semicolons.
  *
  * @module services/groupRequestImport
  */
 
 import type { ParsedPreference } from '$lib/application/useCases/createGroupingActivity';
+import {
+  findStudentsByReference,
+  splitListCell,
+  type StudentReferenceCandidate
+} from '$lib/domain/import';
 
 export interface GroupRequestImportResult {
   preferences: ParsedPreference[];
@@ -29,8 +36,10 @@ export interface GroupRequestImportOptions {
   groupNames: string[];
   /** Available student IDs (case-insensitive matching) */
   studentIds: string[];
-  /** Maximum number of choices to parse per student */
+  /** Maximum number of choices to parse per student (default: all) */
   maxChoices?: number;
+  /** Roster used to resolve avoided classmates by name (default: by ID only) */
+  roster?: StudentReferenceCandidate[];
 }
 
 /**
@@ -41,6 +50,9 @@ export interface GroupRequestImportOptions {
  * - Subsequent rows: studentId, choice1, choice2, choice3, ...
  * - Choices are group names (case-insensitive match)
  * - Empty choices are skipped
+ * - "Avoid group" / "Do not place" columns fill avoidGroupIds
+ * - "Avoid student" / "Not with" columns fill avoidStudentIds, matched by
+ *   student ID or, with `roster`, by name
  *
  * @param text Raw CSV/TSV text
  * @param options Validation options
@@ -54,7 +66,9 @@ export function parseGroupRequests(
   const preferences: ParsedPreference[] = [];
   const unknownStudents = new Set<string>();
   const unknownGroups = new Set<string>();
-  const maxChoices = options.maxChoices ?? 5;
+  const maxChoices = options.maxChoices ?? Infinity;
+  const roster: StudentReferenceCandidate[] =
+    options.roster ?? options.studentIds.map((id) => ({ id, firstName: id }));
 
   // Normalize lookups
   const studentIdLower = new Set(options.studentIds.map((id) => id.toLowerCase()));
@@ -88,7 +102,18 @@ export function parseGroupRequests(
 
   // Parse header to find column indices
   const header = lines[0].split(delimiter).map((h) => h.trim().toLowerCase());
-  const studentIdIdx = findColumnIndex(header, ['student id', 'studentid', 'id', 'email']);
+
+  // Avoid columns first, so they are not mistaken for the ID ("avoid") or choices
+  const avoidGroupIndices = findColumnsMatching(header, AVOID_GROUP_PATTERN);
+  const avoidStudentIndices = findColumnsMatching(header, AVOID_STUDENT_PATTERN).filter(
+    (i) => !avoidGroupIndices.includes(i)
+  );
+  const avoidIndices = [...avoidGroupIndices, ...avoidStudentIndices];
+
+  const studentIdIdx = findColumnIndex(
+    header.map((h, i) => (avoidIndices.includes(i) ? '' : h)),
+    ['student id', 'studentid', 'id', 'email']
+  );
 
   if (studentIdIdx === -1) {
     return {
@@ -105,7 +130,7 @@ export function parseGroupRequests(
   }
 
   // Find choice columns (any column with "choice" or numbered columns after ID)
-  const choiceIndices = findChoiceColumns(header, studentIdIdx);
+  const choiceIndices = findChoiceColumns(header, [studentIdIdx, ...avoidIndices]);
 
   let imported = 0;
   let skipped = 0;
@@ -133,28 +158,57 @@ export function parseGroupRequests(
       continue;
     }
 
+    const matchGroups = (rawNames: string[]): string[] => {
+      const matched: string[] = [];
+      for (const rawName of rawNames) {
+        const matchedGroup = groupNameMap.get(rawName.toLowerCase());
+        if (matchedGroup) {
+          // Use the original group name as the ID (will be mapped later)
+          matched.push(matchedGroup);
+        } else {
+          unknownGroups.add(rawName);
+          warnings.push(`Row ${rowNum}: Unknown group "${rawName}"`);
+        }
+      }
+      return matched;
+    };
+
     // Parse group choices
-    const likeGroupIds: string[] = [];
-    for (let j = 0; j < Math.min(choiceIndices.length, maxChoices); j++) {
-      const idx = choiceIndices[j];
-      const rawChoice = (cells[idx] ?? '').trim();
-      if (!rawChoice) continue;
-
-      const matchedGroup = groupNameMap.get(rawChoice.toLowerCase());
-      if (matchedGroup) {
-        // Use the original group name as the ID (will be mapped later)
-        likeGroupIds.push(matchedGroup);
+    const likeGroupIds = matchGroups(
+      choiceIndices
+        .slice(0, maxChoices)
+        .map((idx) => (cells[idx] ?? '').trim())
+        .filter(Boolean)
+    );
+    const avoidGroupIds = matchGroups(
+      avoidGroupIndices.flatMap((idx) => splitListCell(cells[idx]))
+    );
+
+    // Resolve avoided classmates against the roster
+    const avoidStudentIds: string[] = [];
+    for (const reference of avoidStudentIndices.flatMap((idx) => splitListCell(cells[idx]))) {
+      const matches = findStudentsByReference(reference, roster);
+      if (matches.length === 0) {
+        warnings.push(`Row ${rowNum}: Unknown student "${reference}" in avoid list`);
+      } else if (matches.length > 1) {
+        warnings.push(
+          `Row ${rowNum}: "${reference}" matches ${matches.length} students; use their student ID`
+        );
       } else {
-        unknownGroups.add(rawChoice);
-        warnings.push(`Row ${rowNum}: Unknown group "${rawChoice}"`);
+        const avoidId = matches[0].id.toLowerCase();
+        if (avoidId !== studentId && !avoidStudentIds.includes(avoidId)) {
+          avoidStudentIds.push(avoidId);
+        }
       }
     }
 
-    // Create preference if there are any valid choices
-    if (likeGroupIds.length > 0) {
+    // Create preference if there are any valid choices or avoids
+    if (likeGroupIds.length > 0 || avoidGroupIds.length > 0 || avoidStudentIds.length > 0) {
       preferences.push({
         studentId,
-        likeGroupIds
+        likeGroupIds,
+        ...(avoidGroupIds.length > 0 ? { avoidGroupIds } : {}),
+        ...(avoidStudentIds.length > 0 ? { avoidStudentIds } : {})
       });
       imported++;
     } else {
@@ -187,27 +241,37 @@ function findColumnIndex(header: string[], possibleNames: string[]): number {
   return -1;
 }
 
+const AVOID_GROUP_PATTERN = /avoid (group|club|option)|do not place|don't place|not in/i;
+const AVOID_STUDENT_PATTERN = /avoid (student|classmate)|not with|do not group|don't group/i;
+
+/**
+ * Find all columns whose header matches a pattern.
+ */
+function findColumnsMatching(header: string[], pattern: RegExp): number[] {
+  return header.flatMap((h, i) => (pattern.test(h) ? [i] : []));
+}
+
 /**
  * Find columns that contain group choices.
  * Looks for columns named "choice", "choice 1", "1st choice", etc.
- * Falls back to all columns after the student ID column.
+ * Falls back to all columns other than the student ID and avoid columns.
  */
-function findChoiceColumns(header: string[], studentIdIdx: number): number[] {
+function findChoiceColumns(header: string[], excludedIndices: number[]): number[] {
   const choicePattern = /choice|rank|preference|option/i;
   const indices: number[] = [];
 
   // First try to find explicitly named choice columns
   for (let i = 0; i < header.length; i++) {
-    if (i === studentIdIdx) continue;
+    if (excludedIndices.includes(i)) continue;
     if (choicePattern.test(header[i])) {
       indices.push(i);
     }
   }
 
-  // If no explicit choice columns, use all columns after student ID
+  // If no explicit choice columns, use all remaining columns
   if (indices.length === 0) {
     for (let i = 0; i < header.length; i++) {
-      if (i !== studentIdIdx) {
+      if (!excludedIndices.includes(i)) {
         indices.push(i);
       }
     }
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { OneRosterBundleError, parseOneRosterBundle } from './oneRosterImport';
+
+const ONE_ROSTER_FILES: Record<string, string> = {
+  'users.csv': [
+    'sourcedId,status,dateLastModified,enabledUser,orgSourcedIds,role,username,userIds,givenName,familyName,middleName,identifier,email,sms,phone,agentSourcedIds,grades,password',
+    'u1,active,,true,org1,student,ana,,Ana,Lopez,,1001,ana@school.test,,,,"09,10",',
+    'u2,active,,true,org1,student,ben,,Ben,,,1002,,,,,09,',
+    'u3,tobedeleted,,true,org1,student,old,,Old,Student,,1003,,,,,09,',
+    't1,active,,true,org1,teacher,kim,,Dana,Kim,,,dkim@school.test,,,,,'
+  ].join('\n'),
+  'classes.csv': [
+    'sourcedId,status,dateLastModified,title,grades,courseSourcedId,classCode,classType,location,schoolSourcedId,termSourcedIds,subjects,subjectCodes,periods',
+    'c1,active,,Biology - P2,09,crs1,BIO-2,scheduled,,org1,term1,,,2',
+    'c2,active,,Homeroom 9A,09,crs2,,homeroom,,org1,term1,,,'
+  ].join('\n'),
+  'enrollments.csv': [
+    'sourcedId,status,dateLastModified,classSourcedId,schoolSourcedId,userSourcedId,role,primary,beginDate,endDate',
+    'e1,active,,c1,org1,u1,student,false,,',
+    'e2,active,,c1,org1,u2,student,false,,',
+    'e3,tobedeleted,,c1,org1,u3,student,false,,',
+    'e4,active,,c1,org1,t1,teacher,true,,',
+    'e5,active,,c2,org1,u1,student,false,,',
+    'e6,active,,c2,org1,u9,student,false,,'
+  ].join('\n'),
+  'demographics.csv': [
+    'sourcedId,status,dateLastModified,birthDate,sex',
+    'u1,active,,2010-04-01,female',
+    'u2,active,,2010-06-12,unspecified'
+  ].join('\n')
+};
+
+describe('parseOneRosterBundle', () => {
+  it('lists classes with their students, teachers and demographics', () => {
+    const bundle = parseOneRosterBundle(ONE_ROSTER_FILES);
+
+    expect(bundle.classes.map((c) => c.title)).toEqual(['Biology - P2', 'Homeroom 9A']);
+    expect(bundle.classes[0]).toMatchObject({
+      sourcedId: 'c1',
+      classCode: 'BIO-2',
+      teachers: [{ sourcedId: 't1', name: 'Dana Kim', primary: true }],
+      students: [
+        {
+          sourcedId: 'u1',
+          firstName: 'Ana',
+          lastName: 'Lopez',
+          gradeLevel: '09',
+          gender: 'F',
+          email: 'ana@school.test'
+        },
+        { sourcedId: 'u2', firstName: 'Ben', lastName: undefined, gender: undefined }
+      ]
+    });
+    expect(bundle.classes[1].students.map((s) => s.sourcedId)).toEqual(['u1']);
+    expect(bundle.warnings).toEqual(['Enrollments refer to user "u9", who is not in users.csv']);
+  });
+
+  it('finds files inside folders and rejects incomplete bundles', () => {
+    const nested = Object.fromEntries(
+      Object.entries(ONE_ROSTER_FILES).map(([name, text]) => [`export/${name}`, text])
+    );
+    const incomplete = Object.fromEntries(
+      Object.entries(ONE_ROSTER_FILES).filter(([name]) => name !== 'enrollments.csv')
+    );
+
+    expect(parseOneRosterBundle(nested).classes).toHaveLength(2);
+    expect(() => parseOneRosterBundle(incomplete)).toThrow(OneRosterBundleError);
+    expect(() => parseOneRosterBundle(incomplete)).toThrow('missing enrollments.csv');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * OneRoster CSV Bundle Import Service
+ *
+ * Parses a OneRoster 1.1 CSV bundle as exported by a student information
+ * system (SIS):
+ *   users.csv, classes.csv, enrollments.csv and (optional) demographics.csv
+ *
+ * Each class is returned with its enrolled students and teachers. Records
+ * marked "tobedeleted" are ignored. Demographics map to the fields the app
+ * stores: `sex` becomes `gender` (M/F/X) and the user's first grade becomes
+ * `gradeLevel`.
+ *
+ * @module services/oneRosterImport
+ */
+
+import { parseCsvToSheetData } from './googleSheets';
+
+export const ONE_ROSTER_REQUIRED_FILES = ['users.csv', 'classes.csv', 'enrollments.csv'];
+
+export interface OneRosterStudent {
+  /** OneRoster user sourcedId; stable across exports */
+  sourcedId: string;
+  firstName: string;
+  lastName?: string;
+  gradeLevel?: string;
+  gender?: string;
+  email?: string;
+}
+
+export interface OneRosterTeacher {
+  sourcedId: string;
+  name: string;
+  /** Whether the enrollment marks this teacher as the class's primary teacher */
+  primary: boolean;
+}
+
+export interface OneRosterClass {
+  sourcedId: string;
+  title: string;
+  classCode?: string;
+  students: OneRosterStudent[];
+  teachers: OneRosterTeacher[];
+}
+
+export interface OneRosterBundle {
+  /** Classes in file order */
+  classes: OneRosterClass[];
+  warnings: string[];
+}
+
+export class OneRosterBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OneRosterBundleError';
+  }
+}
+
+type CsvRecord = Record<string, string>;
+
+const GENDER_BY_SEX: Record<string, string> = {
+  male: 'M',
+  female: 'F',
+  other: 'X'
+};
+
+/**
+ * Read a CSV file into records keyed by lower-cased header.
+ * Records marked for deletion are dropped.
+ */
+function readRecords(text: string): CsvRecord[] {
+  const data = parseCsvToSheetData(text.replace(/^\uFEFF/, ''));
+  const headers = data.headers.map((h) => h.trim().toLowerCase());
+  return data.rows
+    .map((row) => Object.fromEntries(headers.map((h, i) => [h, row.cells[i]?.trim() ?? ''])))
+    .filter((record) => record.status?.toLowerCase() !== 'tobedeleted');
+}
+
+function findFile(files: Record<string, string>, name: string): string | undefined {
+  const entry = Object.entries(files).find(
+    ([path]) => path.split('/').pop()?.toLowerCase() === name
+  );
+  return entry?.[1];
+}
+
+/**
+ * Parse a OneRoster 1.1 CSV bundle.
+ *
+ * @param files File contents keyed by file name (paths inside a zip are fine)
+ * @throws OneRosterBundleError when a required file or column is missing
+ */
+export function parseOneRosterBundle(files: Record<string, string>): OneRosterBundle {
+  const missing = ONE_ROSTER_REQUIRED_FILES.filter((name) => findFile(files, name) === undefined);
+  if (missing.length > 0) {
+    throw new OneRosterBundleError(`The OneRoster bundle is missing ${missing.join(', ')}.`);
+  }
+
+  const users = readRecords(findFile(files, 'users.csv') ?? '');
+  const classes = readRecords(findFile(files, 'classes.csv') ?? '');
+  const enrollments = readRecords(findFile(files, 'enrollments.csv') ?? '');
+  const demographics = readRecords(findFile(files, 'demographics.csv') ?? '');
+
+  if (users.length > 0 && !('sourcedid' in users[0] && 'givenname' in users[0])) {
+    throw new OneRosterBundleError('users.csv must have sourcedId and givenName columns.');
+  }
+  if (enrollments.length > 0 && !('classsourcedid' in enrollments[0])) {
+    throw new OneRosterBundleError(
+      'enrollments.csv must have classSourcedId, userSourcedId and role columns.'
+    );
+  }
+
+  const usersById: Record<string, CsvRecord> = {};
+  for (const user of users) usersById[user.sourcedid] = user;
+  const sexById: Record<string, string> = {};
+  for (const record of demographics) sexById[record.sourcedid] = record.sex?.toLowerCase() ?? '';
+
+  const warnings: string[] = [];
+  const unknownUsers: string[] = [];
+  const byClass: Record<string, OneRosterClass> = {};
+  const result: OneRosterClass[] = [];
+
+  for (const record of classes) {
+    if (!record.sourcedid) continue;
+    const oneRosterClass: OneRosterClass = {
+      sourcedId: record.sourcedid,
+      title: record.title || record.classcode || record.sourcedid,
+      classCode: record.classcode || undefined,
+      students: [],
+      teachers: []
+    };
+    byClass[record.sourcedid] = oneRosterClass;
+    result.push(oneRosterClass);
+  }
+
+  for (const enrollment of enrollments) {
+    const oneRosterClass = byClass[enrollment.classsourcedid];
+    if (!oneRosterClass) continue;
+
+    const userId = enrollment.usersourcedid;
+    const user = usersById[userId];
+    if (!user) {
+      if (!unknownUsers.includes(userId)) unknownUsers.push(userId);
+      continue;
+    }
+
+    const role = enrollment.role?.toLowerCase();
+    if (role === 'student') {
+      if (oneRosterClass.students.some((s) => s.sourcedId === userId)) continue;
+      oneRosterClass.students.push({
+        sourcedId: userId,
+        firstName: user.givenname,
+        lastName: user.familyname || undefined,
+        gradeLevel: user.grades?.split(',')[0].trim() || undefined,
+        gender: GENDER_BY_SEX[sexById[userId] ?? ''],
+        email: user.email || undefined
+      });
+    } else if (role === 'teacher') {
+      if (oneRosterClass.teachers.some((t) => t.sourcedId === userId)) continue;
+      oneRosterClass.teachers.push({
+        sourcedId: userId,
+        name: [user.givenname, user.familyname].filter(Boolean).join(' '),
+        primary: enrollment.primary?.toLowerCase() === 'true'
+      });
+    }
+  }
+
+  if (unknownUsers.length > 0) {
+    warnings.push(
+      unknownUsers.length === 1
+        ? `Enrollments refer to user "${unknownUsers[0]}", who is not in users.csv`
+        : `Enrollments refer to ${unknownUsers.length} users who are not in users.csv`
+    );
+  }
+
+  return { classes: result, warnings };
+}
@@ -1,5 +1,8 @@
 import type { AppEnvContext } from '$lib/contexts/appEnv';
 import type {
+  AttributeBalanceSpec,
+  ConflictRule,
+  ConflictRuleKind,
   Group,
   Placement,
   Pool,
@@ -16,17 +19,38 @@ import {
   getProgramPairingStats,
   quickGenerateGroups,
   generateCandidate,
+  generateCandidates,
   upgradeQuickStartRoster,
+  applyRosterChanges,
   addStudentToPool,
   updateStudent as updateStudentUseCase,
   removeStudentFromPool,
+  forgetStudent as forgetStudentUseCase,
   showToClass,
   deleteSession as deleteSessionUseCase,
   setStudentActiveStatus,
-  type PairingStat
+  listConflictRules,
+  createConflictRule,
+  deleteConflictRule,
+  listScenarios,
+  duplicateScenario as duplicateScenarioUseCase,
+  deleteScenario as deleteScenarioUseCase,
+  planRotation as planRotationUseCase,
+  type CandidateGrouping,
+  type PairCoverage,
+  type GroupingProgress,
+  type PairingStat,
+  type ApplyRosterChangesInput
 } from '$lib/services/appEnvUseCases';
 import { isErr } from '$lib/types/result';
 import { getActiveMemberIds } from '$lib/domain/pool';
+import {
+  buildLockedGroupShells,
+  getConflictRuleAvoidPairs,
+  pickWorkingScenario,
+  getConflictRuleKeepTogetherSets,
+  inferAttributeBalanceMode
+} from '$lib/domain';
 import type { MemberStatus } from '$lib/domain/pool';
 import {
   ScenarioEditingStore,
@@ -37,6 +61,10 @@ import { getGenerationErrorMessage } from '$lib/utils/generationErrorMessages';
 import { buildPreferenceMap } from '$lib/utils/preferenceAdapter';
 import { getGenerationSettings, saveGenerationSettings } from '$lib/utils/generationSettings';
 import { isQuickStartPlaceholderName } from '$lib/utils/quickStartPlaceholderNames';
+import { buildAvoidPairsFromPreferences } from '$lib/algorithms/buildConstraints';
+import { findConstraintViolations } from '$lib/algorithms/constraint-violations';
+import { countRepeatPairings } from '$lib/algorithms/repeat-pairings';
+import type { AvoidPair, ConstraintViolation } from '$lib/algorithms/types';
 
 /**
  * A snapshot of a past generation for the history panel.
@@ -57,6 +85,35 @@ export interface ComparisonState {
   isGenerating: boolean;
 }
 
+/**
+ * A generated arrangement in the candidate gallery, with the metrics shown on its card.
+ */
+export interface CandidateSummary extends CandidateGrouping {
+  /** Pairs of groupmates who have already shared a group in a past session */
+  repeatPairings: number;
+  /** Keep-apart / keep-together rules the arrangement breaks */
+  violationCount: number;
+}
+
+/**
+ * State for the candidate gallery overlay.
+ */
+export interface CandidateGalleryState {
+  candidates: CandidateSummary[];
+  isGenerating: boolean;
+}
+
+/**
+ * State for the rotation planner dialog.
+ */
+export interface RotationPlannerState {
+  isPlanning: boolean;
+  /** Pair coverage of the latest plan, or null before planning */
+  coverage: PairCoverage | null;
+  /** Draft scenarios of the latest plan, in session order */
+  scenarioIds: string[];
+}
+
 /**
  * Live session state for the Class View.
  *
@@ -87,6 +144,8 @@ export interface ClassViewVmState {
   students: Student[];
   preferences: Preference[];
   scenario: Scenario | null;
+  /** Every saved scenario for this activity (e.g. "Plan A", "Plan B"), oldest first */
+  scenarios: Scenario[];
   sessions: Session[];
   latestPublishedSession: Session | null;
   pairingStats: PairingStat[];
@@ -99,10 +158,16 @@ export interface ClassViewVmState {
   loadError: string | null;
   generationError: string | null;
   isGenerating: boolean;
+  /** Progress of the running generation (Make Groups, Assign All, Shuffle, gallery), if reported */
+  generationProgress: GroupingProgress | null;
 
   // Generation settings (persisted per-activity via localStorage)
   avoidRecentGroupmates: boolean;
   lookbackSessions: number;
+  /** Attribute to spread evenly across groups, or null when balancing is off */
+  balanceAttribute: AttributeBalanceSpec | null;
+  /** Teacher-defined conflict rules for this activity and its roster */
+  conflictRules: ConflictRule[];
   // Settings panel visibility
   settingsPanelOpen: boolean;
 
@@ -133,6 +198,12 @@ export interface ClassViewVmState {
   // Comparison state (WP9)
   comparison: ComparisonState | null;
 
+  // Candidate gallery
+  candidateGallery: CandidateGalleryState | null;
+
+  // Rotation planner (several future sessions at once)
+  rotationPlanner: RotationPlannerState | null;
+
   // History panel visibility (WP9)
   historyPanelOpen: boolean;
 
@@ -147,6 +218,9 @@ export interface ClassViewVmState {
   // Unplaced student tracking
   unplacedStudentCount: number;
 
+  /** Hard-constraint violations (avoid pairs, keep-together sets) in the current groups */
+  constraintViolations: ConstraintViolation[];
+
   // Unassigned student IDs (bench) — students in scenario but not in any group
   unassignedStudentIds: string[];
 
@@ -178,6 +252,7 @@ export interface ClassViewVm {
     generateGroups: (groupCount?: number) => Promise<void>;
     assignAll: () => Promise<void>;
     shuffleGroups: () => Promise<void>;
+    cancelGeneration: () => void;
 
     // Drag-drop editing
     moveStudent: (payload: {
@@ -198,6 +273,16 @@ export interface ClassViewVm {
     updateGroup: (groupId: string, changes: Partial<Pick<Group, 'name' | 'capacity'>>) => void;
     deleteGroup: (groupId: string) => void;
 
+    // Scenario variants
+    switchScenario: (scenarioId: string) => Promise<void>;
+    duplicateScenario: () => Promise<void>;
+    renameScenario: (name: string) => void;
+    deleteScenario: (scenarioId: string) => Promise<void>;
+
+    // Locks (kept in place on Assign All / Shuffle)
+    toggleStudentLock: (studentId: string) => void;
+    toggleGroupLock: (groupId: string) => void;
+
     // Keyboard drag-drop
     keyboardPickUp: (studentId: string, container: string, index: number) => void;
     keyboardDrop: () => void;
@@ -213,10 +298,28 @@ export interface ClassViewVm {
     useAlternativeArrangement: () => void;
     closeComparison: () => void;
 
+    // Candidate gallery
+    openCandidateGallery: () => Promise<void>;
+    selectCandidate: (candidateId: string) => void;
+    closeCandidateGallery: () => void;
+
+    // Rotation planner
+    openRotationPlanner: () => void;
+    planRotation: (sessionCount: number) => Promise<void>;
+    closeRotationPlanner: () => void;
+
     // Settings (WP10)
     setAvoidRecentGroupmates: (enabled: boolean) => void;
     setLookbackSessions: (sessions: number) => void;
+    setBalanceAttribute: (attribute: string | null) => void;
     toggleSettingsPanel: () => void;
+    addConflictRule: (input: {
+      kind: ConflictRuleKind;
+      studentIds: string[];
+      scope: 'activity' | 'roster';
+      note?: string;
+    }) => Promise<boolean>;
+    removeConflictRule: (ruleId: string) => Promise<boolean>;
 
     // Live session controls
     enterProjection: () => void;
@@ -225,6 +328,9 @@ export interface ClassViewVm {
     // Quick Start upgrade (WP11)
     upgradeRoster: (students: Array<{ firstName: string; lastName: string }>) => Promise<void>;
 
+    // Roster re-import
+    applyRosterChanges: (changes: Omit<ApplyRosterChangesInput, 'poolId'>) => Promise<boolean>;
+
     // Session lifecycle
     publishSession: () => Promise<void>;
     startNewSession: () => void;
@@ -246,6 +352,7 @@ export interface ClassViewVm {
       gender?: string;
     }) => Promise<boolean>;
     removeStudent: (studentId: string) => Promise<boolean>;
+    forgetStudent: (studentId: string) => Promise<boolean>;
     toggleStudentActive: (studentId: string) => Promise<boolean>;
   };
 }
@@ -253,6 +360,8 @@ export interface ClassViewVm {
 export function createClassViewVm(env: AppEnvContext): ClassViewVm {
   let unsubscribeEditingStore: (() => void) | null = null;
   let keyboardCleanup: (() => void) | null = null;
+  let generationController: AbortController | null = null;
+  let avoidPairs: AvoidPair[] = [];
 
   let state = $state<ClassViewVmState>({
     env,
@@ -262,6 +371,7 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     students: [],
     preferences: [],
     scenario: null,
+    scenarios: [],
     sessions: [],
     latestPublishedSession: null,
     pairingStats: [],
@@ -272,9 +382,12 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     loadError: null,
     generationError: null,
     isGenerating: false,
+    generationProgress: null,
 
     avoidRecentGroupmates: true,
     lookbackSessions: 3,
+    balanceAttribute: null,
+    conflictRules: [],
     settingsPanelOpen: false,
 
     editingStore: null,
@@ -290,6 +403,8 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     generationHistory: [],
     selectedHistoryIndex: -1,
     comparison: null,
+    candidateGallery: null,
+    rotationPlanner: null,
     historyPanelOpen: false,
 
     viewingSessionId: null,
@@ -300,6 +415,8 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
 
     unplacedStudentCount: 0,
 
+    constraintViolations: [],
+
     unassignedStudentIds: [],
 
     inactiveStudentIds: new Set(),
@@ -336,10 +453,15 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     if (!state.program) return;
     saveGenerationSettings(state.program.id, {
       avoidRecentGroupmates: state.avoidRecentGroupmates,
-      lookbackSessions: state.lookbackSessions
+      lookbackSessions: state.lookbackSessions,
+      ...(state.balanceAttribute ? { balanceAttribute: state.balanceAttribute } : {})
     });
   }
 
+  function balanceAttributesConfig(): AttributeBalanceSpec[] | undefined {
+    return state.balanceAttribute ? [state.balanceAttribute] : undefined;
+  }
+
   function computePreferenceState() {
     const prefMap = buildPreferenceMap(state.preferences);
     state.preferenceMap = prefMap;
@@ -356,6 +478,20 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     state.studentHasPreferences = hasPrefs;
     state.studentsWithPreferencesCount = count;
     state.hasPreferenceData = count > 0;
+    avoidPairs = buildAvoidPairsFromPreferences(state.preferences);
+  }
+
+  function violationsFor(groups: Group[]): ConstraintViolation[] {
+    return groups.length > 0
+      ? findConstraintViolations(groups, {
+          avoidPairs: [...avoidPairs, ...getConflictRuleAvoidPairs(state.conflictRules)],
+          keepTogether: getConflictRuleKeepTogetherSets(state.conflictRules)
+        })
+      : [];
+  }
+
+  function computeConstraintViolations() {
+    state.constraintViolations = violationsFor(state.view?.groups ?? []);
   }
 
   function computePreferenceRanks() {
@@ -443,6 +579,7 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       state.view = value;
       computeUnplacedStudentCount();
       computePreferenceRanks();
+      computeConstraintViolations();
     });
     state.editingStore = store;
   }
@@ -502,6 +639,7 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       const savedSettings = getGenerationSettings(activityId);
       state.avoidRecentGroupmates = savedSettings.avoidRecentGroupmates;
       state.lookbackSessions = savedSettings.lookbackSessions;
+      state.balanceAttribute = savedSettings.balanceAttribute ?? null;
 
       const data = result.value;
       state.program = data.program;
@@ -517,6 +655,11 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       computePreferenceState();
       computeInactiveStudentIds();
 
+      const rulesResult = await listConflictRules(state.env, { programId: activityId });
+      state.conflictRules = isErr(rulesResult) ? [] : rulesResult.value;
+
+      await refreshScenarios();
+
       // Load pairing stats if 2+ published sessions (for rotation avoidance)
       const publishedSessions = state.sessions.filter(
         (session) => session.status === 'PUBLISHED' || session.status === 'ARCHIVED'
@@ -551,6 +694,8 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     state.editingStore?.destroy();
     state.editingStore = null;
 
+    cancelGeneration();
+
     state.liveSessionStatus = 'IDLE';
   }
 
@@ -560,6 +705,7 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
 
     state.generationError = null;
     state.isGenerating = true;
+    const controller = beginGeneration();
 
     try {
       const effectiveGroupCount = groupCount ?? Math.ceil(state.students.length / 4);
@@ -573,17 +719,24 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
         groupSize: Math.ceil(state.students.length / effectiveGroupCount),
         groups: groupDefs,
         avoidRecentGroupmates: state.avoidRecentGroupmates,
-        lookbackSessions: state.lookbackSessions
+        lookbackSessions: state.lookbackSessions,
+        balanceAttributes: balanceAttributesConfig(),
+        onProgress: trackGenerationProgress,
+        signal: controller.signal
       });
 
       if (isErr(result)) {
-        state.generationError = getGenerationErrorMessage(result.error.type);
+        if (result.error.type !== 'GENERATION_CANCELLED') {
+          state.generationError = getGenerationErrorMessage(result.error.type);
+        }
         return;
       }
 
       state.scenario = result.value;
       initializeEditingStore(state.scenario);
+      await refreshScenarios();
     } finally {
+      endGeneration(controller);
       state.isGenerating = false;
     }
   }
@@ -594,6 +747,7 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
 
     state.generationError = null;
     state.isGenerating = true;
+    const controller = beginGeneration();
 
     try {
       const existingGroups = state.view?.groups ?? [];
@@ -612,12 +766,15 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       }
       state.selectedHistoryIndex = -1;
 
-      const groups = existingGroups.map((g) => ({
-        id: g.id,
-        name: g.name,
-        capacity: g.capacity,
-        memberIds: mode === 'fill' ? [...g.memberIds] : ([] as string[])
-      }));
+      // Locked students stay where they are; locked groups are capped at their current size
+      const groups = buildLockedGroupShells(
+        existingGroups,
+        {
+          lockedStudentIds: state.view?.lockedStudentIds,
+          lockedGroupIds: state.view?.lockedGroupIds
+        },
+        mode
+      );
 
       const result = await generateCandidate(state.env, {
         programId: state.program.id,
@@ -625,17 +782,29 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
         algorithmConfig: {
           groups,
           avoidRecentGroupmates: state.avoidRecentGroupmates,
-          lookbackSessions: state.lookbackSessions
-        }
+          lookbackSessions: state.lookbackSessions,
+          balanceAttributes: balanceAttributesConfig()
+        },
+        onProgress: trackGenerationProgress,
+        signal: controller.signal
       });
 
       if (isErr(result)) {
-        state.generationError = getGenerationErrorMessage(result.error.type);
+        if (result.error.type !== 'GENERATION_CANCELLED') {
+          state.generationError = getGenerationErrorMessage(result.error.type);
+        }
         return;
       }
 
-      await state.editingStore.regenerate(result.value.groups);
+      // Restore the capacities that were narrowed for locked groups
+      const originalById = Object.fromEntries(existingGroups.map((g) => [g.id, g]));
+      await state.editingStore.regenerate(
+        result.value.groups.map((g) =>
+          originalById[g.id] ? { ...g, capacity: originalById[g.id].capacity } : g
+        )
+      );
     } finally {
+      endGeneration(controller);
       state.isGenerating = false;
     }
   }
@@ -650,6 +819,29 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     await runGeneration('shuffle');
   }
 
+  /** Start tracking a cancellable generation run, cancelling any run still going. */
+  function beginGeneration(): AbortController {
+    generationController?.abort();
+    generationController = new AbortController();
+    state.generationProgress = null;
+    return generationController;
+  }
+
+  function endGeneration(controller: AbortController): void {
+    if (generationController !== controller) return;
+    generationController = null;
+    state.generationProgress = null;
+  }
+
+  function trackGenerationProgress(progress: GroupingProgress): void {
+    state.generationProgress = progress;
+  }
+
+  /** Stop the running generation; the current groups stay as they are. */
+  function cancelGeneration(): void {
+    generationController?.abort();
+  }
+
   function moveStudent(payload: {
     studentId: string;
     source: string;
@@ -746,6 +938,89 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     state.editingStore.deleteGroup(groupId);
   }
 
+  // --- Scenario variants ---
+
+  async function refreshScenarios(): Promise<void> {
+    if (!state.program) return;
+    const result = await listScenarios(state.env, { programId: state.program.id });
+    state.scenarios = isErr(result) ? [] : result.value;
+  }
+
+  /** Open another saved scenario for editing. Unsaved edits to the current one are flushed first. */
+  async function switchScenario(scenarioId: string): Promise<void> {
+    if (state.scenario?.id === scenarioId) return;
+
+    await state.editingStore?.flushPendingSaves();
+    await refreshScenarios();
+    const target = state.scenarios.find((s) => s.id === scenarioId);
+    if (!target) return;
+
+    state.scenario = target;
+    state.generationHistory = [];
+    state.selectedHistoryIndex = -1;
+    state.comparison = null;
+    closeCandidateGallery();
+    initializeEditingStore(target);
+  }
+
+  /** Save a copy of the current scenario as a new draft and switch to it. */
+  async function duplicateScenario(): Promise<void> {
+    if (!state.scenario) return;
+
+    await state.editingStore?.flushPendingSaves();
+    const result = await duplicateScenarioUseCase(state.env, { scenarioId: state.scenario.id });
+    if (isErr(result)) {
+      state.generationError = 'Failed to duplicate scenario.';
+      return;
+    }
+
+    await switchScenario(result.value.id);
+  }
+
+  function renameScenario(name: string): void {
+    if (!state.editingStore || !state.scenario) return;
+
+    state.editingStore.updateName(name);
+    const scenarioId = state.scenario.id;
+    const trimmed = name.trim() || undefined;
+    state.scenario = { ...state.scenario, name: trimmed };
+    state.scenarios = state.scenarios.map((s) =>
+      s.id === scenarioId ? { ...s, name: trimmed } : s
+    );
+  }
+
+  /** Delete a scenario. Deleting the open one switches to the activity's working scenario. */
+  async function deleteScenario(scenarioId: string): Promise<void> {
+    const result = await deleteScenarioUseCase(state.env, { scenarioId });
+    if (isErr(result)) return;
+
+    if (state.scenario?.id === scenarioId) {
+      // Stop the editing store first so a pending save cannot recreate the deleted scenario
+      state.editingStore?.destroy();
+      state.editingStore = null;
+      await refreshScenarios();
+      const next = pickWorkingScenario(state.scenarios);
+      if (next) await switchScenario(next.id);
+      return;
+    }
+
+    state.scenarios = state.scenarios.filter((s) => s.id !== scenarioId);
+  }
+
+  // --- Locks ---
+
+  function toggleStudentLock(studentId: string): void {
+    if (!state.editingStore || !state.view) return;
+    const locked = state.view.lockedStudentIds.includes(studentId);
+    state.editingStore.setStudentLocked(studentId, !locked);
+  }
+
+  function toggleGroupLock(groupId: string): void {
+    if (!state.editingStore || !state.view) return;
+    const locked = state.view.lockedGroupIds.includes(groupId);
+    state.editingStore.setGroupLocked(groupId, !locked);
+  }
+
   // --- Group reordering ---
 
   function reorderGroups(payload: {
@@ -952,7 +1227,8 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
         algorithmConfig: {
           groups,
           avoidRecentGroupmates: state.avoidRecentGroupmates,
-          lookbackSessions: state.lookbackSessions
+          lookbackSessions: state.lookbackSessions,
+          balanceAttributes: balanceAttributesConfig()
         }
       });
 
@@ -972,14 +1248,8 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     }
   }
 
-  function keepCurrentArrangement(): void {
-    state.comparison = null;
-  }
-
-  function useAlternativeArrangement(): void {
-    if (!state.comparison || !state.editingStore) return;
-
-    // Save current to history before adopting alternative
+  /** Push the current arrangement onto the generation history before replacing it. */
+  function saveCurrentToHistory(): void {
     const currentGroups = state.view?.groups ?? [];
     const currentAnalytics = state.view?.currentAnalytics ?? null;
     if (currentGroups.length > 0) {
@@ -992,6 +1262,17 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
         ...state.generationHistory
       ].slice(0, 10);
     }
+  }
+
+  function keepCurrentArrangement(): void {
+    state.comparison = null;
+  }
+
+  function useAlternativeArrangement(): void {
+    if (!state.comparison || !state.editingStore) return;
+
+    // Save current to history before adopting alternative
+    saveCurrentToHistory();
 
     state.editingStore.regenerate(state.comparison.alternativeGroups);
     state.comparison = null;
@@ -1002,6 +1283,143 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     state.comparison = null;
   }
 
+  // --- Candidate gallery ---
+
+  /** Generate several arrangements across algorithms and seeds for side-by-side browsing. */
+  async function openCandidateGallery(): Promise<void> {
+    if (!state.program || !state.view || state.view.groups.length === 0) return;
+    if (state.candidateGallery?.isGenerating) return;
+
+    state.generationError = null;
+    state.candidateGallery = { candidates: [], isGenerating: true };
+    const controller = beginGeneration();
+
+    try {
+      const existingGroups = state.view.groups;
+      const groups = buildLockedGroupShells(
+        existingGroups,
+        {
+          lockedStudentIds: state.view.lockedStudentIds,
+          lockedGroupIds: state.view.lockedGroupIds
+        },
+        'shuffle'
+      );
+      const result = await generateCandidates(state.env, {
+        programId: state.program.id,
+        algorithmConfig: {
+          groups,
+          avoidRecentGroupmates: state.avoidRecentGroupmates,
+          lookbackSessions: state.lookbackSessions,
+          balanceAttributes: balanceAttributesConfig()
+        },
+        count: 5,
+        onProgress: trackGenerationProgress,
+        signal: controller.signal
+      });
+
+      if (isErr(result)) {
+        // Cancelled by closing the gallery, which may since have been reopened
+        if (result.error.type === 'GENERATION_CANCELLED') return;
+        state.candidateGallery = null;
+        state.generationError = getGenerationErrorMessage(result.error.type);
+        return;
+      }
+
+      // Keep each group's colour and capacity (narrowed for locked groups) so
+      // candidates read like the current arrangement
+      const originalById = Object.fromEntries(existingGroups.map((g) => [g.id, g]));
+      state.candidateGallery = {
+        candidates: result.value.map((candidate) => {
+          const groups = candidate.groups.map((g) =>
+            originalById[g.id]
+              ? {
+                  ...g,
+                  capacity: originalById[g.id].capacity,
+                  colorIndex: originalById[g.id].colorIndex
+                }
+              : g
+          );
+          return {
+            ...candidate,
+            groups,
+            repeatPairings: countRepeatPairings(groups, state.pairingStats),
+            violationCount: violationsFor(groups).length
+          };
+        }),
+        isGenerating: false
+      };
+    } catch {
+      state.candidateGallery = null;
+    } finally {
+      endGeneration(controller);
+    }
+  }
+
+  /** Load a candidate into the editor as an undoable regeneration. */
+  function selectCandidate(candidateId: string): void {
+    const candidate = state.candidateGallery?.candidates.find((c) => c.id === candidateId);
+    if (!candidate || !state.editingStore) return;
+
+    saveCurrentToHistory();
+    state.editingStore.regenerate(candidate.groups);
+    state.candidateGallery = null;
+    state.selectedHistoryIndex = -1;
+  }
+
+  function closeCandidateGallery(): void {
+    if (state.candidateGallery?.isGenerating) cancelGeneration();
+    state.candidateGallery = null;
+  }
+
+  // --- Rotation planner ---
+
+  function openRotationPlanner(): void {
+    state.rotationPlanner = { isPlanning: false, coverage: null, scenarioIds: [] };
+  }
+
+  /**
+   * Plan the next `sessionCount` sessions as "Rotation N" draft scenarios using the
+   * current groups, so students meet as many new classmates as possible.
+   */
+  async function planRotation(sessionCount: number): Promise<void> {
+    if (!state.program || !state.view || state.view.groups.length === 0) return;
+    if (!state.rotationPlanner || state.rotationPlanner.isPlanning) return;
+
+    state.generationError = null;
+    state.rotationPlanner = { ...state.rotationPlanner, isPlanning: true };
+
+    const result = await planRotationUseCase(state.env, {
+      programId: state.program.id,
+      sessionCount,
+      groups: state.view.groups.map((g) => ({
+        id: g.id,
+        name: g.name,
+        capacity: g.capacity,
+        colorIndex: g.colorIndex
+      }))
+    });
+
+    if (isErr(result)) {
+      state.rotationPlanner = { ...state.rotationPlanner, isPlanning: false };
+      state.generationError =
+        result.error.type === 'VALIDATION_ERROR'
+          ? result.error.message
+          : 'Failed to plan the rotation. Please try again.';
+      return;
+    }
+
+    state.rotationPlanner = {
+      isPlanning: false,
+      coverage: result.value.coverage,
+      scenarioIds: result.value.scenarios.map((s) => s.id)
+    };
+    await refreshScenarios();
+  }
+
+  function closeRotationPlanner(): void {
+    state.rotationPlanner = null;
+  }
+
   // --- Settings (WP10) ---
 
   function setAvoidRecentGroupmates(enabled: boolean): void {
@@ -1014,10 +1432,51 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     persistSettings();
   }
 
+  function setBalanceAttribute(attribute: string | null): void {
+    state.balanceAttribute = attribute
+      ? { attribute, mode: inferAttributeBalanceMode(state.students, attribute) }
+      : null;
+    persistSettings();
+  }
+
   function toggleSettingsPanel(): void {
     state.settingsPanelOpen = !state.settingsPanelOpen;
   }
 
+  async function addConflictRule(input: {
+    kind: ConflictRuleKind;
+    studentIds: string[];
+    scope: 'activity' | 'roster';
+    note?: string;
+  }): Promise<boolean> {
+    if (!state.program) return false;
+    if (input.scope === 'roster' && !state.pool) return false;
+
+    const result = await createConflictRule(state.env, {
+      kind: input.kind,
+      studentIds: input.studentIds,
+      programId: input.scope === 'activity' ? state.program.id : undefined,
+      poolId: input.scope === 'roster' ? state.pool?.id : undefined,
+      note: input.note,
+      userId: state.program.userId
+    });
+
+    if (isErr(result)) return false;
+
+    state.conflictRules = [...state.conflictRules, result.value];
+    computeConstraintViolations();
+    return true;
+  }
+
+  async function removeConflictRule(ruleId: string): Promise<boolean> {
+    const result = await deleteConflictRule(state.env, { ruleId });
+    if (isErr(result)) return false;
+
+    state.conflictRules = state.conflictRules.filter((rule) => rule.id !== ruleId);
+    computeConstraintViolations();
+    return true;
+  }
+
   function enterProjection(): void {
     state.liveSessionStatus = 'PROJECTING';
   }
@@ -1070,12 +1529,56 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       state.editingStore?.destroy();
       state.editingStore = null;
       state.view = null;
+      state.constraintViolations = [];
       state.scenario = null;
       state.generationHistory = [];
       state.selectedHistoryIndex = -1;
     }
   }
 
+  /**
+   * Apply reviewed changes from a roster re-import. Departed students are
+   * marked inactive and moved out of their groups, never deleted.
+   */
+  async function applyRosterChangesAction(
+    changes: Omit<ApplyRosterChangesInput, 'poolId'>
+  ): Promise<boolean> {
+    if (!state.pool) return false;
+
+    const result = await applyRosterChanges(state.env, { poolId: state.pool.id, ...changes });
+    if (isErr(result)) {
+      state.generationError = result.error.message;
+      return false;
+    }
+
+    const { pool, addedStudents, renamedStudents } = result.value;
+    state.pool = pool;
+    state.students = [
+      ...state.students.map((s) => renamedStudents.find((r) => r.id === s.id) ?? s),
+      ...addedStudents
+    ];
+    rebuildStudentsById();
+    computeInactiveStudentIds();
+
+    if (state.editingStore && state.view) {
+      for (const studentId of changes.deactivate) {
+        const groupWithStudent = state.view.groups.find((g) => g.memberIds.includes(studentId));
+        if (groupWithStudent) {
+          state.editingStore.dispatch({
+            type: 'MOVE_STUDENT',
+            studentId,
+            source: groupWithStudent.id,
+            target: 'unassigned'
+          });
+        }
+      }
+    }
+
+    detectPlaceholderStudents();
+    computeUnplacedStudentCount();
+    return true;
+  }
+
   // --- Publish state ---
 
   function computeIsPublished(): void {
@@ -1093,6 +1596,9 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     state.isPublishing = true;
 
     try {
+      // Flush pending edits and mark this scenario adopted before publishing it
+      await state.editingStore?.adopt();
+
       const result = await showToClass(state.env, {
         programId: state.program.id,
         scenarioId: state.scenario.id
@@ -1104,6 +1610,7 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       }
 
       const session = result.value;
+      await refreshScenarios();
       state.sessions = [...state.sessions, session];
       state.latestPublishedSession = session;
       computeIsPublished();
@@ -1254,6 +1761,42 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
     return true;
   }
 
+  async function forgetStudentAction(studentId: string): Promise<boolean> {
+    if (!state.pool) return false;
+
+    if (state.editingStore && state.view) {
+      const groupWithStudent = state.view.groups.find((g) => g.memberIds.includes(studentId));
+      if (groupWithStudent) {
+        state.editingStore.dispatch({
+          type: 'MOVE_STUDENT',
+          studentId,
+          source: groupWithStudent.id,
+          target: 'unassigned'
+        });
+      }
+    }
+
+    const result = await forgetStudentUseCase(state.env, { studentId });
+    if (isErr(result)) return false;
+
+    // Linked records from other imports of the same student are gone too
+    const removed = result.value.studentIds;
+    state.students = state.students.filter((s) => !removed.includes(s.id));
+    state.pool = {
+      ...state.pool,
+      memberIds: state.pool.memberIds.filter((id) => !removed.includes(id))
+    };
+    state.preferences = state.preferences.filter((p) => !removed.includes(p.studentId));
+    state.conflictRules = state.conflictRules.filter(
+      (rule) => !rule.studentIds.some((id) => removed.includes(id))
+    );
+    rebuildStudentsById();
+    computePreferenceState();
+    detectPlaceholderStudents();
+    computeUnplacedStudentCount();
+    return true;
+  }
+
   async function toggleStudentActive(studentId: string): Promise<boolean> {
     if (!state.pool) return false;
 
@@ -1298,12 +1841,19 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       generateGroups,
       assignAll,
       shuffleGroups,
+      cancelGeneration,
       moveStudent,
       reorderStudent,
       sortGroup,
       createGroup,
       updateGroup,
       deleteGroup,
+      switchScenario,
+      duplicateScenario,
+      renameScenario,
+      deleteScenario,
+      toggleStudentLock,
+      toggleGroupLock,
       keyboardPickUp,
       keyboardDrop,
       keyboardCancel,
@@ -1315,9 +1865,18 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       keepCurrentArrangement,
       useAlternativeArrangement,
       closeComparison,
+      openCandidateGallery,
+      selectCandidate,
+      closeCandidateGallery,
+      openRotationPlanner,
+      planRotation,
+      closeRotationPlanner,
       setAvoidRecentGroupmates,
       setLookbackSessions,
+      setBalanceAttribute,
       toggleSettingsPanel,
+      addConflictRule,
+      removeConflictRule,
       enterProjection,
       exitProjection,
       publishSession,
@@ -1325,9 +1884,11 @@ export function createClassViewVm(env: AppEnvContext): ClassViewVm {
       deleteSession: deleteSessionAction,
       renameSession,
       upgradeRoster,
+      applyRosterChanges: applyRosterChangesAction,
       addStudent,
       updateStudent: updateStudentAction,
       removeStudent: removeStudentAction,
+      forgetStudent: forgetStudentAction,
       toggleStudentActive
     }
   };
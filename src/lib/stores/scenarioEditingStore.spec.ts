@@ -171,6 +171,7 @@ describe('ScenarioEditingStore', () => {
     const failingRepo: ScenarioRepository = {
       getById: vi.fn(),
       getByProgramId: vi.fn(),
+      listByProgramId: vi.fn(),
       update: vi.fn().mockRejectedValue(new Error('nope')),
       save: vi.fn().mockRejectedValue(new Error('still nope')),
       delete: vi.fn()
@@ -691,3 +692,82 @@ describe('Group shell operations', () => {
     expect(view.groups.find((g) => g.id === 'g1')?.name).toBe('Updated Name');
   });
 });
+
+describe('Locks', () => {
+  it('locks students and groups with undo/redo support', () => {
+    const repo = new InMemoryScenarioRepository([createScenario()]);
+    const store = new ScenarioEditingStore({
+      scenarioRepo: repo,
+      idGenerator: new MockIdGenerator(),
+      debounceMs: 10
+    });
+    store.initialize(createScenario(), preferences);
+
+    expect(store.setStudentLocked('s1', true)).toEqual({ success: true });
+    expect(store.setGroupLocked('g2', true)).toEqual({ success: true });
+
+    let view = get(store);
+    expect(view.lockedStudentIds).toEqual(['s1']);
+    expect(view.lockedGroupIds).toEqual(['g2']);
+    expect(view.historyLength).toBe(2);
+
+    store.undo();
+    view = get(store);
+    expect(view.lockedGroupIds).toEqual([]);
+    expect(view.lockedStudentIds).toEqual(['s1']);
+
+    store.undo();
+    expect(get(store).lockedStudentIds).toEqual([]);
+
+    store.redo();
+    expect(get(store).lockedStudentIds).toEqual(['s1']);
+  });
+
+  it('rejects no-op and unknown lock changes', () => {
+    const repo = new InMemoryScenarioRepository([createScenario()]);
+    const store = new ScenarioEditingStore({
+      scenarioRepo: repo,
+      idGenerator: new MockIdGenerator(),
+      debounceMs: 10
+    });
+    store.initialize(createScenario(), preferences);
+
+    expect(store.setStudentLocked('s1', false)).toEqual({ success: false, reason: 'noop' });
+    expect(store.setStudentLocked('unknown', true)).toEqual({
+      success: false,
+      reason: 'unknown_student'
+    });
+    expect(store.setGroupLocked('missing', true)).toEqual({
+      success: false,
+      reason: 'group_not_found'
+    });
+  });
+
+  it('persists locks on the scenario and restores them on initialize', async () => {
+    const repo = new InMemoryScenarioRepository([createScenario()]);
+    const store = new ScenarioEditingStore({
+      scenarioRepo: repo,
+      idGenerator: new MockIdGenerator(),
+      debounceMs: 10
+    });
+    store.initialize(createScenario(), preferences);
+
+    store.setStudentLocked('s3', true);
+    store.setGroupLocked('g1', true);
+    await vi.advanceTimersByTimeAsync(10);
+    await vi.runAllTicks();
+
+    const saved = await repo.getById('scn-1');
+    expect(saved?.lockedStudentIds).toEqual(['s3']);
+    expect(saved?.lockedGroupIds).toEqual(['g1']);
+
+    const reloaded = new ScenarioEditingStore({
+      scenarioRepo: repo,
+      idGenerator: new MockIdGenerator(),
+      debounceMs: 10
+    });
+    reloaded.initialize(saved!, preferences);
+    expect(get(reloaded).lockedStudentIds).toEqual(['s3']);
+    expect(get(reloaded).lockedGroupIds).toEqual(['g1']);
+  });
+});
@@ -65,6 +65,18 @@ export type RegenerateCommand = {
   newGroups: Group[];
 };
 
+export type SetStudentLockCommand = {
+  type: 'SET_STUDENT_LOCK';
+  studentId: string;
+  locked: boolean;
+};
+
+export type SetGroupLockCommand = {
+  type: 'SET_GROUP_LOCK';
+  groupId: string;
+  locked: boolean;
+};
+
 export type Command =
   | MoveStudentCommand
   | CreateGroupCommand
@@ -73,11 +85,14 @@ export type Command =
   | ReorderGroupCommand
   | ReorderUnassignedCommand
   | ReorderGroupColumnsCommand
-  | RegenerateCommand;
+  | RegenerateCommand
+  | SetStudentLockCommand
+  | SetGroupLockCommand;
 
 type ScenarioMetadata = {
   id: string;
   programId: string;
+  name?: string;
   createdAt: Date;
   lastModifiedAt: Date;
   createdByStaffId?: string;
@@ -102,6 +117,8 @@ type InternalState = {
   currentAnalytics: ScenarioSatisfaction | null;
   participantSnapshot: string[];
   unassignedOrder: string[] | null; // Custom order for unassigned students (null = use snapshot order)
+  lockedStudentIds: string[];
+  lockedGroupIds: string[];
   preferences: Preference[];
   pendingSave: boolean;
   retryCount: number;
@@ -113,6 +130,10 @@ type InternalState = {
 export type ScenarioEditingView = {
   groups: Group[];
   unassignedStudentIds: string[];
+  /** Students pinned to their current group across regeneration */
+  lockedStudentIds: string[];
+  /** Groups whose membership is frozen across regeneration */
+  lockedGroupIds: string[];
   canUndo: boolean;
   canRedo: boolean;
   historyIndex: number;
@@ -204,6 +225,19 @@ function addToHistory(
   return { history, historyIndex };
 }
 
+function applyLock(
+  state: InternalState,
+  command: SetStudentLockCommand | SetGroupLockCommand,
+  locked: boolean
+): InternalState {
+  if (command.type === 'SET_STUDENT_LOCK') {
+    const others = state.lockedStudentIds.filter((id) => id !== command.studentId);
+    return { ...state, lockedStudentIds: locked ? [...others, command.studentId] : others };
+  }
+  const others = state.lockedGroupIds.filter((id) => id !== command.groupId);
+  return { ...state, lockedGroupIds: locked ? [...others, command.groupId] : others };
+}
+
 function extractErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message) return error.message;
   if (typeof error === 'string') return error;
@@ -225,6 +259,8 @@ export class ScenarioEditingStore {
     currentAnalytics: null,
     participantSnapshot: [],
     unassignedOrder: null,
+    lockedStudentIds: [],
+    lockedGroupIds: [],
     preferences: [],
     pendingSave: false,
     retryCount: 0,
@@ -249,6 +285,8 @@ export class ScenarioEditingStore {
     return {
       groups: state.groups,
       unassignedStudentIds,
+      lockedStudentIds: state.lockedStudentIds,
+      lockedGroupIds: state.lockedGroupIds,
       canUndo,
       canRedo,
       historyIndex: state.historyIndex,
@@ -311,6 +349,7 @@ export class ScenarioEditingStore {
     this.metadata = {
       id: scenario.id,
       programId: scenario.programId,
+      name: scenario.name,
       createdAt: scenario.createdAt,
       lastModifiedAt: scenario.lastModifiedAt ?? scenario.createdAt, // Handle legacy scenarios
       createdByStaffId: scenario.createdByStaffId,
@@ -336,6 +375,8 @@ export class ScenarioEditingStore {
       currentAnalytics: baseline,
       participantSnapshot: [...scenario.participantSnapshot],
       unassignedOrder: null,
+      lockedStudentIds: [...(scenario.lockedStudentIds ?? [])],
+      lockedGroupIds: [...(scenario.lockedGroupIds ?? [])],
       preferences: [...preferences],
       pendingSave: false,
       retryCount: 0,
@@ -357,6 +398,21 @@ export class ScenarioEditingStore {
     this.scheduleSave();
   }
 
+  /**
+   * Rename the scenario. Not part of undo history, like algorithm config changes.
+   */
+  updateName(name: string): void {
+    this.ensureInitialized();
+    if (!this.metadata) return;
+
+    this.metadata.name = name.trim() || undefined;
+    this.updateState((current) => ({
+      ...current,
+      pendingSave: true
+    }));
+    this.scheduleSave();
+  }
+
   dispatch(command: MoveStudentCommand): { success: boolean; reason?: string } {
     this.ensureInitialized();
 
@@ -499,6 +555,68 @@ export class ScenarioEditingStore {
     return { success: true };
   }
 
+  /**
+   * Lock a student to their current group (or unlock them).
+   * Locked students keep their placement when groups are regenerated.
+   */
+  setStudentLocked(studentId: string, locked: boolean): { success: boolean; reason?: string } {
+    this.ensureInitialized();
+
+    const snapshot = this.state;
+    if (snapshot.saveStatus === 'failed') {
+      return { success: false, reason: 'save_failed' };
+    }
+    if (!snapshot.participantSnapshot.includes(studentId)) {
+      return { success: false, reason: 'unknown_student' };
+    }
+    if (snapshot.lockedStudentIds.includes(studentId) === locked) {
+      return { success: false, reason: 'noop' };
+    }
+
+    this.applyLockCommand({ type: 'SET_STUDENT_LOCK', studentId, locked });
+    return { success: true };
+  }
+
+  /**
+   * Lock a whole group (or unlock it).
+   * Locked groups keep all of their members and receive no one new when groups are regenerated.
+   */
+  setGroupLocked(groupId: string, locked: boolean): { success: boolean; reason?: string } {
+    this.ensureInitialized();
+
+    const snapshot = this.state;
+    if (snapshot.saveStatus === 'failed') {
+      return { success: false, reason: 'save_failed' };
+    }
+    if (!snapshot.groups.some((g) => g.id === groupId)) {
+      return { success: false, reason: 'group_not_found' };
+    }
+    if (snapshot.lockedGroupIds.includes(groupId) === locked) {
+      return { success: false, reason: 'noop' };
+    }
+
+    this.applyLockCommand({ type: 'SET_GROUP_LOCK', groupId, locked });
+    return { success: true };
+  }
+
+  private applyLockCommand(command: SetStudentLockCommand | SetGroupLockCommand): void {
+    this.updateState((current) => {
+      const { history, historyIndex } = addToHistory(
+        current.history,
+        current.historyIndex,
+        command
+      );
+      return {
+        ...applyLock(current, command, command.locked),
+        history,
+        historyIndex,
+        pendingSave: true
+      };
+    });
+
+    this.scheduleSave();
+  }
+
   // Coalescing support for rapid updates
   private pendingUpdateCommand: UpdateGroupCommand | null = null;
   private updateCoalesceTimeout: ReturnType<typeof setTimeout> | null = null;
@@ -836,6 +954,15 @@ export class ScenarioEditingStore {
           break;
         }
 
+        case 'SET_STUDENT_LOCK':
+        case 'SET_GROUP_LOCK': {
+          return {
+            ...applyLock(current, command, !command.locked),
+            historyIndex: current.historyIndex - 1,
+            pendingSave: true
+          };
+        }
+
         default:
           newGroups = current.groups;
       }
@@ -918,6 +1045,15 @@ export class ScenarioEditingStore {
           break;
         }
 
+        case 'SET_STUDENT_LOCK':
+        case 'SET_GROUP_LOCK': {
+          return {
+            ...applyLock(current, command, command.locked),
+            historyIndex: current.historyIndex + 1,
+            pendingSave: true
+          };
+        }
+
         default:
           newGroups = current.groups;
       }
@@ -1291,13 +1427,16 @@ export class ScenarioEditingStore {
     return {
       id: this.metadata.id,
       programId: this.metadata.programId,
+      name: this.metadata.name,
       status: state.status,
       groups: cloneGroups(state.groups),
       participantSnapshot: [...this.metadata.participantSnapshot],
       createdAt: this.metadata.createdAt,
       lastModifiedAt,
       createdByStaffId: this.metadata.createdByStaffId,
-      algorithmConfig: this.metadata.algorithmConfig
+      algorithmConfig: this.metadata.algorithmConfig,
+      lockedStudentIds: [...state.lockedStudentIds],
+      lockedGroupIds: [...state.lockedGroupIds]
     };
   }
 }
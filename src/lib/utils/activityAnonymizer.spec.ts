@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { anonymizeActivityExport, reidentifyActivityExport } from './activityAnonymizer';
+import {
+  ACTIVITY_FILE_VERSION,
+  parseActivityFile,
+  serializeActivityToJson,
+  type ActivityExportData
+} from './activityFile';
+
+function exportData(): ActivityExportData {
+  return {
+    version: ACTIVITY_FILE_VERSION,
+    exportedAt: '2024-09-15T10:00:00.000Z',
+    activity: { name: 'Fall Clubs', type: 'CLUBS' },
+    roster: {
+      students: [
+        {
+          id: 'ana.lima@school.org',
+          firstName: 'Ana',
+          lastName: 'Lima',
+          gradeLevel: '7',
+          meta: { email: 'ana.lima@school.org', advisor: 'Mr. Park' }
+        },
+        { id: 'ben.okafor@school.org', firstName: 'Ben', lastName: 'Okafor', gender: 'M' },
+        { id: 'ana.ruiz@school.org', firstName: 'Ana', lastName: 'Ruiz' }
+      ]
+    },
+    preferences: [
+      {
+        studentId: 'ana.lima@school.org',
+        likeGroupIds: ['g1'],
+        avoidStudentIds: ['ben.okafor@school.org', 'gone@school.org'],
+        avoidGroupIds: []
+      }
+    ],
+    scenario: {
+      groups: [
+        {
+          id: 'g1',
+          name: 'Chess',
+          capacity: 4,
+          memberIds: ['ana.lima@school.org', 'ben.okafor@school.org']
+        }
+      ]
+    },
+    placements: [
+      {
+        id: 'pl1',
+        sessionId: 's1',
+        studentId: 'ben.okafor@school.org',
+        groupId: 'g1',
+        groupName: 'Chess',
+        preferenceRank: 1,
+        assignedAt: '2024-09-15T10:00:00.000Z',
+        startDate: '2024-09-15T10:00:00.000Z',
+        type: 'TRANSFER',
+        reason: 'Ben asked to sit away from Lima'
+      }
+    ],
+    observations: [
+      {
+        id: 'o1',
+        groupId: 'g1',
+        groupName: 'Chess',
+        content: 'Ana Lima helped ben; Ana was quiet. Parent: dad@home.net',
+        createdAt: '2024-09-16T10:00:00.000Z'
+      }
+    ]
+  };
+}
+
+describe('anonymizeActivityExport', () => {
+  it('replaces student identities consistently across the file', () => {
+    const { data } = anonymizeActivityExport(exportData(), 'key-1');
+
+    expect(data.roster.students).toEqual([
+      { id: 'anon-1', firstName: 'Student 1', gradeLevel: '7', gender: undefined },
+      { id: 'anon-2', firstName: 'Student 2', gradeLevel: undefined, gender: 'M' },
+      { id: 'anon-3', firstName: 'Student 3', gradeLevel: undefined, gender: undefined }
+    ]);
+    expect(data.preferences[0]).toMatchObject({
+      studentId: 'anon-1',
+      avoidStudentIds: ['anon-2', 'anon-4']
+    });
+    expect(data.scenario?.groups[0].memberIds).toEqual(['anon-1', 'anon-2']);
+    expect(data.placements?.[0].studentId).toBe('anon-2');
+    expect(data.anonymization).toEqual({ keyId: 'key-1' });
+  });
+
+  it('scrubs names and emails from free text and leaves nothing identifying', () => {
+    const { data } = anonymizeActivityExport(exportData(), 'key-1');
+
+    expect(data.observations?.[0].content).toBe(
+      'Student 1 helped Student 2; [student] was quiet. Parent: [email]'
+    );
+    expect(data.placements?.[0].reason).toBe('Student 2 asked to sit away from Student 1');
+
+    const json = serializeActivityToJson(data);
+    for (const term of ['Lima', 'Okafor', 'Ruiz', 'school.org', 'Mr. Park']) {
+      expect(json).not.toContain(term);
+    }
+  });
+
+  it('replaces student IDs inside the algorithm config and restores them', () => {
+    const original = exportData();
+    original.scenario!.algorithmConfig = {
+      algorithm: 'balanced',
+      groups: [
+        { id: 'g1', name: 'Chess', capacity: 4, memberIds: ['ana.lima@school.org'] },
+        { id: 'g2', name: 'Art', capacity: 4, memberIds: ['left@school.org'] }
+      ]
+    };
+
+    const { data, key } = anonymizeActivityExport(original, 'key-1');
+
+    expect(data.scenario?.algorithmConfig).toEqual({
+      algorithm: 'balanced',
+      groups: [
+        { id: 'g1', name: 'Chess', capacity: 4, memberIds: ['anon-1'] },
+        { id: 'g2', name: 'Art', capacity: 4, memberIds: ['anon-5'] }
+      ]
+    });
+    expect(serializeActivityToJson(data)).not.toContain('school.org');
+    expect(reidentifyActivityExport(data, key).scenario?.algorithmConfig).toEqual(
+      original.scenario?.algorithmConfig
+    );
+  });
+
+  it('survives a round trip through the file format and re-identifies with its key', () => {
+    const original = exportData();
+    const { data, key } = anonymizeActivityExport(original, 'key-1');
+
+    const parsed = parseActivityFile(serializeActivityToJson(data));
+    expect(parsed.valid).toBe(true);
+    if (!parsed.valid) return;
+    expect(parsed.data.anonymization).toEqual({ keyId: 'key-1' });
+
+    const restored = reidentifyActivityExport(parsed.data, key);
+    expect(restored.anonymization).toBeUndefined();
+    expect(restored.roster.students.map((s) => [s.id, s.firstName, s.lastName])).toEqual([
+      ['ana.lima@school.org', 'Ana', 'Lima'],
+      ['ben.okafor@school.org', 'Ben', 'Okafor'],
+      ['ana.ruiz@school.org', 'Ana', 'Ruiz']
+    ]);
+    expect(restored.roster.students[0].meta).toEqual(original.roster.students[0].meta);
+    expect(restored.preferences[0].avoidStudentIds).toEqual([
+      'ben.okafor@school.org',
+      'gone@school.org'
+    ]);
+    expect(restored.scenario?.groups[0].memberIds).toEqual(original.scenario?.groups[0].memberIds);
+    expect(restored.observations?.[0].content).toBe(
+      'Ana Lima helped Ben Okafor; [student] was quiet. Parent: [email]'
+    );
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Anonymized activity exports.
+ *
+ * Replaces student names and IDs (often email addresses) with pseudonyms that
+ * are stable across the file, so groups, preferences, placements and
+ * observations still line up. `meta` is dropped, and names and email addresses
+ * are scrubbed from free text (observations, placement reasons). Grade level
+ * and gender are kept because grouping and balancing use them.
+ *
+ * The mapping back to real students lives in an AnonymizationKey. It is never
+ * written into the exported file; callers may keep it in this browser's
+ * localStorage so the file can be re-identified on the original device.
+ *
+ * @module utils/activityAnonymizer
+ */
+
+import type { ActivityExportData, ExportedStudent } from './activityFile';
+
+export const ANONYMIZATION_KEY_FORMAT = 'groupwheel-anonymization-key';
+export const ANONYMIZATION_KEY_VERSION = 1;
+
+const STORAGE_KEY_PREFIX = 'gw-anon-key-';
+
+/** Replaces email addresses found in free text. */
+const EMAIL_PLACEHOLDER = '[email]';
+
+/** Replaces a name shared by several students, where no single pseudonym fits. */
+const AMBIGUOUS_NAME_PLACEHOLDER = '[student]';
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}.-]+\.[\p{L}]{2,}/gu;
+
+/**
+ * Mapping from pseudonyms back to real students. Local-only: never shared.
+ */
+export interface AnonymizationKey {
+  format: typeof ANONYMIZATION_KEY_FORMAT;
+  version: number;
+  keyId: string;
+  activityName: string;
+  createdAt: string; // ISO
+  students: Array<{
+    pseudonymId: string;
+    pseudonym: string;
+    id: string;
+    firstName: string;
+    lastName?: string;
+    meta?: Record<string, unknown>;
+  }>;
+}
+
+export interface AnonymizedActivity {
+  data: ActivityExportData;
+  key: AnonymizationKey;
+}
+
+// =============================================================================
+// Anonymize
+// =============================================================================
+
+/**
+ * Replace student identities in an activity export with pseudonyms
+ * ("Student 01", "Student 02", …) and return the key to reverse it.
+ */
+export function anonymizeActivityExport(
+  data: ActivityExportData,
+  keyId: string = crypto.randomUUID()
+): AnonymizedActivity {
+  const students = data.roster.students;
+
+  // Students referenced only by preferences or placements (e.g. removed from
+  // the roster) still get a pseudonym, so no real ID survives.
+  const ids = [...students.map((s) => s.id)];
+  const addId = (id: string) => {
+    if (id && !ids.includes(id)) ids.push(id);
+  };
+  for (const pref of data.preferences) {
+    addId(pref.studentId);
+    pref.avoidStudentIds.forEach(addId);
+  }
+  data.scenario?.groups.forEach((g) => g.memberIds.forEach(addId));
+  configMemberIds(data.scenario?.algorithmConfig).forEach(addId);
+  data.placements?.forEach((p) => addId(p.studentId));
+
+  const width = String(ids.length).length;
+  const byId = new Map(students.map((s) => [s.id, s]));
+  const keyStudents: AnonymizationKey['students'] = ids.map((id, index) => {
+    const number = String(index + 1).padStart(width, '0');
+    const student = byId.get(id);
+    return {
+      pseudonymId: `anon-${number}`,
+      pseudonym: `Student ${number}`,
+      id,
+      firstName: student?.firstName ?? '',
+      lastName: student?.lastName,
+      meta: student?.meta
+    };
+  });
+
+  const keyById = new Map(keyStudents.map((s) => [s.id, s]));
+  const mapId = (id: string) => keyById.get(id)?.pseudonymId ?? id;
+  const scrub = createNameScrubber(keyStudents);
+
+  const anonymized: ActivityExportData = {
+    ...data,
+    roster: {
+      students: students.map(
+        (s): ExportedStudent => ({
+          id: mapId(s.id),
+          firstName: keyById.get(s.id)?.pseudonym ?? '',
+          gradeLevel: s.gradeLevel,
+          gender: s.gender
+        })
+      )
+    },
+    preferences: data.preferences.map((p) => ({
+      ...p,
+      studentId: mapId(p.studentId),
+      avoidStudentIds: p.avoidStudentIds.map(mapId)
+    })),
+    scenario: data.scenario && {
+      ...data.scenario,
+      groups: data.scenario.groups.map((g) => ({ ...g, memberIds: g.memberIds.map(mapId) })),
+      algorithmConfig: mapIdsDeep(data.scenario.algorithmConfig, mapId)
+    },
+    placements: data.placements?.map((p) => ({
+      ...p,
+      studentId: mapId(p.studentId),
+      reason: p.reason === undefined ? undefined : scrub(p.reason)
+    })),
+    observations: data.observations?.map((o) => ({ ...o, content: scrub(o.content) })),
+    anonymization: { keyId }
+  };
+
+  return {
+    data: anonymized,
+    key: {
+      format: ANONYMIZATION_KEY_FORMAT,
+      version: ANONYMIZATION_KEY_VERSION,
+      keyId,
+      activityName: data.activity.name,
+      createdAt: new Date().toISOString(),
+      students: keyStudents
+    }
+  };
+}
+
+/**
+ * Student IDs pre-placed in an algorithm config's group shells.
+ */
+function configMemberIds(config: unknown): string[] {
+  const groups = (config as { groups?: unknown } | null | undefined)?.groups;
+  if (!Array.isArray(groups)) return [];
+  return groups.flatMap((g) =>
+    Array.isArray(g?.memberIds)
+      ? g.memberIds.filter((id: unknown): id is string => typeof id === 'string')
+      : []
+  );
+}
+
+/**
+ * Apply `mapId` to every string inside a JSON-like value. Algorithm configs
+ * carry student IDs in places such as the locked students' group shells.
+ */
+function mapIdsDeep(value: unknown, mapId: (id: string) => string): unknown {
+  if (typeof value === 'string') return mapId(value);
+  if (Array.isArray(value)) return value.map((item) => mapIdsDeep(item, mapId));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapIdsDeep(item, mapId)])
+    );
+  }
+  return value;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a single-pass replacer for student names and IDs in free text.
+ * Longer terms win ("Ana Lima" before "Ana"), and a first or last name shared
+ * by several students becomes a neutral placeholder.
+ */
+function createNameScrubber(students: AnonymizationKey['students']): (text: string) => string {
+  const replacements = new Map<string, string>();
+  const ambiguous = new Set<string>();
+
+  const add = (term: string | undefined, pseudonym: string) => {
+    const normalized = term?.trim().toLowerCase();
+    if (!normalized || normalized.length < 2) return;
+    const existing = replacements.get(normalized);
+    if (existing !== undefined && existing !== pseudonym) {
+      ambiguous.add(normalized);
+    }
+    replacements.set(normalized, pseudonym);
+  };
+
+  for (const s of students) {
+    add(s.id, s.pseudonym);
+    add([s.firstName, s.lastName].filter(Boolean).join(' '), s.pseudonym);
+    add(s.firstName, s.pseudonym);
+    add(s.lastName, s.pseudonym);
+  }
+  for (const term of ambiguous) {
+    replacements.set(term, AMBIGUOUS_NAME_PLACEHOLDER);
+  }
+
+  const terms = [...replacements.keys()].sort((a, b) => b.length - a.length);
+  const pattern =
+    terms.length > 0
+      ? new RegExp(
+          `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+          'giu'
+        )
+      : null;
+
+  return (text) => {
+    const named = pattern
+      ? text.replace(pattern, (match) => replacements.get(match.toLowerCase()) ?? match)
+      : text;
+    return named.replace(EMAIL_PATTERN, EMAIL_PLACEHOLDER);
+  };
+}
+
+// =============================================================================
+// Re-identify
+// =============================================================================
+
+/**
+ * Restore real student identities in an anonymized export using its key.
+ * Pseudonyms in free text are replaced with the student's full name.
+ */
+export function reidentifyActivityExport(
+  data: ActivityExportData,
+  key: AnonymizationKey
+): ActivityExportData {
+  const byPseudonymId = new Map(key.students.map((s) => [s.pseudonymId, s]));
+  const byPseudonym = new Map(key.students.map((s) => [s.pseudonym, s]));
+  const mapId = (id: string) => byPseudonymId.get(id)?.id ?? id;
+  const restoreText = (text: string) =>
+    text.replace(/\bStudent \d+\b/g, (match) => {
+      const student = byPseudonym.get(match);
+      return student ? [student.firstName, student.lastName].filter(Boolean).join(' ') : match;
+    });
+
+  const restored: ActivityExportData = {
+    ...data,
+    roster: {
+      students: data.roster.students.map((s): ExportedStudent => {
+        const real = byPseudonymId.get(s.id);
+        if (!real) return s;
+        return {
+          ...s,
+          id: real.id,
+          firstName: real.firstName,
+          lastName: real.lastName,
+          meta: real.meta
+        };
+      })
+    },
+    preferences: data.preferences.map((p) => ({
+      ...p,
+      studentId: mapId(p.studentId),
+      avoidStudentIds: p.avoidStudentIds.map(mapId)
+    })),
+    scenario: data.scenario && {
+      ...data.scenario,
+      groups: data.scenario.groups.map((g) => ({ ...g, memberIds: g.memberIds.map(mapId) })),
+      algorithmConfig: mapIdsDeep(data.scenario.algorithmConfig, mapId)
+    },
+    placements: data.placements?.map((p) => ({
+      ...p,
+      studentId: mapId(p.studentId),
+      reason: p.reason === undefined ? undefined : restoreText(p.reason)
+    })),
+    observations: data.observations?.map((o) => ({ ...o, content: restoreText(o.content) }))
+  };
+  delete restored.anonymization;
+  return restored;
+}
+
+// =============================================================================
+// Local key storage
+// =============================================================================
+
+/**
+ * Keep a key in this browser so files exported with it can be re-identified here.
+ */
+export function saveAnonymizationKey(key: AnonymizationKey): void {
+  try {
+    localStorage.setItem(`${STORAGE_KEY_PREFIX}${key.keyId}`, JSON.stringify(key));
+  } catch {
+    // Ignore storage errors (quota exceeded, etc.)
+  }
+}
+
+export function loadAnonymizationKey(keyId: string): AnonymizationKey | null {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_KEY_PREFIX}${keyId}`);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed?.format !== ANONYMIZATION_KEY_FORMAT || !Array.isArray(parsed.students)) {
+      return null;
+    }
+    return parsed as AnonymizationKey;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-identify an imported file if it is anonymized and its key is kept on
+ * this device. Returns the data unchanged otherwise.
+ */
+export function reidentifyWithLocalKey(data: ActivityExportData): {
+  data: ActivityExportData;
+  reidentified: boolean;
+} {
+  if (!data.anonymization) return { data, reidentified: false };
+  const key = loadAnonymizationKey(data.anonymization.keyId);
+  if (!key) return { data, reidentified: false };
+  return { data: reidentifyActivityExport(data, key), reidentified: true };
+}
@@ -3,8 +3,10 @@ import {
   serializeActivityToJson,
   generateExportFilename,
   parseActivityFile,
+  decryptActivityFile,
   ACTIVITY_FILE_VERSION
 } from './activityFile';
+import { encryptText } from './fileEncryption';
 import type { ActivityExportData } from './activityFile';
 
 function validExportData(): ActivityExportData {
@@ -232,3 +234,20 @@ describe('parseActivityFile', () => {
     }
   });
 });
+
+describe('decryptActivityFile', () => {
+  it('should open encrypted files with the right passphrase only', async () => {
+    const data = validExportData();
+    const encrypted = await encryptText(serializeActivityToJson(data), 'correct horse', 1000);
+
+    expect(parseActivityFile(encrypted)).toMatchObject({ valid: false, encrypted: true });
+    expect(await decryptActivityFile(encrypted, 'correct horse')).toMatchObject({
+      valid: true,
+      data: { activity: { name: 'Fall Clubs' } }
+    });
+    expect(await decryptActivityFile(encrypted, 'wrong horse')).toMatchObject({
+      valid: false,
+      encrypted: true
+    });
+  });
+});
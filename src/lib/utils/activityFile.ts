@@ -2,12 +2,14 @@
  * Activity File Export/Import Utilities
  *
  * Functions for exporting activity data to JSON files and parsing imported files.
- * Enables sharing activities between users via file transfer.
+ * Enables sharing activities between users via file transfer. Files can be
+ * encrypted with a passphrase (see utils/fileEncryption).
  *
  * @module utils/activityFile
  */
 
 import type { ProgramType } from '$lib/domain/program';
+import { decryptText, encryptText, isEncryptedEnvelope } from './fileEncryption';
 
 // =============================================================================
 // Export Data Schema
@@ -134,6 +136,10 @@ export interface ActivityExportData {
   sessions?: ExportedSession[];
   placements?: ExportedPlacement[];
   observations?: ExportedObservation[];
+  /** Present when student identities were replaced with pseudonyms (see utils/activityAnonymizer). */
+  anonymization?: {
+    keyId: string;
+  };
 }
 
 // =============================================================================
@@ -178,7 +184,21 @@ export function generateExportFilename(activityName: string): string {
  * Creates a temporary anchor element to trigger browser download.
  */
 export function downloadActivityFile(data: ActivityExportData, filename: string): void {
-  const json = serializeActivityToJson(data);
+  downloadJson(serializeActivityToJson(data), filename);
+}
+
+/**
+ * Download activity data encrypted with a passphrase.
+ */
+export async function downloadEncryptedActivityFile(
+  data: ActivityExportData,
+  filename: string,
+  passphrase: string
+): Promise<void> {
+  downloadJson(await encryptText(serializeActivityToJson(data), passphrase), filename);
+}
+
+function downloadJson(json: string, filename: string): void {
   const blob = new Blob([json], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
 
@@ -234,7 +254,7 @@ export async function downloadActivityScreenshot(filename: string): Promise<bool
  */
 export type ActivityFileValidation =
   | { valid: true; data: ActivityExportData }
-  | { valid: false; error: string };
+  | { valid: false; error: string; encrypted?: boolean };
 
 /**
  * Parse and validate an activity file's JSON content.
@@ -252,6 +272,14 @@ export function parseActivityFile(jsonString: string): ActivityFileValidation {
     return { valid: false, error: 'File must contain a JSON object' };
   }
 
+  if (isEncryptedEnvelope(parsed)) {
+    return {
+      valid: false,
+      encrypted: true,
+      error: 'This file is encrypted. Enter its passphrase to open it.'
+    };
+  }
+
   const data = parsed as Record<string, unknown>;
 
   // Check version
@@ -433,9 +461,31 @@ export function parseActivityFile(jsonString: string): ActivityFileValidation {
     }));
   }
 
+  // Anonymized exports carry the ID of their (local-only) re-identification key
+  if (data.anonymization && typeof data.anonymization === 'object') {
+    const anonymization = data.anonymization as Record<string, unknown>;
+    if (typeof anonymization.keyId === 'string') {
+      validatedData.anonymization = { keyId: anonymization.keyId };
+    }
+  }
+
   return { valid: true, data: validatedData };
 }
 
+/**
+ * Decrypt an encrypted activity file with its passphrase, then parse and validate it.
+ */
+export async function decryptActivityFile(
+  jsonString: string,
+  passphrase: string
+): Promise<ActivityFileValidation> {
+  const decrypted = await decryptText(jsonString, passphrase);
+  if (!decrypted.ok) {
+    return { valid: false, encrypted: true, error: decrypted.error };
+  }
+  return parseActivityFile(decrypted.text);
+}
+
 /**
  * Type guard for valid ProgramType values.
  */
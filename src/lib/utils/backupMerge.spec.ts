@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { planMergeRestore, previewRestore } from './backupMerge';
+import type { BackupData } from './backupRestore';
+
+function backupOf(stores: BackupData['stores']): BackupData {
+  return { version: 1, dbVersion: 9, exportedAt: '2025-03-01T09:00:00.000Z', stores };
+}
+
+const robotics = { id: 'p1', name: 'Robotics', poolIds: ['pool1'], ownerStaffIds: ['owner-1'] };
+const art = { id: 'p2', name: 'Art', poolIds: ['pool2'] };
+const pool1 = { id: 'pool1', name: 'Period 1', memberIds: ['ana', 'ben'] };
+const pool2 = { id: 'pool2', name: 'Period 2', memberIds: ['cy'] };
+const students = [
+  { id: 'ana', firstName: 'Ana', canonicalId: 'ident-ana' },
+  { id: 'ben', firstName: 'Ben' },
+  { id: 'cy', firstName: 'Cy' }
+];
+
+const backup = backupOf({
+  programs: [robotics, art],
+  pools: [pool1, pool2],
+  students,
+  studentIdentities: [{ id: 'ident-ana', displayName: 'Ana' }],
+  staff: [{ id: 'owner-1', name: 'Default Owner' }],
+  scenarios: [{ id: 'sc1', programId: 'p1', groups: [{ id: 'g1', memberIds: ['ana', 'ben'] }] }],
+  sessions: [{ id: 'sess1', programId: 'p1', name: 'Week 1' }],
+  placements: [{ id: 'pl1', sessionId: 'sess1', studentId: 'ana', groupId: 'g1' }],
+  preferences: [{ id: 'pref1', programId: 'p1', studentId: 'ana', payload: { avoid: ['ben'] } }],
+  observations: [{ id: 'obs1', programId: 'p2', content: 'Quiet' }],
+  groupTemplates: [{ id: 't1', name: 'Houses' }]
+});
+
+describe('previewRestore', () => {
+  it('classifies records per store and lists activities', () => {
+    const current = {
+      programs: [
+        { ...robotics, name: 'Robotics Club' },
+        { id: 'p3', name: 'Chess' }
+      ],
+      students: [students[0]]
+    };
+
+    const preview = previewRestore(backup, current);
+
+    expect(preview.stores.programs).toEqual({ new: 1, changed: 1, identical: 0, localOnly: 1 });
+    expect(preview.stores.students).toEqual({ new: 2, changed: 0, identical: 1, localOnly: 0 });
+    expect(preview.activities).toEqual([
+      { id: 'p1', name: 'Robotics', status: 'changed' },
+      { id: 'p2', name: 'Art', status: 'new' }
+    ]);
+  });
+});
+
+describe('planMergeRestore', () => {
+  it('brings in only the records of the selected activities', () => {
+    const plan = planMergeRestore(backup, {}, { programIds: ['p1'], onCollision: 'copy' });
+
+    const ids = Object.fromEntries(
+      Object.entries(plan.writes).map(([store, records]) => [store, records.map((r) => r.id)])
+    );
+    expect(ids).toEqual({
+      programs: ['p1'],
+      pools: ['pool1'],
+      placements: ['pl1'],
+      scenarios: ['sc1'],
+      sessions: ['sess1'],
+      preferences: ['pref1'],
+      students: ['ana', 'ben'],
+      studentIdentities: ['ident-ana'],
+      staff: ['owner-1']
+    });
+    expect(plan.remappedIds).toEqual({});
+  });
+
+  it('skips identical records and copies colliding ones under new IDs', () => {
+    const current = {
+      programs: [{ ...robotics, name: 'Robotics Club' }],
+      pools: [pool1],
+      students: [students[0], { id: 'ben', firstName: 'Benjamin' }],
+      staff: [{ id: 'owner-1', name: 'Default Owner' }]
+    };
+    let next = 0;
+
+    const plan = planMergeRestore(backup, current, {
+      programIds: ['p1'],
+      onCollision: 'copy',
+      newId: () => `new-${++next}`
+    });
+
+    // p1 and ben collide; the local pool1 then differs too because its member list changes
+    expect(plan.remappedIds).toEqual({ p1: 'new-1', ben: 'new-2', pool1: 'new-3' });
+    expect(plan.writes.programs).toEqual([{ ...robotics, id: 'new-1', poolIds: ['new-3'] }]);
+    expect(plan.writes.students).toEqual([{ id: 'new-2', firstName: 'Ben' }]);
+    expect(plan.writes.scenarios).toEqual([
+      { id: 'sc1', programId: 'new-1', groups: [{ id: 'g1', memberIds: ['ana', 'new-2'] }] }
+    ]);
+    expect(plan.writes.preferences).toEqual([
+      { id: 'pref1', programId: 'new-1', studentId: 'ana', payload: { avoid: ['new-2'] } }
+    ]);
+    expect(plan.writes.staff).toBeUndefined();
+  });
+
+  it('overwrites colliding records when replacing', () => {
+    const current = { programs: [{ ...robotics, name: 'Robotics Club' }] };
+
+    const plan = planMergeRestore(backup, current, {
+      programIds: ['p1'],
+      onCollision: 'replace',
+      includeGroupTemplates: true
+    });
+
+    expect(plan.remappedIds).toEqual({});
+    expect(plan.writes.programs).toEqual([robotics]);
+    expect(plan.writes.groupTemplates).toEqual([{ id: 't1', name: 'Houses' }]);
+    expect(plan.writeCount).toBe(11);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Merge restore: bring selected activities from a backup into existing data.
+ *
+ * A full restore replaces every store. Merging instead compares the backup with
+ * what is on this device, lets the teacher pick activities (programs), and
+ * writes only their records: the program, its rosters and students, scenarios,
+ * sessions with their placements, preferences, observations and rules. Nothing
+ * local is deleted.
+ *
+ * When a backup record has the same ID as a different local record (a colleague's
+ * backup, or an activity edited since the backup), it is either copied under a
+ * new ID — with every reference to it in the restored records rewritten — or
+ * replaces the local record.
+ *
+ * Works on raw store records as found in backup files and IndexedDB.
+ *
+ * @module utils/backupMerge
+ */
+
+import { deepEqual } from './threeWayMerge';
+import type { BackupData } from './backupRestore';
+
+type BackupStores = BackupData['stores'];
+type BackupRecord = Record<string, unknown> & { id: string };
+
+/** How a backup record compares with this device. */
+export type BackupRecordStatus = 'new' | 'changed' | 'identical';
+
+export interface StoreDiff {
+  /** In the backup only. */
+  new: number;
+  /** Same ID on both sides, different content. */
+  changed: number;
+  identical: number;
+  /** On this device only (kept by a merge restore). */
+  localOnly: number;
+}
+
+export interface BackupActivity {
+  id: string;
+  name: string;
+  status: BackupRecordStatus;
+}
+
+export interface RestorePreview {
+  stores: Record<string, StoreDiff>;
+  activities: BackupActivity[];
+}
+
+export interface MergeRestoreOptions {
+  /** Activities (program IDs) to bring in. */
+  programIds: string[];
+  /**
+   * What to do with a record whose ID is taken by a different local record:
+   * `copy` adds it under a new ID, `replace` overwrites the local one.
+   */
+  onCollision: 'copy' | 'replace';
+  /** Also bring in all group templates from the backup. */
+  includeGroupTemplates?: boolean;
+  newId?: () => string;
+}
+
+export interface MergeRestorePlan {
+  /** Records to put, per store. Stores with nothing to write are omitted. */
+  writes: Record<string, BackupRecord[]>;
+  /** Backup ID → new ID, for records copied because of a collision. */
+  remappedIds: Record<string, string>;
+  writeCount: number;
+}
+
+/** Stores whose records belong to one activity through `programId`. */
+const PROGRAM_SCOPED_STORES = ['scenarios', 'sessions', 'preferences', 'observations'] as const;
+
+function records(stores: BackupStores, storeName: string): BackupRecord[] {
+  return (stores[storeName] ?? []).filter(
+    (record): record is BackupRecord =>
+      typeof record === 'object' &&
+      record !== null &&
+      typeof (record as BackupRecord).id === 'string'
+  );
+}
+
+function indexById(stores: BackupStores, storeName: string): Map<string, BackupRecord> {
+  return new Map(records(stores, storeName).map((record) => [record.id, record]));
+}
+
+function statusOf(record: BackupRecord, local: BackupRecord | undefined): BackupRecordStatus {
+  if (!local) return 'new';
+  return deepEqual(record, local) ? 'identical' : 'changed';
+}
+
+/**
+ * Compare a backup with the current data, per store and per activity.
+ */
+export function previewRestore(backup: BackupData, current: BackupStores): RestorePreview {
+  const storeNames = new Set([...Object.keys(backup.stores), ...Object.keys(current)]);
+  const stores: Record<string, StoreDiff> = {};
+
+  for (const storeName of storeNames) {
+    const local = indexById(current, storeName);
+    const diff: StoreDiff = { new: 0, changed: 0, identical: 0, localOnly: 0 };
+    const inBackup = new Set<string>();
+    for (const record of records(backup.stores, storeName)) {
+      inBackup.add(record.id);
+      diff[statusOf(record, local.get(record.id))]++;
+    }
+    diff.localOnly = [...local.keys()].filter((id) => !inBackup.has(id)).length;
+    stores[storeName] = diff;
+  }
+
+  const localPrograms = indexById(current, 'programs');
+  const activities = records(backup.stores, 'programs').map((program) => ({
+    id: program.id,
+    name: typeof program.name === 'string' && program.name ? program.name : 'Untitled activity',
+    status: statusOf(program, localPrograms.get(program.id))
+  }));
+
+  return { stores, activities };
+}
+
+/**
+ * Every string in `value`, including object keys (preferences and pools key
+ * some maps by student ID).
+ */
+function collectStrings(value: unknown, into = new Set<string>()): Set<string> {
+  if (typeof value === 'string') {
+    into.add(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, into);
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      into.add(key);
+      collectStrings(item, into);
+    }
+  }
+  return into;
+}
+
+/**
+ * Copy of `value` with every string (and object key) found in `ids` replaced.
+ */
+function remapIds<T>(value: T, ids: Map<string, string>): T {
+  if (ids.size === 0) return value;
+  if (typeof value === 'string') return (ids.get(value) ?? value) as T;
+  if (Array.isArray(value)) return value.map((item) => remapIds(item, ids)) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [ids.get(key) ?? key, remapIds(item, ids)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * The backup records that make up the given activities, per store.
+ */
+function selectActivityRecords(
+  stores: BackupStores,
+  programIds: string[],
+  includeGroupTemplates: boolean
+): Record<string, BackupRecord[]> {
+  const programIdSet = new Set(programIds);
+  const programs = records(stores, 'programs').filter((p) => programIdSet.has(p.id));
+  const poolIds = collectStrings(programs.map((p) => [p.poolIds, p.primaryPoolId]));
+  const sessionIds = new Set(
+    records(stores, 'sessions')
+      .filter((s) => programIdSet.has(s.programId as string))
+      .map((s) => s.id)
+  );
+
+  const selected: Record<string, BackupRecord[]> = {
+    programs,
+    pools: records(stores, 'pools').filter((p) => poolIds.has(p.id)),
+    placements: records(stores, 'placements').filter((p) => sessionIds.has(p.sessionId as string)),
+    conflictRules: records(stores, 'conflictRules').filter(
+      (r) => programIdSet.has(r.programId as string) || poolIds.has(r.poolId as string)
+    ),
+    groupTemplates: includeGroupTemplates ? records(stores, 'groupTemplates') : []
+  };
+  for (const storeName of PROGRAM_SCOPED_STORES) {
+    selected[storeName] = records(stores, storeName).filter((r) =>
+      programIdSet.has(r.programId as string)
+    );
+  }
+
+  // Students, then their identities and any staff, by reference from the rest
+  const referenced = collectStrings(selected);
+  selected.students = records(stores, 'students').filter((s) => referenced.has(s.id));
+  const identityIds = collectStrings(selected.students.map((s) => s.canonicalId));
+  selected.studentIdentities = records(stores, 'studentIdentities').filter((i) =>
+    identityIds.has(i.id)
+  );
+  selected.staff = records(stores, 'staff').filter((s) => referenced.has(s.id));
+
+  return selected;
+}
+
+/**
+ * Work out what a merge restore of the selected activities writes.
+ */
+export function planMergeRestore(
+  backup: BackupData,
+  current: BackupStores,
+  options: MergeRestoreOptions
+): MergeRestorePlan {
+  const newId = options.newId ?? (() => crypto.randomUUID());
+  const selected = selectActivityRecords(
+    backup.stores,
+    options.programIds,
+    options.includeGroupTemplates ?? false
+  );
+  const local = new Map(
+    Object.keys(selected).map((storeName) => [storeName, indexById(current, storeName)])
+  );
+
+  // Copy colliding records under new IDs. Rewriting references can make another
+  // record differ from its local twin, so repeat until nothing new collides.
+  const remap = new Map<string, string>();
+  let collided = options.onCollision === 'copy';
+  while (collided) {
+    collided = false;
+    for (const [storeName, storeRecords] of Object.entries(selected)) {
+      for (const record of storeRecords) {
+        const twin = local.get(storeName)?.get(record.id);
+        if (remap.has(record.id) || !twin || deepEqual(remapIds(record, remap), twin)) continue;
+        remap.set(record.id, newId());
+        collided = true;
+      }
+    }
+  }
+
+  const writes: Record<string, BackupRecord[]> = {};
+  let writeCount = 0;
+  for (const [storeName, storeRecords] of Object.entries(selected)) {
+    const toWrite = storeRecords
+      .map((record) => remapIds(record, remap))
+      .filter((record) => {
+        const twin = local.get(storeName)?.get(record.id);
+        return !twin || !deepEqual(record, twin);
+      });
+    if (toWrite.length === 0) continue;
+    writes[storeName] = toWrite;
+    writeCount += toWrite.length;
+  }
+
+  return { writes, remappedIds: Object.fromEntries(remap), writeCount };
+}
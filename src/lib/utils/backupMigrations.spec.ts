@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DB_VERSION } from '$lib/infrastructure/repositories/indexedDb/db';
+import { BACKUP_MIGRATIONS, migrateBackup } from './backupMigrations';
+import { parseBackupFile, type BackupData } from './backupRestore';
+
+function backupAt(dbVersion: number, stores: BackupData['stores'] = {}): BackupData {
+  return { version: 1, dbVersion, exportedAt: '2025-03-01T09:00:00.000Z', stores };
+}
+
+describe('migrateBackup', () => {
+  it('upgrades old backups step by step to the current schema', () => {
+    const result = migrateBackup(backupAt(5, { programs: [{ id: 'p1' }] }));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.dbVersion).toBe(DB_VERSION);
+    expect(result.data.stores).toMatchObject({
+      programs: [{ id: 'p1' }],
+      observations: [],
+      studentIdentities: [],
+      conflictRules: []
+    });
+    expect(result.applied).toEqual(
+      BACKUP_MIGRATIONS.filter((m) => m.toVersion > 5).map((m) => m.description)
+    );
+  });
+
+  it('reshapes legacy preference payloads', () => {
+    const result = migrateBackup(
+      backupAt(9, {
+        preferences: [
+          { id: 'pr1', programId: 'p1', studentId: 's1', payload: { likeGroupIds: ['g1'] } }
+        ]
+      })
+    );
+
+    expect(result.ok && result.data.stores.preferences).toEqual([
+      {
+        id: 'pr1',
+        programId: 'p1',
+        studentId: 's1',
+        payload: { studentId: 's1', avoidStudentIds: [], likeGroupIds: ['g1'], avoidGroupIds: [] }
+      }
+    ]);
+  });
+
+  it('leaves current backups unchanged', () => {
+    const backup = backupAt(DB_VERSION, { programs: [] });
+
+    expect(migrateBackup(backup)).toEqual({ ok: true, data: backup, applied: [] });
+  });
+
+  it('rejects backups from a newer schema', () => {
+    expect(migrateBackup(backupAt(DB_VERSION + 1))).toMatchObject({
+      ok: false,
+      error: expect.stringContaining('newer version')
+    });
+  });
+
+  it('ends at the current database version', () => {
+    expect(BACKUP_MIGRATIONS.at(-1)?.toVersion).toBe(DB_VERSION);
+  });
+});
+
+describe('parseBackupFile', () => {
+  it('upgrades older backups and rejects records without an id', () => {
+    const old = parseBackupFile(JSON.stringify(backupAt(3, { programs: [{ id: 'p1' }] })));
+    const broken = parseBackupFile(JSON.stringify(backupAt(9, { programs: [{ name: 'x' }] })));
+
+    expect(old).toMatchObject({ valid: true, data: { dbVersion: DB_VERSION } });
+    expect(old.valid && old.summary.programs).toBe(1);
+    expect(broken).toEqual({
+      valid: false,
+      error: 'Invalid record 1 in store "programs": missing id.'
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Upgrades backups written by older versions of the database schema.
+ *
+ * Each step moves backup data from one `dbVersion` to the next, mirroring the
+ * schema changes in `openDb`. Backups are upgraded step by step to the current
+ * DB_VERSION before they are previewed or restored, so restore code only ever
+ * deals with the current shape.
+ *
+ * @module utils/backupMigrations
+ */
+
+import { DB_VERSION } from '$lib/infrastructure/repositories/indexedDb/db';
+import { normalizeStudentPreference } from '$lib/domain/preference';
+import type { BackupData } from './backupRestore';
+
+type BackupStores = BackupData['stores'];
+
+export interface BackupMigration {
+  /** Schema version the step produces. */
+  toVersion: number;
+  description: string;
+  migrate(stores: BackupStores): BackupStores;
+}
+
+/**
+ * Step that only introduces empty stores (older backups cannot contain them).
+ */
+function addStores(toVersion: number, ...storeNames: string[]): BackupMigration {
+  return {
+    toVersion,
+    description: `Add ${storeNames.join(', ')}`,
+    migrate: (stores) => {
+      const next = { ...stores };
+      for (const name of storeNames) next[name] ??= [];
+      return next;
+    }
+  };
+}
+
+/**
+ * Every schema step, in order. Versions without data changes are omitted.
+ */
+export const BACKUP_MIGRATIONS: readonly BackupMigration[] = [
+  addStores(2, 'groupTemplates'),
+  addStores(3, 'programs', 'pools', 'students', 'staff', 'preferences'),
+  addStores(5, 'sessions', 'placements'),
+  addStores(6, 'observations'),
+  addStores(7, 'studentIdentities'),
+  addStores(8, 'conflictRules'),
+  {
+    // The programId index stopped being unique; existing scenarios are kept as-is
+    toVersion: 9,
+    description: 'Allow several scenarios per program',
+    migrate: (stores) => stores
+  },
+  {
+    toVersion: 10,
+    description: 'Normalize preference payloads',
+    migrate: (stores) => ({
+      ...stores,
+      preferences: (stores.preferences ?? []).map((record) => {
+        const preference = record as Record<string, unknown>;
+        return {
+          ...preference,
+          payload: normalizeStudentPreference(preference.payload, String(preference.studentId))
+        };
+      })
+    })
+  }
+];
+
+export type BackupMigrationResult =
+  | { ok: true; data: BackupData; applied: string[] }
+  | { ok: false; error: string };
+
+/**
+ * Upgrade `backup` to `targetVersion` (the current schema by default).
+ * Backups from a newer schema are rejected rather than guessed at.
+ */
+export function migrateBackup(
+  backup: BackupData,
+  targetVersion: number = DB_VERSION,
+  migrations: readonly BackupMigration[] = BACKUP_MIGRATIONS
+): BackupMigrationResult {
+  if (!Number.isInteger(backup.dbVersion) || backup.dbVersion < 1) {
+    return { ok: false, error: `Invalid database version ${backup.dbVersion}.` };
+  }
+  if (backup.dbVersion > targetVersion) {
+    return {
+      ok: false,
+      error: `This backup was made with a newer version of Groupwheel (database version ${backup.dbVersion}). Please update Groupwheel.`
+    };
+  }
+
+  let stores = backup.stores;
+  const applied: string[] = [];
+  for (const migration of migrations) {
+    if (migration.toVersion <= backup.dbVersion || migration.toVersion > targetVersion) continue;
+    stores = migration.migrate(stores);
+    applied.push(migration.description);
+  }
+
+  return { ok: true, data: { ...backup, dbVersion: targetVersion, stores }, applied };
+}
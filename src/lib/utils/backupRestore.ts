@@ -2,15 +2,27 @@
  * Full database backup and restore utilities.
  *
  * Exports all IndexedDB object stores to a single JSON file,
- * enabling data transfer between browsers/computers.
+ * enabling data transfer between browsers/computers. Backups can be restored
+ * in full (replacing everything) or merged activity by activity (see
+ * utils/backupMerge). Backup files can be encrypted with a passphrase (see
+ * utils/fileEncryption).
  *
  * @module utils/backupRestore
  */
 
 import { openDb, DB_NAME, DB_VERSION } from '$lib/infrastructure/repositories/indexedDb/db';
+import { migrateBackup } from './backupMigrations';
+import { decryptText, encryptText, isEncryptedEnvelope } from './fileEncryption';
+import {
+  planMergeRestore,
+  previewRestore,
+  type MergeRestoreOptions,
+  type MergeRestorePlan,
+  type RestorePreview
+} from './backupMerge';
 
 /** All object store names in the database. */
-const ALL_STORES = [
+export const ALL_STORES = [
   'programs',
   'pools',
   'students',
@@ -21,7 +33,8 @@ const ALL_STORES = [
   'preferences',
   'observations',
   'groupTemplates',
-  'studentIdentities'
+  'studentIdentities',
+  'conflictRules'
 ] as const;
 
 export const BACKUP_FILE_VERSION = 1;
@@ -35,7 +48,7 @@ export interface BackupData {
 
 export type BackupValidation =
   | { valid: true; data: BackupData; summary: BackupSummary }
-  | { valid: false; error: string };
+  | { valid: false; error: string; encrypted?: boolean };
 
 export interface BackupSummary {
   exportedAt: string;
@@ -50,6 +63,7 @@ export interface BackupSummary {
   observations: number;
   groupTemplates: number;
   studentIdentities: number;
+  conflictRules: number;
 }
 
 /**
@@ -109,7 +123,20 @@ export function generateBackupFilename(): string {
  * Download backup data as a JSON file.
  */
 export function downloadBackupFile(data: BackupData): void {
-  const json = serializeBackup(data);
+  downloadJson(serializeBackup(data));
+}
+
+/**
+ * Download backup data encrypted with a passphrase.
+ */
+export async function downloadEncryptedBackupFile(
+  data: BackupData,
+  passphrase: string
+): Promise<void> {
+  downloadJson(await encryptText(serializeBackup(data), passphrase));
+}
+
+function downloadJson(json: string): void {
   const blob = new Blob([json], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
 
@@ -137,10 +164,26 @@ export function parseBackupFile(jsonString: string): BackupValidation {
     return { valid: false, error: 'Invalid JSON format.' };
   }
 
+  return validateBackupData(parsed);
+}
+
+/**
+ * Validate backup data that is already parsed (a backup file's content or an
+ * automatic backup snapshot), upgrading it to the current schema.
+ */
+export function validateBackupData(parsed: unknown): BackupValidation {
   if (!parsed || typeof parsed !== 'object') {
     return { valid: false, error: 'File must contain a JSON object.' };
   }
 
+  if (isEncryptedEnvelope(parsed)) {
+    return {
+      valid: false,
+      encrypted: true,
+      error: 'This backup is encrypted. Enter its passphrase to open it.'
+    };
+  }
+
   const data = parsed as Record<string, unknown>;
 
   if (typeof data.version !== 'number') {
@@ -160,19 +203,33 @@ export function parseBackupFile(jsonString: string): BackupValidation {
 
   const stores = data.stores as Record<string, unknown>;
 
-  // Validate that store values are arrays
+  // Validate that store values are arrays of records with an id (every store's key)
   for (const [key, value] of Object.entries(stores)) {
     if (!Array.isArray(value)) {
       return { valid: false, error: `Invalid data for store "${key}": expected an array.` };
     }
+    const invalid = value.findIndex(
+      (record) => !record || typeof record !== 'object' || typeof record.id !== 'string'
+    );
+    if (invalid >= 0) {
+      return {
+        valid: false,
+        error: `Invalid record ${invalid + 1} in store "${key}": missing id.`
+      };
+    }
   }
 
-  const backupData: BackupData = {
+  // Upgrade backups from older database versions to the current schema
+  const migrated = migrateBackup({
     version: data.version as number,
     dbVersion: typeof data.dbVersion === 'number' ? data.dbVersion : DB_VERSION,
     exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
     stores: stores as Record<string, unknown[]>
-  };
+  });
+  if (!migrated.ok) {
+    return { valid: false, error: migrated.error };
+  }
+  const backupData = migrated.data;
 
   const storeCount = (name: string) => (backupData.stores[name]?.length ?? 0);
 
@@ -188,12 +245,27 @@ export function parseBackupFile(jsonString: string): BackupValidation {
     preferences: storeCount('preferences'),
     observations: storeCount('observations'),
     groupTemplates: storeCount('groupTemplates'),
-    studentIdentities: storeCount('studentIdentities')
+    studentIdentities: storeCount('studentIdentities'),
+    conflictRules: storeCount('conflictRules')
   };
 
   return { valid: true, data: backupData, summary };
 }
 
+/**
+ * Decrypt an encrypted backup file with its passphrase, then parse and validate it.
+ */
+export async function decryptBackupFile(
+  jsonString: string,
+  passphrase: string
+): Promise<BackupValidation> {
+  const decrypted = await decryptText(jsonString, passphrase);
+  if (!decrypted.ok) {
+    return { valid: false, encrypted: true, error: decrypted.error };
+  }
+  return parseBackupFile(decrypted.text);
+}
+
 /**
  * Restore backup data into IndexedDB.
  * Clears existing data in each store before writing.
@@ -210,6 +282,49 @@ export async function restoreAllData(backup: BackupData): Promise<void> {
   }
 }
 
+/**
+ * Compare a backup with the data on this device, per store and per activity.
+ */
+export async function previewBackupRestore(backup: BackupData): Promise<RestorePreview> {
+  const current = await exportAllData();
+  return previewRestore(backup, current.stores);
+}
+
+/**
+ * Restore selected activities from a backup without clearing anything.
+ * Returns what was written.
+ */
+export async function mergeRestoreData(
+  backup: BackupData,
+  options: MergeRestoreOptions
+): Promise<MergeRestorePlan> {
+  const current = await exportAllData();
+  const plan = planMergeRestore(backup, current.stores, options);
+  const db = await openDb();
+
+  for (const [storeName, records] of Object.entries(plan.writes)) {
+    if (!db.objectStoreNames.contains(storeName)) continue;
+    await writeStore(db, storeName, records);
+  }
+  return plan;
+}
+
+/**
+ * Write records into a store, keeping everything else in it.
+ */
+function writeStore(db: IDBDatabase, storeName: string, records: unknown[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+
+    for (const record of records) {
+      store.put(record);
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 /**
  * Clear a store and write all records into it.
  */
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decryptText,
+  encryptText,
+  isEncryptedEnvelope,
+  validateNewPassphrase,
+  ENCRYPTED_FILE_FORMAT
+} from './fileEncryption';
+
+// Low iteration count keeps key derivation fast in tests
+const ITERATIONS = 1000;
+
+describe('encryptText / decryptText', () => {
+  it('round-trips content through an encrypted envelope', async () => {
+    const content = JSON.stringify({ students: [{ firstName: 'Zoë' }] });
+
+    const encrypted = await encryptText(content, 'correct horse', ITERATIONS);
+    const envelope = JSON.parse(encrypted);
+
+    expect(envelope).toMatchObject({
+      format: ENCRYPTED_FILE_FORMAT,
+      kdf: { name: 'PBKDF2', iterations: ITERATIONS },
+      cipher: { name: 'AES-GCM' }
+    });
+    expect(encrypted).not.toContain('Zoë');
+    expect(await decryptText(encrypted, 'correct horse')).toEqual({ ok: true, text: content });
+  });
+
+  it('uses a fresh salt and IV for every file', async () => {
+    const a = JSON.parse(await encryptText('same', 'correct horse', ITERATIONS));
+    const b = JSON.parse(await encryptText('same', 'correct horse', ITERATIONS));
+
+    expect(a.kdf.salt).not.toBe(b.kdf.salt);
+    expect(a.cipher.iv).not.toBe(b.cipher.iv);
+    expect(a.data).not.toBe(b.data);
+  });
+
+  it('rejects a wrong passphrase and tampered data', async () => {
+    const encrypted = await encryptText('secret', 'correct horse', ITERATIONS);
+    const tampered = JSON.parse(encrypted);
+    tampered.data = tampered.data.replace(/^./, (c: string) => (c === 'A' ? 'B' : 'A'));
+
+    expect(await decryptText(encrypted, 'wrong horse')).toMatchObject({ ok: false });
+    expect(await decryptText(tampered, 'correct horse')).toMatchObject({ ok: false });
+  });
+
+  it('refuses plain files', async () => {
+    expect(isEncryptedEnvelope({ version: 1, stores: {} })).toBe(false);
+    expect(await decryptText('{"version":1}', 'correct horse')).toEqual({
+      ok: false,
+      error: 'This file is not encrypted.'
+    });
+  });
+});
+
+describe('validateNewPassphrase', () => {
+  it('requires a long enough, confirmed passphrase', () => {
+    expect(validateNewPassphrase('short', 'short')).toContain('at least');
+    expect(validateNewPassphrase('correct horse', 'correct house')).toBe(
+      'Passphrases do not match.'
+    );
+    expect(validateNewPassphrase('correct horse', 'correct horse')).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Passphrase encryption for exported files (backups and activity files).
+ *
+ * Encrypted files are still JSON: an envelope holding the AES-GCM ciphertext of
+ * the original file plus what is needed to derive the key again (PBKDF2 salt
+ * and iteration count). The passphrase itself is never stored; a wrong
+ * passphrase fails GCM authentication.
+ *
+ * Uses WebCrypto only, so it works the same in the browser and in tests.
+ *
+ * @module utils/fileEncryption
+ */
+
+/** Marks a JSON file as an encrypted Groupwheel envelope. */
+export const ENCRYPTED_FILE_FORMAT = 'groupwheel-encrypted';
+
+export const ENCRYPTED_FILE_VERSION = 1;
+
+/** PBKDF2-SHA-256 iterations for new files (OWASP 2023 recommendation). */
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedFileEnvelope {
+  format: typeof ENCRYPTED_FILE_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  /** Base64 ciphertext of the original UTF-8 file content. */
+  data: string;
+}
+
+export type DecryptionResult = { ok: true; text: string } | { ok: false; error: string };
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Whether parsed JSON is an encrypted envelope (of any version).
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedFileEnvelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<string, unknown>).format === ENCRYPTED_FILE_FORMAT
+  );
+}
+
+/**
+ * Encrypt file content with a passphrase. Returns the envelope as JSON text.
+ */
+export async function encryptText(
+  text: string,
+  passphrase: string,
+  iterations = DEFAULT_PBKDF2_ITERATIONS
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+
+  const envelope: EncryptedFileEnvelope = {
+    format: ENCRYPTED_FILE_FORMAT,
+    version: ENCRYPTED_FILE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext))
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Decrypt an envelope (JSON text or already parsed) back to the original content.
+ */
+export async function decryptText(
+  envelope: string | EncryptedFileEnvelope,
+  passphrase: string
+): Promise<DecryptionResult> {
+  let parsed: unknown = envelope;
+  if (typeof envelope === 'string') {
+    try {
+      parsed = JSON.parse(envelope);
+    } catch {
+      return { ok: false, error: 'Invalid JSON format.' };
+    }
+  }
+  if (!isEncryptedEnvelope(parsed)) {
+    return { ok: false, error: 'This file is not encrypted.' };
+  }
+  if (parsed.version > ENCRYPTED_FILE_VERSION) {
+    return {
+      ok: false,
+      error: `Encryption version ${parsed.version} is newer than supported version ${ENCRYPTED_FILE_VERSION}. Please update Groupwheel.`
+    };
+  }
+
+  let key: CryptoKey;
+  let ciphertext: Uint8Array<ArrayBuffer>;
+  let iv: Uint8Array<ArrayBuffer>;
+  try {
+    key = await deriveKey(passphrase, fromBase64(parsed.kdf.salt), parsed.kdf.iterations);
+    iv = fromBase64(parsed.cipher.iv);
+    ciphertext = fromBase64(parsed.data);
+  } catch {
+    return { ok: false, error: 'The encrypted file is damaged.' };
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    return { ok: true, text: new TextDecoder().decode(plaintext) };
+  } catch {
+    return { ok: false, error: 'Incorrect passphrase, or the file is damaged.' };
+  }
+}
+
+/**
+ * Why a passphrase cannot be used to encrypt, or null if it is acceptable.
+ */
+export function validateNewPassphrase(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  }
+  if (passphrase !== confirmation) {
+    return 'Passphrases do not match.';
+  }
+  return null;
+}
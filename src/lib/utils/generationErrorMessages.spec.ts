@@ -67,6 +67,7 @@ describe('errorMessages', () => {
       'POOL_NOT_FOUND',
       'PROGRAM_NOT_FOUND',
       'GROUPING_ALGORITHM_FAILED',
+      'GROUPING_TIMED_OUT',
       'DOMAIN_VALIDATION_FAILED',
       'SCENARIO_ALREADY_EXISTS_FOR_PROGRAM',
       'INTERNAL_ERROR'
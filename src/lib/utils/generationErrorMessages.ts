@@ -12,6 +12,9 @@ export const errorMessages: Record<string, string> = {
   POOL_NOT_FOUND: 'Roster not found. Please create a new activity.',
   PROGRAM_NOT_FOUND: 'Activity not found. Please create a new activity.',
   GROUPING_ALGORITHM_FAILED: "Couldn't create balanced groups. Try adjusting group sizes.",
+  GROUPING_TIMED_OUT:
+    'Finding the best arrangement took too long. Try a faster algorithm, such as Balanced.',
+  GENERATION_CANCELLED: 'Generation cancelled.',
   DOMAIN_VALIDATION_FAILED: 'Invalid configuration. Please check your settings.',
   SCENARIO_ALREADY_EXISTS_FOR_PROGRAM: 'Groups already exist for this activity.',
   INTERNAL_ERROR: 'An unexpected error occurred. Please try again.'
@@ -7,6 +7,7 @@
  * with one tap using remembered settings.
  */
 
+import type { AttributeBalanceSpec } from '$lib/domain';
 import type { GroupShell } from '$lib/utils/groupShellValidation';
 
 export interface GenerationSettings {
@@ -16,6 +17,8 @@ export interface GenerationSettings {
   lookbackSessions: number;
   /** Custom group shells. Non-null when user has customized group names/caps. */
   customShells?: GroupShell[];
+  /** Attribute to spread evenly across groups (e.g. gender). Absent when balancing is off. */
+  balanceAttribute?: AttributeBalanceSpec;
 }
 
 const STORAGE_KEY_PREFIX = 'gw-gen-settings-';
@@ -50,6 +53,14 @@ export function getGenerationSettings(programId: string): GenerationSettings {
       if (Array.isArray(parsed.customShells) && parsed.customShells.length > 0) {
         settings.customShells = parsed.customShells;
       }
+      const balance = parsed.balanceAttribute;
+      if (
+        balance &&
+        typeof balance.attribute === 'string' &&
+        (balance.mode === 'categorical' || balance.mode === 'numeric')
+      ) {
+        settings.balanceAttribute = { attribute: balance.attribute, mode: balance.mode };
+      }
       return settings;
     }
   } catch {
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { detectTabs } from './wizardSheetDetector';
+import { getWorkbookTabData, parseSpreadsheetFile } from './spreadsheetFile';
+
+/**
+ * Build a zip archive. The reader ignores CRCs, so they are left at zero.
+ */
+async function zip(files: Record<string, string>, deflate = false): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+  const u32 = (n: number) => [...u16(n & 0xffff), ...u16(n >>> 16)];
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Array.from(encoder.encode(name));
+    let data = encoder.encode(content);
+    const size = data.length;
+    if (deflate) {
+      const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+      data = new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    const method = deflate ? 8 : 0;
+    const offset = local.length;
+    const common = [...u16(20), ...u16(0), ...u16(method), ...u32(0), ...u32(0)];
+    const sizes = [...u32(data.length), ...u32(size), ...u16(nameBytes.length), ...u16(0)];
+
+    local.push(...u32(0x04034b50), ...common, ...sizes, ...nameBytes, ...data);
+    central.push(
+      ...u32(0x02014b50),
+      ...u16(20),
+      ...common,
+      ...sizes,
+      ...u16(0),
+      ...u16(0),
+      ...u16(0),
+      ...u32(0),
+      ...u32(offset),
+      ...nameBytes
+    );
+  }
+
+  const count = Object.keys(files).length;
+  const end = [
+    ...u32(0x06054b50),
+    ...u16(0),
+    ...u16(0),
+    ...u16(count),
+    ...u16(count),
+    ...u32(central.length),
+    ...u32(local.length),
+    ...u16(0)
+  ];
+  return new Uint8Array([...local, ...central, ...end]);
+}
+
+const XLSX_FILES = {
+  'xl/workbook.xml': `<workbook xmlns:r="rel"><sheets>
+    <sheet name="Roster" sheetId="1" r:id="rId1"/>
+    <sheet name="Secret" sheetId="2" state="hidden" r:id="rId2"/>
+    <sheet name="Form Responses" sheetId="3" r:id="rId3"/>
+  </sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `<Relationships>
+    <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+    <Relationship Id="rId2" Target="worksheets/sheet2.xml"/>
+    <Relationship Id="rId3" Target="/xl/worksheets/sheet3.xml"/>
+  </Relationships>`,
+  'xl/sharedStrings.xml': `<sst>
+    <si><t>First Name</t></si>
+    <si><t>Last Name</t></si>
+    <si><r><t>Ana</t></r><r><t xml:space="preserve"> María</t></r></si>
+    <si><t>O&apos;Brien &amp; Co</t></si>
+  </sst>`,
+  'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Grade</t></is></c></row>
+    <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="s"><v>3</v></c><c r="D2"><v>7</v></c></row>
+    <row r="3"/>
+    <row r="4"><c r="A4" t="inlineStr"><is><t>Ben</t></is></c><c r="C4" t="b"><v>1</v></c></row>
+  </sheetData></worksheet>`,
+  'xl/worksheets/sheet2.xml': `<worksheet><sheetData/></worksheet>`,
+  'xl/worksheets/sheet3.xml': `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="inlineStr"><is><t>Timestamp</t></is></c><c r="B1" t="inlineStr"><is><t>Name</t></is></c><c r="C1" t="inlineStr"><is><t>1st Choice</t></is></c></row>
+  </sheetData></worksheet>`
+};
+
+const ODS_CONTENT = `<office:document-content><office:body><office:spreadsheet>
+  <table:table table:name="Class 7B">
+    <table:table-row>
+      <table:table-cell office:value-type="string"><text:p>First Name</text:p></table:table-cell>
+      <table:table-cell office:value-type="string"><text:p>Last Name</text:p></table:table-cell>
+      <table:table-cell table:number-columns-repeated="1024"/>
+    </table:table-row>
+    <table:table-row table:number-rows-repeated="2">
+      <table:table-cell table:number-columns-repeated="2"/>
+    </table:table-row>
+    <table:table-row>
+      <table:table-cell><text:p>Mary<text:s text:c="2"/>Ann</text:p></table:table-cell>
+      <table:table-cell><text:p>Lee</text:p><office:annotation><text:p>note</text:p></office:annotation></table:table-cell>
+    </table:table-row>
+    <table:table-row>
+      <table:table-cell table:number-columns-repeated="2"/>
+      <table:table-cell office:value-type="float" office:value="12"/>
+    </table:table-row>
+    <table:table-row table:number-rows-repeated="1048570">
+      <table:table-cell table:number-columns-repeated="1024"/>
+    </table:table-row>
+  </table:table>
+</office:spreadsheet></office:body></office:document-content>`;
+
+describe('parseSpreadsheetFile', () => {
+  it('reads visible xlsx worksheets as sheet data', async () => {
+    const result = await parseSpreadsheetFile(await zip(XLSX_FILES), 'Period 1.xlsx');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const { workbook } = result;
+    expect(workbook).toMatchObject({ title: 'Period 1', format: 'xlsx' });
+    expect(workbook.tabs).toEqual([
+      { gid: '0', title: 'Roster', index: 0 },
+      { gid: '1', title: 'Form Responses', index: 1 }
+    ]);
+    expect(workbook.sheets['0']).toEqual({
+      headers: ['First Name', 'Last Name', '', 'Grade'],
+      rows: [
+        { rowIndex: 2, cells: ['Ana María', "O'Brien & Co", '', '7'] },
+        { rowIndex: 4, cells: ['Ben', '', 'TRUE', ''] }
+      ]
+    });
+  });
+
+  it('reads ods tables, expanding repeats and trimming blank edges', async () => {
+    const files = {
+      mimetype: 'application/vnd.oasis.opendocument.spreadsheet',
+      'content.xml': ODS_CONTENT
+    };
+    const result = await parseSpreadsheetFile(await zip(files), 'roster.ods');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.workbook.format).toBe('ods');
+    expect(result.workbook.tabs).toEqual([{ gid: '0', title: 'Class 7B', index: 0 }]);
+    expect(result.workbook.sheets['0']).toEqual({
+      headers: ['First Name', 'Last Name', ''],
+      rows: [
+        { rowIndex: 4, cells: ['Mary  Ann', 'Lee', ''] },
+        { rowIndex: 5, cells: ['', '', '12'] }
+      ]
+    });
+  });
+
+  it('reads deflated archives', async () => {
+    const result = await parseSpreadsheetFile(await zip(XLSX_FILES, true), 'roster.xlsx');
+
+    expect(result.ok && result.workbook.sheets['0'].rows[0].cells[0]).toBe('Ana María');
+  });
+
+  it('feeds tab detection like a connected Google Sheet', async () => {
+    const result = await parseSpreadsheetFile(await zip(XLSX_FILES), 'roster.xlsx');
+    if (!result.ok) throw new Error(result.error);
+
+    const detection = detectTabs(result.workbook.tabs, getWorkbookTabData(result.workbook));
+
+    expect(detection.rosterTab?.title).toBe('Roster');
+    expect(detection.responsesTab?.title).toBe('Form Responses');
+  });
+
+  it('rejects legacy xls files and other formats', async () => {
+    const xls = new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0]);
+    const text = new TextEncoder().encode('First Name,Last Name\nAna,Lee');
+    const docx = await zip({ 'word/document.xml': '<w:document/>' });
+
+    expect(await parseSpreadsheetFile(xls, 'old.xls')).toMatchObject({
+      ok: false,
+      error: expect.stringContaining('.xls')
+    });
+    expect(await parseSpreadsheetFile(text, 'roster.csv')).toMatchObject({ ok: false });
+    expect(await parseSpreadsheetFile(docx, 'letter.docx')).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Local spreadsheet file parsing (Excel .xlsx and OpenDocument .ods).
+ *
+ * Both formats are zip archives of XML parts. The archive is unpacked with
+ * `utils/zipArchive` and the XML is read with targeted patterns, so the file
+ * never leaves the device and no library is needed. Every worksheet
+ * becomes RawSheetData — the shape Google Sheets imports produce — so the
+ * result feeds the same column mapping and tab detection.
+ *
+ * Cells are read as stored: formulas give their last calculated value, and
+ * Excel dates arrive as serial numbers (ODS files keep the displayed text).
+ *
+ * @module utils/spreadsheetFile
+ */
+
+import type { RawSheetData, RawSheetRow } from '$lib/domain/import';
+import type { SheetTab } from '$lib/domain/sheetConnection';
+import { openZipArchive } from './zipArchive';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SpreadsheetFormat = 'xlsx' | 'ods';
+
+/**
+ * A parsed workbook. Tabs use the sheet position as their gid so they can be
+ * passed anywhere a Google Sheets tab is expected.
+ */
+export interface SpreadsheetWorkbook {
+  /** File name without its extension */
+  title: string;
+  format: SpreadsheetFormat;
+  tabs: SheetTab[];
+  /** Tab gid → sheet data */
+  sheets: Record<string, RawSheetData>;
+}
+
+export type SpreadsheetParseResult =
+  | { ok: true; workbook: SpreadsheetWorkbook }
+  | { ok: false; error: string };
+
+/** Value for the `accept` attribute of spreadsheet file inputs. */
+export const SPREADSHEET_FILE_ACCEPT =
+  '.xlsx,.ods,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.oasis.opendocument.spreadsheet';
+
+export function isSpreadsheetFileName(fileName: string): boolean {
+  return /\.(xlsx|ods)$/i.test(fileName.trim());
+}
+
+/** A sheet row before headers are split off; `rowNumber` is 1-based. */
+interface GridRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+interface ParsedSheet {
+  title: string;
+  rows: GridRow[];
+}
+
+/** Old binary Office files (.xls) start with the OLE compound file marker. */
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+// =============================================================================
+// XML Helpers
+// =============================================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()] ?? match;
+    const code =
+      entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}=(?:"([^"]*)"|'([^']*)')`));
+  return match ? decodeXml(match[1] ?? match[2]) : undefined;
+}
+
+/** Convert a column reference like "AB" to a 0-based index. */
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// =============================================================================
+// XLSX
+// =============================================================================
+
+/** Concatenate the text runs of a string item, skipping phonetic hints. */
+function readXlsxText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  return Array.from(
+    withoutPhonetic.matchAll(/<(?:\w+:)?t(?:\s[^>]*?)?(?<!\/)>([\s\S]*?)<\/(?:\w+:)?t>/g),
+    ([, text]) => decodeXml(text)
+  ).join('');
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return Array.from(
+    xml.matchAll(/<(?:\w+:)?si\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?si>)/g),
+    ([, , body]) => readXlsxText(body ?? '')
+  );
+}
+
+function parseXlsxSheet(xml: string, sharedStrings: string[]): GridRow[] {
+  const rows: GridRow[] = [];
+  let rowNumber = 0;
+
+  for (const [, rowAttributes, rowBody] of xml.matchAll(
+    /<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g
+  )) {
+    rowNumber = Number(getAttribute(rowAttributes, 'r')) || rowNumber + 1;
+    const cells: string[] = [];
+    let column = 0;
+
+    for (const [, attributes, body = ''] of (rowBody ?? '').matchAll(
+      /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g
+    )) {
+      const ref = getAttribute(attributes, 'r')?.match(/^[A-Z]+/i);
+      if (ref) column = columnIndex(ref[0]);
+
+      const raw = body.match(/<(?:\w+:)?v\b[^>]*>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1] ?? '';
+      const type = getAttribute(attributes, 't');
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = readXlsxText(body);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else value = decodeXml(raw);
+
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+      column++;
+    }
+
+    rows.push({ rowNumber, cells });
+  }
+
+  return rows;
+}
+
+async function parseXlsx(read: (path: string) => Promise<string | null>): Promise<ParsedSheet[]> {
+  const workbookXml = (await read('xl/workbook.xml')) ?? '';
+  const relationshipsXml = (await read('xl/_rels/workbook.xml.rels')) ?? '';
+  const sharedStrings = parseSharedStrings((await read('xl/sharedStrings.xml')) ?? '');
+
+  const targets: Record<string, string> = {};
+  for (const [tag] of relationshipsXml.matchAll(/<(?:\w+:)?Relationship\b[^>]*>/g)) {
+    const id = getAttribute(tag, 'Id');
+    const target = getAttribute(tag, 'Target');
+    if (id && target) {
+      targets[id] = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheets: ParsedSheet[] = [];
+  for (const [tag] of workbookXml.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)) {
+    const state = getAttribute(tag, 'state');
+    if (state === 'hidden' || state === 'veryHidden') continue;
+
+    const relationshipId = getAttribute(tag, 'r:id');
+    const sheetXml =
+      relationshipId && targets[relationshipId] ? await read(targets[relationshipId]) : null;
+    if (sheetXml === null) continue;
+
+    sheets.push({
+      title: getAttribute(tag, 'name') ?? `Sheet${sheets.length + 1}`,
+      rows: parseXlsxSheet(sheetXml, sharedStrings)
+    });
+  }
+
+  return sheets;
+}
+
+// =============================================================================
+// ODS
+// =============================================================================
+
+/** Safety cap for repeated non-empty rows and cells. */
+const MAX_REPEAT = 10_000;
+
+function readOdsText(body: string): string {
+  const withoutNotes = body.replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, '');
+  return Array.from(
+    withoutNotes.matchAll(/<text:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/text:p>)/g),
+    ([, paragraph = '']) =>
+      decodeXml(
+        paragraph
+          .replace(/<text:s\b([^>]*?)\/>/g, (_, attributes: string) =>
+            ' '.repeat(Number(getAttribute(attributes, 'text:c')) || 1)
+          )
+          .replace(/<text:tab\b[^>]*\/>/g, '\t')
+          .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+          .replace(/<[^>]+>/g, '')
+      )
+  ).join('\n');
+}
+
+function parseOdsTable(xml: string): GridRow[] {
+  const rows: GridRow[] = [];
+  let rowNumber = 0;
+
+  for (const [, rowAttributes, rowBody = ''] of xml.matchAll(
+    /<table:table-row(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/table:table-row>)/g
+  )) {
+    const cells: string[] = [];
+    // Trailing blank cells are usually repeated to the sheet edge; only
+    // materialize them when something follows
+    let pendingBlanks = 0;
+
+    for (const [, attributes, body = ''] of rowBody.matchAll(
+      /<table:(?:covered-)?table-cell(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/table:(?:covered-)?table-cell>)/g
+    )) {
+      const repeat = Number(getAttribute(attributes, 'table:number-columns-repeated')) || 1;
+      const value =
+        readOdsText(body) ||
+        getAttribute(attributes, 'office:value') ||
+        getAttribute(attributes, 'office:date-value') ||
+        getAttribute(attributes, 'office:boolean-value') ||
+        '';
+
+      if (value.trim() === '') {
+        pendingBlanks += repeat;
+        continue;
+      }
+      for (; pendingBlanks > 0; pendingBlanks--) cells.push('');
+      for (let i = 0; i < Math.min(repeat, MAX_REPEAT); i++) cells.push(value);
+    }
+
+    const repeat = Number(getAttribute(rowAttributes, 'table:number-rows-repeated')) || 1;
+    if (cells.length > 0) {
+      for (let i = 0; i < Math.min(repeat, MAX_REPEAT); i++) {
+        rows.push({ rowNumber: rowNumber + i + 1, cells: [...cells] });
+      }
+    }
+    rowNumber += repeat;
+  }
+
+  return rows;
+}
+
+function parseOds(contentXml: string): ParsedSheet[] {
+  return Array.from(
+    contentXml.matchAll(/<table:table(?=[\s>])([^>]*)>([\s\S]*?)<\/table:table>/g),
+    ([, attributes, body], index) => ({
+      title: getAttribute(attributes, 'table:name') ?? `Sheet${index + 1}`,
+      rows: parseOdsTable(body)
+    })
+  );
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Use the first non-empty row as headers. Blank rows are dropped and the
+ * remaining rows keep their spreadsheet row numbers for error messages.
+ */
+function toRawSheetData(grid: GridRow[]): RawSheetData {
+  const rows = grid
+    .map(({ rowNumber, cells }) => {
+      const trimmed = cells.map((cell) => cell.trim());
+      while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') trimmed.pop();
+      return { rowNumber, cells: trimmed };
+    })
+    .filter((row) => row.cells.length > 0);
+
+  if (rows.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const width = rows.reduce((max, row) => Math.max(max, row.cells.length), 0);
+  const pad = (cells: string[]) => [...cells, ...Array<string>(width - cells.length).fill('')];
+
+  const [header, ...data] = rows;
+  return {
+    headers: pad(header.cells),
+    rows: data.map(
+      (row): RawSheetRow => ({
+        rowIndex: row.rowNumber,
+        cells: pad(row.cells)
+      })
+    )
+  };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Parse an .xlsx or .ods file into one RawSheetData per visible worksheet.
+ */
+export async function parseSpreadsheetFile(
+  file: ArrayBuffer | Uint8Array,
+  fileName: string
+): Promise<SpreadsheetParseResult> {
+  const bytes = file instanceof Uint8Array ? file : new Uint8Array(file);
+
+  if (OLE_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return {
+      ok: false,
+      error: 'Older Excel files (.xls) are not supported. Save the file as .xlsx and try again.'
+    };
+  }
+
+  const archive = openZipArchive(bytes);
+  if (!archive) {
+    return {
+      ok: false,
+      error: 'This file is not an Excel (.xlsx) or OpenDocument (.ods) spreadsheet.'
+    };
+  }
+
+  const read = (path: string) => archive.readText(path);
+
+  let format: SpreadsheetFormat;
+  let parsed: ParsedSheet[];
+  try {
+    if (archive.has('xl/workbook.xml')) {
+      format = 'xlsx';
+      parsed = await parseXlsx(read);
+    } else {
+      const content = await read('content.xml');
+      if (!content?.includes('<office:spreadsheet')) {
+        return {
+          ok: false,
+          error: 'This file is not an Excel (.xlsx) or OpenDocument (.ods) spreadsheet.'
+        };
+      }
+      format = 'ods';
+      parsed = parseOds(content);
+    }
+  } catch (e) {
+    return {
+      ok: false,
+      error: e instanceof Error ? e.message : 'The spreadsheet could not be read.'
+    };
+  }
+
+  if (parsed.length === 0) {
+    return { ok: false, error: 'The spreadsheet has no worksheets.' };
+  }
+
+  const tabs: SheetTab[] = parsed.map((sheet, index) => ({
+    gid: String(index),
+    title: sheet.title,
+    index
+  }));
+
+  return {
+    ok: true,
+    workbook: {
+      title: fileName.replace(/\.[^.]+$/, ''),
+      format,
+      tabs,
+      sheets: Object.fromEntries(
+        parsed.map((sheet, index) => [String(index), toRawSheetData(sheet.rows)])
+      )
+    }
+  };
+}
+
+/**
+ * Tab gid → data, in the form `detectTabs` expects.
+ */
+export function getWorkbookTabData(workbook: SpreadsheetWorkbook): Map<string, RawSheetData> {
+  return new Map(Object.entries(workbook.sheets));
+}
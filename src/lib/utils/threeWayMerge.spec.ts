@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { deepEqual, mergeThreeWay } from './threeWayMerge';
+
+const base = {
+  id: 'scenario-1',
+  name: 'Plan A',
+  groups: [
+    { id: 'g1', name: 'Robotics', memberIds: ['ana', 'ben'] },
+    { id: 'g2', name: 'Art', memberIds: ['cy'] }
+  ]
+};
+
+describe('mergeThreeWay', () => {
+  it('combines a group rename on one side with a student move on the other', () => {
+    const local = {
+      ...base,
+      groups: [{ ...base.groups[0], name: 'Robots' }, base.groups[1]]
+    };
+    const remote = {
+      ...base,
+      groups: [
+        { ...base.groups[0], memberIds: ['ana'] },
+        { ...base.groups[1], memberIds: ['cy', 'ben'] }
+      ]
+    };
+
+    const result = mergeThreeWay(base, local, remote);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.groups).toEqual([
+      { id: 'g1', name: 'Robots', memberIds: ['ana'] },
+      { id: 'g2', name: 'Art', memberIds: ['cy', 'ben'] }
+    ]);
+  });
+
+  it('keeps additions and deletions from either side', () => {
+    const local = { ...base, groups: [...base.groups, { id: 'g3', name: 'Music', memberIds: [] }] };
+    const remote = { ...base, groups: [base.groups[0]], note: 'Room 12' };
+
+    const result = mergeThreeWay(base, local, remote);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toEqual({
+      ...base,
+      note: 'Room 12',
+      groups: [base.groups[0], { id: 'g3', name: 'Music', memberIds: [] }]
+    });
+  });
+
+  it('reports fields edited differently on both sides', () => {
+    const local = {
+      ...base,
+      name: 'Plan B',
+      groups: [{ ...base.groups[0], memberIds: ['ana'] }, base.groups[1]]
+    };
+    const remote = {
+      ...base,
+      name: 'Plan C',
+      groups: [{ ...base.groups[0], memberIds: ['ben'] }, base.groups[1]]
+    };
+
+    expect(mergeThreeWay(base, local, remote).conflicts).toEqual(['name', 'groups[g1].memberIds']);
+  });
+
+  it('conflicts when one side deletes what the other edited', () => {
+    const local = { ...base, groups: [base.groups[0]] };
+    const remote = { ...base, groups: [base.groups[0], { ...base.groups[1], name: 'Drawing' }] };
+
+    expect(mergeThreeWay(base, local, remote).conflicts).toEqual(['groups[g2]']);
+  });
+
+  it('treats every difference as a conflict without a base', () => {
+    const result = mergeThreeWay(undefined, { id: 'x', a: 1, b: 2 }, { id: 'x', a: 1, b: 3 });
+
+    expect(result.conflicts).toEqual(['b']);
+  });
+});
+
+describe('deepEqual', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(deepEqual({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1, d: undefined })).toBe(
+      true
+    );
+    expect(deepEqual({ a: [1, 2] }, { a: [2, 1] })).toBe(false);
+  });
+});
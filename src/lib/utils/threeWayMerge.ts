@@ -0,0 +1,205 @@
+/**
+ * Three-way merge of JSON-like values for multi-device sync.
+ *
+ * Given the version both devices started from (base) and each device's edit,
+ * changes made on only one side are combined field by field. Arrays of objects
+ * with an `id` (groups, for example) are merged element by element, so renaming
+ * a group on one device and moving a student on another both survive. Anything
+ * else edited differently on both sides is reported as a conflict, and so is
+ * group membership (`memberIds`) edited on both sides: moves merged group by
+ * group could leave one student in two groups.
+ *
+ * @module utils/threeWayMerge
+ */
+
+export interface ThreeWayMergeResult<T> {
+  /** Merged value. Only meaningful when `conflicts` is empty. */
+  merged: T;
+  /** Paths edited differently on both sides, e.g. `name` or `groups[g1].memberIds`. */
+  conflicts: string[];
+}
+
+/**
+ * Merge `local` and `remote`, both derived from `base`. Pass `undefined` as base
+ * when the common ancestor is unknown; every difference then conflicts.
+ */
+export function mergeThreeWay<T>(base: unknown, local: T, remote: T): ThreeWayMergeResult<T> {
+  const conflicts: string[] = [];
+  const merged = mergeValue(base, local, remote, '', conflicts) as T;
+  return { merged, conflicts };
+}
+
+/**
+ * Structural equality for JSON-like values (key order does not matter).
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const aKeys = Object.keys(a).filter((k) => a[k] !== undefined);
+  const bKeys = Object.keys(b).filter((k) => b[k] !== undefined);
+  return aKeys.length === bKeys.length && aKeys.every((k) => deepEqual(a[k], b[k]));
+}
+
+type PlainObject = Record<string, unknown>;
+type Identified = PlainObject & { id: string };
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIdentifiedArray(value: unknown): value is Identified[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => isPlainObject(item) && typeof item.id === 'string')
+  );
+}
+
+function mergeValue(
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  path: string,
+  conflicts: string[]
+): unknown {
+  if (deepEqual(local, remote)) return local;
+  if (deepEqual(base, local)) return remote;
+  if (deepEqual(base, remote)) return local;
+
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    return mergeObjects(isPlainObject(base) ? base : {}, local, remote, path, conflicts);
+  }
+  if (
+    isIdentifiedArray(local) &&
+    isIdentifiedArray(remote) &&
+    local.length > 0 &&
+    remote.length > 0
+  ) {
+    return mergeById(isIdentifiedArray(base) ? base : [], local, remote, path, conflicts);
+  }
+
+  conflicts.push(path || '(whole record)');
+  return local;
+}
+
+function mergeObjects(
+  base: PlainObject,
+  local: PlainObject,
+  remote: PlainObject,
+  path: string,
+  conflicts: string[]
+): PlainObject {
+  const result: PlainObject = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+  for (const key of keys) {
+    const value = mergeValue(
+      base[key],
+      local[key],
+      remote[key],
+      path ? `${path}.${key}` : key,
+      conflicts
+    );
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Merge arrays of records by `id`: element edits merge recursively, additions on
+ * either side are kept, and deletions apply unless the other side edited the element.
+ */
+function mergeById(
+  base: Identified[],
+  local: Identified[],
+  remote: Identified[],
+  path: string,
+  conflicts: string[]
+): Identified[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+
+  // Follow the side that reordered; both reordering differently is a conflict
+  const localReordered = !sameRelativeOrder(base, local);
+  const remoteReordered = !sameRelativeOrder(base, remote);
+  if (localReordered && remoteReordered && !sameRelativeOrder(local, remote)) {
+    conflicts.push(`${path} (order)`);
+  }
+  const [primary, secondary] =
+    localReordered && !remoteReordered ? [local, remote] : [remote, local];
+  const order = [...primary.map((item) => item.id)];
+  for (const item of secondary) {
+    if (!order.includes(item.id)) order.push(item.id);
+  }
+
+  const conflictsBefore = conflicts.length;
+  const result: Identified[] = [];
+  for (const id of order) {
+    const value = mergeValue(
+      baseById.get(id),
+      localById.get(id),
+      remoteById.get(id),
+      `${path}[${id}]`,
+      conflicts
+    );
+    if (value !== undefined) result.push(value as Identified);
+  }
+
+  // Element conflicts already send the record to the user
+  if (conflicts.length === conflictsBefore && membershipConflicts(base, local, remote, result)) {
+    conflicts.push(path || '(whole record)');
+  }
+  return result;
+}
+
+/**
+ * Whether merging `memberIds` element by element is unsafe: both sides changed
+ * who is where, or the merged elements share a member.
+ */
+function membershipConflicts(
+  base: Identified[],
+  local: Identified[],
+  remote: Identified[],
+  merged: Identified[]
+): boolean {
+  if (![base, local, remote].some((items) => items.some((item) => 'memberIds' in item))) {
+    return false;
+  }
+  if (!sameMembership(base, local) && !sameMembership(base, remote)) return true;
+
+  const seen = new Set<unknown>();
+  for (const item of merged) {
+    for (const memberId of Array.isArray(item.memberIds) ? item.memberIds : []) {
+      if (seen.has(memberId)) return true;
+      seen.add(memberId);
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether every element has the same `memberIds` in `a` and `b` (missing counts as empty).
+ */
+function sameMembership(a: Identified[], b: Identified[]): boolean {
+  const members = (items: Identified[]) =>
+    new Map(items.map((item) => [item.id, Array.isArray(item.memberIds) ? item.memberIds : []]));
+  const aMembers = members(a);
+  const bMembers = members(b);
+  const ids = new Set([...aMembers.keys(), ...bMembers.keys()]);
+  return [...ids].every((id) => deepEqual(aMembers.get(id) ?? [], bMembers.get(id) ?? []));
+}
+
+/**
+ * Whether the elements `a` and `b` have in common appear in the same order.
+ */
+function sameRelativeOrder(a: Identified[], b: Identified[]): boolean {
+  const inB = new Set(b.map((item) => item.id));
+  const inA = new Set(a.map((item) => item.id));
+  const aIds = a.map((item) => item.id).filter((id) => inB.has(id));
+  const bIds = b.map((item) => item.id).filter((id) => inA.has(id));
+  return aIds.every((id, i) => id === bIds[i]);
+}
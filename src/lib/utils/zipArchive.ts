@@ -0,0 +1,105 @@
+/**
+ * Minimal read-only zip archive support for local file imports.
+ *
+ * Reads the central directory and inflates entries with the platform
+ * DecompressionStream, so it works the same in the browser and in tests.
+ * Stored and deflated entries are supported; zip64 and encrypted archives
+ * are not.
+ *
+ * @module utils/zipArchive
+ */
+
+export interface ZipArchive {
+  /** Entry paths as stored in the archive (directories included) */
+  paths: string[];
+  has(path: string): boolean;
+  /** Read an entry as UTF-8 text, or null when there is no such entry. */
+  readText(path: string): Promise<string | null>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+/**
+ * Read the central directory. Returns null when the bytes are not a zip.
+ */
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> | null {
+  if (bytes.length < 22) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record is 22 bytes, followed by a comment of up to 64 KiB
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      return null;
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true)
+    });
+    offset +=
+      46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+
+  return entries;
+}
+
+async function readZipText(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.localOffset, true) !== LOCAL_SIGNATURE) {
+    throw new Error('The file is damaged.');
+  }
+  const start =
+    entry.localOffset +
+    30 +
+    view.getUint16(entry.localOffset + 26, true) +
+    view.getUint16(entry.localOffset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('The file uses an unsupported compression method.');
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/**
+ * Open a zip archive. Returns null when the bytes are not a zip archive.
+ * Reading a damaged entry rejects with an Error.
+ */
+export function openZipArchive(bytes: Uint8Array): ZipArchive | null {
+  const entries = readZipEntries(bytes);
+  if (!entries) return null;
+
+  return {
+    paths: Array.from(entries.keys()),
+    has: (path) => entries.has(path),
+    readText: async (path) => {
+      const entry = entries.get(path);
+      return entry ? readZipText(bytes, entry) : null;
+    }
+  };
+}
@@ -2,93 +2,82 @@
  * Sync API endpoint.
  *
  * Handles push/pull operations for syncing data between client and server.
- * Requires authentication via Bearer token.
+ * Requires authentication via Bearer token, verified with the issuer (see
+ * $lib/server/auth); data is keyed on the token subject, and pushed entities
+ * must not name another user in `userId`.
  *
- * NOTE: This is a stub implementation. A real implementation would need:
- * - A database backend (PostgreSQL, etc.)
- * - Proper conflict resolution
- * - User data isolation
+ * Data is kept in the SyncStore selected by SYNC_STORE / SYNC_DATA_DIR
+ * (see $lib/server/sync), isolated per user. Pushes carry each entity's
+ * `_baseRevision`; stale ones are returned as `conflicts` instead of overwriting.
  */
 
 import { json, error, type RequestHandler } from '@sveltejs/kit';
-import type { SyncEntityType } from '$lib/application/ports';
-
-// In-memory storage for development/testing
-// In production, this would be replaced with a real database
-const storage: Map<string, Map<SyncEntityType, Map<string, unknown>>> = new Map();
+import { env } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+import { authenticateRequest, getTokenVerifier } from '$lib/server/auth';
+import {
+  findForeignEntities,
+  getSyncStore,
+  isSyncEntityType,
+  type SyncEntity,
+  type SyncStore
+} from '$lib/server/sync';
 
 /**
- * Validate the authorization header and extract user ID.
+ * Verify the bearer token and return the caller's stable user ID.
  */
-function validateAuth(request: Request): string {
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    throw error(401, 'Unauthorized');
-  }
-
-  const token = authHeader.slice(7);
-  if (!token) {
-    throw error(401, 'Unauthorized');
-  }
-
-  // TODO: Validate token and extract user ID
-  // For now, use a hash of the token as user ID
-  // In production, decode JWT and verify with Google
-  return btoa(token).slice(0, 32);
+async function validateAuth(request: Request): Promise<string> {
+  const verifier = getTokenVerifier({
+    PUBLIC_GOOGLE_CLIENT_ID: publicEnv.PUBLIC_GOOGLE_CLIENT_ID
+  });
+  const user = await authenticateRequest(request, verifier);
+  return user.id;
 }
 
 /**
- * Get or create user storage.
+ * The configured store (see SYNC_STORE / SYNC_DATA_DIR in .env.example).
  */
-function getUserStorage(userId: string): Map<SyncEntityType, Map<string, unknown>> {
-  if (!storage.has(userId)) {
-    storage.set(userId, new Map());
-  }
-  return storage.get(userId)!;
+function syncStore(): SyncStore {
+  return getSyncStore({ SYNC_STORE: env.SYNC_STORE, SYNC_DATA_DIR: env.SYNC_DATA_DIR });
 }
 
 /**
- * Get or create entity storage for a user.
+ * Parse the optional `since` query parameter of a pull.
  */
-function getEntityStorage(userId: string, entityType: SyncEntityType): Map<string, unknown> {
-  const userStorage = getUserStorage(userId);
-  if (!userStorage.has(entityType)) {
-    userStorage.set(entityType, new Map());
+function parseSince(url: URL): Date | undefined {
+  const since = url.searchParams.get('since');
+  if (!since) return undefined;
+
+  const date = new Date(since);
+  if (isNaN(date.getTime())) {
+    throw error(400, 'Invalid since parameter');
   }
-  return userStorage.get(entityType)!;
+  return date;
 }
 
 /**
  * Handle GET requests (pull data).
  */
 export const GET: RequestHandler = async ({ request, url }) => {
-  const userId = validateAuth(request);
-  const entityType = url.searchParams.get('entityType') as SyncEntityType | null;
+  const userId = await validateAuth(request);
+  const entityType = url.searchParams.get('entityType');
 
   if (!entityType) {
     throw error(400, 'Missing entityType parameter');
   }
 
-  const validTypes: SyncEntityType[] = [
-    'students',
-    'staff',
-    'pools',
-    'programs',
-    'scenarios',
-    'preferences',
-    'groupTemplates'
-  ];
-
-  if (!validTypes.includes(entityType)) {
+  if (!isSyncEntityType(entityType)) {
     throw error(400, 'Invalid entityType');
   }
 
-  const entityStorage = getEntityStorage(userId, entityType);
-  const entities = Array.from(entityStorage.values());
+  const since = parseSince(url);
+  // Taken before reading, so a write racing this pull is picked up by the next one
+  const lastSyncedAt = new Date();
+  const entities = await syncStore().pull(userId, entityType, since);
 
   return json({
     entities,
-    lastSyncedAt: new Date().toISOString()
+    lastSyncedAt: lastSyncedAt.toISOString()
   });
 };
 
@@ -96,12 +85,12 @@ export const GET: RequestHandler = async ({ request, url }) => {
  * Handle POST requests (push data).
  */
 export const POST: RequestHandler = async ({ request }) => {
-  const userId = validateAuth(request);
+  const userId = await validateAuth(request);
 
   let body: {
     operation: 'push';
-    entityType: SyncEntityType;
-    entities: Array<{ id: string; [key: string]: unknown }>;
+    entityType: string;
+    entities: SyncEntity[];
   };
 
   try {
@@ -116,17 +105,7 @@ export const POST: RequestHandler = async ({ request }) => {
     throw error(400, 'Invalid operation');
   }
 
-  const validTypes: SyncEntityType[] = [
-    'students',
-    'staff',
-    'pools',
-    'programs',
-    'scenarios',
-    'preferences',
-    'groupTemplates'
-  ];
-
-  if (!entityType || !validTypes.includes(entityType)) {
+  if (!isSyncEntityType(entityType)) {
     throw error(400, 'Invalid entityType');
   }
 
@@ -134,23 +113,24 @@ export const POST: RequestHandler = async ({ request }) => {
     throw error(400, 'entities must be an array');
   }
 
-  const entityStorage = getEntityStorage(userId, entityType);
-
-  // Save entities (last-write-wins)
-  for (const entity of entities) {
-    if (!entity.id) {
-      continue; // Skip entities without ID
-    }
-    entityStorage.set(entity.id, {
-      ...entity,
-      _syncedAt: new Date().toISOString()
-    });
+  const foreign = findForeignEntities(entities, userId);
+  if (foreign.length > 0) {
+    throw error(403, `Entities belong to another user: ${foreign.join(', ')}`);
   }
 
+  // Stale pushes come back as conflicts for the client to merge
+  const { syncedCount, syncedAt, revisions, conflicts } = await syncStore().push(
+    userId,
+    entityType,
+    entities
+  );
+
   return json({
     success: true,
-    syncedCount: entities.length,
-    lastSyncedAt: new Date().toISOString()
+    syncedCount,
+    revisions,
+    conflicts,
+    lastSyncedAt: syncedAt.toISOString()
   });
 };
 
@@ -158,16 +138,19 @@ export const POST: RequestHandler = async ({ request }) => {
  * Handle DELETE requests (delete entities).
  */
 export const DELETE: RequestHandler = async ({ request, url }) => {
-  const userId = validateAuth(request);
-  const entityType = url.searchParams.get('entityType') as SyncEntityType | null;
+  const userId = await validateAuth(request);
+  const entityType = url.searchParams.get('entityType');
   const entityId = url.searchParams.get('entityId');
 
   if (!entityType || !entityId) {
     throw error(400, 'Missing entityType or entityId parameter');
   }
 
-  const entityStorage = getEntityStorage(userId, entityType);
-  const deleted = entityStorage.delete(entityId);
+  if (!isSyncEntityType(entityType)) {
+    throw error(400, 'Invalid entityType');
+  }
+
+  const deleted = await syncStore().delete(userId, entityType, entityId);
 
   return json({
     success: true,
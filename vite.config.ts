@@ -7,6 +7,9 @@ export default defineConfig({
   ssr: {
     noExternal: ['@atlaskit/pragmatic-drag-and-drop']
   },
+  worker: {
+    format: 'es'
+  },
   test: {
     expect: { requireAssertions: true },
     projects: [